@@ -10,14 +10,27 @@ import ModeSelection from "@/pages/mode-selection";
 import CustomerAuth from "@/pages/customer-auth";
 import CustomerHome from "@/pages/customer-home";
 import CustomerTopup from "@/pages/customer-topup";
+import CustomerFakeCheckout from "@/pages/customer-fake-checkout";
 import CustomerQR from "@/pages/customer-qr";
 import CustomerHistory from "@/pages/customer-history";
+import CustomerTransfer from "@/pages/customer-transfer";
+import CustomerReceipt from "@/pages/customer-receipt";
+import CustomerGiftClaim from "@/pages/customer-gift-claim";
 import AdminAuth from "@/pages/admin-auth";
 import AdminDashboard from "./pages/admin-dashboard";
 import AdminCustomers from "@/pages/admin-customers";
 import AdminSummaries from "@/pages/admin-summaries";
 import AdminLedger from "@/pages/admin-ledger";
+import AdminWebhooks from "@/pages/admin-webhooks";
+import AdminPackages from "@/pages/admin-packages";
+import AdminStamps from "@/pages/admin-stamps";
+import AdminReferrals from "@/pages/admin-referrals";
+import AdminVouchers from "@/pages/admin-vouchers";
+import AdminShifts from "@/pages/admin-shifts";
+import AdminProducts from "@/pages/admin-products";
 import POSCharge from "@/pages/pos-charge";
+import POSTopup from "@/pages/pos-topup";
+import POSShift from "@/pages/pos-shift";
 import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
 
@@ -37,8 +50,12 @@ function App() {
               {/* Customer routes (JWT protected) */}
               <Route path="/home" component={CustomerHome} />
               <Route path="/topup" component={CustomerTopup} />
+              <Route path="/topup/fake-checkout/:paymentId" component={CustomerFakeCheckout} />
               <Route path="/qr" component={CustomerQR} />
               <Route path="/history" component={CustomerHistory} />
+              <Route path="/transfer" component={CustomerTransfer} />
+              <Route path="/receipts/:id" component={CustomerReceipt} />
+              <Route path="/gifts/claim" component={CustomerGiftClaim} />
 
               {/* Admin Routes */}
               <Route path="/admin/login" component={AdminAuth} />
@@ -46,11 +63,20 @@ function App() {
               <Route path="/admin/customers" component={AdminCustomers} />
               <Route path="/admin/summaries" component={AdminSummaries} />
               <Route path="/admin/ledger" component={AdminLedger} />
+              <Route path="/admin/webhooks" component={AdminWebhooks} />
+              <Route path="/admin/packages" component={AdminPackages} />
+              <Route path="/admin/stamps" component={AdminStamps} />
+              <Route path="/admin/referrals" component={AdminReferrals} />
+              <Route path="/admin/vouchers" component={AdminVouchers} />
+              <Route path="/admin/shifts" component={AdminShifts} />
+              <Route path="/admin/products" component={AdminProducts} />
 
               {/* POS routes */}
               <Route path="/pos/*">
                 <Switch>
                   <Route path="/pos/charge" component={POSCharge} />
+                  <Route path="/pos/topup" component={POSTopup} />
+                  <Route path="/pos/shift" component={POSShift} />
                 </Switch>
               </Route>
 
@@ -0,0 +1,90 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Printer } from "lucide-react";
+
+type PrintKind = "receipt" | "topup" | "shift";
+
+interface PosPrintButtonsProps {
+  kind: PrintKind;
+  id: string;
+}
+
+// Printing to the counter printer is only offered when the server has its address
+export function PosPrintButtons({ kind, id }: PosPrintButtonsProps) {
+  const { toast } = useToast();
+  const url = `/api/pos/print/${kind}/${id}`;
+
+  const { data: config } = useQuery<{ printerConfigured: boolean }>({
+    queryKey: ["/api/pos/print/config"]
+  });
+
+  const printMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(url, { method: "POST", credentials: "include" });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Chyba při tisku");
+      }
+      return response.json();
+    },
+    onSuccess: () => toast({ title: "Odesláno na tiskárnu" }),
+    onError: (error: any) => {
+      toast({
+        title: "Tisk se nezdařil",
+        description: error.message || "Tiskárna není dostupná",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // ESC/POS bytes for printing from another device
+  const download = async () => {
+    try {
+      const response = await fetch(url, { credentials: "include" });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Chyba při stahování");
+      }
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? `${kind}.bin`;
+      const objectUrl = window.URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(objectUrl);
+    } catch (error: any) {
+      toast({
+        title: "Stažení se nezdařilo",
+        description: error.message || "Soubor pro tiskárnu se nepodařilo stáhnout",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      {config?.printerConfigured && (
+        <Button
+          variant="outline"
+          onClick={() => printMutation.mutate()}
+          disabled={printMutation.isPending}
+          className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl h-12 px-6"
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          {printMutation.isPending ? "Tisk..." : "Tisknout"}
+        </Button>
+      )}
+      <Button
+        variant="outline"
+        onClick={download}
+        className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl h-12 px-6"
+      >
+        <Download className="w-4 h-4 mr-2" />
+        Stáhnout pro tiskárnu
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Gift, Stamp } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import type { StampCard } from "@/types";
+
+interface StampCardsProps {
+  title: string;
+  // Shown next to each reward that is waiting to be redeemed
+  rewardReadyLabel: string;
+}
+
+/**
+ * Customer's stamp cards from GET /api/me/stamp-cards; renders nothing while there
+ * are no active programmes
+ */
+export function StampCards({ title, rewardReadyLabel }: StampCardsProps) {
+  const { data } = useQuery<{ cards: StampCard[] }>({
+    queryKey: ["/api/me/stamp-cards"]
+  });
+
+  if (!data || data.cards.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-yellow-50 border-2 border-yellow-300 rounded-2xl shadow-strong mb-8">
+      <CardContent className="p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Stamp size={20} className="text-orange-700" />
+          <h3 className="text-xl font-bold text-gray-900">{title}</h3>
+        </div>
+        <div className="space-y-4">
+          {data.cards.map(card => (
+            <div key={card.programId} className="p-4 bg-white rounded-xl border border-yellow-300">
+              <div className="flex items-center justify-between mb-3">
+                <span className="font-semibold text-gray-900">{card.name}</span>
+                <span className="text-sm font-medium text-gray-700">
+                  {card.stamps}/{card.stampsRequired}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {Array.from({ length: card.stampsRequired }, (_, index) => (
+                  <div
+                    key={index}
+                    className={`w-8 h-8 rounded-full border-2 flex items-center justify-center ${
+                      index < card.stamps
+                        ? "bg-orange-500 border-orange-600"
+                        : "bg-yellow-100 border-yellow-300"
+                    }`}
+                  >
+                    {index < card.stamps && <Stamp size={14} className="text-white" />}
+                  </div>
+                ))}
+              </div>
+              {card.description && <p className="text-sm text-gray-600 mt-3">{card.description}</p>}
+              {card.rewards.map(reward => (
+                <div
+                  key={reward.id}
+                  className="flex items-center justify-between mt-3 p-3 rounded-xl bg-green-50 border border-green-300 text-green-800"
+                >
+                  <span className="flex items-center gap-2 font-medium">
+                    <Gift size={16} />
+                    {card.rewardName}
+                  </span>
+                  <span className="text-sm font-bold">{rewardReadyLabel}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,19 @@
+import { Badge } from "@/components/ui/badge";
+import { Award } from "lucide-react";
+import type { CustomerTier } from "@/types";
+
+const TIER_STYLES: Record<CustomerTier, { label: string; className: string }> = {
+  bronze: { label: "Bronze", className: "bg-orange-100 text-orange-800 border-orange-300" },
+  silver: { label: "Silver", className: "bg-slate-100 text-slate-700 border-slate-300" },
+  gold: { label: "Gold", className: "bg-yellow-100 text-yellow-800 border-yellow-400" }
+};
+
+export function TierBadge({ tier }: { tier: CustomerTier }) {
+  const style = TIER_STYLES[tier];
+  return (
+    <Badge variant="outline" className={`gap-1 ${style.className}`}>
+      <Award className="w-3 h-3" />
+      {style.label}
+    </Badge>
+  );
+}
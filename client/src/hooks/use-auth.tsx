@@ -13,8 +13,8 @@ interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
-  signup: (email: string, name: string, password: string) => Promise<void>;
-  googleAuth: (idToken: string) => Promise<void>;
+  signup: (email: string, name: string, password: string, referralCode?: string) => Promise<void>;
+  googleAuth: (idToken: string, referralCode?: string) => Promise<void>;
   logout: () => Promise<void>;
   logoutEverywhere: () => Promise<void>;
   refreshAuth: () => Promise<void>;
@@ -178,10 +178,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const signup = async (email: string, name: string, password: string) => {
+  const signup = async (email: string, name: string, password: string, referralCode?: string) => {
     setIsLoading(true);
     try {
-      const response = await httpClient.post("/api/auth/signup", { email, name, password });
+      const response = await httpClient.post("/api/auth/signup", { email, name, password, referralCode });
       const { user: userData, accessToken } = response;
       // 🔒 Refresh token automatically set as HTTP-only cookie
       
@@ -194,10 +194,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const googleAuth = async (idToken: string) => {
+  const googleAuth = async (idToken: string, referralCode?: string) => {
     setIsLoading(true);
     try {
-      const response = await httpClient.post("/api/auth/google", { idToken });
+      const response = await httpClient.post("/api/auth/google", { idToken, referralCode });
       const { user: userData, accessToken } = response;
       
       setTokens(accessToken);
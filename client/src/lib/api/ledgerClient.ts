@@ -13,6 +13,14 @@ import {
   CustomerSearchQuery,
   CustomerSearchResponse,
   TrialBalanceRunResponse,
+  RebuildBalanceCacheResponse,
+  ListAccountsResponse,
+  CreateAccountRequest,
+  UpdateAccountRequest,
+  AccountResponse,
+  CreatePeriodRequest,
+  ListPeriodsResponse,
+  PeriodResponse,
   LedgerErrorResponse
 } from '@shared/contracts/ledger'
 
@@ -158,6 +166,94 @@ export class LedgerClient {
     }
     return response.json()
   }
+
+  async rebuildBalanceCache(): Promise<RebuildBalanceCacheResponse> {
+    const response = await fetch(`${this.baseUrl}/trial-balance/rebuild-cache`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' }
+    })
+    
+    if (!response.ok) {
+      const error: LedgerErrorResponse = await response.json()
+      throw new Error(`${error.error}: ${error.message}`)
+    }
+    return response.json()
+  }
+
+  // 4.6 Chart of accounts
+  async listAccounts(): Promise<ListAccountsResponse> {
+    const response = await fetch(`${this.baseUrl}/accounts`)
+    if (!response.ok) {
+      const error: LedgerErrorResponse = await response.json()
+      throw new Error(`${error.error}: ${error.message}`)
+    }
+    return response.json()
+  }
+
+  async createAccount(request: CreateAccountRequest): Promise<AccountResponse> {
+    const response = await fetch(`${this.baseUrl}/accounts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    })
+    
+    if (!response.ok) {
+      const error: LedgerErrorResponse = await response.json()
+      throw new Error(`${error.error}: ${error.message}`)
+    }
+    return response.json()
+  }
+
+  async updateAccount(code: number, request: UpdateAccountRequest): Promise<AccountResponse> {
+    const response = await fetch(`${this.baseUrl}/accounts/${code}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    })
+    
+    if (!response.ok) {
+      const error: LedgerErrorResponse = await response.json()
+      throw new Error(`${error.error}: ${error.message}`)
+    }
+    return response.json()
+  }
+
+  // 4.7 Accounting periods
+  async listPeriods(): Promise<ListPeriodsResponse> {
+    const response = await fetch(`${this.baseUrl}/periods`)
+    if (!response.ok) {
+      const error: LedgerErrorResponse = await response.json()
+      throw new Error(`${error.error}: ${error.message}`)
+    }
+    return response.json()
+  }
+
+  async createPeriod(request: CreatePeriodRequest): Promise<PeriodResponse> {
+    const response = await fetch(`${this.baseUrl}/periods`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    })
+    
+    if (!response.ok) {
+      const error: LedgerErrorResponse = await response.json()
+      throw new Error(`${error.error}: ${error.message}`)
+    }
+    return response.json()
+  }
+
+  async closePeriod(periodId: string): Promise<PeriodResponse> {
+    const response = await fetch(`${this.baseUrl}/periods/${periodId}/close`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' }
+    })
+    
+    if (!response.ok) {
+      const error: LedgerErrorResponse = await response.json()
+      throw new Error(`${error.error}: ${error.message}`)
+    }
+    return response.json()
+  }
 }
 
 // Export singleton instance
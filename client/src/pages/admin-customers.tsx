@@ -10,6 +10,8 @@ import { httpClient } from "@/lib/http";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect } from "react";
+import { TierBadge } from "@/components/tier-badge";
+import { formatCurrency } from "@/utils/currency";
 
 export default function AdminCustomers() {
   const [, setLocation] = useLocation();
@@ -178,8 +180,14 @@ export default function AdminCustomers() {
                   <div key={customer.id} className="bg-amber-50/70 rounded-2xl p-4 border border-amber-100 hover:bg-amber-50 transition-colors">
                     <div className="flex items-center justify-between mb-3">
                       <div className="flex-1">
-                        <p className="font-semibold text-amber-900 text-lg">{customer.name}</p>
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-amber-900 text-lg">{customer.name}</p>
+                          <TierBadge tier={customer.tier} />
+                        </div>
                         <p className="text-sm text-amber-700">{customer.email}</p>
+                        <p className="text-xs text-amber-600">
+                          Rolling spend {formatCurrency(customer.tierSpendCents)}
+                        </p>
                       </div>
                       <div className="text-right">
                         <p className="font-bold text-amber-900 text-lg">
@@ -2,7 +2,7 @@
 import { useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Coffee, LogOut, Users, Wallet, Gift, TrendingUp, Store, Plus, QrCode, History, CreditCard, Calculator } from "lucide-react";
+import { Coffee, LogOut, Users, Wallet, Gift, TrendingUp, Store, Plus, QrCode, History, CreditCard, Calculator, Webhook, Package, Stamp, UserPlus, Ticket, Clock, ShoppingBasket } from "lucide-react";
 import { useAdminAuth } from "@/hooks/use-admin-auth";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
@@ -230,6 +230,99 @@ export default function AdminDashboard() {
                   <p className="text-stone-600 text-sm">Manage accounts and transactions</p>
                 </CardContent>
               </Card>
+
+              <Card 
+                className="border-2 border-green-200 bg-green-50/50 hover:bg-green-50 transition-all duration-200 cursor-pointer rounded-3xl shadow-lg hover:shadow-xl group"
+                onClick={() => setLocation("/admin/packages")}
+              >
+                <CardContent className="p-6 text-center">
+                  <div className="w-16 h-16 bg-green-200 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:bg-green-300 transition-colors">
+                    <Package className="w-8 h-8 text-green-700" />
+                  </div>
+                  <h3 className="text-lg font-bold text-stone-800 mb-2">Top-up Packages</h3>
+                  <p className="text-stone-600 text-sm">Prices, bonuses and promotions</p>
+                </CardContent>
+              </Card>
+
+              <Card 
+                className="border-2 border-amber-200 bg-amber-50/50 hover:bg-amber-50 transition-all duration-200 cursor-pointer rounded-3xl shadow-lg hover:shadow-xl group"
+                onClick={() => setLocation("/admin/stamps")}
+              >
+                <CardContent className="p-6 text-center">
+                  <div className="w-16 h-16 bg-amber-200 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:bg-amber-300 transition-colors">
+                    <Stamp className="w-8 h-8 text-amber-700" />
+                  </div>
+                  <h3 className="text-lg font-bold text-stone-800 mb-2">Stamp Cards</h3>
+                  <p className="text-stone-600 text-sm">Stamp rules and rewards</p>
+                </CardContent>
+              </Card>
+
+              <Card 
+                className="border-2 border-rose-200 bg-rose-50/50 hover:bg-rose-50 transition-all duration-200 cursor-pointer rounded-3xl shadow-lg hover:shadow-xl group"
+                onClick={() => setLocation("/admin/referrals")}
+              >
+                <CardContent className="p-6 text-center">
+                  <div className="w-16 h-16 bg-rose-200 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:bg-rose-300 transition-colors">
+                    <UserPlus className="w-8 h-8 text-rose-700" />
+                  </div>
+                  <h3 className="text-lg font-bold text-stone-800 mb-2">Referrals</h3>
+                  <p className="text-stone-600 text-sm">Referral bonuses and abuse rules</p>
+                </CardContent>
+              </Card>
+
+              <Card 
+                className="border-2 border-indigo-200 bg-indigo-50/50 hover:bg-indigo-50 transition-all duration-200 cursor-pointer rounded-3xl shadow-lg hover:shadow-xl group"
+                onClick={() => setLocation("/admin/vouchers")}
+              >
+                <CardContent className="p-6 text-center">
+                  <div className="w-16 h-16 bg-indigo-200 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:bg-indigo-300 transition-colors">
+                    <Ticket className="w-8 h-8 text-indigo-700" />
+                  </div>
+                  <h3 className="text-lg font-bold text-stone-800 mb-2">Vouchers</h3>
+                  <p className="text-stone-600 text-sm">Promo codes and code batches</p>
+                </CardContent>
+              </Card>
+
+              <Card 
+                className="border-2 border-cyan-200 bg-cyan-50/50 hover:bg-cyan-50 transition-all duration-200 cursor-pointer rounded-3xl shadow-lg hover:shadow-xl group"
+                onClick={() => setLocation("/admin/shifts")}
+              >
+                <CardContent className="p-6 text-center">
+                  <div className="w-16 h-16 bg-cyan-200 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:bg-cyan-300 transition-colors">
+                    <Clock className="w-8 h-8 text-cyan-700" />
+                  </div>
+                  <h3 className="text-lg font-bold text-stone-800 mb-2">Shifts</h3>
+                  <p className="text-stone-600 text-sm">Cash drawer reconciliation and Z-reports</p>
+                </CardContent>
+              </Card>
+
+              <Card 
+                className="border-2 border-emerald-200 bg-emerald-50/50 hover:bg-emerald-50 transition-all duration-200 cursor-pointer rounded-3xl shadow-lg hover:shadow-xl group"
+                onClick={() => setLocation("/admin/products")}
+              >
+                <CardContent className="p-6 text-center">
+                  <div className="w-16 h-16 bg-emerald-200 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:bg-emerald-300 transition-colors">
+                    <ShoppingBasket className="w-8 h-8 text-emerald-700" />
+                  </div>
+                  <h3 className="text-lg font-bold text-stone-800 mb-2">Products</h3>
+                  <p className="text-stone-600 text-sm">Catalogue and product sales</p>
+                </CardContent>
+              </Card>
+
+              {admin?.role === "manager" && (
+                <Card 
+                  className="border-2 border-stone-200 bg-stone-50/50 hover:bg-stone-100 transition-all duration-200 cursor-pointer rounded-3xl shadow-lg hover:shadow-xl group"
+                  onClick={() => setLocation("/admin/webhooks")}
+                >
+                  <CardContent className="p-6 text-center">
+                    <div className="w-16 h-16 bg-stone-200 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:bg-stone-300 transition-colors">
+                      <Webhook className="w-8 h-8 text-stone-700" />
+                    </div>
+                    <h3 className="text-lg font-bold text-stone-800 mb-2">Webhooks</h3>
+                    <p className="text-stone-600 text-sm">Notify external systems of events</p>
+                  </CardContent>
+                </Card>
+              )}
             </div>
 
             {/* Recent Activity */}
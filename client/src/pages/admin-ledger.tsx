@@ -19,7 +19,8 @@ import {
   XCircle,
   AlertTriangle,
   Clock,
-  Lock
+  Lock,
+  Wrench
 } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
@@ -37,7 +38,7 @@ interface Customer {
 
 interface LedgerTransaction {
   id: string;
-  type: 'topup' | 'charge' | 'bonus' | 'reversal';
+  type: 'topup' | 'charge' | 'bonus' | 'adjustment' | 'expiry' | 'transfer' | 'reversal';
   createdAt: string;
   context: Record<string, any>;
   reversalOf?: string;
@@ -243,6 +244,33 @@ export default function AdminLedger() {
     }
   });
 
+  const rebuildBalanceCacheMutation = useMutation({
+    mutationFn: () => ledgerClient.rebuildBalanceCache(),
+    onSuccess: (result) => {
+      toast({ 
+        title: "Balance cache rebuilt", 
+        description: `${result.repaired.length} balance(s) repaired (${result.rowsUpdated} updated, ${result.rowsInserted} inserted)`
+      });
+      trialBalanceQuery.refetch();
+    },
+    onError: (error: any) => {
+      toast({ 
+        title: "Rebuild failed", 
+        description: error.message || "An error occurred",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const drift = trialBalanceQuery.data?.drift ?? [];
+  const getTrialBalanceLabel = () => {
+    const data = trialBalanceQuery.data;
+    if (!data) return 'Unknown';
+    if (data.status === 'ok') return 'Balanced';
+    if (data.delta !== 0) return `Delta: ${data.delta}`;
+    return `${drift.length} drifted balance(s)`;
+  };
+
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'topup': return <Plus className="w-4 h-4 text-green-600" />;
@@ -258,6 +286,9 @@ export default function AdminLedger() {
       case 'topup': return 'bg-green-100 text-green-800 border-green-200';
       case 'charge': return 'bg-red-100 text-red-800 border-red-200';
       case 'bonus': return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'adjustment': return 'bg-purple-100 text-purple-800 border-purple-200';
+      case 'expiry': return 'bg-stone-100 text-stone-800 border-stone-200';
+      case 'transfer': return 'bg-teal-100 text-teal-800 border-teal-200';
       case 'reversal': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -286,7 +317,7 @@ export default function AdminLedger() {
                     <XCircle className="w-4 h-4 text-red-600" />
                   )}
                   <span className={`text-sm ${trialBalanceQuery.data?.status === 'ok' ? 'text-green-600' : 'text-red-600'}`}>
-                    {trialBalanceQuery.data?.status === 'ok' ? 'Balanced' : `Delta: ${trialBalanceQuery.data?.delta || 'Unknown'}`}
+                    {getTrialBalanceLabel()}
                   </span>
                   <Button
                     size="sm"
@@ -296,7 +327,34 @@ export default function AdminLedger() {
                   >
                     Refresh
                   </Button>
+                  {drift.length > 0 && admin?.role === 'manager' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => rebuildBalanceCacheMutation.mutate()}
+                      disabled={rebuildBalanceCacheMutation.isPending}
+                    >
+                      <Wrench className="w-4 h-4 mr-1" />
+                      Rebuild cache
+                    </Button>
+                  )}
                 </div>
+                {drift.length > 0 && (
+                  <div className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+                    {drift.slice(0, 5).map((item) => (
+                      <div key={`${item.accountCode}:${item.userId ?? ''}`} className="flex items-center gap-1 text-xs text-stone-600">
+                        <AlertTriangle className="w-3 h-3 text-amber-600" />
+                        <span className="font-mono">{item.accountCode}</span>
+                        {item.userId && <span className="font-mono">{item.userId.slice(0, 8)}</span>}
+                        <span className="text-red-600">{item.driftMinor > 0 ? '+' : ''}{formatCurrency(item.driftMinor)}</span>
+                        {item.sinceAt && <span>since {new Date(item.sinceAt).toLocaleString()}</span>}
+                      </div>
+                    ))}
+                    {drift.length > 5 && (
+                      <div className="text-xs text-stone-500">... and {drift.length - 5} more</div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </Card>
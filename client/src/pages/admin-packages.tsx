@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Archive, ArrowLeft, Coffee, Package, Pencil, Plus, RotateCcw } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { httpClient } from "@/lib/http";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+import type { TopUpPackage } from "@/types";
+
+interface AdminTopupPackage {
+  id: string;
+  code: string;
+  version: number;
+  name: string;
+  payCents: number;
+  bonusCents: number;
+  isPopular: boolean;
+  sortOrder: number;
+  isActive: boolean;
+  validFrom: string | null;
+  validTo: string | null;
+  promoLabel: string | null;
+  promoBonusBps: number | null;
+  promoStartsAt: string | null;
+  promoEndsAt: string | null;
+  available: boolean;
+  offer: TopUpPackage;
+}
+
+// Form state keeps the raw input strings; amounts in CZK, promo in percent
+interface PackageForm {
+  code: string;
+  name: string;
+  pay: string;
+  bonus: string;
+  sortOrder: string;
+  isPopular: boolean;
+  validFrom: string;
+  validTo: string;
+  promoLabel: string;
+  promoPercent: string;
+  promoStartsAt: string;
+  promoEndsAt: string;
+}
+
+const emptyForm: PackageForm = {
+  code: "",
+  name: "",
+  pay: "",
+  bonus: "",
+  sortOrder: "0",
+  isPopular: false,
+  validFrom: "",
+  validTo: "",
+  promoLabel: "",
+  promoPercent: "",
+  promoStartsAt: "",
+  promoEndsAt: ""
+};
+
+// ISO <-> value of <input type="datetime-local"> (local time)
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toForm = (pkg: AdminTopupPackage): PackageForm => ({
+  code: pkg.code,
+  name: pkg.name,
+  pay: String(pkg.payCents / 100),
+  bonus: String(pkg.bonusCents / 100),
+  sortOrder: String(pkg.sortOrder),
+  isPopular: pkg.isPopular,
+  validFrom: toLocalInput(pkg.validFrom),
+  validTo: toLocalInput(pkg.validTo),
+  promoLabel: pkg.promoLabel ?? "",
+  promoPercent: pkg.promoBonusBps !== null ? String(pkg.promoBonusBps / 100) : "",
+  promoStartsAt: toLocalInput(pkg.promoStartsAt),
+  promoEndsAt: toLocalInput(pkg.promoEndsAt)
+});
+
+const toPayload = (form: PackageForm) => ({
+  name: form.name,
+  payCents: Math.round(Number(form.pay) * 100),
+  bonusCents: Math.round(Number(form.bonus) * 100),
+  sortOrder: Number(form.sortOrder) || 0,
+  isPopular: form.isPopular,
+  validFrom: fromLocalInput(form.validFrom),
+  validTo: fromLocalInput(form.validTo),
+  promoLabel: form.promoLabel || null,
+  promoBonusBps: form.promoPercent ? Math.round(Number(form.promoPercent) * 100) : null,
+  promoStartsAt: fromLocalInput(form.promoStartsAt),
+  promoEndsAt: fromLocalInput(form.promoEndsAt)
+});
+
+export default function AdminPackages() {
+  const [, setLocation] = useLocation();
+  const { admin, isAuthenticated } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // null = create a new package, otherwise the code being edited
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [form, setForm] = useState<PackageForm>(emptyForm);
+
+  const isManager = admin?.role === "manager";
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation("/admin/login");
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data } = useQuery<{ packages: AdminTopupPackage[] }>({
+    queryKey: ["/api/admin/topup-packages"],
+    queryFn: () => httpClient.get("/api/admin/topup-packages"),
+    enabled: isAuthenticated
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/topup-packages"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/topup-packages"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Request failed",
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => editingCode
+      ? httpClient.patch(`/api/admin/topup-packages/${editingCode}`, toPayload(form))
+      : httpClient.post("/api/admin/topup-packages", { code: form.code, ...toPayload(form) }),
+    onSuccess: (pkg: AdminTopupPackage) => {
+      onSaved();
+      setEditingCode(null);
+      setForm(emptyForm);
+      toast({ title: `${pkg.code} saved`, description: `Version ${pkg.version}` });
+    },
+    onError
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: (pkg: AdminTopupPackage) => pkg.isActive
+      ? httpClient.delete(`/api/admin/topup-packages/${pkg.code}`)
+      : httpClient.patch(`/api/admin/topup-packages/${pkg.code}`, { isActive: true }),
+    onSuccess: onSaved,
+    onError
+  });
+
+  const setField = <K extends keyof PackageForm>(key: K, value: PackageForm[K]) =>
+    setForm(current => ({ ...current, [key]: value }));
+
+  const field = (key: keyof PackageForm, label: string, type = "text") => (
+    <div className="space-y-1">
+      <Label htmlFor={key}>{label}</Label>
+      <Input
+        id={key}
+        type={type}
+        value={form[key] as string}
+        onChange={(e) => setField(key, e.target.value)}
+        disabled={key === "code" && editingCode !== null}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Coffee className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Top-up Packages</h1>
+                <p className="text-sm text-stone-600">Prices, bonuses and promotions • {admin?.name}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/admin/dashboard")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-4xl space-y-6">
+        {/* Packages */}
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+              <Package className="w-5 h-5" />
+              Packages
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {(data?.packages ?? []).map(pkg => (
+              <div key={pkg.id} className="flex items-center justify-between gap-4 p-4 bg-white rounded-2xl border border-stone-200">
+                <div className="min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-stone-800">{pkg.name}</span>
+                    <code className="text-stone-500">{pkg.code} v{pkg.version}</code>
+                    {!pkg.isActive ? (
+                      <Badge variant="outline">archived</Badge>
+                    ) : pkg.available ? (
+                      <Badge className="bg-green-100 text-green-800">on sale</Badge>
+                    ) : (
+                      <Badge className="bg-yellow-100 text-yellow-800">outside validity</Badge>
+                    )}
+                    {pkg.isPopular && <Badge variant="outline">popular</Badge>}
+                  </div>
+                  <div className="text-stone-600">
+                    {formatCurrency(pkg.offer.payCents)} + {formatCurrency(pkg.offer.bonusCents)} bonus (~{pkg.offer.bonusPercent}%)
+                  </div>
+                  {pkg.promoLabel && (
+                    <div className={pkg.offer.promo ? "text-green-600" : "text-stone-500"}>
+                      {pkg.promoLabel} (+{pkg.promoBonusBps! / 100}%{pkg.offer.promo ? ", running now" : ""})
+                    </div>
+                  )}
+                </div>
+                {isManager && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      onClick={() => { setEditingCode(pkg.code); setForm(toForm(pkg)); }}
+                      className="rounded-xl p-2"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => activeMutation.mutate(pkg)}
+                      disabled={activeMutation.isPending}
+                      className="rounded-xl p-2"
+                    >
+                      {pkg.isActive ? <Archive className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Create / edit */}
+        {isManager && (
+          <Card className="border-0 shadow-lg rounded-3xl">
+            <CardHeader>
+              <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+                {editingCode ? <Pencil className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                {editingCode ? `Edit ${editingCode}` : "New Package"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {field("code", "Code")}
+                {field("name", "Name")}
+                {field("pay", "Price (CZK)", "number")}
+                {field("bonus", "Bonus (CZK)", "number")}
+                {field("sortOrder", "Sort order", "number")}
+                <div className="flex items-center gap-2 pt-6">
+                  <Switch id="isPopular" checked={form.isPopular} onCheckedChange={(checked) => setField("isPopular", checked)} />
+                  <Label htmlFor="isPopular">Most popular</Label>
+                </div>
+                {field("validFrom", "On sale from", "datetime-local")}
+                {field("validTo", "On sale until", "datetime-local")}
+                {field("promoLabel", "Promotion label")}
+                {field("promoPercent", "Promotion extra bonus (% of price)", "number")}
+                {field("promoStartsAt", "Promotion starts", "datetime-local")}
+                {field("promoEndsAt", "Promotion ends", "datetime-local")}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!form.name || !form.pay || (!editingCode && !form.code) || saveMutation.isPending}
+                  className="bg-orange-500 hover:bg-orange-600 text-white rounded-xl"
+                >
+                  {editingCode ? "Save New Version" : "Create Package"}
+                </Button>
+                {editingCode && (
+                  <Button variant="outline" onClick={() => { setEditingCode(null); setForm(emptyForm); }} className="rounded-xl">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
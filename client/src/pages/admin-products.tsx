@@ -0,0 +1,330 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Archive, ArrowLeft, BarChart3, Coffee, Pencil, Plus, RotateCcw, ShoppingBasket, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { httpClient } from "@/lib/http";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+interface Product {
+  id: string;
+  name: string;
+  category: string;
+  priceCents: number;
+  vatRateBps: number;
+  isActive: boolean;
+}
+
+interface ProductSales {
+  productId: string;
+  name: string;
+  category: string;
+  quantity: number;
+  revenueCents: number;
+  vatCents: number;
+  charges: number;
+}
+
+// Czech VAT rates a café sells at
+const VAT_RATES = [2100, 1200, 0];
+
+// Form state keeps the raw input strings; price in CZK
+interface ProductForm {
+  name: string;
+  category: string;
+  price: string;
+  vatRateBps: string;
+}
+
+const emptyForm: ProductForm = {
+  name: "",
+  category: "",
+  price: "",
+  vatRateBps: "1200"
+};
+
+const toForm = (product: Product): ProductForm => ({
+  name: product.name,
+  category: product.category,
+  price: String(product.priceCents / 100),
+  vatRateBps: String(product.vatRateBps)
+});
+
+const toPayload = (form: ProductForm) => ({
+  name: form.name,
+  category: form.category,
+  priceCents: Math.round(Number(form.price) * 100),
+  vatRateBps: Number(form.vatRateBps)
+});
+
+export default function AdminProducts() {
+  const [, setLocation] = useLocation();
+  const { admin, isAuthenticated } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // null = create a new product, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProductForm>(emptyForm);
+
+  const isManager = admin?.role === "manager";
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation("/admin/login");
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data } = useQuery<{ products: Product[] }>({
+    queryKey: ["/api/admin/products"],
+    queryFn: () => httpClient.get("/api/admin/products"),
+    enabled: isAuthenticated
+  });
+
+  const { data: sales } = useQuery<{ from: string; to: string; products: ProductSales[] }>({
+    queryKey: ["/api/admin/products/sales"],
+    queryFn: () => httpClient.get("/api/admin/products/sales"),
+    enabled: isAuthenticated
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Request failed",
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => editingId
+      ? httpClient.patch(`/api/admin/products/${editingId}`, toPayload(form))
+      : httpClient.post("/api/admin/products", toPayload(form)),
+    onSuccess: (product: Product) => {
+      onSaved();
+      setEditingId(null);
+      setForm(emptyForm);
+      toast({ title: `${product.name} saved` });
+    },
+    onError
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: (product: Product) =>
+      httpClient.patch(`/api/admin/products/${product.id}`, { isActive: !product.isActive }),
+    onSuccess: onSaved,
+    onError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (product: Product) => httpClient.delete(`/api/admin/products/${product.id}`),
+    onSuccess: (product: Product) => {
+      onSaved();
+      toast({ title: `${product.name} deleted` });
+    },
+    onError
+  });
+
+  const setField = <K extends keyof ProductForm>(key: K, value: ProductForm[K]) =>
+    setForm(current => ({ ...current, [key]: value }));
+
+  const field = (key: keyof ProductForm, label: string, type = "text") => (
+    <div className="space-y-1">
+      <Label htmlFor={key}>{label}</Label>
+      <Input
+        id={key}
+        type={type}
+        value={form[key]}
+        onChange={(e) => setField(key, e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Coffee className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Products</h1>
+                <p className="text-sm text-stone-600">Catalogue for itemised charges • {admin?.name}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/admin/dashboard")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-4xl space-y-6">
+        {/* Catalogue */}
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+              <ShoppingBasket className="w-5 h-5" />
+              Catalogue
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data?.products.length === 0 && (
+              <p className="text-sm text-stone-500">No products yet</p>
+            )}
+            {(data?.products ?? []).map(product => (
+              <div key={product.id} className="flex items-center justify-between gap-4 p-4 bg-white rounded-2xl border border-stone-200">
+                <div className="min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-stone-800">{product.name}</span>
+                    {product.isActive ? (
+                      <Badge className="bg-green-100 text-green-800">on sale</Badge>
+                    ) : (
+                      <Badge variant="outline">off</Badge>
+                    )}
+                  </div>
+                  <div className="text-stone-600">
+                    {product.category} • {formatCurrency(product.priceCents)} • VAT {product.vatRateBps / 100} %
+                  </div>
+                </div>
+                {isManager && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      onClick={() => { setEditingId(product.id); setForm(toForm(product)); }}
+                      className="rounded-xl p-2"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => activeMutation.mutate(product)}
+                      disabled={activeMutation.isPending}
+                      className="rounded-xl p-2"
+                    >
+                      {product.isActive ? <Archive className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(product)}
+                      disabled={deleteMutation.isPending}
+                      className="rounded-xl p-2"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Sales */}
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+              <BarChart3 className="w-5 h-5" />
+              Sales {sales && <span className="text-sm font-normal text-stone-500">{sales.from} – {sales.to}</span>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sales?.products.length === 0 ? (
+              <p className="text-sm text-stone-500">No itemised charges in this period</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-stone-500">
+                    <th className="py-2 font-medium">Product</th>
+                    <th className="py-2 font-medium text-right">Sold</th>
+                    <th className="py-2 font-medium text-right">Revenue</th>
+                    <th className="py-2 font-medium text-right">VAT</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(sales?.products ?? []).map(row => (
+                    <tr key={row.productId} className="border-t border-stone-100">
+                      <td className="py-2 text-stone-800">
+                        {row.name} <span className="text-stone-500">{row.category}</span>
+                      </td>
+                      <td className="py-2 text-right">{row.quantity}</td>
+                      <td className="py-2 text-right">{formatCurrency(row.revenueCents)}</td>
+                      <td className="py-2 text-right text-stone-600">{formatCurrency(row.vatCents)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <p className="text-sm text-stone-500 mt-3">
+              Revenue at list prices, before tier discounts; voided charges are left out.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Create / edit */}
+        {isManager && (
+          <Card className="border-0 shadow-lg rounded-3xl">
+            <CardHeader>
+              <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+                {editingId ? <Pencil className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                {editingId ? `Edit ${form.name}` : "New Product"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {field("name", "Name")}
+                {field("category", "Category")}
+                {field("price", "Price incl. VAT (CZK)", "number")}
+                <div className="space-y-1">
+                  <Label htmlFor="vatRateBps">VAT rate</Label>
+                  <select
+                    id="vatRateBps"
+                    value={form.vatRateBps}
+                    onChange={(e) => setField("vatRateBps", e.target.value)}
+                    className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    {VAT_RATES.map(rate => (
+                      <option key={rate} value={rate}>{rate / 100} %</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="text-sm text-stone-500">
+                Price changes apply to future charges. A product that has been sold can't be deleted; take it off sale instead.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!form.name || !form.category || !(Number(form.price) > 0) || saveMutation.isPending}
+                  className="bg-orange-500 hover:bg-orange-600 text-white rounded-xl"
+                >
+                  {editingId ? "Save Changes" : "Create Product"}
+                </Button>
+                {editingId && (
+                  <Button variant="outline" onClick={() => { setEditingId(null); setForm(emptyForm); }} className="rounded-xl">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
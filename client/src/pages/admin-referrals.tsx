@@ -0,0 +1,327 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Ban, Coffee, Settings, Trophy, UserPlus } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { httpClient } from "@/lib/http";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+import type { ReferralStatus } from "@/types";
+
+interface ReferralSettings {
+  isActive: boolean;
+  referrerBonusCents: number;
+  refereeBonusCents: number;
+  maxRewardsPerReferrer: number | null;
+  blockSameIp: boolean;
+  blockSameDevice: boolean;
+}
+
+interface ReferralRow {
+  id: string;
+  status: ReferralStatus;
+  rejectReason: string | null;
+  referrerName: string;
+  referrerEmail: string;
+  refereeName: string;
+  refereeEmail: string;
+  signupIp: string | null;
+  referrerBonusCents: number | null;
+  refereeBonusCents: number | null;
+  createdAt: string;
+}
+
+interface ReferrerStats {
+  referrerId: string;
+  name: string;
+  email: string;
+  total: number;
+  pending: number;
+  rewarded: number;
+  rejected: number;
+  bonusCents: number;
+}
+
+// Form state keeps the raw input strings; amounts in CZK, empty cap = unlimited
+interface SettingsForm {
+  isActive: boolean;
+  referrerBonus: string;
+  refereeBonus: string;
+  maxRewards: string;
+  blockSameIp: boolean;
+  blockSameDevice: boolean;
+}
+
+const toForm = (settings: ReferralSettings): SettingsForm => ({
+  isActive: settings.isActive,
+  referrerBonus: String(settings.referrerBonusCents / 100),
+  refereeBonus: String(settings.refereeBonusCents / 100),
+  maxRewards: settings.maxRewardsPerReferrer === null ? "" : String(settings.maxRewardsPerReferrer),
+  blockSameIp: settings.blockSameIp,
+  blockSameDevice: settings.blockSameDevice
+});
+
+const toPayload = (form: SettingsForm) => ({
+  isActive: form.isActive,
+  referrerBonusCents: Math.round(Number(form.referrerBonus) * 100),
+  refereeBonusCents: Math.round(Number(form.refereeBonus) * 100),
+  maxRewardsPerReferrer: form.maxRewards ? Number(form.maxRewards) : null,
+  blockSameIp: form.blockSameIp,
+  blockSameDevice: form.blockSameDevice
+});
+
+const REJECT_REASONS: Record<string, string> = {
+  same_ip: "same IP",
+  same_device: "same device",
+  referrer_cap: "referrer cap reached",
+  programme_inactive: "programme paused",
+  admin: "rejected by admin"
+};
+
+const STATUS_FILTERS: (ReferralStatus | "all")[] = ["all", "pending", "rewarded", "rejected"];
+
+export default function AdminReferrals() {
+  const [, setLocation] = useLocation();
+  const { admin, isAuthenticated } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [status, setStatus] = useState<ReferralStatus | "all">("all");
+  const [form, setForm] = useState<SettingsForm | null>(null);
+
+  const isManager = admin?.role === "manager";
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation("/admin/login");
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data: settings } = useQuery<ReferralSettings>({
+    queryKey: ["/api/admin/referrals/settings"],
+    queryFn: () => httpClient.get("/api/admin/referrals/settings"),
+    enabled: isAuthenticated
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm(toForm(settings));
+    }
+  }, [settings]);
+
+  const { data: report } = useQuery<{ referrals: ReferralRow[]; topReferrers: ReferrerStats[] }>({
+    queryKey: ["/api/admin/referrals", status],
+    queryFn: () => httpClient.get(status === "all" ? "/api/admin/referrals" : `/api/admin/referrals?status=${status}`),
+    enabled: isAuthenticated
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Request failed",
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: ReturnType<typeof toPayload>) => httpClient.put("/api/admin/referrals/settings", payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/referrals/settings"] });
+      toast({ title: "Referral settings saved" });
+    },
+    onError
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (id: string) => httpClient.post(`/api/admin/referrals/${id}/reject`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/referrals"] });
+    },
+    onError
+  });
+
+  const setField = <K extends keyof SettingsForm>(key: K, value: SettingsForm[K]) =>
+    setForm(current => current && { ...current, [key]: value });
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Coffee className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Referrals</h1>
+                <p className="text-sm text-stone-600">Referral bonuses and abuse rules • {admin?.name}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/admin/dashboard")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-5xl space-y-6">
+        {/* Settings */}
+        {form && (
+          <Card className="border-0 shadow-lg rounded-3xl">
+            <CardHeader>
+              <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+                <Settings className="w-5 h-5" />
+                Programme Settings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="referrerBonus">Referrer bonus (CZK)</Label>
+                  <Input id="referrerBonus" type="number" value={form.referrerBonus} disabled={!isManager}
+                    onChange={(e) => setField("referrerBonus", e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="refereeBonus">New customer bonus (CZK)</Label>
+                  <Input id="refereeBonus" type="number" value={form.refereeBonus} disabled={!isManager}
+                    onChange={(e) => setField("refereeBonus", e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="maxRewards">Max rewards per referrer</Label>
+                  <Input id="maxRewards" type="number" placeholder="unlimited" value={form.maxRewards} disabled={!isManager}
+                    onChange={(e) => setField("maxRewards", e.target.value)} />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch id="isActive" checked={form.isActive} disabled={!isManager} onCheckedChange={(checked) => setField("isActive", checked)} />
+                  <Label htmlFor="isActive">Programme active</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch id="blockSameDevice" checked={form.blockSameDevice} disabled={!isManager} onCheckedChange={(checked) => setField("blockSameDevice", checked)} />
+                  <Label htmlFor="blockSameDevice">Block same device</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch id="blockSameIp" checked={form.blockSameIp} disabled={!isManager} onCheckedChange={(checked) => setField("blockSameIp", checked)} />
+                  <Label htmlFor="blockSameIp">Block same IP</Label>
+                </div>
+              </div>
+              <p className="text-sm text-stone-500">
+                Both bonuses are paid as bonus credit when the new customer's first top-up is captured. Same device/IP compares the signup with the referrer's own sign-ins.
+              </p>
+              {isManager && (
+                <Button
+                  onClick={() => saveMutation.mutate(toPayload(form))}
+                  disabled={saveMutation.isPending}
+                  className="bg-orange-500 hover:bg-orange-600 text-white rounded-xl"
+                >
+                  Save Settings
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Top referrers */}
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+              <Trophy className="w-5 h-5" />
+              Top Referrers
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report?.topReferrers.length === 0 && (
+              <p className="text-sm text-stone-500">No referrals yet</p>
+            )}
+            {(report?.topReferrers ?? []).map(referrer => (
+              <div key={referrer.referrerId} className="flex items-center justify-between gap-4 p-3 bg-white rounded-2xl border border-stone-200 text-sm">
+                <div className="min-w-0">
+                  <div className="font-semibold text-stone-800">{referrer.name}</div>
+                  <div className="text-stone-500 truncate">{referrer.email}</div>
+                </div>
+                <div className="text-right text-stone-600 shrink-0">
+                  <div>{referrer.total} referred • {referrer.rewarded} rewarded • {referrer.pending} pending • {referrer.rejected} rejected</div>
+                  <div className="font-semibold text-stone-800">{formatCurrency(referrer.bonusCents)} paid out</div>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Referrals */}
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+              <UserPlus className="w-5 h-5" />
+              Referrals
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex gap-2">
+              {STATUS_FILTERS.map(filter => (
+                <Button
+                  key={filter}
+                  variant={status === filter ? "default" : "outline"}
+                  onClick={() => setStatus(filter)}
+                  className="rounded-xl capitalize"
+                >
+                  {filter}
+                </Button>
+              ))}
+            </div>
+            {report?.referrals.length === 0 && (
+              <p className="text-sm text-stone-500">No referrals</p>
+            )}
+            {(report?.referrals ?? []).map(referral => (
+              <div key={referral.id} className="flex items-center justify-between gap-4 p-4 bg-white rounded-2xl border border-stone-200 text-sm">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-stone-800">{referral.referrerName} → {referral.refereeName}</span>
+                    {referral.status === "rewarded" ? (
+                      <Badge className="bg-green-100 text-green-800">rewarded</Badge>
+                    ) : referral.status === "pending" ? (
+                      <Badge variant="outline">pending</Badge>
+                    ) : (
+                      <Badge className="bg-red-100 text-red-800">{REJECT_REASONS[referral.rejectReason ?? ""] ?? "rejected"}</Badge>
+                    )}
+                  </div>
+                  <div className="text-stone-500 truncate">
+                    {referral.referrerEmail} → {referral.refereeEmail}
+                    {referral.signupIp && ` • signup from ${referral.signupIp}`}
+                  </div>
+                  <div className="text-stone-500">
+                    {new Date(referral.createdAt).toLocaleString("en-US")}
+                    {referral.status === "rewarded" &&
+                      ` • ${formatCurrency(referral.referrerBonusCents ?? 0)} + ${formatCurrency(referral.refereeBonusCents ?? 0)}`}
+                  </div>
+                </div>
+                {isManager && referral.status === "pending" && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => rejectMutation.mutate(referral.id)}
+                    disabled={rejectMutation.isPending}
+                    className="rounded-xl p-2 text-red-600 shrink-0"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Clock, Coffee, Download, FileText } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { httpClient } from "@/lib/http";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+interface Shift {
+  shiftId: string;
+  adminId: string;
+  adminName: string | null;
+  status: "open" | "closed";
+  openingFloatCents: number;
+  countedCashCents: number | null;
+  expectedCashCents: number | null;
+  varianceCents: number | null;
+  note: string | null;
+  openedAt: string;
+  closedAt: string | null;
+}
+
+interface ZReportLine {
+  count: number;
+  amountCents: number;
+}
+
+interface ZReport {
+  charges: ZReportLine;
+  voids: ZReportLine;
+  netSalesCents: number;
+  cashTopups: ZReportLine & { bonusCents: number };
+  topupVoids: ZReportLine & { bonusCents: number };
+  adjustments: ZReportLine;
+  openingFloatCents: number;
+  expectedCashCents: number;
+  countedCashCents: number;
+  varianceCents: number;
+}
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+const reportRows = (report: ZReport): [string, number | null, number][] => [
+  ["Charges", report.charges.count, report.charges.amountCents],
+  ["Voids", report.voids.count, -report.voids.amountCents],
+  ["Net sales", null, report.netSalesCents],
+  ["Cash top-ups", report.cashTopups.count, report.cashTopups.amountCents],
+  ["Cash top-up bonus credited", null, report.cashTopups.bonusCents],
+  ["Voided cash top-ups", report.topupVoids.count, -report.topupVoids.amountCents],
+  ["Adjustments (net)", report.adjustments.count, report.adjustments.amountCents],
+  ["Opening float", null, report.openingFloatCents],
+  ["Expected cash", null, report.expectedCashCents],
+  ["Counted cash", null, report.countedCashCents]
+];
+
+const varianceClass = (cents: number) =>
+  cents < 0 ? "text-red-700" : cents > 0 ? "text-amber-700" : "text-green-700";
+
+const formatVariance = (cents: number) => `${cents > 0 ? "+" : ""}${formatCurrency(cents)}`;
+
+export default function AdminShifts() {
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAdminAuth();
+  const { toast } = useToast();
+
+  const [openShiftId, setOpenShiftId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation("/admin/login");
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data } = useQuery<{ shifts: Shift[] }>({
+    queryKey: ["/api/admin/shifts"],
+    queryFn: () => httpClient.get("/api/admin/shifts"),
+    enabled: isAuthenticated
+  });
+
+  const { data: openShift } = useQuery<Shift & { report: ZReport | null }>({
+    queryKey: ["/api/admin/shifts", openShiftId],
+    queryFn: () => httpClient.get(`/api/admin/shifts/${openShiftId}`),
+    enabled: isAuthenticated && openShiftId !== null
+  });
+
+  const download = async (shift: Shift, format: "csv" | "pdf") => {
+    try {
+      const blob: Blob = await httpClient.get(`/api/admin/shifts/${shift.shiftId}/export.${format}`, { responseType: "blob" });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `z-report-${shift.closedAt!.slice(0, 10)}-${shift.shiftId.slice(0, 8)}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message || "Could not download the Z-report",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Coffee className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Shifts</h1>
+                <p className="text-sm text-stone-600">Till shifts and Z-reports</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/admin/dashboard")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-4xl space-y-6">
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              Shifts
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data?.shifts.length === 0 && (
+              <p className="text-sm text-stone-500">No shifts yet</p>
+            )}
+            {(data?.shifts ?? []).map(shift => (
+              <div key={shift.shiftId} className="p-4 bg-white rounded-2xl border border-stone-200">
+                <div className="flex items-center justify-between gap-4">
+                  <button
+                    type="button"
+                    className="min-w-0 text-sm text-left"
+                    onClick={() => setOpenShiftId(openShiftId === shift.shiftId ? null : shift.shiftId)}
+                    disabled={shift.status === "open"}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-stone-800">{shift.adminName}</span>
+                      {shift.status === "open" ? (
+                        <Badge className="bg-green-100 text-green-800">open</Badge>
+                      ) : (
+                        <Badge variant="outline">closed</Badge>
+                      )}
+                    </div>
+                    <div className="text-stone-600">
+                      {formatTime(shift.openedAt)}
+                      {shift.closedAt && ` – ${formatTime(shift.closedAt)}`}
+                    </div>
+                    {shift.varianceCents !== null && (
+                      <div className="text-stone-600">
+                        Expected {formatCurrency(shift.expectedCashCents!)} • counted {formatCurrency(shift.countedCashCents!)} •{" "}
+                        <span className={`font-semibold ${varianceClass(shift.varianceCents)}`}>
+                          variance {formatVariance(shift.varianceCents)}
+                        </span>
+                      </div>
+                    )}
+                  </button>
+                  {shift.status === "closed" && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button variant="outline" size="sm" onClick={() => download(shift, "csv")} className="rounded-xl">
+                        <Download className="w-4 h-4 mr-1" />
+                        CSV
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => download(shift, "pdf")} className="rounded-xl">
+                        <FileText className="w-4 h-4 mr-1" />
+                        PDF
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {openShiftId === shift.shiftId && openShift?.report && (
+                  <div className="mt-4 border-t border-stone-100 pt-4 space-y-1 text-sm">
+                    {reportRows(openShift.report).map(([label, count, cents]) => (
+                      <div key={label} className="flex justify-between">
+                        <span className="text-stone-600">{label}</span>
+                        <span className="text-stone-800">
+                          {count !== null && <span className="text-stone-500 mr-3">{count}×</span>}
+                          {formatCurrency(cents)}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-semibold">
+                      <span className="text-stone-700">Variance</span>
+                      <span className={varianceClass(openShift.report.varianceCents)}>
+                        {formatVariance(openShift.report.varianceCents)}
+                      </span>
+                    </div>
+                    {openShift.note && <p className="text-stone-500 pt-2">Note: {openShift.note}</p>}
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
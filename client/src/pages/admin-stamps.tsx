@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Archive, ArrowLeft, Coffee, Pencil, Plus, RotateCcw, Stamp } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { httpClient } from "@/lib/http";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+type StampRule = "per_charge" | "per_amount";
+
+interface StampProgram {
+  id: string;
+  name: string;
+  description: string | null;
+  rule: StampRule;
+  thresholdCents: number;
+  stampsRequired: number;
+  rewardName: string;
+  rewardValueCents: number;
+  isActive: boolean;
+}
+
+// Form state keeps the raw input strings; amounts in CZK
+interface ProgramForm {
+  name: string;
+  description: string;
+  rule: StampRule;
+  threshold: string;
+  stampsRequired: string;
+  rewardName: string;
+  rewardValue: string;
+}
+
+const emptyForm: ProgramForm = {
+  name: "",
+  description: "",
+  rule: "per_charge",
+  threshold: "0",
+  stampsRequired: "10",
+  rewardName: "",
+  rewardValue: ""
+};
+
+const toForm = (program: StampProgram): ProgramForm => ({
+  name: program.name,
+  description: program.description ?? "",
+  rule: program.rule,
+  threshold: String(program.thresholdCents / 100),
+  stampsRequired: String(program.stampsRequired),
+  rewardName: program.rewardName,
+  rewardValue: String(program.rewardValueCents / 100)
+});
+
+const toPayload = (form: ProgramForm) => ({
+  name: form.name,
+  description: form.description || null,
+  rule: form.rule,
+  thresholdCents: Math.round(Number(form.threshold) * 100),
+  stampsRequired: Number(form.stampsRequired),
+  rewardName: form.rewardName,
+  rewardValueCents: Math.round(Number(form.rewardValue) * 100)
+});
+
+const describeRule = (program: StampProgram) => program.rule === "per_amount"
+  ? `1 stamp per ${formatCurrency(program.thresholdCents)} charged`
+  : program.thresholdCents > 0
+    ? `1 stamp per charge from ${formatCurrency(program.thresholdCents)}`
+    : "1 stamp per charge";
+
+export default function AdminStamps() {
+  const [, setLocation] = useLocation();
+  const { admin, isAuthenticated } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // null = create a new programme, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProgramForm>(emptyForm);
+
+  const isManager = admin?.role === "manager";
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation("/admin/login");
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data } = useQuery<{ programs: StampProgram[] }>({
+    queryKey: ["/api/admin/stamp-programs"],
+    queryFn: () => httpClient.get("/api/admin/stamp-programs"),
+    enabled: isAuthenticated
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/stamp-programs"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Request failed",
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => editingId
+      ? httpClient.patch(`/api/admin/stamp-programs/${editingId}`, toPayload(form))
+      : httpClient.post("/api/admin/stamp-programs", toPayload(form)),
+    onSuccess: (program: StampProgram) => {
+      onSaved();
+      setEditingId(null);
+      setForm(emptyForm);
+      toast({ title: `${program.name} saved` });
+    },
+    onError
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: (program: StampProgram) =>
+      httpClient.patch(`/api/admin/stamp-programs/${program.id}`, { isActive: !program.isActive }),
+    onSuccess: onSaved,
+    onError
+  });
+
+  const setField = <K extends keyof ProgramForm>(key: K, value: ProgramForm[K]) =>
+    setForm(current => ({ ...current, [key]: value }));
+
+  const field = (key: keyof ProgramForm, label: string, type = "text") => (
+    <div className="space-y-1">
+      <Label htmlFor={key}>{label}</Label>
+      <Input
+        id={key}
+        type={type}
+        value={form[key]}
+        onChange={(e) => setField(key, e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Coffee className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Stamp Cards</h1>
+                <p className="text-sm text-stone-600">Stamp rules and rewards • {admin?.name}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/admin/dashboard")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-4xl space-y-6">
+        {/* Programmes */}
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+              <Stamp className="w-5 h-5" />
+              Programmes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data?.programs.length === 0 && (
+              <p className="text-sm text-stone-500">No stamp programmes yet</p>
+            )}
+            {(data?.programs ?? []).map(program => (
+              <div key={program.id} className="flex items-center justify-between gap-4 p-4 bg-white rounded-2xl border border-stone-200">
+                <div className="min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-stone-800">{program.name}</span>
+                    {program.isActive ? (
+                      <Badge className="bg-green-100 text-green-800">active</Badge>
+                    ) : (
+                      <Badge variant="outline">paused</Badge>
+                    )}
+                  </div>
+                  <div className="text-stone-600">{describeRule(program)}</div>
+                  <div className="text-stone-600">
+                    {program.stampsRequired} stamps → {program.rewardName} (up to {formatCurrency(program.rewardValueCents)})
+                  </div>
+                </div>
+                {isManager && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      onClick={() => { setEditingId(program.id); setForm(toForm(program)); }}
+                      className="rounded-xl p-2"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => activeMutation.mutate(program)}
+                      disabled={activeMutation.isPending}
+                      className="rounded-xl p-2"
+                    >
+                      {program.isActive ? <Archive className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Create / edit */}
+        {isManager && (
+          <Card className="border-0 shadow-lg rounded-3xl">
+            <CardHeader>
+              <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+                {editingId ? <Pencil className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                {editingId ? `Edit ${form.name}` : "New Programme"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {field("name", "Name")}
+                {field("description", "Description")}
+                <div className="space-y-1">
+                  <Label htmlFor="rule">Rule</Label>
+                  <select
+                    id="rule"
+                    value={form.rule}
+                    onChange={(e) => setField("rule", e.target.value as StampRule)}
+                    className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="per_charge">Stamp per charge</option>
+                    <option value="per_amount">Stamp per amount charged</option>
+                  </select>
+                </div>
+                {field("threshold", form.rule === "per_amount" ? "Amount per stamp (CZK)" : "Minimum charge (CZK)", "number")}
+                {field("stampsRequired", "Stamps per reward", "number")}
+                {field("rewardName", "Reward")}
+                {field("rewardValue", "Reward value (CZK)", "number")}
+              </div>
+              <p className="text-sm text-stone-500">Rule changes apply to future charges; stamps already collected are kept.</p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!form.name || !form.rewardName || !form.rewardValue || !form.stampsRequired || saveMutation.isPending}
+                  className="bg-orange-500 hover:bg-orange-600 text-white rounded-xl"
+                >
+                  {editingId ? "Save Changes" : "Create Programme"}
+                </Button>
+                {editingId && (
+                  <Button variant="outline" onClick={() => { setEditingId(null); setForm(emptyForm); }} className="rounded-xl">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,79 @@ import { useAdminAuth } from "@/hooks/use-admin-auth";
 import { useQuery } from "@tanstack/react-query";
 import { httpClient } from "@/lib/http";
 import { useLocation } from "wouter";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { formatCurrency } from "@/utils/currency";
+
+interface DailyMetric {
+  date: string;
+  membersCount: number;
+  liabilityCents: number;
+  bonusGrantedCents: number;
+  spendCents: number;
+}
+
+const trendChartConfig = {
+  liabilityCents: { label: "Zůstatky zákazníků", color: "hsl(24, 95%, 53%)" },
+  bonusGrantedCents: { label: "Připsané bonusy", color: "hsl(142, 71%, 45%)" },
+  spendCents: { label: "Útrata", color: "hsl(217, 91%, 60%)" }
+} satisfies ChartConfig;
+
+// "2026-03-10" -> "10. 3."
+const formatDay = (date: string) => {
+  const [, month, day] = date.split("-");
+  return `${Number(day)}. ${Number(month)}.`;
+};
+
+function TrendChart({ title, data, dataKey, variant }: {
+  title: string;
+  data: DailyMetric[];
+  dataKey: keyof typeof trendChartConfig;
+  variant: "area" | "bar";
+}) {
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+      <YAxis tickFormatter={(value: number) => `${Math.round(value / 100)}`} tickLine={false} axisLine={false} width={48} />
+      <ChartTooltip
+        content={
+          <ChartTooltipContent
+            labelFormatter={(label) => formatDay(String(label))}
+            formatter={(value) => formatCurrency(Number(value))}
+          />
+        }
+      />
+    </>
+  );
+
+  return (
+    <Card className="bg-white border-0 shadow-lg hover:shadow-xl transition-all duration-200 rounded-3xl">
+      <CardHeader>
+        <CardTitle className="text-lg font-bold text-stone-900">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-stone-500 text-center py-8">Zatím žádná data</p>
+        ) : (
+          <ChartContainer config={trendChartConfig} className="h-56 w-full">
+            {variant === "area" ? (
+              <AreaChart data={data}>
+                {axes}
+                <Area dataKey={dataKey} type="monotone" stroke={`var(--color-${dataKey})`} fill={`var(--color-${dataKey})`} fillOpacity={0.2} />
+              </AreaChart>
+            ) : (
+              <BarChart data={data}>
+                {axes}
+                <Bar dataKey={dataKey} fill={`var(--color-${dataKey})`} radius={4} />
+              </BarChart>
+            )}
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 function StatCard({ title, value, icon: Icon, subtitle }: {
   title: string;
@@ -61,6 +134,14 @@ export default function AdminSummaries() {
     refetchInterval: 60000 // Auto-refresh every minute
   });
 
+  // Last 30 complete days (server default range)
+  const { data: dailyMetrics } = useQuery<{ from: string; to: string; days: DailyMetric[] }>({
+    queryKey: ["/api/admin/metrics/daily"],
+    queryFn: () => httpClient.get("/api/admin/metrics/daily"),
+    enabled: isAuthenticated
+  });
+  const trendData = dailyMetrics?.days ?? [];
+
   const handleLogout = () => {
     logout();
     setLocation("/");
@@ -139,6 +220,29 @@ export default function AdminSummaries() {
               />
             </div>
 
+            {/* Balance split: paid credit vs. bonus credit */}
+            <Card className="bg-white border-0 shadow-lg hover:shadow-xl transition-all duration-200 rounded-3xl">
+              <CardHeader>
+                <CardTitle className="text-lg font-bold text-stone-900">Struktura zůstatků</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <span className="text-stone-600 font-medium">Zaplacený kredit</span>
+                  <span className="text-stone-900 font-bold">{summaryData?.paidLiabilityCZK || "0,00"}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-stone-600 font-medium">Bonusový kredit</span>
+                  <span className="text-green-600 font-bold">{summaryData?.bonusLiabilityCZK || "0,00"}</span>
+                </div>
+                <div className="border-t border-stone-200 pt-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-stone-800 font-bold">Celkem</span>
+                    <span className="text-stone-900 font-bold text-lg">{summaryData?.liabilityCZK || "0,00"}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Revenue Overview & System Status */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Revenue Overview */}
@@ -191,6 +295,15 @@ export default function AdminSummaries() {
               </Card>
             </div>
 
+            {/* Trends */}
+            <div className="space-y-6">
+              <TrendChart title="Zůstatky zákazníků (30 dní)" data={trendData} dataKey="liabilityCents" variant="area" />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <TrendChart title="Připsané bonusy" data={trendData} dataKey="bonusGrantedCents" variant="bar" />
+                <TrendChart title="Útrata" data={trendData} dataKey="spendCents" variant="bar" />
+              </div>
+            </div>
+
             {/* Additional Analytics */}
             <Card className="bg-white border-0 shadow-lg hover:shadow-xl transition-all duration-200 rounded-3xl">
               <CardContent className="pt-6">
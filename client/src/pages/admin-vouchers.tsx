@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Archive, ArrowLeft, Coffee, Copy, Plus, RotateCcw, Ticket } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { httpClient } from "@/lib/http";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+type VoucherType = "fixed" | "percent_bonus";
+
+interface VoucherBatch {
+  id: string;
+  name: string;
+  type: VoucherType;
+  valueCents: number | null;
+  bonusBps: number | null;
+  maxRedemptionsPerCode: number | null;
+  perCustomerLimit: number;
+  validFrom: string | null;
+  expiresAt: string | null;
+  isActive: boolean;
+  codes: number;
+  redemptions: number;
+  creditedCents: number;
+}
+
+interface Voucher {
+  id: string;
+  code: string;
+  redemptionCount: number;
+}
+
+// Form state keeps the raw input strings; amounts in CZK, bonus in percent
+interface BatchForm {
+  name: string;
+  type: VoucherType;
+  value: string;
+  bonusPercent: string;
+  codeMode: "single" | "generated";
+  code: string;
+  prefix: string;
+  count: string;
+  maxRedemptionsPerCode: string;
+  perCustomerLimit: string;
+  validFrom: string;
+  expiresAt: string;
+}
+
+const emptyForm: BatchForm = {
+  name: "",
+  type: "fixed",
+  value: "",
+  bonusPercent: "",
+  codeMode: "single",
+  code: "",
+  prefix: "",
+  count: "50",
+  maxRedemptionsPerCode: "",
+  perCustomerLimit: "1",
+  validFrom: "",
+  expiresAt: ""
+};
+
+const toPayload = (form: BatchForm) => ({
+  name: form.name,
+  type: form.type,
+  valueCents: form.type === "fixed" ? Math.round(Number(form.value) * 100) : null,
+  bonusBps: form.type === "percent_bonus" ? Math.round(Number(form.bonusPercent) * 100) : null,
+  // Generated codes are single-use unless a limit is given
+  maxRedemptionsPerCode: form.maxRedemptionsPerCode
+    ? Number(form.maxRedemptionsPerCode)
+    : form.codeMode === "generated" ? 1 : null,
+  perCustomerLimit: Number(form.perCustomerLimit),
+  validFrom: form.validFrom ? new Date(form.validFrom).toISOString() : null,
+  expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+  ...(form.codeMode === "single"
+    ? { code: form.code }
+    : { prefix: form.prefix || undefined, count: Number(form.count) })
+});
+
+const describeBatch = (batch: VoucherBatch) => {
+  const reward = batch.type === "fixed"
+    ? `${formatCurrency(batch.valueCents!)} bonus`
+    : `+${batch.bonusBps! / 100}% on next top-up`;
+  const perCode = batch.maxRedemptionsPerCode === null
+    ? "unlimited uses per code"
+    : batch.maxRedemptionsPerCode === 1 ? "single-use" : `${batch.maxRedemptionsPerCode} uses per code`;
+  return `${reward} • ${perCode} • ${batch.perCustomerLimit}× per customer`;
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString() : null;
+
+export default function AdminVouchers() {
+  const [, setLocation] = useLocation();
+  const { admin, isAuthenticated } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState<BatchForm>(emptyForm);
+  const [openBatchId, setOpenBatchId] = useState<string | null>(null);
+
+  const isManager = admin?.role === "manager";
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation("/admin/login");
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data } = useQuery<{ batches: VoucherBatch[] }>({
+    queryKey: ["/api/admin/vouchers/batches"],
+    queryFn: () => httpClient.get("/api/admin/vouchers/batches"),
+    enabled: isAuthenticated
+  });
+
+  const { data: openBatch } = useQuery<{ batch: VoucherBatch; vouchers: Voucher[] }>({
+    queryKey: ["/api/admin/vouchers/batches", openBatchId],
+    queryFn: () => httpClient.get(`/api/admin/vouchers/batches/${openBatchId}`),
+    enabled: isAuthenticated && openBatchId !== null
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/vouchers/batches"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Request failed",
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => httpClient.post("/api/admin/vouchers/batches", toPayload(form)),
+    onSuccess: (created: { batch: VoucherBatch; codes: string[] }) => {
+      onSaved();
+      setForm(emptyForm);
+      setOpenBatchId(created.batch.id);
+      toast({ title: `${created.batch.name} created`, description: `${created.codes.length} code(s)` });
+    },
+    onError
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: (batch: VoucherBatch) =>
+      httpClient.patch(`/api/admin/vouchers/batches/${batch.id}`, { isActive: !batch.isActive }),
+    onSuccess: onSaved,
+    onError
+  });
+
+  const copyCodes = async (vouchers: Voucher[]) => {
+    await navigator.clipboard.writeText(vouchers.map(voucher => voucher.code).join("\n"));
+    toast({ title: "Codes copied", description: `${vouchers.length} code(s) on the clipboard` });
+  };
+
+  const setField = <K extends keyof BatchForm>(key: K, value: BatchForm[K]) =>
+    setForm(current => ({ ...current, [key]: value }));
+
+  const field = (key: keyof BatchForm, label: string, type = "text") => (
+    <div className="space-y-1">
+      <Label htmlFor={key}>{label}</Label>
+      <Input
+        id={key}
+        type={type}
+        value={form[key]}
+        onChange={(e) => setField(key, e.target.value)}
+      />
+    </div>
+  );
+
+  const canCreate = form.name
+    && (form.type === "fixed" ? Number(form.value) > 0 : Number(form.bonusPercent) > 0)
+    && (form.codeMode === "single" ? form.code.length >= 4 : Number(form.count) > 0);
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Coffee className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Vouchers</h1>
+                <p className="text-sm text-stone-600">Promo and voucher codes • {admin?.name}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/admin/dashboard")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-4xl space-y-6">
+        {/* Batches */}
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+              <Ticket className="w-5 h-5" />
+              Batches
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data?.batches.length === 0 && (
+              <p className="text-sm text-stone-500">No voucher batches yet</p>
+            )}
+            {(data?.batches ?? []).map(batch => (
+              <div key={batch.id} className="p-4 bg-white rounded-2xl border border-stone-200">
+                <div className="flex items-center justify-between gap-4">
+                  <button
+                    type="button"
+                    className="min-w-0 text-sm text-left"
+                    onClick={() => setOpenBatchId(openBatchId === batch.id ? null : batch.id)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-stone-800">{batch.name}</span>
+                      {batch.isActive ? (
+                        <Badge className="bg-green-100 text-green-800">active</Badge>
+                      ) : (
+                        <Badge variant="outline">off</Badge>
+                      )}
+                    </div>
+                    <div className="text-stone-600">{describeBatch(batch)}</div>
+                    <div className="text-stone-600">
+                      {batch.codes} code(s) • {batch.redemptions} redeemed • {formatCurrency(batch.creditedCents)} credited
+                      {batch.expiresAt && ` • expires ${formatDate(batch.expiresAt)}`}
+                    </div>
+                  </button>
+                  {isManager && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => activeMutation.mutate(batch)}
+                      disabled={activeMutation.isPending}
+                      className="rounded-xl p-2 shrink-0"
+                    >
+                      {batch.isActive ? <Archive className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                    </Button>
+                  )}
+                </div>
+
+                {openBatchId === batch.id && openBatch && (
+                  <div className="mt-4 border-t border-stone-100 pt-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-semibold text-stone-700">Codes</span>
+                      <Button variant="outline" size="sm" onClick={() => copyCodes(openBatch.vouchers)} className="rounded-xl">
+                        <Copy className="w-4 h-4 mr-1" />
+                        Copy all
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+                      {openBatch.vouchers.map(voucher => (
+                        <div key={voucher.id} className="flex justify-between px-3 py-1.5 bg-stone-50 rounded-lg font-mono text-sm">
+                          <span>{voucher.code}</span>
+                          <span className="text-stone-500">{voucher.redemptionCount}×</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Create */}
+        {isManager && (
+          <Card className="border-0 shadow-lg rounded-3xl">
+            <CardHeader>
+              <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+                <Plus className="w-5 h-5" />
+                New Batch
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {field("name", "Name")}
+                <div className="space-y-1">
+                  <Label htmlFor="type">Type</Label>
+                  <select
+                    id="type"
+                    value={form.type}
+                    onChange={(e) => setField("type", e.target.value as VoucherType)}
+                    className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="fixed">Fixed bonus credit</option>
+                    <option value="percent_bonus">Percentage bonus on next top-up</option>
+                  </select>
+                </div>
+                {form.type === "fixed"
+                  ? field("value", "Bonus (CZK)", "number")
+                  : field("bonusPercent", "Bonus (%)", "number")}
+                <div className="space-y-1">
+                  <Label htmlFor="codeMode">Codes</Label>
+                  <select
+                    id="codeMode"
+                    value={form.codeMode}
+                    onChange={(e) => setField("codeMode", e.target.value as BatchForm["codeMode"])}
+                    className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="single">One chosen code</option>
+                    <option value="generated">Generate codes</option>
+                  </select>
+                </div>
+                {form.codeMode === "single" ? (
+                  field("code", "Code")
+                ) : (
+                  <>
+                    {field("prefix", "Prefix (optional)")}
+                    {field("count", "Number of codes", "number")}
+                  </>
+                )}
+                {field("maxRedemptionsPerCode", form.codeMode === "single" ? "Uses per code (empty = unlimited)" : "Uses per code (empty = 1)", "number")}
+                {field("perCustomerLimit", "Uses per customer", "number")}
+                {field("validFrom", "Valid from", "date")}
+                {field("expiresAt", "Expires", "date")}
+              </div>
+              <p className="text-sm text-stone-500">
+                Fixed vouchers are credited as bonus on redemption; percentage vouchers apply to the customer's next captured top-up.
+              </p>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!canCreate || createMutation.isPending}
+                className="bg-orange-500 hover:bg-orange-600 text-white rounded-xl"
+              >
+                Create Batch
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
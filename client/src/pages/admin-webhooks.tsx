@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Coffee, Key, Plus, RotateCcw, Trash2, Webhook } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { httpClient } from "@/lib/http";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  event: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  kid: string | null;
+  replayOf: string | null;
+  createdAt: string;
+}
+
+interface SigningKey {
+  kid: string;
+  secret: string;
+  createdAt: string;
+}
+
+const deliveryStatusClass: Record<WebhookDelivery["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800"
+};
+
+export default function AdminWebhooks() {
+  const [, setLocation] = useLocation();
+  const { admin, isAuthenticated } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [signingKey, setSigningKey] = useState<SigningKey | null>(null);
+
+  const isManager = admin?.role === "manager";
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation("/admin/login");
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data: webhooks } = useQuery<{ events: string[]; endpoints: WebhookEndpoint[] }>({
+    queryKey: ["/api/admin/webhooks"],
+    queryFn: () => httpClient.get("/api/admin/webhooks"),
+    enabled: isAuthenticated && isManager
+  });
+
+  const { data: deliveriesData } = useQuery<{ deliveries: WebhookDelivery[] }>({
+    queryKey: ["/api/admin/webhooks/deliveries"],
+    queryFn: () => httpClient.get("/api/admin/webhooks/deliveries"),
+    enabled: isAuthenticated && isManager,
+    refetchInterval: 30000
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Request failed",
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => httpClient.post("/api/admin/webhooks", {
+      url,
+      description: description || null,
+      events: selectedEvents
+    }),
+    onSuccess: () => {
+      setUrl("");
+      setDescription("");
+      setSelectedEvents([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+      toast({ title: "Endpoint added" });
+    },
+    onError
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (endpoint: WebhookEndpoint) =>
+      httpClient.patch(`/api/admin/webhooks/${endpoint.id}`, { isActive: !endpoint.isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] }),
+    onError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => httpClient.delete(`/api/admin/webhooks/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks/deliveries"] });
+    },
+    onError
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (id: string) => httpClient.post(`/api/admin/webhooks/deliveries/${id}/replay`),
+    onSuccess: (delivery: WebhookDelivery) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks/deliveries"] });
+      toast({
+        title: delivery.status === "succeeded" ? "Delivery replayed" : "Replay queued",
+        description: delivery.lastError || undefined,
+        variant: delivery.status === "succeeded" ? "default" : "destructive"
+      });
+    },
+    onError
+  });
+
+  const signingKeyMutation = useMutation({
+    mutationFn: () => httpClient.get("/api/admin/webhooks/signing-key"),
+    onSuccess: (key: SigningKey) => setSigningKey(key),
+    onError
+  });
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setSelectedEvents(current => checked ? [...current, event] : current.filter(e => e !== event));
+  };
+
+  const endpointUrl = (endpointId: string) =>
+    webhooks?.endpoints.find(endpoint => endpoint.id === endpointId)?.url ?? endpointId;
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Coffee className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Webhooks</h1>
+                <p className="text-sm text-stone-600">Signed event notifications • {admin?.name}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/admin/dashboard")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-4xl space-y-6">
+        {!isManager ? (
+          <Card className="border-0 shadow-lg rounded-3xl">
+            <CardContent className="p-8 text-center text-stone-600">
+              Only managers can manage webhooks.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* New endpoint */}
+            <Card className="border-0 shadow-lg rounded-3xl">
+              <CardHeader>
+                <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+                  <Plus className="w-5 h-5" />
+                  Add Endpoint
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Input placeholder="https://example.com/hooks/easyloyalty" value={url} onChange={(e) => setUrl(e.target.value)} />
+                <Input placeholder="Description (optional)" value={description} onChange={(e) => setDescription(e.target.value)} />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {(webhooks?.events ?? []).map(event => (
+                    <label key={event} className="flex items-center gap-2 text-sm text-stone-700">
+                      <Checkbox
+                        checked={selectedEvents.includes(event)}
+                        onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      />
+                      <code>{event}</code>
+                    </label>
+                  ))}
+                </div>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!url || selectedEvents.length === 0 || createMutation.isPending}
+                  className="bg-orange-500 hover:bg-orange-600 text-white rounded-xl"
+                >
+                  Add Endpoint
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Endpoints */}
+            <Card className="border-0 shadow-lg rounded-3xl">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg font-bold text-stone-800 flex items-center gap-2">
+                    <Webhook className="w-5 h-5" />
+                    Endpoints
+                  </CardTitle>
+                  <Button
+                    variant="outline"
+                    onClick={() => signingKeyMutation.mutate()}
+                    disabled={signingKeyMutation.isPending}
+                    className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl text-sm"
+                  >
+                    <Key className="w-4 h-4 mr-2" />
+                    Show Signing Key
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {signingKey && (
+                  <div className="p-4 bg-stone-100 rounded-2xl text-sm space-y-1 break-all">
+                    <div><span className="font-semibold">kid:</span> <code>{signingKey.kid}</code></div>
+                    <div><span className="font-semibold">secret:</span> <code>{signingKey.secret}</code></div>
+                  </div>
+                )}
+                {(webhooks?.endpoints ?? []).length === 0 ? (
+                  <p className="text-sm text-stone-500 text-center py-4">No endpoints registered</p>
+                ) : (
+                  webhooks!.endpoints.map(endpoint => (
+                    <div key={endpoint.id} className="flex items-center justify-between gap-4 p-4 bg-white rounded-2xl border border-stone-200">
+                      <div className="min-w-0">
+                        <div className="font-semibold text-stone-800 truncate">{endpoint.url}</div>
+                        {endpoint.description && <div className="text-sm text-stone-600">{endpoint.description}</div>}
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {endpoint.events.map(event => (
+                            <Badge key={event} variant="outline">{event}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0">
+                        <Switch
+                          checked={endpoint.isActive}
+                          onCheckedChange={() => toggleMutation.mutate(endpoint)}
+                          disabled={toggleMutation.isPending}
+                        />
+                        <Button
+                          variant="ghost"
+                          onClick={() => deleteMutation.mutate(endpoint.id)}
+                          disabled={deleteMutation.isPending}
+                          className="text-red-600 hover:bg-red-50 rounded-xl p-2"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Deliveries */}
+            <Card className="border-0 shadow-lg rounded-3xl">
+              <CardHeader>
+                <CardTitle className="text-lg font-bold text-stone-800">Recent Deliveries</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {(deliveriesData?.deliveries ?? []).length === 0 ? (
+                  <p className="text-sm text-stone-500 text-center py-4">No deliveries yet</p>
+                ) : (
+                  deliveriesData!.deliveries.map(delivery => (
+                    <div key={delivery.id} className="flex items-center justify-between gap-4 p-4 bg-white rounded-2xl border border-stone-200">
+                      <div className="min-w-0 text-sm">
+                        <div className="flex items-center gap-2">
+                          <code className="font-semibold text-stone-800">{delivery.event}</code>
+                          <Badge className={deliveryStatusClass[delivery.status]}>{delivery.status}</Badge>
+                          {delivery.replayOf && <Badge variant="outline">replay</Badge>}
+                        </div>
+                        <div className="text-stone-600 truncate">{endpointUrl(delivery.endpointId)}</div>
+                        <div className="text-stone-500">
+                          {new Date(delivery.createdAt).toLocaleString()} • {delivery.attempts} attempt(s)
+                          {delivery.lastStatusCode !== null && ` • HTTP ${delivery.lastStatusCode}`}
+                          {delivery.status === "pending" && ` • next ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                        </div>
+                        {delivery.lastError && <div className="text-red-600 truncate">{delivery.lastError}</div>}
+                      </div>
+                      <Button
+                        variant="outline"
+                        onClick={() => replayMutation.mutate(delivery.id)}
+                        disabled={replayMutation.isPending}
+                        className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl text-sm shrink-0"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Replay
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { User, ArrowLeft, Mail, Lock, Gift, Smartphone, BarChart3 } from "lucide-react";
+import { User, ArrowLeft, Mail, Lock, Gift, Smartphone, BarChart3, Users } from "lucide-react";
 import { useLocation, Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
@@ -13,7 +13,12 @@ export default function CustomerAuth() {
   const [, setLocation] = useLocation();
   const { login, signup, googleAuth, isLoading } = useAuth();
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState("signin");
+  // Invite links look like /auth/customer?ref=CODE and open the signup tab
+  const [referralCode] = useState(() => new URLSearchParams(window.location.search).get("ref") ?? "");
+  // A gift claim link sends the customer here first and expects them back afterwards
+  const [giftToken] = useState(() => new URLSearchParams(window.location.search).get("gift") ?? "");
+  const afterAuth = giftToken ? `/gifts/claim?token=${encodeURIComponent(giftToken)}` : "/home";
+  const [activeTab, setActiveTab] = useState(referralCode || giftToken ? "signup" : "signin");
   const [googleLoaded, setGoogleLoaded] = useState(false);
 
   const [signInData, setSignInData] = useState({
@@ -24,7 +29,8 @@ export default function CustomerAuth() {
   const [signUpData, setSignUpData] = useState({
     email: "",
     name: "",
-    password: ""
+    password: "",
+    referralCode
   });
 
   const handleSignIn = async (e: React.FormEvent) => {
@@ -46,7 +52,7 @@ export default function CustomerAuth() {
       
       // Small delay to ensure state is properly set before navigation
       setTimeout(() => {
-        setLocation("/home");
+        setLocation(afterAuth);
       }, 100);
 
     } catch (error: any) {
@@ -92,14 +98,14 @@ export default function CustomerAuth() {
     console.log("Customer sign up with data:", signUpData);
 
     try {
-      await signup(signUpData.email, signUpData.name, signUpData.password);
+      await signup(signUpData.email, signUpData.name, signUpData.password, signUpData.referralCode.trim() || undefined);
       
       // Clear form after successful signup
-      setSignUpData({ email: "", name: "", password: "" });
+      setSignUpData({ email: "", name: "", password: "", referralCode: "" });
       
       // Small delay to ensure state is properly set before navigation
       setTimeout(() => {
-        setLocation("/home");
+        setLocation(afterAuth);
       }, 100);
     } catch (error: any) {
       toast({
@@ -132,8 +138,8 @@ export default function CustomerAuth() {
 
   const handleGoogleSignIn = useCallback(async (credentialResponse: { credential: string }) => {
     try {
-      await googleAuth(credentialResponse.credential);
-      setLocation("/home");
+      await googleAuth(credentialResponse.credential, referralCode || undefined);
+      setLocation(afterAuth);
     } catch (error: any) {
       toast({
         title: "Google Sign In Failed",
@@ -141,7 +147,7 @@ export default function CustomerAuth() {
         variant: "destructive"
       });
     }
-  }, [googleAuth, setLocation, toast]);
+  }, [googleAuth, referralCode, afterAuth, setLocation, toast]);
 
   // Initialize Google Sign-In when loaded
   useEffect(() => {
@@ -184,6 +190,11 @@ export default function CustomerAuth() {
               <h1 className="text-3xl font-bold text-amber-900 mb-2">
                 Zákazník
               </h1>
+              {giftToken && (
+                <p className="text-amber-700 font-medium">
+                  Přihlaste se nebo se zaregistrujte s e-mailem, na který Vám dárek přišel.
+                </p>
+              )}
 
             </div>
 
@@ -319,6 +330,23 @@ export default function CustomerAuth() {
                     </div>
                   </div>
 
+                  <div>
+                    <Label htmlFor="signup-referral" className="text-base font-semibold text-amber-900 mb-2 block">
+                      Kód od přítele (nepovinné)
+                    </Label>
+                    <div className="relative">
+                      <Users className="absolute left-4 top-1/2 transform -translate-y-1/2 text-amber-600" size={18} />
+                      <Input
+                        id="signup-referral"
+                        type="text"
+                        placeholder="např. K7M2QX9P"
+                        value={signUpData.referralCode}
+                        onChange={(e) => setSignUpData({ ...signUpData, referralCode: e.target.value.toUpperCase() })}
+                        className="pl-12 h-12 rounded-2xl border border-amber-300 bg-white focus:border-amber-500 focus:ring-2 focus:ring-amber-200 text-amber-900 font-medium transition-colors uppercase"
+                      />
+                    </div>
+                  </div>
+
                   <Button
                     type="submit"
                     disabled={isLoading || !signUpData.email || !signUpData.name || !signUpData.password}
@@ -0,0 +1,125 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Check, CreditCard, X } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { httpClient } from "@/lib/http";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+interface TopupPaymentStatus {
+  paymentId: string;
+  status: "pending" | "authorized" | "captured" | "failed";
+  packageCode: string;
+  amountCents: number;
+  bonusCents: number;
+  failureReason: string | null;
+}
+
+// Stand-in for a payment gateway's hosted checkout (fake provider, development only)
+export default function CustomerFakeCheckout() {
+  const [, setLocation] = useLocation();
+  const { paymentId } = useParams<{ paymentId: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: payment, isLoading } = useQuery<TopupPaymentStatus>({
+    queryKey: ["/api/me/topup", paymentId],
+    queryFn: () => httpClient.get(`/api/me/topup/${paymentId}`)
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: (outcome: "succeed" | "fail") =>
+      httpClient.post(`/api/me/topup/${paymentId}/fake-checkout`, { outcome }),
+    onSuccess: (data: TopupPaymentStatus) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/me/topup", paymentId] });
+
+      if (data.status === "failed") {
+        toast({
+          title: "Top-up Failed",
+          description: data.failureReason || "The payment was declined",
+          variant: "destructive"
+        });
+        setLocation("/topup");
+        return;
+      }
+
+      toast({
+        title: "Top-up Successful!",
+        description: "Top-up successful! Your wallet has been updated.",
+        variant: "default"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/history"] });
+      setLocation("/home?refreshData=true");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Payment Error",
+        description: error.message || "Failed to process payment",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <div className="min-h-screen" style={{ background: 'linear-gradient(135deg, #F5F0E8 0%, #F8F5EE 50%, #FDF9F0 100%)' }}>
+      <div className="container mx-auto px-4 py-8 max-w-md">
+        <div className="flex items-center mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => setLocation("/topup")}
+            className="mr-4 text-stone-700 hover:text-stone-900 hover:bg-stone-100/50 rounded-xl"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-stone-800">Test Payment</h1>
+            <p className="text-stone-600">Fake payment provider - no money is charged</p>
+          </div>
+        </div>
+
+        <Card className="border-0 shadow-xl">
+          <CardContent className="p-8 text-center">
+            <div className="w-16 h-16 rounded-2xl mx-auto mb-4 flex items-center justify-center bg-orange-100">
+              <CreditCard className="w-8 h-8 text-orange-600" />
+            </div>
+
+            {isLoading || !payment ? (
+              <p className="text-stone-600">Loading payment...</p>
+            ) : payment.status !== "pending" ? (
+              <p className="text-stone-600">This payment has already been processed ({payment.status}).</p>
+            ) : (
+              <>
+                <h3 className="text-2xl font-bold text-stone-800 mb-1">{payment.packageCode}</h3>
+                <p className="text-3xl font-bold text-stone-800 mb-2">{formatCurrency(payment.amountCents)}</p>
+                <p className="text-green-600 font-medium mb-8">+ {formatCurrency(payment.bonusCents)} bonus after payment</p>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => checkoutMutation.mutate("fail")}
+                    disabled={checkoutMutation.isPending}
+                    className="h-12 rounded-2xl"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Decline
+                  </Button>
+                  <Button
+                    onClick={() => checkoutMutation.mutate("succeed")}
+                    disabled={checkoutMutation.isPending}
+                    className="h-12 rounded-2xl text-white"
+                    style={{ background: 'linear-gradient(135deg, #4CAF50 0%, #45A049 100%)' }}
+                  >
+                    <Check className="w-4 h-4 mr-2" />
+                    Pay
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Gift } from "lucide-react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { httpClient } from "@/lib/http";
+import { queryClient } from "@/lib/queryClient";
+import type { WalletTransfer } from "@/types";
+
+// Opened from the gift email: /gifts/claim?token=...
+export default function CustomerGiftClaim() {
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, isLoading } = useAuth();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") ?? "");
+  const claimStarted = useRef(false);
+
+  const claimMutation = useMutation({
+    mutationFn: (): Promise<WalletTransfer> => httpClient.post("/api/me/gifts/claim", { token }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/me/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/transfers"] });
+    }
+  });
+
+  // Signing in or up brings the customer back here with the same link
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated && token) {
+      setLocation(`/auth/customer?gift=${encodeURIComponent(token)}`);
+    }
+  }, [isLoading, isAuthenticated, token, setLocation]);
+
+  useEffect(() => {
+    if (isAuthenticated && token && !claimStarted.current) {
+      claimStarted.current = true;
+      claimMutation.mutate();
+    }
+  }, [isAuthenticated, token]);
+
+  const gift = claimMutation.data;
+
+  return (
+    <div className="min-h-screen bg-bg">
+      <div className="container mx-auto px-6 py-8 max-w-md">
+        <Card className="bg-white border-2 border-yellow-300 rounded-2xl shadow-strong">
+          <CardContent className="p-6 text-center">
+            <Gift className="w-10 h-10 text-orange-700 mx-auto mb-4" />
+            {!token ? (
+              <p className="text-gray-900 font-bold">This gift link is incomplete</p>
+            ) : claimMutation.isError ? (
+              <>
+                <p className="text-gray-900 font-bold mb-2">Gift could not be claimed</p>
+                <p className="text-orange-700 font-medium">{(claimMutation.error as Error).message}</p>
+              </>
+            ) : gift ? (
+              <>
+                <p className="text-gray-900 font-bold mb-2">{gift.amountCZK} added to your wallet</p>
+                {gift.counterpartyName && (
+                  <p className="text-orange-700 font-medium">A gift from {gift.counterpartyName}</p>
+                )}
+                {gift.message && (
+                  <p className="text-gray-700 italic mt-4">“{gift.message}”</p>
+                )}
+              </>
+            ) : (
+              <p className="text-orange-700 font-medium">Claiming your gift...</p>
+            )}
+
+            <Button
+              onClick={() => setLocation("/home")}
+              className="mt-6 bg-orange-600 hover:bg-orange-700 text-white rounded-xl h-12 px-6"
+            >
+              Go to Wallet
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
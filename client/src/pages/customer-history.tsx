@@ -2,14 +2,17 @@
 import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Plus, Coffee, ChevronDown, ChevronUp } from "lucide-react";
+import { ArrowLeft, Plus, Coffee, ChevronDown, ChevronUp, Mail, Receipt } from "lucide-react";
 import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { httpClient } from "@/lib/http";
 import { formatCurrency } from "@/utils/currency";
 import { ledgerClient } from "@/lib/api/ledgerClient";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { User } from "@/types";
 
 type FilterType = "all" | "topups" | "transactions" | "ledger";
 
@@ -18,6 +21,27 @@ export default function CustomerHistory() {
   const [filter, setFilter] = useState<FilterType>("all");
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: me } = useQuery<User>({
+    queryKey: ["/api/me"],
+    queryFn: () => httpClient.get("/api/me")
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: (emailReceipts: boolean) => httpClient.patch("/api/me/preferences", { emailReceipts }),
+    onSuccess: (data: { emailReceipts: boolean }) => {
+      queryClient.setQueryData<User>(["/api/me"], current => current && { ...current, emailReceipts: data.emailReceipts });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Could not save your preference",
+        variant: "destructive"
+      });
+    }
+  });
 
   const { data: historyData, isLoading } = useQuery({
     queryKey: ["/api/me/history", { type: filter }],
@@ -72,6 +96,24 @@ export default function CustomerHistory() {
           <h1 className="text-3xl font-bold text-gray-900">Transaction History</h1>
         </div>
 
+        {/* Receipt preference */}
+        <Card className="bg-yellow-50 border-2 border-yellow-300 rounded-2xl shadow-strong mb-8">
+          <CardContent className="p-6 flex items-center justify-between gap-4">
+            <div className="flex items-center">
+              <Mail className="w-6 h-6 text-orange-700 mr-3" />
+              <div>
+                <p className="font-bold text-gray-900">Email me receipts</p>
+                <p className="text-sm text-orange-700 font-medium">Get a receipt by email after every café payment</p>
+              </div>
+            </div>
+            <Switch
+              checked={me?.emailReceipts ?? false}
+              onCheckedChange={(checked) => preferencesMutation.mutate(checked)}
+              disabled={!me || preferencesMutation.isPending}
+            />
+          </CardContent>
+        </Card>
+
         {/* Filter Tabs */}
         <Tabs value={filter} onValueChange={(value) => setFilter(value as FilterType)} className="mb-8">
           <TabsList className="grid w-full grid-cols-4 bg-yellow-50 border-2 border-yellow-300 rounded-2xl p-1 h-14 shadow-strong">
@@ -134,7 +176,17 @@ export default function CustomerHistory() {
                       ? `Top-up ${transaction.meta?.packageCode || ""}`
                       : transaction.type === "void"
                         ? "Payment Voided"
-                        : "Café Payment";
+                        : transaction.type === "bonus_expiry"
+                          ? "Bonus Expired"
+                          : transaction.type === "referral_bonus"
+                            ? "Referral Bonus"
+                            : transaction.type === "voucher_bonus"
+                              ? "Voucher Bonus"
+                              : transaction.type === "transfer"
+                                ? (transaction.amountCents < 0 ? "Credit Sent" : "Credit Received")
+                                : transaction.type === "topup_void"
+                                  ? "Top-up Voided"
+                                  : "Café Payment";
                     amount = transaction.amountCZK;
                     dateField = transaction.createdAt;
                   }
@@ -234,7 +286,12 @@ export default function CustomerHistory() {
                                     {filter === "ledger" 
                                       ? transaction.operation || "Ledger"
                                       : transaction.type === "topup" ? "Top-up" : 
-                                        transaction.type === "void" ? "Voided Payment" : "Payment"}
+                                        transaction.type === "void" ? "Voided Payment" :
+                                        transaction.type === "bonus_expiry" ? "Bonus Expired" :
+                                        transaction.type === "referral_bonus" ? "Referral Bonus" :
+                                        transaction.type === "voucher_bonus" ? "Voucher Bonus" :
+                                        transaction.type === "topup_void" ? "Voided Top-up" :
+                                        transaction.type === "transfer" ? "Transfer" : "Payment"}
                                   </span>
                                 </div>
                               </div>
@@ -249,6 +306,33 @@ export default function CustomerHistory() {
                                 </div>
                               )}
 
+                              {/* Show what was bought for itemised payments */}
+                              {filter !== "ledger" && transaction.items?.length > 0 && (
+                                <div className="col-span-2">
+                                  <p className="text-sm text-orange-700 font-bold mb-2">Items</p>
+                                  {transaction.items.map((item: any) => (
+                                    <div key={item.productId} className="flex justify-between text-gray-900 font-medium">
+                                      <span>{item.quantity}× {item.name}</span>
+                                      <span>{formatCurrency(item.lineTotalCents)}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+
+                              {/* Link to the receipt of a payment */}
+                              {filter !== "ledger" && transaction.receiptId && (
+                                <div className="col-span-2">
+                                  <Button
+                                    variant="outline"
+                                    onClick={() => setLocation(`/receipts/${transaction.receiptId}`)}
+                                    className="border-2 border-yellow-400 text-orange-700 hover:bg-yellow-100 font-bold rounded-2xl"
+                                  >
+                                    <Receipt className="w-5 h-5 mr-2" />
+                                    View Receipt
+                                  </Button>
+                                </div>
+                              )}
+
                               {/* Show accounting details for ledger transactions */}
                               {filter === "ledger" && transaction.description && (
                                 <div className="col-span-2">
@@ -1,13 +1,16 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Coffee, Plus, QrCode, History, LogOut, Wallet, CreditCard } from "lucide-react";
+import { Coffee, Plus, QrCode, History, LogOut, Wallet, CreditCard, Hourglass, Award, Users, Copy, Check, Send } from "lucide-react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
 import { httpClient } from "@/lib/http";
 import { formatCurrency } from "@/utils/currency";
 import { ledgerClient } from "@/lib/api/ledgerClient";
+import { StampCards } from "@/components/stamp-cards";
+import { TierBadge } from "@/components/tier-badge";
+import type { ReferralInfo, TierInfo } from "@/types";
 
 export default function CustomerHome() {
   const [, setLocation] = useLocation();
@@ -23,6 +26,8 @@ export default function CustomerHome() {
   const { data: wallet, isLoading: walletLoading, refetch: refetchWallet } = useQuery<{
     balanceCZK: string;
     balanceCents: number;
+    paidBalanceCents: number;
+    bonusBalanceCents: number;
     bonusGrantedTotalCZK: string;
     bonusGrantedTotalCents: number;
     lastActivity: string;
@@ -50,6 +55,36 @@ export default function CustomerHome() {
     staleTime: 30000 // Cache for 30 seconds
   });
 
+  const { data: bonusExpiries } = useQuery<{
+    warningDays: number;
+    expiries: { amountCZK: string; amountCents: number; expiresAt: string }[];
+  }>({
+    queryKey: ["/api/me/bonus-expiries"],
+    enabled: isAuthenticated
+  });
+
+  const { data: tier } = useQuery<TierInfo>({
+    queryKey: ["/api/me/tier"],
+    enabled: isAuthenticated
+  });
+
+  const { data: referrals } = useQuery<ReferralInfo>({
+    queryKey: ["/api/me/referrals"],
+    enabled: isAuthenticated
+  });
+
+  const [inviteCopied, setInviteCopied] = useState(false);
+  const inviteLink = referrals ? `${window.location.origin}/auth/customer?ref=${referrals.code}` : "";
+
+  const copyInviteLink = async () => {
+    await navigator.clipboard.writeText(inviteLink);
+    setInviteCopied(true);
+    setTimeout(() => setInviteCopied(false), 2000);
+  };
+
+  // Bonus lots running out inside the warning window are highlighted
+  const warnBefore = Date.now() + (bonusExpiries?.warningDays ?? 0) * 24 * 60 * 60 * 1000;
+
   const { data: recentTransactions, isLoading: historyLoading, refetch: refetchHistory } = useQuery<{
     transactions: any[];
   }>({
@@ -148,6 +183,22 @@ export default function CustomerHome() {
                     </p>
                   </div>
                 </div>
+
+                {/* Paid vs. bonus split of the balance */}
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-white/70 text-sm">Paid Credit</p>
+                    <p className="text-lg font-semibold">
+                      {formatCurrency(wallet.paidBalanceCents || 0)}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-white/70 text-sm">Bonus Credit</p>
+                    <p className="text-lg font-semibold">
+                      {formatCurrency(wallet.bonusBalanceCents || 0)}
+                    </p>
+                  </div>
+                </div>
                 
                 {/* Ledger system comparison (if available) */}
                 {ledgerBalance && (
@@ -173,8 +224,120 @@ export default function CustomerHome() {
           </CardContent>
         </Card>
 
+        {/* Customer tier */}
+        {tier && (
+          <Card className="bg-yellow-50 border-2 border-yellow-300 rounded-2xl shadow-strong mb-8">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <Award size={20} className="text-orange-700" />
+                  <h3 className="text-xl font-bold text-gray-900">Your Tier</h3>
+                </div>
+                <TierBadge tier={tier.tier} />
+              </div>
+              <div className="space-y-1 text-base text-gray-800">
+                {tier.topupBonusBps > 0 && <p>+{tier.topupBonusBps / 100}% extra bonus on every top-up</p>}
+                {tier.chargeDiscountBps > 0 && <p>{tier.chargeDiscountBps / 100}% off every purchase</p>}
+                {tier.topupBonusBps === 0 && tier.chargeDiscountBps === 0 && <p>Spend more to unlock tier benefits</p>}
+              </div>
+              {tier.next && (
+                <div className="mt-4">
+                  <div className="w-full bg-yellow-200 rounded-full h-3">
+                    <div
+                      className="h-3 rounded-full bg-gradient-to-r from-orange-400 to-orange-500"
+                      style={{ width: `${Math.min(100, (tier.spendCents / tier.next.minSpendCents) * 100)}%` }}
+                    />
+                  </div>
+                  <p className="text-sm text-gray-600 mt-2">
+                    {tier.next.remainingCZK} more to {tier.next.name}
+                  </p>
+                </div>
+              )}
+              <p className="text-sm text-gray-600 mt-3">
+                Based on {tier.spendCZK} spent in the last {tier.windowDays} days.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Stamp cards */}
+        <StampCards title="Stamp Cards" rewardReadyLabel="Ready at the till" />
+
+        {/* Invite friends */}
+        {referrals?.isActive && referrals.code && (
+          <Card className="bg-yellow-50 border-2 border-yellow-300 rounded-2xl shadow-strong mb-8">
+            <CardContent className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Users size={20} className="text-orange-700" />
+                <h3 className="text-xl font-bold text-gray-900">Invite Friends</h3>
+              </div>
+              <p className="text-base text-gray-800 mb-4">
+                You get {referrals.referrerBonusCZK} and your friend gets {referrals.refereeBonusCZK} once they make their first top-up.
+              </p>
+              <div className="flex items-center justify-between gap-3 p-3 bg-yellow-100 rounded-xl border border-yellow-300">
+                <span className="font-mono font-bold text-lg tracking-widest text-gray-900">{referrals.code}</span>
+                <Button
+                  variant="outline"
+                  onClick={copyInviteLink}
+                  className="border-orange-300 text-orange-700 hover:bg-orange-50 rounded-xl"
+                >
+                  {inviteCopied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+                  {inviteCopied ? "Copied" : "Copy Link"}
+                </Button>
+              </div>
+              {referrals.referrals.length > 0 && (
+                <div className="space-y-2 mt-4">
+                  {referrals.referrals.slice(0, 5).map(referral => (
+                    <div key={referral.id} className="flex items-center justify-between text-sm text-gray-800">
+                      <span>{referral.refereeName}</span>
+                      <span className="font-medium">
+                        {referral.status === "rewarded" ? `+${referral.bonusCZK}` :
+                         referral.status === "pending" ? "Waiting for first top-up" : "Not eligible"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Upcoming bonus expiries */}
+        {bonusExpiries && bonusExpiries.expiries.length > 0 && (
+          <Card className="bg-yellow-50 border-2 border-yellow-300 rounded-2xl shadow-strong mb-8">
+            <CardContent className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Hourglass size={20} className="text-orange-700" />
+                <h3 className="text-xl font-bold text-gray-900">Bonus Expiry</h3>
+              </div>
+              <div className="space-y-2">
+                {bonusExpiries.expiries.slice(0, 3).map((expiry, index) => (
+                  <div
+                    key={index}
+                    className={`flex items-center justify-between p-3 rounded-xl border ${
+                      new Date(expiry.expiresAt).getTime() < warnBefore
+                        ? 'bg-red-50 border-red-300 text-red-800'
+                        : 'bg-yellow-100 border-yellow-300 text-gray-900'
+                    }`}
+                  >
+                    <span className="font-medium">
+                      Expires {new Date(expiry.expiresAt).toLocaleDateString("en-US", {
+                        month: "short",
+                        day: "numeric",
+                        year: "numeric"
+                      })}
+                    </span>
+                    <span className="font-bold">{formatCurrency(expiry.amountCents)}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-gray-600 mt-3">Unused bonus credit expires on the date shown; the soonest-expiring bonus is spent first.</p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Action Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
           <Card 
             className="bg-yellow-50 border-2 border-green-400 rounded-2xl p-6 shadow-strong hover:shadow-2xl transition-all duration-200 cursor-pointer hover:scale-[1.02]"
             onClick={() => setLocation("/topup")}
@@ -201,6 +364,19 @@ export default function CustomerHome() {
             </CardContent>
           </Card>
 
+          <Card 
+            className="bg-yellow-50 border-2 border-teal-400 rounded-2xl p-6 shadow-strong hover:shadow-2xl transition-all duration-200 cursor-pointer hover:scale-[1.02]"
+            onClick={() => setLocation("/transfer")}
+          >
+            <CardContent className="p-0 text-center">
+              <div className="w-16 h-16 bg-teal-200 rounded-2xl mx-auto mb-4 flex items-center justify-center border-2 border-teal-400">
+                <Send size={24} className="text-teal-700 font-bold" />
+              </div>
+              <h3 className="font-bold text-xl text-gray-900 mb-2">Send Credit</h3>
+              <p className="text-base text-gray-700 font-medium">Transfer to a friend or gift by email</p>
+            </CardContent>
+          </Card>
+
           <Card 
             className="bg-yellow-50 border-2 border-yellow-500 rounded-2xl p-6 shadow-strong hover:shadow-2xl transition-all duration-200 cursor-pointer hover:scale-[1.02]"
             onClick={() => setLocation("/history")}
@@ -254,6 +430,11 @@ export default function CustomerHome() {
                         transaction.type === 'topup' ? 'bg-green-200 border-green-400' :
                         transaction.type === 'charge' ? 'bg-blue-200 border-blue-400' :
                         transaction.type === 'void' ? 'bg-red-200 border-red-400' :
+                        transaction.type === 'bonus_expiry' ? 'bg-gray-200 border-gray-400' :
+                        transaction.type === 'referral_bonus' ? 'bg-green-200 border-green-400' :
+                        transaction.type === 'transfer' ? 'bg-teal-200 border-teal-400' :
+                        transaction.type === 'voucher_bonus' ? 'bg-green-200 border-green-400' :
+                        transaction.type === 'topup_void' ? 'bg-red-200 border-red-400' :
                         'bg-orange-200 border-orange-400'
                       }`}>
                         {transaction.type === 'topup' ? (
@@ -272,6 +453,11 @@ export default function CustomerHome() {
                             `Top-up ${transaction.meta?.packageCode || ''}` :
                            transaction.type === 'charge' ? 'Café Payment' :
                            transaction.type === 'void' ? 'Payment Voided' :
+                           transaction.type === 'bonus_expiry' ? 'Bonus Expired' :
+                           transaction.type === 'referral_bonus' ? 'Referral Bonus' :
+                           transaction.type === 'voucher_bonus' ? 'Voucher Bonus' :
+                           transaction.type === 'topup_void' ? 'Top-up Voided' :
+                           transaction.type === 'transfer' ? (transaction.amountCents < 0 ? 'Credit Sent' : 'Credit Received') :
                            'Transaction'}
                         </p>
                         <p className="text-sm text-orange-700 font-medium">
@@ -9,6 +9,7 @@ import { useQuery } from "@tanstack/react-query";
 import { httpClient } from "@/lib/http";
 import { useToast } from "@/hooks/use-toast";
 import { StyledQR } from "@/components/ui/styled-qr";
+import { StampCards } from "@/components/stamp-cards";
 
 export default function CustomerQR() {
   const [, setLocation] = useLocation();
@@ -152,6 +153,9 @@ export default function CustomerQR() {
               </CardContent>
             </Card>
 
+            {/* Stamp cards; rewards can be redeemed with this code */}
+            <StampCards title="Věrnostní karty" rewardReadyLabel="Uplatněte u pokladny" />
+
             {/* Action Buttons */}
             <div className="flex gap-4">
               <Button
@@ -0,0 +1,60 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Mail, Receipt as ReceiptIcon } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { httpClient } from "@/lib/http";
+import type { Receipt } from "@/types";
+
+export default function CustomerReceipt() {
+  const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+
+  const { data: receipt, isLoading, isError } = useQuery<Receipt>({
+    queryKey: ["/api/me/receipts", id],
+    queryFn: () => httpClient.get(`/api/me/receipts/${id}`),
+    retry: false
+  });
+
+  return (
+    <div className="min-h-screen bg-bg">
+      <div className="container mx-auto px-6 py-8 max-w-md">
+        {/* Header */}
+        <div className="flex items-center mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => setLocation("/history")}
+            className="mr-4 p-2 hover:bg-yellow-50 hover:text-orange-700 rounded-2xl border-0"
+          >
+            <ArrowLeft className="w-6 h-6 text-orange-700" />
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900">Receipt</h1>
+        </div>
+
+        <Card className="bg-white border-2 border-yellow-300 rounded-2xl shadow-strong">
+          <CardContent className="p-6">
+            {isLoading ? (
+              <p className="text-orange-700 font-medium text-center">Loading receipt...</p>
+            ) : isError || !receipt ? (
+              <div className="text-center">
+                <ReceiptIcon className="w-10 h-10 text-orange-700 mx-auto mb-4" />
+                <p className="text-gray-900 font-bold">Receipt not found</p>
+              </div>
+            ) : (
+              <>
+                {/* Rendered on the server from the same template as the emailed receipt; values are escaped there */}
+                <div dangerouslySetInnerHTML={{ __html: receipt.html }} />
+                {receipt.emailedAt && (
+                  <p className="flex items-center justify-center text-sm text-orange-700 font-medium mt-6">
+                    <Mail className="w-4 h-4 mr-2" />
+                    Emailed {new Date(receipt.emailedAt).toLocaleString("en-US")}
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,59 +1,61 @@
 import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Check, Plus, Sparkles } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Check, Plus, Sparkles, Ticket } from "lucide-react";
 import { useLocation } from "wouter";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { httpClient } from "@/lib/http";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency } from "@/utils/currency";
+import type { TopUpPackage, VoucherRedemption } from "@/types";
 
-const packages = [
-  {
-    code: "MINI" as const,
-    name: "MINI",
-    pay: 39000,
-    bonus: 3000,
-    total: 42000,
-    percentage: "~7.7%",
-    icon: "💰"
-  },
-  {
-    code: "STANDARD" as const,
-    name: "STANDARD",
-    pay: 89000,
-    bonus: 9000,
-    total: 98000,
-    percentage: "~10.1%",
-    popular: true,
-    icon: "⭐"
-  },
-  {
-    code: "MAXI" as const,
-    name: "MAXI",
-    pay: 159000,
-    bonus: 23000,
-    total: 182000,
-    percentage: "~14.5%",
-    icon: "🚀"
-  },
-  {
-    code: "ULTRA" as const,
-    name: "ULTRA",
-    pay: 209000,
-    bonus: 40000,
-    total: 249000,
-    percentage: "~19.1%",
-    icon: "💎"
-  }
-];
+const packageIcons = ["💰", "⭐", "🚀", "💎"];
 
 export default function CustomerTopup() {
   const [, setLocation] = useLocation();
   const [selectedPackage, setSelectedPackage] = useState<string | null>(null);
+  const [voucherCode, setVoucherCode] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data, isLoading } = useQuery<{ packages: TopUpPackage[] }>({
+    queryKey: ["/api/topup-packages"],
+    queryFn: () => httpClient.get("/api/topup-packages")
+  });
+  const packages = data?.packages ?? [];
+  const maxBonusPercent = Math.max(0, ...packages.map(pkg => pkg.bonusPercent));
+
+  const { data: voucherData } = useQuery<{ redemptions: VoucherRedemption[] }>({
+    queryKey: ["/api/me/vouchers"],
+    queryFn: () => httpClient.get("/api/me/vouchers")
+  });
+  const pendingVoucher = voucherData?.redemptions.find(redemption => redemption.status === "pending");
+
+  const voucherMutation = useMutation({
+    mutationFn: (code: string) => httpClient.post("/api/me/vouchers/redeem", { code }),
+    onSuccess: (data: VoucherRedemption) => {
+      toast({
+        title: "Voucher Redeemed!",
+        description: data.status === "credited"
+          ? `${data.bonusCZK} bonus credit was added to your wallet.`
+          : `Your next top-up gets an extra ${data.bonusPercent}% bonus.`,
+        variant: "default"
+      });
+      setVoucherCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/me/vouchers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/history"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Voucher Not Accepted",
+        description: error.message || "Failed to redeem the voucher",
+        variant: "destructive"
+      });
+    }
+  });
+
   const topupMutation = useMutation({
     mutationFn: (packageCode: string) => {
       // Generate idempotency key to prevent duplicate submissions
@@ -66,13 +68,30 @@ export default function CustomerTopup() {
       });
     },
     onSuccess: (data) => {
-      const message = data.idempotent
-        ? "Top-up already processed - wallet unchanged"
-        : "Top-up successful! Your wallet has been updated.";
+      // Payment is credited once captured; until then the customer finishes it at the provider
+      if (data.status === "pending" && data.redirectUrl) {
+        if (data.redirectUrl.startsWith("/")) {
+          setLocation(data.redirectUrl);
+        } else {
+          window.location.href = data.redirectUrl;
+        }
+        return;
+      }
+
+      if (data.status === "failed") {
+        toast({
+          title: "Top-up Failed",
+          description: data.failureReason || "The payment was declined",
+          variant: "destructive"
+        });
+        return;
+      }
 
       toast({
-        title: data.idempotent ? "Already Processed" : "Top-up Successful!",
-        description: message,
+        title: data.status === "captured" ? "Top-up Successful!" : "Payment Processing",
+        description: data.status === "captured"
+          ? "Top-up successful! Your wallet has been updated."
+          : "Your wallet will be updated once the payment is confirmed.",
         variant: "default"
       });
 
@@ -139,16 +158,60 @@ export default function CustomerTopup() {
                 </div>
                 <div className="text-right">
                   <p className="text-green-100 text-sm">Up to</p>
-                  <p className="text-3xl font-bold">19% bonus</p>
+                  <p className="text-3xl font-bold">{Math.floor(maxBonusPercent)}% bonus</p>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Voucher Code */}
+        <Card className="mb-8 border-0 shadow-lg" style={{ background: 'linear-gradient(135deg, #FEFEFE 0%, #F8F5F0 100%)', border: '2px solid #E0D5C7' }}>
+          <CardContent className="p-6">
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex items-center gap-3 md:w-1/3">
+                <div className="w-10 h-10 bg-orange-100 rounded-xl flex items-center justify-center flex-shrink-0">
+                  <Ticket className="w-5 h-5 text-orange-600" />
                 </div>
+                <p className="font-semibold text-stone-800">Have a voucher code?</p>
               </div>
+              <form
+                className="flex flex-1 gap-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (voucherCode.trim() && !voucherMutation.isPending) {
+                    voucherMutation.mutate(voucherCode);
+                  }
+                }}
+              >
+                <Input
+                  value={voucherCode}
+                  onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+                  placeholder="WELCOME50"
+                  className="uppercase"
+                />
+                <Button
+                  type="submit"
+                  disabled={!voucherCode.trim() || voucherMutation.isPending}
+                  className="rounded-xl px-6 text-white"
+                  style={{ background: 'linear-gradient(135deg, #FF9800 0%, #F57C00 100%)' }}
+                >
+                  {voucherMutation.isPending ? "Redeeming..." : "Redeem"}
+                </Button>
+              </form>
             </div>
+            {pendingVoucher && (
+              <p className="text-green-700 font-medium mt-4">
+                Voucher {pendingVoucher.code}: your next top-up gets an extra {pendingVoucher.bonusPercent}% bonus
+              </p>
+            )}
           </CardContent>
         </Card>
 
         {/* Package Grid */}
+        {isLoading && <p className="text-center text-stone-600 mb-8">Loading packages...</p>}
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 mb-8">
-          {packages.map((pkg) => (
+          {packages.map((pkg, index) => (
             <Card
               key={pkg.code}
               className={`relative cursor-pointer transform transition-all duration-300 hover:scale-[1.02] hover:shadow-xl border-0 shadow-lg ${
@@ -157,45 +220,47 @@ export default function CustomerTopup() {
                   : ""
               }`}
               style={{
-                background: pkg.popular
+                background: pkg.isPopular
                   ? 'linear-gradient(135deg, #FFF8E1 0%, #FFECB3 100%)'
                   : 'linear-gradient(135deg, #FEFEFE 0%, #F8F5F0 100%)',
-                border: pkg.popular ? '3px solid #FF9800' : '2px solid #E0D5C7'
+                border: pkg.isPopular ? '3px solid #FF9800' : '2px solid #E0D5C7'
               }}
               onClick={() => handleTopup(pkg.code)}
             >
-              {pkg.popular && (
+              {(pkg.promo || pkg.isPopular) && (
                 <div className="absolute -top-4 left-1/2 transform -translate-x-1/2 z-10">
                   <div
                     className="text-white text-xs font-bold px-3 py-1.5 rounded-full shadow-lg whitespace-nowrap"
-                    style={{ background: 'linear-gradient(135deg, #FF9800 0%, #F57C00 100%)' }}
+                    style={{ background: pkg.promo
+                      ? 'linear-gradient(135deg, #4CAF50 0%, #45A049 100%)'
+                      : 'linear-gradient(135deg, #FF9800 0%, #F57C00 100%)' }}
                   >
-                    Most Popular
+                    {pkg.promo ? pkg.promo.label : "Most Popular"}
                   </div>
                 </div>
               )}
 
               <CardContent className="p-6 text-center min-h-[480px] flex flex-col justify-between">
                 <div className="flex-1 flex flex-col">
-                  <div className="text-4xl mb-4 mt-2">{pkg.icon}</div>
+                  <div className="text-4xl mb-4 mt-2">{packageIcons[index % packageIcons.length]}</div>
                   <h4 className="font-bold text-2xl text-stone-800 mb-6 px-1">{pkg.name}</h4>
 
                   <div className="mb-6">
                     <p className="text-3xl font-bold text-stone-800 mb-3 leading-tight">
-                      {formatCurrency(pkg.pay)}
+                      {formatCurrency(pkg.payCents)}
                     </p>
                     <div className="flex items-center justify-center gap-1 text-green-600">
                       <Plus className="w-5 h-5 flex-shrink-0" />
                       <span className="text-lg font-semibold">
-                        {formatCurrency(pkg.bonus)} bonus
+                        {formatCurrency(pkg.bonusCents)} bonus
                       </span>
                     </div>
                   </div>
 
                   <div className="bg-stone-50 rounded-2xl p-4 mb-8 flex-1 flex flex-col justify-center">
                     <p className="text-base text-stone-600 mb-2">You get total</p>
-                    <p className="text-2xl font-bold text-stone-800 mb-2 leading-tight">{formatCurrency(pkg.total)}</p>
-                    <p className="text-base text-green-600 font-medium">{pkg.percentage} bonus</p>
+                    <p className="text-2xl font-bold text-stone-800 mb-2 leading-tight">{formatCurrency(pkg.totalCents)}</p>
+                    <p className="text-base text-green-600 font-medium">~{pkg.bonusPercent}% bonus</p>
                   </div>
                 </div>
 
@@ -224,7 +289,7 @@ export default function CustomerTopup() {
                 ) : (
                   <Button
                     className="w-full h-14 text-base font-bold rounded-2xl transition-all duration-200 shadow-lg hover:shadow-xl"
-                    style={pkg.popular ? {
+                    style={pkg.isPopular ? {
                       background: 'linear-gradient(135deg, #FF9800 0%, #F57C00 100%)',
                       color: 'white'
                     } : {
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Gift, Send } from "lucide-react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { httpClient } from "@/lib/http";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+import type { WalletTransfer } from "@/types";
+
+const statusStyles: Record<WalletTransfer["status"], string> = {
+  completed: "bg-green-100 text-green-800",
+  pending: "bg-amber-100 text-amber-800",
+  cancelled: "bg-stone-100 text-stone-700",
+  expired: "bg-stone-100 text-stone-700"
+};
+
+export default function CustomerTransfer() {
+  const [, setLocation] = useLocation();
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [amount, setAmount] = useState("");
+  const [message, setMessage] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: wallet } = useQuery<{ paidBalanceCents: number; bonusBalanceCents: number }>({
+    queryKey: ["/api/me/wallet"]
+  });
+
+  const { data: transfersData, isLoading: transfersLoading } = useQuery<{ transfers: WalletTransfer[] }>({
+    queryKey: ["/api/me/transfers"],
+    queryFn: () => httpClient.get("/api/me/transfers")
+  });
+  const transfers = transfersData?.transfers ?? [];
+
+  const refreshWallet = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/me/wallet"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/me/history"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/me/transfers"] });
+  };
+
+  const transferMutation = useMutation({
+    mutationFn: () => {
+      // Generate idempotency key to prevent duplicate submissions
+      const idempotencyKey = Math.random().toString(36).substring(2) + Date.now().toString(36);
+
+      return httpClient.post("/api/me/transfer", {
+        recipientEmail,
+        amountCZK: Number(amount),
+        message: message.trim() || undefined
+      }, {
+        headers: {
+          'Idempotency-Key': idempotencyKey
+        }
+      });
+    },
+    onSuccess: (data: WalletTransfer) => {
+      toast({
+        title: data.status === "pending" ? "Gift Sent!" : "Credit Sent!",
+        description: data.status === "pending"
+          ? `${recipientEmail} can claim ${data.amountCZK} from the link in their email.`
+          : `${data.amountCZK} was sent to ${data.counterpartyName ?? recipientEmail}.`,
+        variant: "default"
+      });
+      setRecipientEmail("");
+      setAmount("");
+      setMessage("");
+      refreshWallet();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Transfer Failed",
+        description: error.message || "Failed to send credit",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (transferId: string) => httpClient.post(`/api/me/transfers/${transferId}/cancel`, {}),
+    onSuccess: () => {
+      toast({ title: "Gift Cancelled", description: "The credit is back in your wallet." });
+      refreshWallet();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancel Failed",
+        description: error.message || "Failed to cancel the gift",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const amountValid = Number(amount) > 0;
+  const canSubmit = recipientEmail.includes("@") && amountValid && !transferMutation.isPending;
+
+  return (
+    <div className="min-h-screen" style={{ background: 'linear-gradient(135deg, #F5F0E8 0%, #F8F5EE 50%, #FDF9F0 100%)' }}>
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        {/* Header */}
+        <div className="flex items-center mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => setLocation("/home")}
+            className="mr-4 text-stone-700 hover:text-stone-900 hover:bg-stone-100/50 rounded-xl"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-4xl font-bold text-stone-800 mb-2">Send Credit</h1>
+            <p className="text-stone-600 text-lg">Transfer to a friend, or gift it to an email that hasn't joined yet</p>
+          </div>
+        </div>
+
+        {/* Transfer Form */}
+        <Card className="mb-8 border-0 shadow-lg" style={{ background: 'linear-gradient(135deg, #FEFEFE 0%, #F8F5F0 100%)', border: '2px solid #E0D5C7' }}>
+          <CardContent className="p-6 space-y-5">
+            <div className="bg-stone-50 rounded-2xl p-4">
+              <p className="text-base text-stone-600 mb-1">Available to send</p>
+              <p className="text-2xl font-bold text-stone-800">{formatCurrency(wallet?.paidBalanceCents ?? 0)}</p>
+              {(wallet?.bonusBalanceCents ?? 0) > 0 && (
+                <p className="text-sm text-stone-500 mt-1">
+                  Bonus credit ({formatCurrency(wallet!.bonusBalanceCents)}) can't be transferred
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="recipientEmail">Recipient email</Label>
+              <Input
+                id="recipientEmail"
+                type="email"
+                value={recipientEmail}
+                onChange={(e) => setRecipientEmail(e.target.value)}
+                placeholder="friend@example.com"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount (CZK)</Label>
+              <Input
+                id="amount"
+                type="number"
+                min="1"
+                step="1"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="100"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="message">Message (optional)</Label>
+              <Textarea
+                id="message"
+                value={message}
+                maxLength={200}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Coffee's on me!"
+              />
+            </div>
+
+            <Button
+              className="w-full h-14 text-base font-bold text-white rounded-2xl shadow-lg transition-all duration-200"
+              style={{
+                background: canSubmit
+                  ? 'linear-gradient(135deg, #4CAF50 0%, #45A049 100%)'
+                  : 'linear-gradient(135deg, #9E9E9E 0%, #757575 100%)'
+              }}
+              disabled={!canSubmit}
+              onClick={() => transferMutation.mutate()}
+            >
+              {transferMutation.isPending ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  <span style={{ color: 'white' }}>Sending...</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Send className="w-4 h-4" />
+                  <span style={{ color: 'white' }}>
+                    Send {amountValid ? formatCurrency(Math.round(Number(amount) * 100)) : "Credit"}
+                  </span>
+                </div>
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Transfer History */}
+        <h2 className="text-2xl font-bold text-stone-800 mb-4">Recent Transfers</h2>
+        {transfersLoading && <p className="text-stone-600">Loading transfers...</p>}
+        {!transfersLoading && transfers.length === 0 && (
+          <p className="text-stone-600">No transfers yet.</p>
+        )}
+        <div className="space-y-3">
+          {transfers.map((transfer) => (
+            <Card key={transfer.transferId} className="border-0 shadow-md">
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="w-10 h-10 bg-teal-100 rounded-xl flex items-center justify-center flex-shrink-0">
+                    {transfer.expiresAt ? <Gift className="w-5 h-5 text-teal-700" /> : <Send className="w-5 h-5 text-teal-700" />}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-semibold text-stone-800 truncate">
+                      {transfer.direction === "out"
+                        ? `To ${transfer.counterpartyName ?? transfer.recipientEmail}`
+                        : `From ${transfer.counterpartyName ?? "a friend"}`}
+                    </p>
+                    {transfer.message && <p className="text-sm text-stone-600 truncate">"{transfer.message}"</p>}
+                    <p className="text-xs text-stone-500">
+                      {new Date(transfer.createdAt).toLocaleDateString()}
+                      {transfer.status === "pending" && transfer.expiresAt &&
+                        ` · unclaimed until ${new Date(transfer.expiresAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <Badge className={statusStyles[transfer.status]}>{transfer.status}</Badge>
+                  <span className={`font-bold ${transfer.direction === "in" ? "text-green-600" : "text-stone-800"}`}>
+                    {transfer.direction === "in" ? "+" : "-"}{transfer.amountCZK}
+                  </span>
+                  {transfer.direction === "out" && transfer.status === "pending" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={cancelMutation.isPending}
+                      onClick={() => cancelMutation.mutate(transfer.transferId)}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
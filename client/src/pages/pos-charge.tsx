@@ -7,23 +7,64 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Coffee, LogOut, Scan, CreditCard, RotateCcw, CheckCircle, AlertCircle, ArrowLeft } from "lucide-react";
+import { Banknote, Coffee, LogOut, Scan, CreditCard, RotateCcw, CheckCircle, AlertCircle, ArrowLeft, Gift, Stamp, Clock, ShoppingBasket, Minus } from "lucide-react";
 import { useLocation } from "wouter";
 import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { TierBadge } from "@/components/tier-badge";
+import { PosPrintButtons } from "@/components/pos-print-buttons";
+import { formatCurrency } from "@/utils/currency";
+import type { CustomerTier } from "@/types";
 
 interface CustomerInfo {
+  chargeId: string;
   userId: string;
   customerName: string;
   customerEmail: string;
   balanceCZK: string;
   balanceCents: number;
+  tier: { tier: CustomerTier; name: string; chargeDiscountBps: number };
+  rewards: RedeemableReward[];
+}
+
+interface RedeemableReward {
+  id: string;
+  programName: string;
+  rewardName: string;
+  valueCZK: string;
+  valueCents: number;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  category: string;
+  priceCents: number;
+}
+
+interface BasketLine {
+  productId: string;
+  quantity: number;
+}
+
+interface ChargeItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  lineTotalCents: number;
 }
 
 interface ChargeResult {
   success: boolean;
-  transactionId: string;
+  transactionId: string | null;
+  rewardId: string | null;
   chargeId: string;
+  amountCents: number;
+  discountCents: number;
+  items: ChargeItem[];
+  receiptId: string | null;
+  stamps: { programId: string; programName: string; earned: number; rewardsIssued: number }[];
   voidExpiresAt: number;
+  voidWindowSeconds: number;
   newBalanceCZK: string;
   newBalanceCents: number;
 }
@@ -43,14 +84,23 @@ export default function POSCharge() {
   const [step, setStep] = useState<"scan" | "confirm" | "success">("scan");
   const [tokenOrCode, setTokenOrCode] = useState("");
   const [amount, setAmount] = useState("");
+  const [basket, setBasket] = useState<BasketLine[]>([]);
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo | null>(null);
   const [chargeResult, setChargeResult] = useState<ChargeResult | null>(null);
+  const [redeemedReward, setRedeemedReward] = useState<RedeemableReward | null>(null);
   const [voidCountdown, setVoidCountdown] = useState(0);
   const audioRef = useRef<HTMLAudioElement>(null);
 
   // Admin authentication hook
   const { isAuthenticated, isLoading, admin } = useAdminAuth();
 
+  const { data: productsData } = useQuery<{ products: Product[] }>({
+    queryKey: ["/api/pos/products"],
+    enabled: step === "confirm"
+  });
+  const products = productsData?.products ?? [];
+  const categories = Array.from(new Set(products.map(product => product.category)));
+
   // Sound effects
   useEffect(() => {
     if (!audioRef.current) {
@@ -126,11 +176,12 @@ export default function POSCharge() {
   });
 
   const confirmChargeMutation = useMutation({
-    mutationFn: async ({ userId, amountCZK, idempotencyKey }: { userId: string; amountCZK: number; idempotencyKey: string }) => {
+    // Either amountCZK or items (wallet charge), or rewardId (stamp reward instead of money)
+    mutationFn: async (body: { chargeId: string; amountCZK?: number; items?: BasketLine[]; rewardId?: string; idempotencyKey: string }) => {
       const response = await fetch("/api/admin/charge/confirm", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, amountCZK, idempotencyKey }),
+        body: JSON.stringify(body),
         credentials: "include"
       });
 
@@ -143,12 +194,12 @@ export default function POSCharge() {
     },
     onSuccess: (data: ChargeResult) => {
       setChargeResult(data);
-      setVoidCountdown(120); // 120 seconds
+      setVoidCountdown(Math.max(0, Math.round((data.voidExpiresAt - Date.now()) / 1000)));
       setStep("success");
       playSound("success");
       toast({
         title: "Platba úspěšná",
-        description: `Účtováno ${amount} Kč`,
+        description: data.rewardId ? "Odměna uplatněna" : `Účtováno ${formatCurrency(data.amountCents)}`,
       });
     },
     onError: (error: any) => {
@@ -163,7 +214,7 @@ export default function POSCharge() {
 
   const voidChargeMutation = useMutation({
     mutationFn: async (chargeId: string) => {
-      const response = await fetch("/api/admin/void", {
+      const response = await fetch("/api/admin/charge/void", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ chargeId }),
@@ -180,7 +231,7 @@ export default function POSCharge() {
     onSuccess: () => {
       toast({
         title: "Platba stornována",
-        description: "Částka byla vrácena zákazníkovi",
+        description: redeemedReward ? "Odměna byla vrácena zákazníkovi" : "Částka byla vrácena zákazníkovi",
       });
       playSound("success");
       resetFlow();
@@ -195,6 +246,27 @@ export default function POSCharge() {
     }
   });
 
+  // Same rounding as the server: the tier discount is rounded down to whole haléře
+  const discountCents = (amountCZK: number) =>
+    customerInfo ? Math.floor(Math.round(amountCZK * 100) * customerInfo.tier.chargeDiscountBps / 10000) : 0;
+
+  // The basket, when there is one, sets the amount instead of the cashier
+  const basketCents = basket.reduce((sum, line) =>
+    sum + (products.find(product => product.id === line.productId)?.priceCents ?? 0) * line.quantity, 0);
+  const chargeAmount = basket.length > 0 ? String(basketCents / 100) : amount;
+
+  const changeQuantity = (productId: string, delta: number) => {
+    setBasket(current => {
+      const existing = current.find(line => line.productId === productId);
+      if (!existing) {
+        return delta > 0 ? [...current, { productId, quantity: delta }] : current;
+      }
+      return current
+        .map(line => line.productId === productId ? { ...line, quantity: line.quantity + delta } : line)
+        .filter(line => line.quantity > 0);
+    });
+  };
+
   const handleScan = () => {
     if (!tokenOrCode.trim()) {
       toast({
@@ -208,9 +280,9 @@ export default function POSCharge() {
   };
 
   const handleCharge = () => {
-    if (!customerInfo || !amount) return;
+    if (!customerInfo || !chargeAmount) return;
 
-    const amountCZK = parseFloat(amount);
+    const amountCZK = parseFloat(chargeAmount);
     if (isNaN(amountCZK) || amountCZK <= 0) {
       toast({
         title: "Chyba",
@@ -220,7 +292,7 @@ export default function POSCharge() {
       return;
     }
 
-    if (amountCZK * 100 > customerInfo.balanceCents) {
+    if (Math.round(amountCZK * 100) - discountCents(amountCZK) > customerInfo.balanceCents) {
       toast({
         title: "Nedostatečný zůstatek",
         description: "Zákazník nemá dostatek prostředků",
@@ -229,7 +301,18 @@ export default function POSCharge() {
       return;
     }
 
-    confirmChargeMutation.mutate({ userId: customerInfo.userId, amountCZK, idempotencyKey: `pos-charge-${Date.now()}-${Math.random()}` });
+    confirmChargeMutation.mutate({
+      chargeId: customerInfo.chargeId,
+      ...(basket.length > 0 ? { items: basket } : { amountCZK }),
+      idempotencyKey: `pos-charge-${customerInfo.chargeId}`
+    });
+  };
+
+  const handleRedeem = (reward: RedeemableReward) => {
+    if (!customerInfo) return;
+
+    setRedeemedReward(reward);
+    confirmChargeMutation.mutate({ chargeId: customerInfo.chargeId, rewardId: reward.id, idempotencyKey: `pos-reward-${customerInfo.chargeId}` });
   };
 
   const handleVoid = () => {
@@ -242,8 +325,10 @@ export default function POSCharge() {
     setStep("scan");
     setTokenOrCode("");
     setAmount("");
+    setBasket([]);
     setCustomerInfo(null);
     setChargeResult(null);
+    setRedeemedReward(null);
     setVoidCountdown(0);
   };
 
@@ -266,13 +351,31 @@ export default function POSCharge() {
                 <p className="text-sm text-stone-600">Pokladna • {admin?.name}</p>
               </div>
             </div>
-            <Button 
-              variant="outline"
-              onClick={handleBackToDashboard}
-              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
-            >
-              <ArrowLeft className="w-4 h-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setLocation("/pos/topup")}
+                className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl"
+              >
+                <Banknote className="w-4 h-4 mr-2" />
+                Dobití
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setLocation("/pos/shift")}
+                className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl"
+              >
+                <Clock className="w-4 h-4 mr-2" />
+                Směna
+              </Button>
+              <Button 
+                variant="outline"
+                onClick={handleBackToDashboard}
+                className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl p-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -326,7 +429,10 @@ export default function POSCharge() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
                     <Label className="text-green-700 font-medium">Jméno</Label>
-                    <p className="text-lg font-semibold text-green-900 mt-1">{customerInfo.customerName}</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <p className="text-lg font-semibold text-green-900">{customerInfo.customerName}</p>
+                      <TierBadge tier={customerInfo.tier.tier} />
+                    </div>
                   </div>
                   <div>
                     <Label className="text-green-700 font-medium">Email</Label>
@@ -340,6 +446,103 @@ export default function POSCharge() {
               </CardContent>
             </Card>
 
+            {customerInfo.rewards.length > 0 && (
+              <Card className="border-0 shadow-lg rounded-3xl">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center text-xl font-bold text-stone-800">
+                    <Gift className="w-6 h-6 mr-3" />
+                    Odměny k uplatnění
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {customerInfo.rewards.map(reward => (
+                    <div key={reward.id} className="flex items-center justify-between gap-4 p-4 bg-white rounded-2xl border border-stone-200">
+                      <div>
+                        <p className="font-semibold text-stone-800">{reward.rewardName}</p>
+                        <p className="text-sm text-stone-600">{reward.programName} • do {reward.valueCZK}</p>
+                      </div>
+                      <Button
+                        onClick={() => handleRedeem(reward)}
+                        disabled={confirmChargeMutation.isPending}
+                        className="bg-orange-600 hover:bg-orange-700 text-white font-medium rounded-xl"
+                      >
+                        Uplatnit
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {products.length > 0 && (
+              <Card className="border-0 shadow-lg rounded-3xl">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center text-xl font-bold text-stone-800">
+                    <ShoppingBasket className="w-6 h-6 mr-3" />
+                    Produkty
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {categories.map(category => (
+                    <div key={category}>
+                      <p className="text-sm font-medium text-stone-500 mb-2">{category}</p>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+                        {products.filter(product => product.category === category).map(product => {
+                          const quantity = basket.find(line => line.productId === product.id)?.quantity ?? 0;
+                          return (
+                            <button
+                              key={product.id}
+                              type="button"
+                              onClick={() => changeQuantity(product.id, 1)}
+                              disabled={confirmChargeMutation.isPending}
+                              className={`p-3 rounded-2xl border-2 text-left transition-colors ${
+                                quantity > 0 ? "border-orange-500 bg-orange-50" : "border-stone-200 bg-white hover:border-orange-300"
+                              }`}
+                            >
+                              <p className="font-semibold text-stone-800 truncate">{product.name}</p>
+                              <p className="text-sm text-stone-600">
+                                {formatCurrency(product.priceCents)}
+                                {quantity > 0 && <span className="font-bold text-orange-700"> • {quantity}×</span>}
+                              </p>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+
+                  {basket.length > 0 && (
+                    <div className="bg-stone-100 rounded-2xl p-4 space-y-2">
+                      {basket.map(line => {
+                        const product = products.find(candidate => candidate.id === line.productId);
+                        if (!product) return null;
+                        return (
+                          <div key={line.productId} className="flex items-center justify-between gap-2 text-stone-700">
+                            <span>{line.quantity}× {product.name}</span>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{formatCurrency(product.priceCents * line.quantity)}</span>
+                              <Button
+                                variant="ghost"
+                                onClick={() => changeQuantity(line.productId, -1)}
+                                disabled={confirmChargeMutation.isPending}
+                                className="h-8 w-8 p-0 rounded-lg"
+                              >
+                                <Minus className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                      <div className="flex justify-between border-t border-stone-200 pt-2 font-bold text-stone-800">
+                        <span>Celkem</span>
+                        <span>{formatCurrency(basketCents)}</span>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             <Card className="border-0 shadow-lg rounded-3xl">
               <CardHeader className="pb-4">
                 <CardTitle className="flex items-center text-xl font-bold text-stone-800">
@@ -357,17 +560,25 @@ export default function POSCharge() {
                     type="number"
                     step="0.01"
                     min="0.01"
-                    value={amount}
+                    value={chargeAmount}
                     onChange={(e) => setAmount(e.target.value)}
                     placeholder="0.00"
                     className="h-12 text-xl rounded-xl border-stone-300 focus:border-orange-500 focus:ring-orange-500"
-                    disabled={confirmChargeMutation.isPending}
+                    disabled={confirmChargeMutation.isPending || basket.length > 0}
                   />
+                  {customerInfo.tier.chargeDiscountBps > 0 && (
+                    <p className="text-sm text-green-700 mt-2">
+                      Sleva {customerInfo.tier.name} {customerInfo.tier.chargeDiscountBps / 100} %
+                      {parseFloat(chargeAmount) > 0 && (
+                        <> • k úhradě {formatCurrency(Math.round(parseFloat(chargeAmount) * 100) - discountCents(parseFloat(chargeAmount)))}</>
+                      )}
+                    </p>
+                  )}
                 </div>
                 <div className="flex flex-col sm:flex-row gap-3">
                   <Button
                     onClick={handleCharge}
-                    disabled={confirmChargeMutation.isPending || !amount}
+                    disabled={confirmChargeMutation.isPending || !chargeAmount}
                     className="flex-1 h-12 bg-green-600 hover:bg-green-700 text-white font-medium rounded-xl"
                   >
                     {confirmChargeMutation.isPending ? "Zpracovávání..." : "Potvrdit platbu"}
@@ -396,18 +607,47 @@ export default function POSCharge() {
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div>
-                    <Label className="text-green-700 font-medium">Účtovaná částka</Label>
-                    <p className="text-3xl font-bold text-green-900 mt-1">{amount} Kč</p>
-                  </div>
+                  {chargeResult.rewardId ? (
+                    <div>
+                      <Label className="text-green-700 font-medium">Uplatněná odměna</Label>
+                      <p className="text-3xl font-bold text-green-900 mt-1">{redeemedReward?.rewardName}</p>
+                    </div>
+                  ) : (
+                    <div>
+                      <Label className="text-green-700 font-medium">Účtovaná částka</Label>
+                      <p className="text-3xl font-bold text-green-900 mt-1">{formatCurrency(chargeResult.amountCents)}</p>
+                      {chargeResult.discountCents > 0 && (
+                        <p className="text-sm text-green-700 mt-1">včetně slevy {formatCurrency(chargeResult.discountCents)}</p>
+                      )}
+                      {chargeResult.items.map(item => (
+                        <p key={item.productId} className="text-sm text-green-800 mt-1">
+                          {item.quantity}× {item.name} • {formatCurrency(item.lineTotalCents)}
+                        </p>
+                      ))}
+                    </div>
+                  )}
                   <div>
                     <Label className="text-green-700 font-medium">Nový zůstatek</Label>
                     <p className="text-xl font-semibold text-green-800 mt-1">{chargeResult.newBalanceCZK}</p>
                   </div>
-                  <div className="md:col-span-2">
-                    <Label className="text-green-700 font-medium">ID transakce</Label>
-                    <p className="text-sm font-mono text-green-800 mt-1 break-all">{chargeResult.transactionId}</p>
-                  </div>
+                  {chargeResult.transactionId && (
+                    <div className="md:col-span-2">
+                      <Label className="text-green-700 font-medium">ID transakce</Label>
+                      <p className="text-sm font-mono text-green-800 mt-1 break-all">{chargeResult.transactionId}</p>
+                    </div>
+                  )}
+                  {chargeResult.stamps.length > 0 && (
+                    <div className="md:col-span-2">
+                      <Label className="text-green-700 font-medium">Razítka</Label>
+                      {chargeResult.stamps.map(award => (
+                        <p key={award.programId} className="flex items-center gap-2 text-green-800 mt-1">
+                          <Stamp className="w-4 h-4" />
+                          {award.programName}: +{award.earned}
+                          {award.rewardsIssued > 0 && <span className="font-semibold">, nová odměna ({award.rewardsIssued})</span>}
+                        </p>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -440,6 +680,10 @@ export default function POSCharge() {
               </Card>
             )}
 
+            {chargeResult.receiptId && (
+              <PosPrintButtons kind="receipt" id={chargeResult.receiptId} />
+            )}
+
             <div className="text-center">
               <Button
                 onClick={resetFlow}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Clock, Coffee, LockOpen, Lock, CheckCircle } from "lucide-react";
+import { useLocation } from "wouter";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { formatCurrency } from "@/utils/currency";
+import { PosPrintButtons } from "@/components/pos-print-buttons";
+
+interface Shift {
+  shiftId: string;
+  status: "open" | "closed";
+  openingFloatCents: number;
+  openedAt: string;
+  closedAt: string | null;
+}
+
+interface ZReportLine {
+  count: number;
+  amountCents: number;
+}
+
+interface ZReport {
+  charges: ZReportLine;
+  voids: ZReportLine;
+  netSalesCents: number;
+  cashTopups: ZReportLine & { bonusCents: number };
+  topupVoids: ZReportLine & { bonusCents: number };
+  adjustments: ZReportLine;
+  openingFloatCents: number;
+  expectedCashCents: number;
+  countedCashCents: number;
+  varianceCents: number;
+}
+
+type ClosedShift = Shift & { report: ZReport };
+
+const LoadingSpinner = () => (
+  <div className="min-h-screen flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600 mx-auto mb-4"></div>
+      <p className="text-orange-700">Načítání...</p>
+    </div>
+  </div>
+);
+
+async function postPos<T>(url: string, body: unknown, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include"
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+const formatTime = (value: string) => new Date(value).toLocaleString("cs-CZ");
+
+export default function POSShift() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [closedShift, setClosedShift] = useState<ClosedShift | null>(null);
+
+  const { isAuthenticated, isLoading, admin } = useAdminAuth();
+
+  const { data, isLoading: shiftLoading } = useQuery<{ shift: Shift | null }>({
+    queryKey: ["/api/pos/shift"],
+    enabled: isAuthenticated
+  });
+  const shift = data?.shift ?? null;
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Požadavek se nepodařilo zpracovat",
+      variant: "destructive"
+    });
+  };
+
+  const openMutation = useMutation({
+    mutationFn: (openingFloatCZK: number) =>
+      postPos<Shift>("/api/pos/shift/open", { openingFloatCZK }, "Chyba při otevírání směny"),
+    onSuccess: (opened) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pos/shift"] });
+      setAmount("");
+      setClosedShift(null);
+      toast({
+        title: "Směna otevřena",
+        description: `Počáteční hotovost ${formatCurrency(opened.openingFloatCents)}`
+      });
+    },
+    onError: onError("Chyba otevření směny")
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: (body: { countedCashCZK: number; note?: string }) =>
+      postPos<ClosedShift>("/api/pos/shift/close", body, "Chyba při uzavírání směny"),
+    onSuccess: (closed) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pos/shift"] });
+      setAmount("");
+      setNote("");
+      setClosedShift(closed);
+      toast({ title: "Směna uzavřena", description: "Z-report byl uložen" });
+    },
+    onError: onError("Chyba uzavření směny")
+  });
+
+  const amountCZK = Number(amount);
+  const amountValid = amount !== "" && Number.isFinite(amountCZK) && amountCZK >= 0;
+
+  const handleSubmit = () => {
+    if (!amountValid) return;
+    if (shift) {
+      closeMutation.mutate({ countedCashCZK: amountCZK, ...(note.trim() ? { note: note.trim() } : {}) });
+    } else {
+      openMutation.mutate(amountCZK);
+    }
+  };
+
+  if (isLoading || !isAuthenticated || shiftLoading) {
+    return <LoadingSpinner />;
+  }
+
+  const pending = openMutation.isPending || closeMutation.isPending;
+
+  const reportRows = (report: ZReport): [string, string][] => [
+    ["Platby", `${report.charges.count}× • ${formatCurrency(report.charges.amountCents)}`],
+    ["Storna plateb", `${report.voids.count}× • ${formatCurrency(report.voids.amountCents)}`],
+    ["Čistá tržba", formatCurrency(report.netSalesCents)],
+    ["Dobití hotovostí", `${report.cashTopups.count}× • ${formatCurrency(report.cashTopups.amountCents)}`],
+    ["Stornovaná dobití", `${report.topupVoids.count}× • ${formatCurrency(report.topupVoids.amountCents)}`],
+    ["Úpravy zůstatku", `${report.adjustments.count}× • ${formatCurrency(report.adjustments.amountCents)}`],
+    ["Počáteční hotovost", formatCurrency(report.openingFloatCents)],
+    ["Očekávaná hotovost", formatCurrency(report.expectedCashCents)],
+    ["Napočítaná hotovost", formatCurrency(report.countedCashCents)]
+  ];
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header - stejný styl jako pokladna */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Clock className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Směna</h1>
+                <p className="text-sm text-stone-600">Pokladna • {admin?.name}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/pos/charge")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              <Coffee className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-4xl space-y-6">
+        <Card className="border-0 shadow-lg rounded-3xl">
+          <CardHeader className="pb-4">
+            <CardTitle className="flex items-center text-xl font-bold text-stone-800">
+              {shift ? <Lock className="w-6 h-6 mr-3" /> : <LockOpen className="w-6 h-6 mr-3" />}
+              {shift ? "Uzavření směny" : "Otevření směny"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {shift && (
+              <div className="bg-stone-100 rounded-2xl p-4">
+                <p className="text-stone-700">Směna otevřena {formatTime(shift.openedAt)}</p>
+                <p className="text-sm text-stone-600 mt-1">
+                  Počáteční hotovost {formatCurrency(shift.openingFloatCents)}
+                </p>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="amount" className="text-stone-700 font-medium mb-2 block">
+                {shift ? "Napočítaná hotovost v pokladně (Kč)" : "Počáteční hotovost v pokladně (Kč)"}
+              </Label>
+              <Input
+                id="amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0"
+                className="h-12 text-xl rounded-xl border-stone-300 focus:border-orange-500 focus:ring-orange-500"
+                disabled={pending}
+              />
+            </div>
+
+            {shift && (
+              <div>
+                <Label htmlFor="note" className="text-stone-700 font-medium mb-2 block">
+                  Poznámka (nepovinná)
+                </Label>
+                <Input
+                  id="note"
+                  value={note}
+                  maxLength={500}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="h-12 rounded-xl border-stone-300 focus:border-orange-500 focus:ring-orange-500"
+                  disabled={pending}
+                />
+              </div>
+            )}
+
+            <Button
+              onClick={handleSubmit}
+              disabled={pending || !amountValid}
+              className="w-full h-12 bg-orange-600 hover:bg-orange-700 text-white font-medium rounded-xl"
+            >
+              {pending ? "Zpracovávání..." : shift ? "Uzavřít směnu" : "Otevřít směnu"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {closedShift && (
+          <Card className="border-0 shadow-lg rounded-3xl bg-gradient-to-br from-green-50 to-green-100">
+            <CardHeader className="pb-4">
+              <CardTitle className="flex items-center text-xl font-bold text-green-800">
+                <CheckCircle className="w-6 h-6 mr-3" />
+                Z-report
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-green-800">
+                {formatTime(closedShift.openedAt)} – {closedShift.closedAt && formatTime(closedShift.closedAt)}
+              </p>
+              <div className="divide-y divide-green-200">
+                {reportRows(closedShift.report).map(([label, value]) => (
+                  <div key={label} className="flex justify-between py-2 text-green-900">
+                    <span>{label}</span>
+                    <span className="font-semibold">{value}</span>
+                  </div>
+                ))}
+              </div>
+              <div className={`rounded-2xl p-4 ${closedShift.report.varianceCents === 0 ? "bg-white" : "bg-red-50"}`}>
+                <Label className="text-stone-700 font-medium">Rozdíl</Label>
+                <p className={`text-3xl font-bold mt-1 ${closedShift.report.varianceCents < 0 ? "text-red-700" : "text-green-900"}`}>
+                  {closedShift.report.varianceCents > 0 && "+"}
+                  {formatCurrency(closedShift.report.varianceCents)}
+                </p>
+              </div>
+              <PosPrintButtons kind="shift" id={closedShift.shiftId} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
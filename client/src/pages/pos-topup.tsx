@@ -0,0 +1,453 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Banknote, Coffee, Scan, RotateCcw, CheckCircle, AlertCircle, ArrowLeft } from "lucide-react";
+import { useLocation } from "wouter";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { TierBadge } from "@/components/tier-badge";
+import { PosPrintButtons } from "@/components/pos-print-buttons";
+import { formatCurrency } from "@/utils/currency";
+import type { CustomerTier } from "@/types";
+
+interface CustomerInfo {
+  topupId: string;
+  userId: string;
+  customerName: string;
+  customerEmail: string;
+  balanceCZK: string;
+  balanceCents: number;
+  tier: { tier: CustomerTier; name: string; topupBonusBps: number };
+  maxAmountCZK: number;
+}
+
+interface PackageOffer {
+  code: string;
+  name: string;
+  payCents: number;
+  bonusCents: number;
+  totalCents: number;
+}
+
+interface TopupResult {
+  success: boolean;
+  topupId: string;
+  transactionId: string;
+  packageCode: string | null;
+  amountCents: number;
+  bonusCents: number;
+  voidExpiresAt: number;
+  voidWindowSeconds: number;
+  newBalanceCZK: string;
+  newBalanceCents: number;
+}
+
+const LoadingSpinner = () => (
+  <div className="min-h-screen flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600 mx-auto mb-4"></div>
+      <p className="text-orange-700">Načítání...</p>
+    </div>
+  </div>
+);
+
+async function postPos<T>(url: string, body: unknown, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include"
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+export default function POSTopup() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [step, setStep] = useState<"scan" | "confirm" | "success">("scan");
+  const [tokenOrCode, setTokenOrCode] = useState("");
+  const [packageCode, setPackageCode] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+  const [customerInfo, setCustomerInfo] = useState<CustomerInfo | null>(null);
+  const [topupResult, setTopupResult] = useState<TopupResult | null>(null);
+  const [voidCountdown, setVoidCountdown] = useState(0);
+
+  const { isAuthenticated, isLoading, admin } = useAdminAuth();
+
+  const { data: packagesData } = useQuery<{ packages: PackageOffer[] }>({
+    queryKey: ["/api/topup-packages"],
+    enabled: step === "confirm"
+  });
+  const packages = packagesData?.packages ?? [];
+
+  // Void countdown timer
+  useEffect(() => {
+    let interval: ReturnType<typeof setInterval>;
+    if (topupResult && voidCountdown > 0) {
+      interval = setInterval(() => {
+        setVoidCountdown(prev => Math.max(0, prev - 1));
+      }, 1000);
+    }
+    return () => clearInterval(interval);
+  }, [topupResult, voidCountdown]);
+
+  const initMutation = useMutation({
+    mutationFn: (tokenOrCode: string) =>
+      postPos<CustomerInfo>("/api/pos/topup/init", { tokenOrCode }, "Chyba při načítání zákazníka"),
+    onSuccess: (data) => {
+      setCustomerInfo(data);
+      setStep("confirm");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Chyba načítání",
+        description: error.message || "Neplatný QR kód nebo kód",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const confirmMutation = useMutation({
+    // Either packageCode or a custom amountCZK
+    mutationFn: (body: { topupId: string; packageCode?: string; amountCZK?: number; idempotencyKey: string }) =>
+      postPos<TopupResult>("/api/pos/topup/confirm", body, "Chyba při dobití"),
+    onSuccess: (data) => {
+      setTopupResult(data);
+      setVoidCountdown(Math.max(0, Math.round((data.voidExpiresAt - Date.now()) / 1000)));
+      setStep("success");
+      toast({
+        title: "Dobití úspěšné",
+        description: `Přijato ${formatCurrency(data.amountCents)} v hotovosti`
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Chyba dobití",
+        description: error.message || "Dobití se nepodařilo zpracovat",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: (topupId: string) =>
+      postPos<TopupResult>("/api/pos/topup/void", { topupId }, "Chyba při stornování dobití"),
+    onSuccess: () => {
+      toast({
+        title: "Dobití stornováno",
+        description: "Vraťte zákazníkovi hotovost"
+      });
+      resetFlow();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Chyba storna",
+        description: error.message || "Storno se nepodařilo",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Same rounding as the server: the tier bonus is rounded down to whole haléře
+  const tierBonusCents = (payCents: number) =>
+    customerInfo ? Math.floor(payCents * customerInfo.tier.topupBonusBps / 10000) : 0;
+
+  const customAmountCZK = parseInt(amount, 10);
+  const customAmountValid = !packageCode && Number.isInteger(customAmountCZK) && customAmountCZK > 0
+    && customAmountCZK <= (customerInfo?.maxAmountCZK ?? 0);
+  const selectedPackage = packages.find(pkg => pkg.code === packageCode);
+  const payCents = selectedPackage ? selectedPackage.payCents : customAmountValid ? customAmountCZK * 100 : 0;
+  const creditCents = selectedPackage
+    ? selectedPackage.totalCents + tierBonusCents(payCents)
+    : payCents + tierBonusCents(payCents);
+
+  const handleScan = () => {
+    if (!tokenOrCode.trim()) {
+      toast({
+        title: "Chyba",
+        description: "Zadejte QR kód nebo krátký kód",
+        variant: "destructive"
+      });
+      return;
+    }
+    initMutation.mutate(tokenOrCode.trim());
+  };
+
+  const handleConfirm = () => {
+    if (!customerInfo || payCents === 0) return;
+
+    confirmMutation.mutate({
+      topupId: customerInfo.topupId,
+      ...(packageCode ? { packageCode } : { amountCZK: customAmountCZK }),
+      idempotencyKey: `pos-topup-${customerInfo.topupId}`
+    });
+  };
+
+  const resetFlow = () => {
+    setStep("scan");
+    setTokenOrCode("");
+    setPackageCode(null);
+    setAmount("");
+    setCustomerInfo(null);
+    setTopupResult(null);
+    setVoidCountdown(0);
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      {/* Header - stejný styl jako pokladna */}
+      <div className="bg-white border-b border-stone-200 sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <Banknote className="text-white w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-stone-800">Dobití hotovostí</h1>
+                <p className="text-sm text-stone-600">Pokladna • {admin?.name}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/pos/charge")}
+              className="border-orange-200 text-orange-600 hover:bg-orange-50 rounded-xl"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              <Coffee className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 py-6 max-w-4xl">
+        {step === "scan" && (
+          <Card className="border-0 shadow-lg rounded-3xl">
+            <CardHeader className="pb-4">
+              <CardTitle className="flex items-center text-xl font-bold text-stone-800">
+                <Scan className="w-6 h-6 mr-3" />
+                Načtení zákazníka
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <Label htmlFor="tokenOrCode" className="text-stone-700 font-medium mb-2 block">
+                  QR kód nebo krátký kód
+                </Label>
+                <Input
+                  id="tokenOrCode"
+                  value={tokenOrCode}
+                  onChange={(e) => setTokenOrCode(e.target.value)}
+                  placeholder="Naskenujte QR kód nebo zadejte krátký kód"
+                  className="h-12 text-lg rounded-xl border-stone-300 focus:border-orange-500 focus:ring-orange-500"
+                  onKeyDown={(e) => e.key === "Enter" && handleScan()}
+                  disabled={initMutation.isPending}
+                />
+              </div>
+              <Button
+                onClick={handleScan}
+                disabled={initMutation.isPending || !tokenOrCode.trim()}
+                className="w-full h-12 bg-orange-600 hover:bg-orange-700 text-white font-medium rounded-xl"
+              >
+                {initMutation.isPending ? "Načítání..." : "Načíst zákazníka"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "confirm" && customerInfo && (
+          <div className="space-y-6">
+            <Card className="border-0 shadow-lg rounded-3xl bg-gradient-to-br from-green-50 to-green-100">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center text-xl font-bold text-green-800">
+                  <CheckCircle className="w-6 h-6 mr-3" />
+                  Informace o zákazníkovi
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <Label className="text-green-700 font-medium">Jméno</Label>
+                    <div className="flex items-center gap-2 mt-1">
+                      <p className="text-lg font-semibold text-green-900">{customerInfo.customerName}</p>
+                      <TierBadge tier={customerInfo.tier.tier} />
+                    </div>
+                  </div>
+                  <div>
+                    <Label className="text-green-700 font-medium">Email</Label>
+                    <p className="text-sm text-green-800 mt-1">{customerInfo.customerEmail}</p>
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label className="text-green-700 font-medium">Aktuální zůstatek</Label>
+                    <p className="text-3xl font-bold text-green-900 mt-1">{customerInfo.balanceCZK}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="border-0 shadow-lg rounded-3xl">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center text-xl font-bold text-stone-800">
+                  <Banknote className="w-6 h-6 mr-3" />
+                  Dobití
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {packages.map(pkg => (
+                    <button
+                      key={pkg.code}
+                      type="button"
+                      onClick={() => {
+                        setPackageCode(packageCode === pkg.code ? null : pkg.code);
+                        setAmount("");
+                      }}
+                      className={`p-4 rounded-2xl border-2 text-left transition-colors ${
+                        packageCode === pkg.code ? "border-orange-500 bg-orange-50" : "border-stone-200 bg-white hover:border-orange-300"
+                      }`}
+                    >
+                      <p className="font-semibold text-stone-800">{pkg.name}</p>
+                      <p className="text-sm text-stone-600">
+                        Zaplatí {formatCurrency(pkg.payCents)} • bonus {formatCurrency(pkg.bonusCents)}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+
+                <div>
+                  <Label htmlFor="amount" className="text-stone-700 font-medium mb-2 block">
+                    Vlastní částka (Kč, nejvýše {customerInfo.maxAmountCZK})
+                  </Label>
+                  <Input
+                    id="amount"
+                    type="number"
+                    step="1"
+                    min="1"
+                    max={customerInfo.maxAmountCZK}
+                    value={amount}
+                    onChange={(e) => {
+                      setAmount(e.target.value);
+                      setPackageCode(null);
+                    }}
+                    placeholder="0"
+                    className="h-12 text-xl rounded-xl border-stone-300 focus:border-orange-500 focus:ring-orange-500"
+                    disabled={confirmMutation.isPending}
+                  />
+                </div>
+
+                {payCents > 0 && (
+                  <div className="bg-stone-100 rounded-2xl p-4">
+                    <p className="text-stone-700">Převezměte hotovost <span className="font-bold">{formatCurrency(payCents)}</span></p>
+                    <p className="text-sm text-stone-600 mt-1">
+                      Zákazník dostane {formatCurrency(creditCents)}
+                      {tierBonusCents(payCents) > 0 && <> (včetně bonusu {customerInfo.tier.name} {formatCurrency(tierBonusCents(payCents))})</>}
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <Button
+                    onClick={handleConfirm}
+                    disabled={confirmMutation.isPending || payCents === 0}
+                    className="flex-1 h-12 bg-green-600 hover:bg-green-700 text-white font-medium rounded-xl"
+                  >
+                    {confirmMutation.isPending ? "Zpracovávání..." : "Hotovost přijata"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={resetFlow}
+                    className="h-12 border-orange-200 text-orange-600 hover:bg-orange-50 font-medium rounded-xl px-8"
+                  >
+                    Zrušit
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {step === "success" && topupResult && (
+          <div className="space-y-6">
+            <Card className="border-0 shadow-lg rounded-3xl bg-gradient-to-br from-green-50 to-green-100">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center text-xl font-bold text-green-800">
+                  <CheckCircle className="w-6 h-6 mr-3" />
+                  Dobití úspěšné
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <Label className="text-green-700 font-medium">Přijatá hotovost</Label>
+                    <p className="text-3xl font-bold text-green-900 mt-1">{formatCurrency(topupResult.amountCents)}</p>
+                    {topupResult.bonusCents > 0 && (
+                      <p className="text-sm text-green-700 mt-1">+ bonus {formatCurrency(topupResult.bonusCents)}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label className="text-green-700 font-medium">Nový zůstatek</Label>
+                    <p className="text-xl font-semibold text-green-800 mt-1">{topupResult.newBalanceCZK}</p>
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label className="text-green-700 font-medium">ID transakce</Label>
+                    <p className="text-sm font-mono text-green-800 mt-1 break-all">{topupResult.transactionId}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {voidCountdown > 0 && (
+              <Card className="border-0 shadow-lg rounded-3xl bg-gradient-to-br from-orange-50 to-orange-100">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center text-xl font-bold text-orange-800">
+                    <AlertCircle className="w-6 h-6 mr-3" />
+                    Možnost storna
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                    <p className="text-orange-800 text-lg">
+                      Dobití lze stornovat ještě <span className="font-bold text-xl">{voidCountdown}s</span>
+                    </p>
+                    <Button
+                      onClick={() => voidMutation.mutate(topupResult.topupId)}
+                      disabled={voidMutation.isPending}
+                      className="bg-red-600 hover:bg-red-700 text-white font-medium rounded-xl h-12 px-6"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      {voidMutation.isPending ? "Stornování..." : "Stornovat"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <PosPrintButtons kind="topup" id={topupResult.topupId} />
+
+            <div className="text-center">
+              <Button
+                onClick={resetFlow}
+                className="h-12 bg-orange-600 hover:bg-orange-700 text-white font-medium rounded-xl px-8"
+              >
+                Nové dobití
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
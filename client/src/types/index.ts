@@ -4,6 +4,7 @@ export interface User {
   name: string;
   status: "active" | "blocked";
   lastLoginAt?: string;
+  emailReceipts?: boolean;
 }
 
 export interface AdminUser {
@@ -19,6 +20,7 @@ export interface Wallet {
   id: string;
   userId: string;
   balanceCents: number;
+  bonusBalanceCents: number;
   bonusGrantedTotalCents: number;
   lastActivityAt?: string;
 }
@@ -26,15 +28,55 @@ export interface Wallet {
 export interface Transaction {
   id: string;
   userId: string;
-  type: "topup" | "charge" | "void" | "adjustment";
+  type: "topup" | "charge" | "void" | "adjustment" | "bonus_expiry" | "referral_bonus" | "transfer" | "voucher_bonus" | "topup_void";
   amountCents: number;
   relatedId?: string;
   idempotencyKey?: string;
   createdBy: "user" | "admin" | "system";
   meta: Record<string, any>;
+  items?: ChargeItem[]; // itemised charges only
+  receiptId?: string | null; // charges only
   createdAt: string;
 }
 
+// A product line of an itemised charge, at the price it was sold for
+export interface ChargeItem {
+  productId: string;
+  name: string;
+  category: string;
+  quantity: number;
+  unitPriceCents: number;
+  lineTotalCents: number;
+  vatRateBps: number;
+  vatCents: number;
+}
+
+export interface VatLine {
+  vatRateBps: number;
+  netCents: number;
+  vatCents: number;
+  grossCents: number;
+}
+
+// Receipt of a charge; html and text are renderings of the same server-side template
+export interface Receipt {
+  id: string;
+  receiptNumber: string;
+  chargeId: string;
+  issuedAt: string;
+  staffName: string;
+  items: ChargeItem[];
+  listAmountCents: number;
+  discountCents: number;
+  amountCents: number;
+  vatLines: VatLine[];
+  balanceAfterCents: number;
+  voided: boolean;
+  emailedAt: string | null;
+  html: string;
+  text: string;
+}
+
 export interface QRCodeData {
   qrPayload: string;
   shortCode: string;
@@ -54,14 +96,90 @@ export interface ChargeConfirmResponse {
   newBalanceCents: number;
 }
 
+// Stamp card as returned by GET /api/me/stamp-cards
+export interface StampCard {
+  programId: string;
+  name: string;
+  description: string | null;
+  stamps: number;
+  stampsRequired: number;
+  rewardName: string;
+  rewards: { id: string; valueCZK: string; valueCents: number; issuedAt: string }[];
+}
+
+export type CustomerTier = "bronze" | "silver" | "gold";
+
+// Tier as returned by GET /api/me/tier
+export interface TierInfo {
+  tier: CustomerTier;
+  name: string;
+  topupBonusBps: number;
+  chargeDiscountBps: number;
+  spendCZK: string;
+  spendCents: number;
+  windowDays: number;
+  next: { tier: CustomerTier; name: string; minSpendCents: number; remainingCZK: string; remainingCents: number } | null;
+}
+
+export type ReferralStatus = "pending" | "rewarded" | "rejected";
+
+export interface ReferralInfo {
+  code: string;
+  isActive: boolean;
+  referrerBonusCZK: string;
+  referrerBonusCents: number;
+  refereeBonusCZK: string;
+  refereeBonusCents: number;
+  referrals: {
+    id: string;
+    refereeName: string;
+    status: ReferralStatus;
+    bonusCZK: string | null;
+    bonusCents: number | null;
+    createdAt: string;
+    decidedAt: string | null;
+  }[];
+}
+
+export interface WalletTransfer {
+  transferId: string;
+  direction: "out" | "in";
+  status: "completed" | "pending" | "cancelled" | "expired";
+  counterpartyName: string | null;
+  recipientEmail: string | null;
+  amountCZK: string;
+  amountCents: number;
+  message: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface VoucherRedemption {
+  redemptionId: string;
+  code: string;
+  name: string;
+  type: "fixed" | "percent_bonus";
+  status: "credited" | "pending" | "expired";
+  bonusPercent: number | null;
+  bonusCZK: string | null;
+  bonusCents: number | null;
+  createdAt: string;
+  settledAt: string | null;
+}
+
 export interface CustomerSummary {
   id: string;
   name: string;
   email: string;
   balanceCZK: string;
   balanceCents: number;
+  paidBalanceCents: number;
+  bonusBalanceCents: number;
   bonusGrantedTotalCZK: string;
   bonusGrantedTotalCents: number;
+  tier: CustomerTier;
+  tierSpendCents: number;
   lastActivity?: string;
 }
 
@@ -69,6 +187,10 @@ export interface AdminSummary {
   membersCount: number;
   liabilityCZK: string;
   liabilityCents: number;
+  paidLiabilityCZK: string;
+  paidLiabilityCents: number;
+  bonusLiabilityCZK: string;
+  bonusLiabilityCents: number;
   bonusGrantedTotalCZK: string;
   bonusGrantedTotalCents: number;
   spendTodayCZK: string;
@@ -84,14 +206,17 @@ export interface ApiError {
   details?: any;
 }
 
-export type PackageCode = "MINI" | "STANDARD" | "MAXI" | "ULTRA";
-
+// Package as offered by GET /api/topup-packages, promotion already applied
 export interface TopUpPackage {
-  code: PackageCode;
+  id: string;
+  code: string;
+  version: number;
   name: string;
-  pay: number;
-  bonus: number;
-  total: number;
-  percentage: string;
-  popular?: boolean;
+  payCents: number;
+  bonusCents: number;
+  totalCents: number;
+  bonusPercent: number;
+  isPopular: boolean;
+  validTo: string | null;
+  promo: { label: string; bonusBps: number; endsAt: string | null } | null;
 }
@@ -0,0 +1,38 @@
+-- Durable QR payment tokens and charge sessions
+-- Replaces the in-memory qrCodes / pendingCharges maps in server/routes.ts
+
+CREATE TYPE charge_session_status AS ENUM ('initiated', 'confirmed', 'voided', 'expired');
+
+-- QR tokens: one row per issued QR, the JWT payload hash and the short code
+-- both point at the same row, so using either consumes both
+CREATE TABLE IF NOT EXISTS qr_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  payload_hash text NOT NULL UNIQUE,
+  short_code text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qr_tokens_user_id ON qr_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_qr_tokens_expires_at ON qr_tokens(expires_at);
+
+-- Charge sessions: chargeId returned by init, confirmed once, voidable within the void window
+CREATE TABLE IF NOT EXISTS charge_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  admin_id uuid NOT NULL REFERENCES admin_users(id),
+  qr_token_id uuid REFERENCES qr_tokens(id) ON DELETE SET NULL,
+  status charge_session_status NOT NULL DEFAULT 'initiated',
+  amount_cents integer CHECK (amount_cents IS NULL OR amount_cents > 0),
+  transaction_id uuid,
+  ledger_tx_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  confirmed_at timestamptz,
+  voided_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_charge_sessions_user_id ON charge_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_charge_sessions_status_expires ON charge_sessions(status, expires_at);
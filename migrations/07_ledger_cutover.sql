@@ -0,0 +1,7 @@
+-- Ledger cutover
+-- Manual balance adjustments become their own ledger transaction type, and
+-- origin_ref links postings back to the legacy transactions row they mirror
+
+ALTER TYPE ledger_transaction_type ADD VALUE IF NOT EXISTS 'adjustment' BEFORE 'reversal';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_tx_origin_ref ON ledger_transactions(origin_ref) WHERE origin_ref IS NOT NULL;
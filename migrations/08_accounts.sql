@@ -0,0 +1,35 @@
+-- Chart of accounts
+-- Replaces the hard-coded account codes (1000/2000/4000/5000) with a table that
+-- the ledger validates postings against; admins can add accounts at runtime
+
+CREATE TYPE account_type AS ENUM ('asset', 'liability', 'revenue', 'expense', 'equity');
+
+CREATE TABLE IF NOT EXISTS accounts (
+    code INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    type account_type NOT NULL,
+    normal_side ledger_entry_side NOT NULL,
+    per_customer BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO accounts (code, name, type, normal_side, per_customer) VALUES
+    (1000, 'Cash / Top-up Clearing', 'asset', 'debit', FALSE),
+    (2000, 'Customer Credits', 'liability', 'credit', TRUE),
+    (4000, 'Sales Revenue', 'revenue', 'credit', FALSE),
+    (5000, 'Marketing Expense', 'expense', 'debit', FALSE)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE ledger_entries
+    ADD CONSTRAINT ledger_entries_account_code_fk FOREIGN KEY (account_code) REFERENCES accounts(code);
+
+ALTER TABLE account_balances
+    ADD CONSTRAINT account_balances_account_code_fk FOREIGN KEY (account_code) REFERENCES accounts(code);
+
+-- The per-account rules from 05 hard-code 1000/2000/4000/5000; the ledger now checks
+-- postings against accounts.per_customer instead, including the no-overdraft rule for
+-- per-customer liabilities
+ALTER TABLE account_balances DROP CONSTRAINT IF EXISTS customer_credits_user_required;
+ALTER TABLE account_balances DROP CONSTRAINT IF EXISTS global_accounts_user_null;
+ALTER TABLE account_balances DROP CONSTRAINT IF EXISTS customer_credits_balance_non_negative;
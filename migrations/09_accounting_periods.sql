@@ -0,0 +1,39 @@
+-- Accounting periods
+-- A manager closes a day or month once it has been reconciled; closing freezes a
+-- balance snapshot per account and blocks further postings dated inside the period
+
+-- Accounting date of a posting (defaults to the moment it was recorded)
+ALTER TABLE ledger_transactions ADD COLUMN IF NOT EXISTS effective_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+UPDATE ledger_transactions SET effective_at = created_at;
+CREATE INDEX IF NOT EXISTS idx_ledger_tx_effective_at ON ledger_transactions(effective_at);
+
+CREATE TYPE accounting_period_granularity AS ENUM ('day', 'month');
+CREATE TYPE accounting_period_status AS ENUM ('open', 'closed');
+
+CREATE TABLE IF NOT EXISTS accounting_periods (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    granularity accounting_period_granularity NOT NULL,
+    starts_at TIMESTAMPTZ NOT NULL, -- UTC midnight, inclusive
+    ends_at TIMESTAMPTZ NOT NULL, -- UTC midnight, exclusive
+    status accounting_period_status NOT NULL DEFAULT 'open',
+    closed_at TIMESTAMPTZ,
+    closed_by UUID REFERENCES admin_users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT accounting_periods_granularity_start_unique UNIQUE (granularity, starts_at),
+    CONSTRAINT accounting_periods_range_check CHECK (ends_at > starts_at),
+    CONSTRAINT accounting_periods_closed_check CHECK ((status = 'closed') = (closed_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_periods_range ON accounting_periods(starts_at, ends_at);
+
+CREATE TABLE IF NOT EXISTS period_balance_snapshots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    period_id UUID NOT NULL REFERENCES accounting_periods(id) ON DELETE CASCADE,
+    account_code INTEGER NOT NULL REFERENCES accounts(code),
+    user_id UUID,
+    debit_minor BIGINT NOT NULL, -- activity within the period
+    credit_minor BIGINT NOT NULL,
+    balance_minor BIGINT NOT NULL -- closing balance at period end
+);
+
+CREATE INDEX IF NOT EXISTS idx_period_balance_snapshots_period ON period_balance_snapshots(period_id);
@@ -0,0 +1,27 @@
+-- Scheduled background jobs
+-- The in-process scheduler (server/scheduler.ts) claims each schedule slot through
+-- job_locks, so only one server instance runs a given job, and records every run in job_runs
+
+CREATE TYPE job_run_status AS ENUM ('running', 'succeeded', 'failed');
+
+CREATE TABLE IF NOT EXISTS job_locks (
+  job_name text PRIMARY KEY,
+  locked_by text NOT NULL,
+  locked_until timestamptz NOT NULL, -- lease, another instance may take over once it passes
+  last_slot_at timestamptz NOT NULL -- last schedule slot claimed, a slot runs at most once
+);
+
+CREATE TABLE IF NOT EXISTS job_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name text NOT NULL,
+  instance_id text NOT NULL,
+  scheduled_for timestamptz NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  status job_run_status NOT NULL DEFAULT 'running',
+  result jsonb,
+  error text
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started ON job_runs(job_name, started_at);
+CREATE INDEX IF NOT EXISTS idx_job_runs_status_started ON job_runs(status, started_at);
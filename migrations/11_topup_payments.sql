@@ -0,0 +1,29 @@
+-- Customer top-up payments
+-- POST /api/me/topup now opens a payment with the configured provider; the wallet
+-- (bonus included) is credited only once the provider reports the payment captured
+
+CREATE TYPE topup_payment_status AS ENUM ('pending', 'authorized', 'captured', 'failed');
+
+CREATE TABLE IF NOT EXISTS topup_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  package_code text NOT NULL,
+  amount_cents integer NOT NULL CHECK (amount_cents > 0),
+  bonus_cents integer NOT NULL CHECK (bonus_cents >= 0),
+  provider text NOT NULL,
+  provider_ref text,
+  redirect_url text,
+  status topup_payment_status NOT NULL DEFAULT 'pending',
+  idempotency_key text NOT NULL,
+  transaction_id uuid REFERENCES transactions(id),
+  failure_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  authorized_at timestamptz,
+  captured_at timestamptz,
+  CONSTRAINT topup_payments_user_idempotency_unique UNIQUE (user_id, idempotency_key),
+  CONSTRAINT topup_payments_provider_ref_unique UNIQUE (provider, provider_ref),
+  CONSTRAINT topup_payments_captured_check CHECK ((status = 'captured') = (transaction_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_topup_payments_user_created ON topup_payments(user_id, created_at);
@@ -0,0 +1,43 @@
+-- Admin-managed top-up packages
+-- Replaces the TOP_UP_PACKAGES constant. Every edit inserts a new version and supersedes
+-- the previous one; topup_payments.package_id records the version a top-up was sold on
+
+CREATE TABLE IF NOT EXISTS topup_packages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL,
+  version integer NOT NULL CHECK (version > 0),
+  name text NOT NULL,
+  pay_cents integer NOT NULL CHECK (pay_cents > 0),
+  bonus_cents integer NOT NULL CHECK (bonus_cents >= 0),
+  is_popular boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  valid_from timestamptz,
+  valid_to timestamptz,
+  promo_label text,
+  promo_bonus_bps integer CHECK (promo_bonus_bps > 0),
+  promo_starts_at timestamptz,
+  promo_ends_at timestamptz,
+  superseded_at timestamptz,
+  created_by uuid REFERENCES admin_users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT topup_packages_code_version_unique UNIQUE (code, version),
+  CONSTRAINT topup_packages_valid_window_check CHECK (valid_from IS NULL OR valid_to IS NULL OR valid_from < valid_to),
+  CONSTRAINT topup_packages_promo_check CHECK (
+    (promo_bonus_bps IS NULL) = (promo_label IS NULL)
+    AND (promo_starts_at IS NULL OR promo_ends_at IS NULL OR promo_starts_at < promo_ends_at)
+  )
+);
+
+-- One current version per code
+CREATE UNIQUE INDEX IF NOT EXISTS topup_packages_current_code_unique ON topup_packages(code) WHERE superseded_at IS NULL;
+
+-- The packages previously hard-coded in shared/schema.ts
+INSERT INTO topup_packages (code, version, name, pay_cents, bonus_cents, is_popular, sort_order) VALUES
+  ('MINI', 1, 'MINI', 39000, 3000, false, 10),
+  ('STANDARD', 1, 'STANDARD', 89000, 9000, true, 20),
+  ('MAXI', 1, 'MAXI', 159000, 23000, false, 30),
+  ('ULTRA', 1, 'ULTRA', 209000, 40000, false, 40)
+ON CONFLICT (code, version) DO NOTHING;
+
+ALTER TABLE topup_payments ADD COLUMN IF NOT EXISTS package_id uuid REFERENCES topup_packages(id);
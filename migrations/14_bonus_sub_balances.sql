@@ -0,0 +1,18 @@
+-- Paid and bonus credit as separate sub-balances
+-- wallets.balance_cents stays the total; bonus_balance_cents is the bonus part of it.
+-- In the ledger, bonus credit lives on its own per-customer liability account 2010
+-- and account 2000 holds paid credit only. Balances that predate this migration
+-- cannot be split after the fact and are counted as paid credit
+
+ALTER TABLE wallets
+  ADD COLUMN IF NOT EXISTS bonus_balance_cents integer NOT NULL DEFAULT 0;
+
+ALTER TABLE wallets
+  ADD CONSTRAINT wallets_bonus_balance_check
+  CHECK (bonus_balance_cents >= 0 AND bonus_balance_cents <= balance_cents);
+
+UPDATE accounts SET name = 'Customer Paid Credits' WHERE code = 2000;
+
+INSERT INTO accounts (code, name, type, normal_side, per_customer) VALUES
+  (2010, 'Customer Bonus Credits', 'liability', 'credit', TRUE)
+ON CONFLICT (code) DO NOTHING;
@@ -0,0 +1,32 @@
+-- Bonus credit expiry
+-- Every top-up bonus opens a lot in bonus_lots; spending bonus drains the oldest lots
+-- first and the expire-bonus job moves what is left of an expired lot from account
+-- 2010 to breakage (4100). Bonus balances from before this migration get one lot per
+-- wallet, expiring 12 months from now
+
+ALTER TYPE txn_type ADD VALUE IF NOT EXISTS 'bonus_expiry';
+ALTER TYPE ledger_transaction_type ADD VALUE IF NOT EXISTS 'expiry' BEFORE 'reversal';
+
+INSERT INTO accounts (code, name, type, normal_side, per_customer) VALUES
+  (4100, 'Breakage Revenue', 'revenue', 'credit', FALSE)
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS bonus_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES transactions(id),
+  granted_cents integer NOT NULL CHECK (granted_cents > 0),
+  remaining_cents integer NOT NULL CHECK (remaining_cents >= 0 AND remaining_cents <= granted_cents),
+  granted_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  warned_at timestamptz,
+  expired_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_bonus_lots_user_expires ON bonus_lots(user_id, expires_at);
+CREATE INDEX IF NOT EXISTS idx_bonus_lots_open ON bonus_lots(expires_at) WHERE remaining_cents > 0;
+
+INSERT INTO bonus_lots (user_id, granted_cents, remaining_cents, expires_at)
+SELECT user_id, bonus_balance_cents, bonus_balance_cents, now() + interval '12 months'
+FROM wallets
+WHERE bonus_balance_cents > 0;
@@ -0,0 +1,56 @@
+-- Stamp card programmes alongside the wallet
+-- Confirmed charges earn stamps on every active programme (stamp_entries is the
+-- per-customer stamp ledger); a full card issues a stamp_rewards row, which the POS
+-- can redeem instead of wallet money (charge_sessions.reward_id)
+
+CREATE TYPE stamp_rule AS ENUM ('per_charge', 'per_amount');
+CREATE TYPE stamp_entry_reason AS ENUM ('charge', 'void', 'reward');
+CREATE TYPE stamp_reward_status AS ENUM ('available', 'redeemed', 'revoked');
+
+CREATE TABLE IF NOT EXISTS stamp_programs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  rule stamp_rule NOT NULL,
+  threshold_cents integer NOT NULL DEFAULT 0 CHECK (threshold_cents >= 0),
+  stamps_required integer NOT NULL CHECK (stamps_required > 0),
+  reward_name text NOT NULL,
+  reward_value_cents integer NOT NULL CHECK (reward_value_cents > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES admin_users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  -- per_amount needs a positive amount per stamp
+  CONSTRAINT stamp_programs_threshold_check CHECK (rule <> 'per_amount' OR threshold_cents > 0)
+);
+
+CREATE TABLE IF NOT EXISTS stamp_rewards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id uuid NOT NULL REFERENCES stamp_programs(id),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status stamp_reward_status NOT NULL DEFAULT 'available',
+  value_cents integer NOT NULL CHECK (value_cents > 0),
+  issued_by_charge_id uuid,
+  redeemed_charge_id uuid,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  redeemed_at timestamptz,
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stamp_rewards_user_status ON stamp_rewards(user_id, status);
+
+CREATE TABLE IF NOT EXISTS stamp_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id uuid NOT NULL REFERENCES stamp_programs(id),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  delta integer NOT NULL CHECK (delta <> 0),
+  reason stamp_entry_reason NOT NULL,
+  charge_id uuid REFERENCES charge_sessions(id),
+  reward_id uuid REFERENCES stamp_rewards(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stamp_entries_user_program ON stamp_entries(user_id, program_id);
+CREATE INDEX IF NOT EXISTS idx_stamp_entries_charge ON stamp_entries(charge_id);
+
+ALTER TABLE charge_sessions ADD COLUMN IF NOT EXISTS reward_id uuid;
@@ -0,0 +1,12 @@
+-- Customer tiers (Bronze / Silver / Gold) from charge spend over a rolling window
+-- The tier is recomputed after every charge and void and nightly by the
+-- recompute-tiers job; tier_spend_cents is the spend it was last computed from
+
+CREATE TYPE customer_tier AS ENUM ('bronze', 'silver', 'gold');
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS tier customer_tier NOT NULL DEFAULT 'bronze',
+  ADD COLUMN IF NOT EXISTS tier_spend_cents integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tier_updated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_users_tier ON users(tier);
@@ -0,0 +1,53 @@
+-- Referral programme
+-- Every customer gets a personal referral code. A signup with that code records a
+-- referrals row; when the referee's first top-up is captured both sides get a bonus
+-- (transactions of type referral_bonus; in the ledger Dr 5000 Marketing / Cr 2010).
+-- Anti-abuse rules and bonus amounts live in the single-row referral_settings
+
+ALTER TYPE txn_type ADD VALUE IF NOT EXISTS 'referral_bonus';
+
+CREATE TYPE referral_status AS ENUM ('pending', 'rewarded', 'rejected');
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS referral_code text UNIQUE;
+
+-- Codes for existing customers; new ones get theirs in createUser
+UPDATE users
+SET referral_code = upper(substr(md5(random()::text || id::text), 1, 8))
+WHERE referral_code IS NULL;
+
+CREATE TABLE IF NOT EXISTS referrals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  referee_id uuid NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  status referral_status NOT NULL DEFAULT 'pending',
+  reject_reason text,
+  signup_ip inet,
+  signup_user_agent text,
+  referrer_bonus_cents integer CHECK (referrer_bonus_cents IS NULL OR referrer_bonus_cents >= 0),
+  referee_bonus_cents integer CHECK (referee_bonus_cents IS NULL OR referee_bonus_cents >= 0),
+  qualifying_payment_id uuid REFERENCES topup_payments(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  decided_at timestamptz,
+  CONSTRAINT referrals_not_self CHECK (referrer_id <> referee_id),
+  CONSTRAINT referrals_reject_reason_check CHECK ((status = 'rejected') = (reject_reason IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer ON referrals(referrer_id, status);
+
+CREATE TABLE IF NOT EXISTS referral_settings (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  is_active boolean NOT NULL DEFAULT true,
+  referrer_bonus_cents integer NOT NULL CHECK (referrer_bonus_cents >= 0),
+  referee_bonus_cents integer NOT NULL CHECK (referee_bonus_cents >= 0),
+  max_rewards_per_referrer integer CHECK (max_rewards_per_referrer IS NULL OR max_rewards_per_referrer > 0),
+  -- Off by default: referrals made in the café share its wifi
+  block_same_ip boolean NOT NULL DEFAULT false,
+  block_same_device boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES admin_users(id),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO referral_settings (id, referrer_bonus_cents, referee_bonus_cents, max_rewards_per_referrer)
+VALUES (1, 10000, 5000, 10)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,35 @@
+-- Wallet-to-wallet transfers and gifts
+-- Customers move paid credit to another customer: Dr 2000(sender) / Cr 2000(recipient)
+-- in one ledger transaction. A gift to an email with no account yet is held on 2020
+-- Pending Gifts (Dr 2000(sender) / Cr 2020) until the recipient signs up and claims it
+-- (Dr 2020 / Cr 2000(recipient)); cancelled or expired gifts go back to the sender.
+-- Bonus credit is not transferable
+
+ALTER TYPE txn_type ADD VALUE IF NOT EXISTS 'transfer';
+ALTER TYPE ledger_transaction_type ADD VALUE IF NOT EXISTS 'transfer' BEFORE 'reversal';
+
+CREATE TYPE wallet_transfer_status AS ENUM ('completed', 'pending', 'cancelled', 'expired');
+
+INSERT INTO accounts (code, name, type, normal_side, per_customer) VALUES
+  (2020, 'Pending Gifts', 'liability', 'credit', FALSE)
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS wallet_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  recipient_email text NOT NULL,
+  amount_cents integer NOT NULL CHECK (amount_cents > 0),
+  message text CHECK (message IS NULL OR char_length(message) <= 200),
+  status wallet_transfer_status NOT NULL,
+  idempotency_key text NOT NULL,
+  expires_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz,
+  CONSTRAINT wallet_transfers_sender_key_unique UNIQUE (sender_id, idempotency_key),
+  CONSTRAINT wallet_transfers_not_self CHECK (recipient_id IS NULL OR recipient_id <> sender_id),
+  CONSTRAINT wallet_transfers_recipient_check CHECK (status <> 'completed' OR recipient_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transfers_sender_created ON wallet_transfers(sender_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_wallet_transfers_pending_email ON wallet_transfers(recipient_email) WHERE status = 'pending';
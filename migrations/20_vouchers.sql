@@ -0,0 +1,58 @@
+-- Promo and voucher codes
+-- A batch holds the terms (fixed bonus or a percentage bonus on the next top-up,
+-- validity, per-code and per-customer limits); its codes are what customers type in.
+-- Credited vouchers are transactions of type voucher_bonus, in the ledger
+-- Dr 5000 Marketing / Cr 2010 like any other bonus
+
+ALTER TYPE txn_type ADD VALUE IF NOT EXISTS 'voucher_bonus';
+
+CREATE TYPE voucher_type AS ENUM ('fixed', 'percent_bonus');
+CREATE TYPE voucher_redemption_status AS ENUM ('credited', 'pending', 'expired');
+
+CREATE TABLE IF NOT EXISTS voucher_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  type voucher_type NOT NULL,
+  value_cents integer CHECK (value_cents IS NULL OR value_cents > 0),
+  bonus_bps integer CHECK (bonus_bps IS NULL OR bonus_bps BETWEEN 1 AND 10000),
+  max_redemptions_per_code integer CHECK (max_redemptions_per_code IS NULL OR max_redemptions_per_code > 0),
+  per_customer_limit integer NOT NULL DEFAULT 1 CHECK (per_customer_limit > 0),
+  valid_from timestamptz,
+  expires_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES admin_users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT voucher_batches_value_check CHECK (
+    (type = 'fixed' AND value_cents IS NOT NULL AND bonus_bps IS NULL)
+    OR (type = 'percent_bonus' AND bonus_bps IS NOT NULL AND value_cents IS NULL)
+  ),
+  CONSTRAINT voucher_batches_window_check CHECK (valid_from IS NULL OR expires_at IS NULL OR valid_from < expires_at)
+);
+
+CREATE TABLE IF NOT EXISTS vouchers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES voucher_batches(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  redemption_count integer NOT NULL DEFAULT 0 CHECK (redemption_count >= 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vouchers_batch ON vouchers(batch_id);
+
+CREATE TABLE IF NOT EXISTS voucher_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  voucher_id uuid NOT NULL REFERENCES vouchers(id),
+  batch_id uuid NOT NULL REFERENCES voucher_batches(id),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status voucher_redemption_status NOT NULL,
+  bonus_cents integer CHECK (bonus_cents IS NULL OR bonus_cents >= 0),
+  payment_id uuid REFERENCES topup_payments(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  settled_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_voucher_redemptions_user_batch ON voucher_redemptions(user_id, batch_id);
+
+-- Percentage bonuses do not stack: one waiting for a top-up per customer
+CREATE UNIQUE INDEX IF NOT EXISTS voucher_redemptions_pending_user_unique
+  ON voucher_redemptions(user_id) WHERE status = 'pending';
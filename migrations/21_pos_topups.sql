@@ -0,0 +1,38 @@
+-- Cash top-ups at the counter
+-- The cashier scans the customer's QR like for a charge, picks a package or types an
+-- amount and takes the cash. The credit is a transaction of type topup posted
+-- Dr 1010 Cash Drawer / Cr 2000 (bonus Dr 5000 / Cr 2010) instead of the card
+-- provider's 1000 Cash. Inside the charge void window it can be voided (transaction
+-- topup_void, ledger reversal) as long as the customer has not spent the credit
+
+ALTER TYPE txn_type ADD VALUE IF NOT EXISTS 'topup_void';
+
+CREATE TYPE pos_topup_status AS ENUM ('initiated', 'confirmed', 'voided', 'expired');
+
+INSERT INTO accounts (code, name, type, normal_side, per_customer) VALUES
+  (1010, 'Cash Drawer', 'asset', 'debit', FALSE)
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS pos_topups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  admin_id uuid NOT NULL REFERENCES admin_users(id),
+  admin_session_id uuid REFERENCES admin_sessions(id),
+  qr_token_id uuid REFERENCES qr_tokens(id) ON DELETE SET NULL,
+  status pos_topup_status NOT NULL DEFAULT 'initiated',
+  package_code text,
+  package_id uuid REFERENCES topup_packages(id),
+  amount_cents integer CHECK (amount_cents IS NULL OR amount_cents > 0),
+  bonus_cents integer CHECK (bonus_cents IS NULL OR bonus_cents >= 0),
+  transaction_id uuid,
+  ledger_tx_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  confirmed_at timestamptz,
+  voided_at timestamptz,
+  voided_by uuid REFERENCES admin_users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pos_topups_user_id ON pos_topups(user_id);
+CREATE INDEX IF NOT EXISTS idx_pos_topups_status_expires ON pos_topups(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_pos_topups_admin_session ON pos_topups(admin_session_id);
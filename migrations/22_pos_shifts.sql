@@ -0,0 +1,36 @@
+-- Till shifts and Z-reports
+-- A staff member opens a shift with the cash float in the drawer and closes it with the
+-- cash counted. The Z-report covers what they did between the two (charges, voids, cash
+-- top-ups, adjustments), found through transactions.meta.adminId, and is stored as
+-- jsonb on the shift together with expected cash, counted cash and the variance
+
+CREATE TYPE pos_shift_status AS ENUM ('open', 'closed');
+
+CREATE TABLE IF NOT EXISTS pos_shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id uuid NOT NULL REFERENCES admin_users(id),
+  admin_session_id uuid REFERENCES admin_sessions(id),
+  status pos_shift_status NOT NULL DEFAULT 'open',
+  opening_float_cents integer NOT NULL CHECK (opening_float_cents >= 0),
+  counted_cash_cents integer CHECK (counted_cash_cents IS NULL OR counted_cash_cents >= 0),
+  expected_cash_cents integer,
+  variance_cents integer,
+  report jsonb,
+  note text,
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz,
+  CONSTRAINT pos_shifts_closed_check CHECK (
+    (status = 'open' AND closed_at IS NULL)
+    OR (status = 'closed' AND closed_at IS NOT NULL AND counted_cash_cents IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_pos_shifts_admin_opened ON pos_shifts(admin_id, opened_at);
+
+-- One open shift per staff member
+CREATE UNIQUE INDEX IF NOT EXISTS pos_shifts_open_admin_unique
+  ON pos_shifts(admin_id) WHERE status = 'open';
+
+-- Shift activity is looked up by the staff member who recorded it
+CREATE INDEX IF NOT EXISTS idx_transactions_meta_admin_created
+  ON transactions((meta->>'adminId'), created_at);
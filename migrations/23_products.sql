@@ -0,0 +1,35 @@
+-- Product catalogue and itemised charges
+-- Managers keep a catalogue of products (prices include VAT). The POS builds a basket
+-- from it and the charge amount is the basket total; each line is copied into
+-- charge_items with the name, price and VAT rate it was sold at
+
+CREATE TABLE IF NOT EXISTS products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  category text NOT NULL,
+  price_cents integer NOT NULL CHECK (price_cents > 0),
+  vat_rate_bps integer NOT NULL CHECK (vat_rate_bps >= 0 AND vat_rate_bps <= 10000),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES admin_users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_category_name ON products(category, name);
+
+CREATE TABLE IF NOT EXISTS charge_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  charge_id uuid NOT NULL REFERENCES charge_sessions(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id),
+  name text NOT NULL,
+  category text NOT NULL,
+  unit_price_cents integer NOT NULL CHECK (unit_price_cents > 0),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  vat_rate_bps integer NOT NULL,
+  line_total_cents integer NOT NULL CHECK (line_total_cents = unit_price_cents * quantity),
+  vat_cents integer NOT NULL CHECK (vat_cents >= 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_charge_items_charge_id ON charge_items(charge_id);
+CREATE INDEX IF NOT EXISTS idx_charge_items_product_id ON charge_items(product_id);
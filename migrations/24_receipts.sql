@@ -0,0 +1,31 @@
+-- Digital receipts for charges
+-- Every wallet charge issues a receipt in the same transaction, numbered per calendar
+-- year (Prague time) from a counter row that starts again at 1 each year (2026-000123).
+-- The row is bumped in the receipt's transaction. Customers who opt in with users.email_receipts
+-- also get it by email; emailed_at records when that went out
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS email_receipts boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS receipt_number_counters (
+  year integer PRIMARY KEY,
+  last_number integer NOT NULL CHECK (last_number > 0)
+);
+
+CREATE TABLE IF NOT EXISTS receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number text NOT NULL UNIQUE,
+  charge_id uuid NOT NULL UNIQUE REFERENCES charge_sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  admin_id uuid REFERENCES admin_users(id),
+  staff_name text NOT NULL,
+  list_amount_cents integer NOT NULL CHECK (list_amount_cents > 0),
+  discount_cents integer NOT NULL DEFAULT 0 CHECK (discount_cents >= 0),
+  amount_cents integer NOT NULL CHECK (amount_cents = list_amount_cents - discount_cents),
+  balance_after_cents integer NOT NULL,
+  vat_lines jsonb NOT NULL DEFAULT '[]',
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  emailed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipts_user_issued ON receipts(user_id, issued_at);
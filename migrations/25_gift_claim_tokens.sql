@@ -0,0 +1,14 @@
+-- Gift claim links
+-- Signing up with a gift's email no longer claims it: signup does not verify the
+-- address, so anyone could register it first. The gift email carries a claim link
+-- instead; only the SHA-256 of its token is stored. A gift stays pending, and
+-- cancellable by the sender, until the recipient opens the link signed in with
+-- the addressed email
+
+ALTER TABLE wallet_transfers
+  ADD COLUMN IF NOT EXISTS claim_token_hash text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_transfers_claim_token
+  ON wallet_transfers(claim_token_hash) WHERE claim_token_hash IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_wallet_transfers_pending_email;
@@ -0,0 +1,10 @@
+-- Cash top-ups settle referrals and percent vouchers
+-- A confirmed cash top-up at the till counts like a captured card payment: it can be
+-- the referee's first top-up and the one a pending percent_bonus voucher applies to.
+-- Exactly one of the two references is set once settled
+
+ALTER TABLE referrals
+  ADD COLUMN IF NOT EXISTS qualifying_pos_topup_id uuid REFERENCES pos_topups(id);
+
+ALTER TABLE voucher_redemptions
+  ADD COLUMN IF NOT EXISTS pos_topup_id uuid REFERENCES pos_topups(id);
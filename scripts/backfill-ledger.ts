@@ -0,0 +1,280 @@
+#!/usr/bin/env tsx
+
+/**
+ * One-shot ledger backfill.
+ *
+ * Replays every legacy `transactions` row (oldest first) into the double-entry
+ * ledger so that accounts 2000 + 2010 match `wallets.balance_cents` before
+ * LEDGER_CUTOVER is switched on. Each posting carries origin_ref = transactions.id,
+ * which makes the script safe to re-run: rows that already have a posting are skipped.
+ *
+ * Postings keep the legacy row's created_at as their accounting date, so rows that
+ * fall into an already closed period are reported as failed rather than posted.
+ *
+ * Charges and voids that were mirrored by the old best-effort LEDGER_POS_INTEGRATION
+ * path are adopted (linked via origin_ref) instead of being posted twice.
+ *
+ * Cash top-ups taken at the POS are posted to 1010 Cash Drawer; a voided one is reversed.
+ *
+ * A direct wallet transfer has two legacy rows but one posting, made for the sender's
+ * row; the recipient's row is counted as already in the ledger.
+ *
+ * Usage: tsx scripts/backfill-ledger.ts [--dry-run]
+ */
+
+import { db } from "../server/db";
+import { transactions, chargeSessions, posTopups, ledgerTransactions, wallets, accountBalances, type Transaction } from "../shared/schema";
+import { ledgerService, type LedgerExecutor } from "../server/routes/ledger/service";
+import { SystemAccount } from "../shared/contracts/ledger";
+import { and, asc, eq, inArray, isNull, sql } from "drizzle-orm";
+
+type ReplayOutcome = "posted" | "adopted" | "skipped";
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function findChargeLedgerTxId(executor: LedgerExecutor, row: Transaction): Promise<string | null> {
+  if (!row.relatedId) {
+    return null;
+  }
+
+  const [session] = await executor
+    .select()
+    .from(chargeSessions)
+    .where(eq(chargeSessions.id, row.relatedId));
+
+  if (session?.ledgerTxId) {
+    return session.ledgerTxId;
+  }
+
+  // Charge confirmed before charge sessions existed - resolve through the legacy row
+  const [chargeRow] = await executor
+    .select()
+    .from(transactions)
+    .where(and(eq(transactions.relatedId, row.relatedId), eq(transactions.type, "charge")));
+
+  if (!chargeRow) {
+    return null;
+  }
+
+  const [posting] = await ledgerService.getTransactionsByOriginRef(chargeRow.id, executor);
+  return posting?.id ?? null;
+}
+
+// Link an existing posting without origin_ref to the legacy row it mirrors
+async function adoptPosting(executor: LedgerExecutor, ledgerTxId: string, row: Transaction): Promise<boolean> {
+  const adopted = await executor
+    .update(ledgerTransactions)
+    .set({ originRef: row.id })
+    .where(and(eq(ledgerTransactions.id, ledgerTxId), isNull(ledgerTransactions.originRef)))
+    .returning({ id: ledgerTransactions.id });
+  return adopted.length > 0;
+}
+
+async function replayRow(executor: LedgerExecutor, row: Transaction): Promise<ReplayOutcome> {
+  const meta = (row.meta ?? {}) as Record<string, any>;
+  const options = { executor, originRef: row.id, effectiveAt: row.createdAt };
+
+  switch (row.type) {
+    case "topup": {
+      const payCents = Number(meta.payCents ?? row.amountCents);
+      const bonusCents = Number(meta.bonusCents ?? 0);
+      await ledgerService.topup({
+        userId: row.userId,
+        amountMinor: payCents,
+        bonusMinor: bonusCents,
+        tender: meta.tender === "cash" ? "cash" : undefined,
+        note: `backfill topup ${meta.packageCode ?? ""}`.trim()
+      }, options);
+      return "posted";
+    }
+
+    case "charge": {
+      const [session] = row.relatedId
+        ? await executor.select().from(chargeSessions).where(eq(chargeSessions.id, row.relatedId))
+        : [];
+
+      if (session?.ledgerTxId && await adoptPosting(executor, session.ledgerTxId, row)) {
+        return "adopted";
+      }
+
+      // Charges recorded before the paid/bonus split carry no bonusCents; the ledger splits those itself
+      const posting = await ledgerService.charge({
+        userId: row.userId,
+        amountMinor: Math.abs(row.amountCents),
+        bonusMinor: meta.bonusCents !== undefined ? Number(meta.bonusCents) : undefined,
+        note: "backfill charge"
+      }, options);
+      if (session) {
+        await executor
+          .update(chargeSessions)
+          .set({ ledgerTxId: posting.txId })
+          .where(eq(chargeSessions.id, session.id));
+      }
+      return "posted";
+    }
+
+    case "void": {
+      const chargeLedgerTxId = await findChargeLedgerTxId(executor, row);
+      if (!chargeLedgerTxId) {
+        throw new Error(`No ledger posting found for the charge voided by ${row.id}`);
+      }
+
+      const [existingReversal] = await executor
+        .select()
+        .from(ledgerTransactions)
+        .where(eq(ledgerTransactions.reversalOf, chargeLedgerTxId));
+
+      if (existingReversal && await adoptPosting(executor, existingReversal.id, row)) {
+        return "adopted";
+      }
+
+      await ledgerService.reversal({ txId: chargeLedgerTxId }, options);
+      return "posted";
+    }
+
+    case "topup_void": {
+      // Replayed oldest first, so the voided cash top-up is already in the ledger
+      const [topup] = row.relatedId
+        ? await executor.select().from(posTopups).where(eq(posTopups.id, row.relatedId))
+        : [];
+      const [topupPosting] = topup?.transactionId
+        ? await ledgerService.getTransactionsByOriginRef(topup.transactionId, executor)
+        : [];
+      if (!topupPosting) {
+        throw new Error(`No ledger posting found for the top-up voided by ${row.id}`);
+      }
+
+      await ledgerService.reversal({ txId: topupPosting.id }, options);
+      return "posted";
+    }
+
+    case "adjustment":
+      await ledgerService.adjustment({
+        userId: row.userId,
+        amountMinor: row.amountCents,
+        bonusMinor: meta.bonusCents !== undefined ? Number(meta.bonusCents) : undefined,
+        reason: meta.reason ?? "backfill adjustment"
+      }, options);
+      return "posted";
+
+    case "bonus_expiry":
+      await ledgerService.expiry({ userId: row.userId, amountMinor: Math.abs(row.amountCents), lotId: meta.lotId }, options);
+      return "posted";
+
+    case "transfer": {
+      // Gift legs go through 2020 Pending Gifts; see migrations/19_wallet_transfers.sql
+      const direction = meta.direction as "out" | "in" | "refund";
+      if (direction === "in" && !meta.gift) {
+        return "skipped";
+      }
+      await ledgerService.transfer({
+        fromUserId: direction === "out" ? row.userId : null,
+        toUserId: direction === "out" ? (meta.gift ? null : meta.counterpartyId) : row.userId,
+        amountMinor: Math.abs(row.amountCents),
+        transferId: meta.transferId
+      }, options);
+      return "posted";
+    }
+
+    case "referral_bonus":
+      await ledgerService.bonus({
+        userId: row.userId,
+        amountMinor: row.amountCents,
+        reason: `referral ${meta.role} ${meta.referralId}`
+      }, options);
+      return "posted";
+
+    case "voucher_bonus":
+      await ledgerService.bonus({
+        userId: row.userId,
+        amountMinor: row.amountCents,
+        reason: `voucher ${meta.code}`
+      }, options);
+      return "posted";
+  }
+}
+
+async function reportDrift(): Promise<number> {
+  const rows = await db
+    .select({
+      userId: wallets.userId,
+      walletCents: wallets.balanceCents,
+      ledgerCents: sql<number | null>`SUM(${accountBalances.balanceMinor})::integer`
+    })
+    .from(wallets)
+    .leftJoin(accountBalances, and(
+      eq(accountBalances.userId, wallets.userId),
+      inArray(accountBalances.accountCode, [SystemAccount.CUSTOMER_CREDITS, SystemAccount.CUSTOMER_BONUS_CREDITS])
+    ))
+    .groupBy(wallets.userId, wallets.balanceCents);
+
+  const drifted = rows.filter(r => r.walletCents !== (r.ledgerCents ?? 0));
+  for (const r of drifted.slice(0, 20)) {
+    console.log(`   ⚠️ ${r.userId}: wallet ${r.walletCents}, ledger ${r.ledgerCents ?? 0}`);
+  }
+  if (drifted.length > 20) {
+    console.log(`   ... and ${drifted.length - 20} more`);
+  }
+  return drifted.length;
+}
+
+async function backfillLedger() {
+  console.log(`📒 Backfilling ledger from legacy transactions${dryRun ? " (dry run)" : ""}...`);
+
+  try {
+    const rows = await db
+      .select()
+      .from(transactions)
+      .orderBy(asc(transactions.createdAt), asc(transactions.id));
+
+    const stats = { posted: 0, adopted: 0, skipped: 0, failed: 0 };
+
+    for (const row of rows) {
+      const existing = await ledgerService.getTransactionsByOriginRef(row.id);
+      if (existing.length > 0) {
+        stats.skipped++;
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(`   would post ${row.type} ${row.id} (${row.amountCents})`);
+        stats.posted++;
+        continue;
+      }
+
+      try {
+        const outcome = await db.transaction(tx => replayRow(tx, row));
+        stats[outcome]++;
+      } catch (error: any) {
+        stats.failed++;
+        console.error(`   ❌ ${row.type} ${row.id}: ${error.message ?? error}`);
+      }
+    }
+
+    console.log(`\n✅ Posted: ${stats.posted}, adopted: ${stats.adopted}, already in ledger: ${stats.skipped}, failed: ${stats.failed}`);
+
+    if (!dryRun) {
+      const trialBalance = await ledgerService.runTrialBalance();
+      console.log(`📊 Trial balance: ${trialBalance.status} (debit ${trialBalance.sumDebit}, credit ${trialBalance.sumCredit})`);
+
+      const drifted = await reportDrift();
+      console.log(drifted === 0
+        ? "✅ Wallet balances match the ledger"
+        : `⚠️ ${drifted} wallet(s) differ from the ledger - resolve before enabling LEDGER_CUTOVER`);
+    }
+
+    if (stats.failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error("❌ Error backfilling ledger:", error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  backfillLedger().then(() => process.exit(0));
+}
+
+export { backfillLedger };
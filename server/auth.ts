@@ -135,6 +135,10 @@ export function hashPasswordResetToken(token: string): string {
   return createHash("sha256").update(token).digest("hex");
 }
 
+export function hashQRPayload(payload: string): string {
+  return createHash("sha256").update(payload).digest("hex");
+}
+
 export function verifyAccessToken(token: string): { sub: string; type: string; roles: string[]; jti: string; token_version: number; pwd_ts?: number } | null {
   try {
     const payload = jwt.verify(token, JWT_ACCESS_SECRET, {
@@ -468,6 +472,7 @@ declare global {
       user?: any;
       admin?: any;
       sessionId?: string;
+      rawBody?: Buffer;
       tokenPayload?: {
         sub: string;
         type: string;
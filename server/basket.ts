@@ -0,0 +1,63 @@
+import type { InsertChargeItem, Product } from "@shared/schema";
+
+/**
+ * Prices a POS basket from the product catalogue. Catalogue prices include VAT, so each
+ * line's VAT is the part of its total attributable to the rate
+ */
+
+export const MAX_BASKET_LINES = 50;
+export const MAX_LINE_QUANTITY = 99;
+
+export interface BasketLine {
+  productId: string;
+  quantity: number;
+}
+
+export type PricedItem = Omit<InsertChargeItem, "chargeId">;
+
+export interface PricedBasket {
+  items: PricedItem[];
+  totalCents: number;
+  vatCents: number;
+}
+
+// VAT contained in a VAT-inclusive amount, rounded to whole haléře
+export function vatIncluded(grossCents: number, vatRateBps: number): number {
+  return Math.round(grossCents * vatRateBps / (10000 + vatRateBps));
+}
+
+/**
+ * Lines for the same product are merged, in the order they first appear. Every product
+ * must be in `catalogue`; checking that they are still on sale is up to the caller
+ */
+export function priceBasket(catalogue: Product[], lines: BasketLine[]): PricedBasket {
+  const quantities = new Map<string, number>();
+  for (const line of lines) {
+    quantities.set(line.productId, (quantities.get(line.productId) ?? 0) + line.quantity);
+  }
+
+  const byId = new Map(catalogue.map(product => [product.id, product]));
+  const items = Array.from(quantities, ([productId, quantity]): PricedItem => {
+    const product = byId.get(productId);
+    if (!product) {
+      throw new Error(`Product ${productId} is not in the catalogue`);
+    }
+    const lineTotalCents = product.priceCents * quantity;
+    return {
+      productId,
+      name: product.name,
+      category: product.category,
+      unitPriceCents: product.priceCents,
+      quantity,
+      vatRateBps: product.vatRateBps,
+      lineTotalCents,
+      vatCents: vatIncluded(lineTotalCents, product.vatRateBps)
+    };
+  });
+
+  return {
+    items,
+    totalCents: items.reduce((sum, item) => sum + item.lineTotalCents, 0),
+    vatCents: items.reduce((sum, item) => sum + item.vatCents, 0)
+  };
+}
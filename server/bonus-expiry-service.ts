@@ -0,0 +1,91 @@
+import { storage } from "./storage";
+import { sendBonusExpiryWarningEmail } from "./email";
+import { auditLog } from "./utils";
+import { BONUS_EXPIRY_WARNING_DAYS } from "./bonus-lots";
+
+/**
+ * Bonus expiry run (expire-bonus job): warns customers whose bonus lots expire within
+ * BONUS_EXPIRY_WARNING_DAYS, then expires lots past their date
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Per run; whatever is left over is picked up by the next run
+const BATCH_SIZE = 1000;
+
+export interface BonusExpiryRunResult {
+  warnedUsers: number;
+  warningFailures: number;
+  expiredLots: number;
+  expiredCents: number;
+  expiryFailures: number;
+}
+
+export class BonusExpiryService {
+  async run(now: Date = new Date()): Promise<BonusExpiryRunResult> {
+    const warnings = await this.sendWarnings(now);
+    const expiry = await this.expireDue(now);
+    return { ...warnings, ...expiry };
+  }
+
+  /**
+   * One email per customer covering all of their lots in the warning window. Lots are
+   * marked as warned only once the email went out, so failures are retried next run
+   */
+  async sendWarnings(now: Date = new Date()): Promise<Pick<BonusExpiryRunResult, "warnedUsers" | "warningFailures">> {
+    const lots = await storage.getBonusLotsToWarn(new Date(now.getTime() + BONUS_EXPIRY_WARNING_DAYS * DAY_MS), BATCH_SIZE);
+
+    const byUser = new Map<string, typeof lots>();
+    for (const lot of lots) {
+      byUser.set(lot.userId, [...(byUser.get(lot.userId) ?? []), lot]);
+    }
+
+    let warnedUsers = 0;
+    let warningFailures = 0;
+    for (const [userId, userLots] of Array.from(byUser.entries())) {
+      try {
+        await sendBonusExpiryWarningEmail(
+          userLots[0].email,
+          userLots[0].name,
+          userLots.map(lot => ({ amountCents: lot.remainingCents, expiresAt: lot.expiresAt }))
+        );
+        await storage.markBonusLotsWarned(userLots.map(lot => lot.id));
+        warnedUsers++;
+      } catch (error) {
+        console.error(`Bonus expiry warning for user ${userId} failed:`, error);
+        warningFailures++;
+      }
+    }
+
+    return { warnedUsers, warningFailures };
+  }
+
+  async expireDue(now: Date = new Date()): Promise<Pick<BonusExpiryRunResult, "expiredLots" | "expiredCents" | "expiryFailures">> {
+    const lotIds = await storage.getExpiredBonusLotIds(now, BATCH_SIZE);
+
+    let expiredLots = 0;
+    let expiredCents = 0;
+    let expiryFailures = 0;
+    for (const lotId of lotIds) {
+      try {
+        const result = await storage.expireBonusLot(lotId, now);
+        if (result) {
+          expiredLots++;
+          expiredCents += result.amountCents;
+          await auditLog("system", null, "bonus_expired", {
+            userId: result.transaction.userId,
+            lotId,
+            amountCents: result.amountCents,
+            transactionId: result.transaction.id
+          });
+        }
+      } catch (error) {
+        console.error(`Expiring bonus lot ${lotId} failed:`, error);
+        expiryFailures++;
+      }
+    }
+
+    return { expiredLots, expiredCents, expiryFailures };
+  }
+}
+
+export const bonusExpiryService = new BonusExpiryService();
@@ -0,0 +1,44 @@
+import type { BonusLot } from "@shared/schema";
+
+/**
+ * Bonus expiry rules: how long top-up bonus stays valid, when customers are warned
+ * and how spending bonus drains the lots (oldest first)
+ */
+
+export const BONUS_EXPIRY_MONTHS = Number(process.env.BONUS_EXPIRY_MONTHS ?? 12);
+export const BONUS_EXPIRY_WARNING_DAYS = Number(process.env.BONUS_EXPIRY_WARNING_DAYS ?? 14);
+
+export interface LotAllocation {
+  lotId: string;
+  cents: number;
+}
+
+// Calendar months in UTC; a grant on the 31st expires on the last day of a shorter month
+export function bonusExpiresAt(grantedAt: Date, months: number = BONUS_EXPIRY_MONTHS): Date {
+  const expires = new Date(grantedAt);
+  const day = expires.getUTCDate();
+  expires.setUTCDate(1);
+  expires.setUTCMonth(expires.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(expires.getUTCFullYear(), expires.getUTCMonth() + 1, 0)).getUTCDate();
+  expires.setUTCDate(Math.min(day, lastDay));
+  return expires;
+}
+
+/**
+ * Takes amountCents from lots in the given order (callers pass them oldest expiry
+ * first). Bonus not covered by any lot - e.g. bonus adjustments - never expires, so
+ * the allocation may cover less than amountCents
+ */
+export function allocateFifo(lots: Pick<BonusLot, "id" | "remainingCents">[], amountCents: number): LotAllocation[] {
+  const allocations: LotAllocation[] = [];
+  let left = amountCents;
+  for (const lot of lots) {
+    if (left <= 0) break;
+    const cents = Math.min(lot.remainingCents, left);
+    if (cents > 0) {
+      allocations.push({ lotId: lot.id, cents });
+      left -= cents;
+    }
+  }
+  return allocations;
+}
@@ -0,0 +1,535 @@
+import { storage, type StampAward } from "./storage";
+import { hashQRPayload } from "./auth";
+import { ledgerService, LEDGER_CUTOVER } from "./routes/ledger/service";
+import { auditLog } from "./utils";
+import { webhookService } from "./webhook-service";
+import { tierService } from "./tier-service";
+import { receiptService } from "./receipt-service";
+import { tierChargeDiscount, tierDefinition, type CustomerTier } from "./customer-tiers";
+import { priceBasket, type BasketLine, type PricedItem } from "./basket";
+import type { CreditSplit } from "./credit-buckets";
+import type { LotAllocation } from "./bonus-lots";
+import type { QrToken, Transaction, User, Wallet } from "@shared/schema";
+
+// Ledger integration feature flag
+const LEDGER_POS_INTEGRATION = process.env.LEDGER_POS_INTEGRATION === "true";
+
+/**
+ * Charge flow used by both /api/admin/charge/* and /api/pos/charge/*
+ */
+
+export type ChargeErrorCode =
+  | "E_INPUT"
+  | "E_NOT_FOUND"
+  | "E_EXPIRED_TOKEN"
+  | "E_TOKEN_USED"
+  | "E_USER_INACTIVE"
+  | "E_INSUFFICIENT_FUNDS"
+  | "E_IDEMPOTENCY_CONFLICT"
+  | "E_VOID_EXPIRED"
+  | "E_REWARD_UNAVAILABLE"
+  | "E_PRODUCT_UNAVAILABLE";
+
+const CHARGE_ERROR_HTTP_MAPPING: Record<ChargeErrorCode, { status: number; error: string }> = {
+  E_INPUT: { status: 400, error: "BadRequest" },
+  E_NOT_FOUND: { status: 404, error: "NotFound" },
+  E_EXPIRED_TOKEN: { status: 410, error: "GoneTokenExpired" },
+  E_TOKEN_USED: { status: 409, error: "ConflictTokenUsed" },
+  E_USER_INACTIVE: { status: 403, error: "Forbidden" },
+  E_INSUFFICIENT_FUNDS: { status: 422, error: "InsufficientFunds" },
+  E_IDEMPOTENCY_CONFLICT: { status: 409, error: "IdempotencyConflict" },
+  E_VOID_EXPIRED: { status: 422, error: "VoidWindowExpired" },
+  E_REWARD_UNAVAILABLE: { status: 409, error: "RewardUnavailable" },
+  E_PRODUCT_UNAVAILABLE: { status: 409, error: "ProductUnavailable" }
+};
+
+export class ChargeError extends Error {
+  public status: number;
+  public error: string;
+
+  constructor(public code: ChargeErrorCode, message: string) {
+    super(message);
+    this.name = "ChargeError";
+    this.status = CHARGE_ERROR_HTTP_MAPPING[code].status;
+    this.error = CHARGE_ERROR_HTTP_MAPPING[code].error;
+  }
+}
+
+// Meta of a charge transaction: what confirm passes in, plus the credit split and the
+// bonus lots storage adds
+export type ChargeMeta = CreditSplit & {
+  bonusLots?: LotAllocation[];
+  adminId: string;
+  chargeId: string;
+  channel: "admin" | "pos";
+  itemCount?: number;
+  tier?: CustomerTier;
+  listAmountCents?: number;
+  tierDiscountCents?: number;
+};
+
+export interface ChargeServiceOptions {
+  sessionTtlMs: number; // init -> confirm deadline
+  voidWindowMs: number; // confirm -> void deadline
+}
+
+// Stamp reward the customer can redeem at the till
+export interface RedeemableReward {
+  id: string;
+  programName: string;
+  rewardName: string;
+  valueCents: number;
+}
+
+export interface ChargeInitResult {
+  chargeId: string;
+  userId: string;
+  customerName: string;
+  customerEmail: string;
+  balanceCents: number;
+  tier: { tier: CustomerTier; name: string; chargeDiscountBps: number };
+  rewards: RedeemableReward[];
+  expiresAt: Date;
+}
+
+export interface ChargeConfirmResult {
+  chargeId: string;
+  transactionId: string | null; // null when a reward paid instead of the wallet
+  ledgerTxId: string | null;
+  rewardId: string | null;
+  amountCents: number; // actually charged, after the tier discount
+  discountCents: number;
+  items: PricedItem[]; // empty unless the charge was itemised
+  receiptId: string | null; // null when a reward paid instead of the wallet
+  newBalanceCents: number;
+  stamps: StampAward[];
+  voidExpiresAt: Date;
+  idempotent: boolean;
+}
+
+export interface ChargeVoidResult {
+  chargeId: string;
+  transactionId: string | null;
+  amountCents: number;
+  newBalanceCents: number;
+}
+
+/**
+ * Consume the customer's QR payload or short code and load the active customer behind it.
+ * Shared by every POS flow that starts with a scan
+ */
+export async function lookupCustomerByQr(tokenOrCode: string): Promise<{ qrToken: QrToken; user: User; wallet: Wallet }> {
+  const lookup = {
+    shortCode: tokenOrCode.toUpperCase(),
+    payloadHash: hashQRPayload(tokenOrCode)
+  };
+
+  // Single use is enforced by the conditional UPDATE in storage
+  const qrToken = await storage.consumeQrToken(lookup);
+  if (!qrToken) {
+    const existing = await storage.findQrToken(lookup);
+    if (!existing) {
+      throw new ChargeError("E_NOT_FOUND", "Neplatný QR kód nebo kód");
+    }
+    if (existing.usedAt) {
+      throw new ChargeError("E_TOKEN_USED", "QR kód již byl použit");
+    }
+    throw new ChargeError("E_EXPIRED_TOKEN", "Platnost QR kódu vypršela");
+  }
+
+  const user = await storage.getUser(qrToken.userId);
+  if (!user) {
+    throw new ChargeError("E_NOT_FOUND", "Zákazník nenalezen");
+  }
+  if (user.status !== "active") {
+    throw new ChargeError("E_USER_INACTIVE", "Uživatel není aktivní");
+  }
+
+  const wallet = await storage.getWalletByUserId(user.id);
+  if (!wallet) {
+    throw new ChargeError("E_NOT_FOUND", "Peněženka nenalezena");
+  }
+
+  return { qrToken, user, wallet };
+}
+
+export class ChargeService {
+  constructor(private options: ChargeServiceOptions) {}
+
+  get voidWindowMs(): number {
+    return this.options.voidWindowMs;
+  }
+
+  /**
+   * Consume the customer's QR payload or short code and open a charge session
+   */
+  async init(params: { tokenOrCode: string; adminId: string }): Promise<ChargeInitResult> {
+    const { qrToken, user, wallet } = await lookupCustomerByQr(params.tokenOrCode);
+
+    const session = await storage.createChargeSession({
+      userId: user.id,
+      adminId: params.adminId,
+      qrTokenId: qrToken.id,
+      status: "initiated",
+      expiresAt: new Date(Date.now() + this.options.sessionTtlMs)
+    });
+
+    const stampCards = await storage.getStampCards(user.id);
+    const tier = tierDefinition(user.tier);
+
+    return {
+      chargeId: session.id,
+      userId: user.id,
+      customerName: user.name,
+      customerEmail: user.email,
+      balanceCents: wallet.balanceCents,
+      tier: { tier: tier.tier, name: tier.name, chargeDiscountBps: tier.chargeDiscountBps },
+      rewards: stampCards.flatMap(card => card.rewards.map(reward => ({
+        id: reward.id,
+        programName: card.program.name,
+        rewardName: card.program.rewardName,
+        valueCents: reward.valueCents
+      }))),
+      expiresAt: session.expiresAt
+    };
+  }
+
+  /**
+   * Charge the customer for an initialized session, less their tier discount, or settle
+   * it with a stamp reward instead of wallet money when rewardId is given. The amount is
+   * either entered by the cashier or, for an itemised charge, the basket total.
+   * Replaying the same idempotency key for the same charge returns the original result.
+   */
+  async confirm(params: {
+    chargeId: string;
+    amountCents?: number;
+    items?: BasketLine[];
+    rewardId?: string;
+    idempotencyKey: string;
+    adminId: string;
+    channel: "admin" | "pos";
+  }): Promise<ChargeConfirmResult> {
+    const { chargeId, rewardId, idempotencyKey, adminId, channel } = params;
+
+    if (rewardId) {
+      return this.confirmReward({ chargeId, rewardId, adminId, channel });
+    }
+
+    const previous = await storage.getTransactionByIdempotencyKey(idempotencyKey);
+    if (previous) {
+      if (previous.relatedId !== chargeId || previous.type !== "charge") {
+        throw new ChargeError("E_IDEMPOTENCY_CONFLICT", "Klíč idempotence byl již použit pro jiný požadavek");
+      }
+      return this.replayConfirm(chargeId, previous);
+    }
+
+    const basket = params.items ? await this.priceItems(params.items) : undefined;
+
+    // The full price comes from the cashier or the basket; the tier discount comes off it here
+    const listAmountCents = basket?.totalCents ?? params.amountCents;
+    if (listAmountCents === undefined) {
+      throw new ChargeError("E_INPUT", "Chybí částka nebo položky");
+    }
+
+    const pending = await storage.getChargeSession(chargeId);
+    const customer = pending ? await storage.getUser(pending.userId) : undefined;
+    const tier = customer?.tier ?? "bronze";
+    const discountCents = tierChargeDiscount(listAmountCents, tier);
+    const amountCents = listAmountCents - discountCents;
+
+    const meta: Omit<ChargeMeta, keyof CreditSplit> = {
+      adminId,
+      chargeId,
+      channel,
+      ...(basket && { itemCount: basket.items.length }),
+      ...(discountCents > 0 && { tier, listAmountCents, tierDiscountCents: discountCents })
+    };
+
+    const result = await storage.executeAtomicCharge({
+      chargeId,
+      amountCents,
+      idempotencyKey,
+      createdBy: "admin",
+      meta,
+      items: basket?.items,
+      receipt: await receiptService.draft({ adminId, listAmountCents, discountCents, items: basket?.items })
+    });
+
+    if (result.status === "session_unavailable") {
+      throw new ChargeError("E_NOT_FOUND", "Platební relace nenalezena nebo vypršela");
+    }
+    if (result.status === "insufficient_funds") {
+      throw new ChargeError("E_INSUFFICIENT_FUNDS", "Nedostatečný zůstatek");
+    }
+
+    const { session, transaction, wallet, receipt } = result;
+
+    // LEDGER INTEGRATION: in cutover mode storage already posted the charge in the
+    // same DB transaction; otherwise optionally mirror it here on a best-effort basis
+    let ledgerTxId: string | null = session.ledgerTxId;
+    if (LEDGER_POS_INTEGRATION && !LEDGER_CUTOVER) {
+      try {
+        const ledgerResult = await ledgerService.charge({
+          userId: session.userId,
+          amountMinor: amountCents,
+          bonusMinor: (transaction.meta as ChargeMeta).bonusCents,
+          note: `POS charge ${chargeId}`
+        });
+        ledgerTxId = ledgerResult.txId;
+        await storage.setChargeSessionLedgerTx(chargeId, ledgerTxId);
+        console.log(`[LEDGER] POS charge recorded: ${ledgerTxId} for user ${session.userId}, amount ${amountCents}`);
+      } catch (ledgerError) {
+        console.warn(`[LEDGER] Failed to record POS charge in ledger: ${ledgerError}`);
+        // Continue with legacy system - don't fail the entire transaction
+      }
+    }
+
+    await auditLog("admin", adminId, "charge_confirmed", {
+      userId: session.userId,
+      amountCents,
+      ...(discountCents > 0 && { tier, discountCents }),
+      chargeId,
+      channel,
+      transactionId: transaction.id
+    });
+    await webhookService.emit("charge.confirmed", {
+      userId: session.userId,
+      chargeId,
+      amountCents,
+      channel,
+      transactionId: transaction.id,
+      balanceCents: wallet.balanceCents
+    });
+
+    await this.refreshTier(session.userId, "charge");
+    if (customer) {
+      receiptService.emailIfOptedIn(receipt.id, customer);
+    }
+
+    return {
+      chargeId,
+      transactionId: transaction.id,
+      ledgerTxId,
+      rewardId: null,
+      amountCents,
+      discountCents,
+      items: basket?.items ?? [],
+      receiptId: receipt.id,
+      newBalanceCents: wallet.balanceCents,
+      stamps: result.stamps,
+      voidExpiresAt: new Date(session.confirmedAt!.getTime() + this.options.voidWindowMs),
+      idempotent: false
+    };
+  }
+
+  /**
+   * Settle a session with a stamp reward; no wallet money moves. Repeating the request
+   * for the same reward is idempotent through the session itself
+   */
+  private async confirmReward(params: {
+    chargeId: string;
+    rewardId: string;
+    adminId: string;
+    channel: "admin" | "pos";
+  }): Promise<ChargeConfirmResult> {
+    const { chargeId, rewardId, adminId, channel } = params;
+
+    const existing = await storage.getChargeSession(chargeId);
+    if (existing?.status === "confirmed" && existing.confirmedAt) {
+      if (existing.rewardId !== rewardId) {
+        throw new ChargeError("E_IDEMPOTENCY_CONFLICT", "Požadavek již byl zpracován");
+      }
+      const wallet = await storage.getWalletByUserId(existing.userId);
+      return {
+        chargeId,
+        transactionId: null,
+        ledgerTxId: null,
+        rewardId,
+        amountCents: 0,
+        discountCents: 0,
+        items: [],
+        receiptId: null,
+        newBalanceCents: wallet?.balanceCents ?? 0,
+        stamps: [],
+        voidExpiresAt: new Date(existing.confirmedAt.getTime() + this.options.voidWindowMs),
+        idempotent: true
+      };
+    }
+
+    const result = await storage.executeRewardRedemption({ chargeId, rewardId });
+
+    if (result.status === "session_unavailable") {
+      throw new ChargeError("E_NOT_FOUND", "Platební relace nenalezena nebo vypršela");
+    }
+    if (result.status === "reward_unavailable") {
+      throw new ChargeError("E_REWARD_UNAVAILABLE", "Odměna není k dispozici");
+    }
+
+    const { session, reward, wallet } = result;
+
+    await auditLog("admin", adminId, "reward_redeemed", {
+      userId: session.userId,
+      chargeId,
+      channel,
+      rewardId,
+      programId: reward.programId,
+      valueCents: reward.valueCents
+    });
+
+    return {
+      chargeId,
+      transactionId: null,
+      ledgerTxId: null,
+      rewardId,
+      amountCents: 0,
+      discountCents: 0,
+      items: [],
+      receiptId: null,
+      newBalanceCents: wallet.balanceCents,
+      stamps: [],
+      voidExpiresAt: new Date(session.confirmedAt!.getTime() + this.options.voidWindowMs),
+      idempotent: false
+    };
+  }
+
+  /**
+   * Reverse a confirmed charge while it is still inside the void window
+   */
+  async void(params: { chargeId: string; adminId: string; channel: "admin" | "pos" }): Promise<ChargeVoidResult> {
+    const { chargeId, adminId, channel } = params;
+
+    const existing = await storage.getChargeSession(chargeId);
+    if (!existing || existing.status !== "confirmed") {
+      throw new ChargeError("E_NOT_FOUND", "Platba nenalezena");
+    }
+
+    if (existing.rewardId) {
+      return this.voidReward({ chargeId, adminId, channel });
+    }
+
+    const result = await storage.executeAtomicVoid({
+      chargeId,
+      voidWindowMs: this.options.voidWindowMs,
+      createdBy: "admin",
+      meta: { adminId, originalChargeId: chargeId, channel }
+    });
+
+    if (!result) {
+      throw new ChargeError("E_VOID_EXPIRED", "Platbu již nelze stornovat");
+    }
+
+    const { session, transaction, wallet } = result;
+
+    // LEDGER INTEGRATION: If enabled and we have a ledger transaction, also reverse in ledger
+    if (LEDGER_POS_INTEGRATION && !LEDGER_CUTOVER && session.ledgerTxId) {
+      try {
+        const reversalResult = await ledgerService.reversal({ txId: session.ledgerTxId });
+        console.log(`[LEDGER] POS void recorded: ${reversalResult.txId} for original tx ${session.ledgerTxId}`);
+      } catch (ledgerError) {
+        console.warn(`[LEDGER] Failed to reverse transaction in ledger: ${ledgerError}`);
+        // Continue with legacy system - don't fail the void operation
+      }
+    }
+
+    await auditLog("admin", adminId, "charge_voided", {
+      userId: session.userId,
+      amountCents: session.amountCents,
+      chargeId,
+      channel,
+      transactionId: transaction.id
+    });
+    await webhookService.emit("charge.voided", {
+      userId: session.userId,
+      chargeId,
+      amountCents: session.amountCents,
+      channel,
+      transactionId: transaction.id,
+      balanceCents: wallet.balanceCents
+    });
+
+    await this.refreshTier(session.userId, "void");
+
+    return {
+      chargeId,
+      transactionId: transaction.id,
+      amountCents: session.amountCents!,
+      newBalanceCents: wallet.balanceCents
+    };
+  }
+
+  // A voided reward redemption makes the reward available again
+  private async voidReward(params: { chargeId: string; adminId: string; channel: "admin" | "pos" }): Promise<ChargeVoidResult> {
+    const { chargeId, adminId, channel } = params;
+
+    const result = await storage.executeRewardVoid({ chargeId, voidWindowMs: this.options.voidWindowMs });
+    if (!result) {
+      throw new ChargeError("E_VOID_EXPIRED", "Platbu již nelze stornovat");
+    }
+
+    const { session, reward, wallet } = result;
+
+    await auditLog("admin", adminId, "reward_redemption_voided", {
+      userId: session.userId,
+      chargeId,
+      channel,
+      rewardId: reward.id
+    });
+
+    return {
+      chargeId,
+      transactionId: null,
+      amountCents: 0,
+      newBalanceCents: wallet.balanceCents
+    };
+  }
+
+  // Every product in the basket must still be on sale
+  private async priceItems(lines: BasketLine[]) {
+    const catalogue = await storage.getProductsByIds(Array.from(new Set(lines.map(line => line.productId))));
+    const onSale = new Set(catalogue.filter(product => product.isActive).map(product => product.id));
+    if (lines.some(line => !onSale.has(line.productId))) {
+      throw new ChargeError("E_PRODUCT_UNAVAILABLE", "Produkt již není v nabídce");
+    }
+    return priceBasket(catalogue, lines);
+  }
+
+  // Best effort: the charge stands either way and the nightly recompute catches up
+  private async refreshTier(userId: string, trigger: "charge" | "void"): Promise<void> {
+    try {
+      await tierService.refresh(userId, trigger);
+    } catch (error) {
+      console.error(`Tier refresh for user ${userId} failed:`, error);
+    }
+  }
+
+  private async replayConfirm(chargeId: string, previous: Transaction): Promise<ChargeConfirmResult> {
+    const session = await storage.getChargeSession(chargeId);
+    if (!session || !session.confirmedAt) {
+      throw new ChargeError("E_IDEMPOTENCY_CONFLICT", "Požadavek již byl zpracován");
+    }
+
+    const wallet = await storage.getWalletByUserId(session.userId);
+    const items = await storage.getChargeItems([chargeId]);
+    const [receipt] = await storage.getReceiptsByChargeIds([chargeId]);
+
+    return {
+      chargeId,
+      transactionId: previous.id,
+      ledgerTxId: session.ledgerTxId,
+      rewardId: null,
+      amountCents: session.amountCents!,
+      discountCents: (previous.meta as ChargeMeta).tierDiscountCents ?? 0,
+      items,
+      receiptId: receipt?.id ?? null,
+      newBalanceCents: wallet?.balanceCents ?? 0,
+      stamps: [],
+      voidExpiresAt: new Date(session.confirmedAt.getTime() + this.options.voidWindowMs),
+      idempotent: true
+    };
+  }
+}
+
+export const chargeService = new ChargeService({
+  sessionTtlMs: 5 * 60 * 1000,
+  voidWindowMs: parseInt(process.env.CHARGE_VOID_WINDOW_SECONDS || "120", 10) * 1000
+});
@@ -0,0 +1,41 @@
+/**
+ * Paid vs. bonus credit: a wallet balance is split into prepaid money and bonus
+ * credit, and every debit consumes them in a configurable order
+ */
+
+export type CreditBucket = "paid" | "bonus";
+
+export type CreditConsumptionOrder = "bonus_first" | "paid_first";
+
+// Spending bonus first keeps the refundable paid part as large as possible
+export const CREDIT_CONSUMPTION_ORDER: CreditConsumptionOrder =
+  process.env.CREDIT_CONSUMPTION_ORDER === "paid_first" ? "paid_first" : "bonus_first";
+
+export interface CreditSplit {
+  paidCents: number;
+  bonusCents: number;
+}
+
+/**
+ * Splits a debit of amountCents between the two sub-balances. Callers check the
+ * total balance first; any shortfall is left on the second bucket so the
+ * balance constraints reject it
+ */
+export function splitDebit(
+  amountCents: number,
+  available: CreditSplit,
+  order: CreditConsumptionOrder = CREDIT_CONSUMPTION_ORDER
+): CreditSplit {
+  if (order === "bonus_first") {
+    const bonusCents = Math.min(amountCents, Math.max(available.bonusCents, 0));
+    return { paidCents: amountCents - bonusCents, bonusCents };
+  }
+
+  const paidCents = Math.min(amountCents, Math.max(available.paidCents, 0));
+  return { paidCents, bonusCents: amountCents - paidCents };
+}
+
+// Paid part of a wallet; the wallet row stores the total and the bonus part
+export function paidBalance(wallet: { balanceCents: number; bonusBalanceCents: number }): number {
+  return wallet.balanceCents - wallet.bonusBalanceCents;
+}
@@ -0,0 +1,125 @@
+/**
+ * Minimal 5-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Supports `*`, numbers, ranges `a-b`, steps (`/n` after `*`,
+ * a range or a start value) and comma-separated lists. Day-of-week 0 and 7 are both Sunday.
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7] // day of week
+];
+
+// Upper bound for the search - every valid expression fires within about four years (Feb 29)
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+function parseField(source: string, [min, max]: [number, number], expression: string): CronField {
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    if (!/^(\*|\d+(-\d+)?)(\/\d+)?$/.test(part)) {
+      throw new Error(`Invalid cron field "${part}" in "${expression}"`);
+    }
+
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}" in "${expression}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (rangePart === "*") {
+      from = min;
+      to = max;
+    } else if (rangePart.includes("-")) {
+      [from, to] = rangePart.split("-").map(Number);
+    } else {
+      from = Number(rangePart);
+      to = stepPart === undefined ? from : max;
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw new Error(`Invalid cron field "${part}" in "${expression}"`);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  // Like Vixie cron, `*/n` still counts as unrestricted for the day-of-month/day-of-week rule
+  return { values, wildcard: source.startsWith("*") };
+}
+
+export class CronSchedule {
+  private minutes: CronField;
+  private hours: CronField;
+  private daysOfMonth: CronField;
+  private months: CronField;
+  private daysOfWeek: CronField;
+
+  constructor(public readonly expression: string) {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+    }
+
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] =
+      fields.map((field, i) => parseField(field, FIELD_RANGES[i], expression));
+
+    if (this.daysOfWeek.values.has(7)) {
+      this.daysOfWeek.values.add(0);
+    }
+  }
+
+  /**
+   * First matching minute strictly after `after`
+   */
+  next(after: Date): Date {
+    const candidate = new Date(after.getTime());
+    candidate.setUTCSeconds(0, 0);
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+    for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+      if (!this.months.values.has(candidate.getUTCMonth() + 1)) {
+        candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+        candidate.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this.matchesDay(candidate)) {
+        candidate.setUTCDate(candidate.getUTCDate() + 1);
+        candidate.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this.hours.values.has(candidate.getUTCHours())) {
+        candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+        continue;
+      }
+      if (!this.minutes.values.has(candidate.getUTCMinutes())) {
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+        continue;
+      }
+      return candidate;
+    }
+
+    throw new Error(`Cron expression never fires: "${this.expression}"`);
+  }
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  private matchesDay(date: Date): boolean {
+    const domMatch = this.daysOfMonth.values.has(date.getUTCDate());
+    const dowMatch = this.daysOfWeek.values.has(date.getUTCDay());
+
+    if (this.daysOfMonth.wildcard) return dowMatch;
+    if (this.daysOfWeek.wildcard) return domMatch;
+    return domMatch || dowMatch;
+  }
+}
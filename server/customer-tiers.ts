@@ -0,0 +1,52 @@
+/**
+ * Customer tiers: Bronze / Silver / Gold from what a customer charged over the
+ * rolling window, and the benefits each tier carries
+ */
+
+export type CustomerTier = "bronze" | "silver" | "gold";
+
+export interface TierDefinition {
+  tier: CustomerTier;
+  name: string;
+  minSpendCents: number; // rolling charge spend that reaches the tier
+  topupBonusBps: number; // extra top-up bonus as a share of the paid amount
+  chargeDiscountBps: number; // taken off every POS charge
+}
+
+// Ascending by minSpendCents; bronze is everyone's starting tier
+export const CUSTOMER_TIERS: TierDefinition[] = [
+  { tier: "bronze", name: "Bronze", minSpendCents: 0, topupBonusBps: 0, chargeDiscountBps: 0 },
+  { tier: "silver", name: "Silver", minSpendCents: 200000, topupBonusBps: 200, chargeDiscountBps: 0 },
+  { tier: "gold", name: "Gold", minSpendCents: 500000, topupBonusBps: 300, chargeDiscountBps: 300 }
+];
+
+export const TIER_WINDOW_DAYS = parseInt(process.env.TIER_WINDOW_DAYS || "90", 10);
+
+export function tierDefinition(tier: CustomerTier): TierDefinition {
+  return CUSTOMER_TIERS.find(definition => definition.tier === tier)!;
+}
+
+export function tierForSpend(spendCents: number): TierDefinition {
+  let reached = CUSTOMER_TIERS[0];
+  for (const definition of CUSTOMER_TIERS) {
+    if (spendCents >= definition.minSpendCents) {
+      reached = definition;
+    }
+  }
+  return reached;
+}
+
+// Next tier up and how much more spend reaches it; null at the top
+export function nextTier(spendCents: number): { definition: TierDefinition; remainingCents: number } | null {
+  const definition = CUSTOMER_TIERS.find(candidate => candidate.minSpendCents > spendCents);
+  return definition ? { definition, remainingCents: definition.minSpendCents - spendCents } : null;
+}
+
+// Both benefits round down to whole cents, in the customer's disfavour by at most a haléř
+export function tierTopupBonus(payCents: number, tier: CustomerTier): number {
+  return Math.floor(payCents * tierDefinition(tier).topupBonusBps / 10000);
+}
+
+export function tierChargeDiscount(amountCents: number, tier: CustomerTier): number {
+  return Math.floor(amountCents * tierDefinition(tier).chargeDiscountBps / 10000);
+}
@@ -1,4 +1,6 @@
 import nodemailer from 'nodemailer';
+import { formatCZK } from './utils';
+import { renderReceiptHtml, renderReceiptText, type ReceiptDocument } from './receipt';
 
 // Gmail SMTP configuration
 const GMAIL_USER = process.env.GMAIL_USER || '';
@@ -220,4 +222,215 @@ export async function sendPasswordResetEmail(userEmail: string, resetToken: stri
     html,
     text,
   });
-}
\ No newline at end of file
+}
+
+export interface ExpiringBonus {
+  amountCents: number;
+  expiresAt: Date;
+}
+
+export function generateBonusExpiryEmailHtml(userName: string, expiring: ExpiringBonus[]): { html: string; text: string } {
+  const baseUrl = process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : (process.env.FRONTEND_URL || 'http://localhost:5000');
+  const totalCents = expiring.reduce((total, bonus) => total + bonus.amountCents, 0);
+  const formatDate = (date: Date) => date.toLocaleDateString('cs-CZ', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  const rows = expiring
+    .map(bonus => `<tr><td style="padding: 8px 0;">${formatDate(bonus.expiresAt)}</td><td style="padding: 8px 0; text-align: right;"><strong>${formatCZK(bonus.amountCents)}</strong></td></tr>`)
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html lang="cs">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Bonusový kredit brzy vyprší - EasyLoyalty</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 0; background-color: #f5f5f5; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+    <div style="background: linear-gradient(135deg, #f59e0b 0%, #ea580c 100%); padding: 30px; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 28px; font-weight: 600;">EasyLoyalty</h1>
+    </div>
+    <div style="padding: 40px 30px;">
+      <h2 style="margin-top: 0; font-size: 24px;">Bonusový kredit brzy vyprší</h2>
+      <p style="line-height: 1.6; color: #555;">Dobrý den ${userName},</p>
+      <p style="line-height: 1.6; color: #555;">část Vašeho bonusového kreditu (celkem <strong>${formatCZK(totalCents)}</strong>) brzy vyprší. Nevyužitý bonus po uvedeném datu propadá:</p>
+      <table style="width: 100%; border-collapse: collapse;">${rows}</table>
+      <p style="line-height: 1.6; color: #555;">Bonus se při placení čerpá automaticky, stačí se u nás zastavit na kávu.</p>
+      <div style="text-align: center;">
+        <a href="${baseUrl}/" style="display: inline-block; background: #ea580c; color: white; text-decoration: none; padding: 16px 32px; border-radius: 6px; font-weight: 600; margin: 24px 0;">Otevřít peněženku</a>
+      </div>
+    </div>
+    <div style="background-color: #f8f9fa; padding: 20px 30px; text-align: center; color: #6c757d; font-size: 14px;">
+      <p>Tento e-mail byl odeslán automaticky. Neodpovídejte na něj.</p>
+      <p>&copy; ${new Date().getFullYear()} EasyLoyalty. Všechna práva vyhrazena.</p>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const text = `
+Bonusový kredit brzy vyprší - EasyLoyalty
+
+Dobrý den ${userName},
+
+část Vašeho bonusového kreditu (celkem ${formatCZK(totalCents)}) brzy vyprší. Nevyužitý bonus po uvedeném datu propadá:
+${expiring.map(bonus => `- ${formatDate(bonus.expiresAt)}: ${formatCZK(bonus.amountCents)}`).join('\n')}
+
+Bonus se při placení čerpá automaticky. Peněženka: ${baseUrl}/
+
+Tento e-mail byl odeslán automaticky. Neodpovídejte na něj.
+
+© ${new Date().getFullYear()} EasyLoyalty. Všechna práva vyhrazena.
+`;
+
+  return { html, text };
+}
+
+export async function sendBonusExpiryWarningEmail(userEmail: string, userName: string, expiring: ExpiringBonus[]): Promise<void> {
+  const { html, text } = generateBonusExpiryEmailHtml(userName, expiring);
+
+  await sendEmail({
+    to: userEmail,
+    subject: 'Bonusový kredit brzy vyprší – EasyLoyalty',
+    html,
+    text,
+  });
+}
+
+// For text customers typed themselves, such as a gift message
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export interface GiftNotice {
+  senderName: string;
+  amountCents: number;
+  message: string | null;
+  expiresAt: Date;
+  claimToken: string;
+}
+
+export function generateGiftEmailHtml(gift: GiftNotice): { html: string; text: string } {
+  const baseUrl = process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : (process.env.FRONTEND_URL || 'http://localhost:5000');
+  const claimUrl = `${baseUrl}/gifts/claim?token=${encodeURIComponent(gift.claimToken)}`;
+  const expires = gift.expiresAt.toLocaleDateString('cs-CZ', { day: 'numeric', month: 'long', year: 'numeric' });
+  const senderName = escapeHtml(gift.senderName);
+
+  const html = `
+<!DOCTYPE html>
+<html lang="cs">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Máte dárek - EasyLoyalty</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 0; background-color: #f5f5f5; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+    <div style="background: linear-gradient(135deg, #f59e0b 0%, #ea580c 100%); padding: 30px; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 28px; font-weight: 600;">EasyLoyalty</h1>
+    </div>
+    <div style="padding: 40px 30px;">
+      <h2 style="margin-top: 0; font-size: 24px;">Máte dárek</h2>
+      <p style="line-height: 1.6; color: #555;">${senderName} Vám posílá kredit <strong>${formatCZK(gift.amountCents)}</strong> na kávu a další dobroty.</p>
+      ${gift.message ? `<blockquote style="margin: 16px 0; padding: 12px 16px; border-left: 4px solid #f59e0b; background-color: #fffbeb; color: #555;">${escapeHtml(gift.message)}</blockquote>` : ''}
+      <p style="line-height: 1.6; color: #555;">Otevřete odkaz níže, zaregistrujte se nebo přihlaste s touto e-mailovou adresou a kredit se Vám připíše. Dárek čeká do ${expires}, pak se vrátí odesílateli.</p>
+      <div style="text-align: center;">
+        <a href="${claimUrl}" style="display: inline-block; background: #ea580c; color: white; text-decoration: none; padding: 16px 32px; border-radius: 6px; font-weight: 600; margin: 24px 0;">Převzít dárek</a>
+      </div>
+    </div>
+    <div style="background-color: #f8f9fa; padding: 20px 30px; text-align: center; color: #6c757d; font-size: 14px;">
+      <p>Tento e-mail byl odeslán automaticky. Neodpovídejte na něj.</p>
+      <p>&copy; ${new Date().getFullYear()} EasyLoyalty. Všechna práva vyhrazena.</p>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const text = `
+Máte dárek - EasyLoyalty
+
+${gift.senderName} Vám posílá kredit ${formatCZK(gift.amountCents)} na kávu a další dobroty.
+${gift.message ? `\n"${gift.message}"\n` : ''}
+Otevřete odkaz, zaregistrujte se nebo přihlaste s touto e-mailovou adresou a kredit se Vám připíše: ${claimUrl}
+Dárek čeká do ${expires}, pak se vrátí odesílateli.
+
+Tento e-mail byl odeslán automaticky. Neodpovídejte na něj.
+
+© ${new Date().getFullYear()} EasyLoyalty. Všechna práva vyhrazena.
+`;
+
+  return { html, text };
+}
+
+export async function sendGiftEmail(recipientEmail: string, gift: GiftNotice): Promise<void> {
+  const { html, text } = generateGiftEmailHtml(gift);
+
+  await sendEmail({
+    to: recipientEmail,
+    subject: `${gift.senderName} Vám posílá dárek – EasyLoyalty`,
+    html,
+    text,
+  });
+}
+
+export function generateReceiptEmailHtml(receipt: ReceiptDocument): { html: string; text: string } {
+  const html = `
+<!DOCTYPE html>
+<html lang="cs">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Účtenka ${receipt.receiptNumber} - EasyLoyalty</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 0; background-color: #f5f5f5; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+    <div style="background: linear-gradient(135deg, #f59e0b 0%, #ea580c 100%); padding: 30px; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 28px; font-weight: 600;">EasyLoyalty</h1>
+    </div>
+    <div style="padding: 40px 30px;">
+      <p style="line-height: 1.6; color: #555;">Děkujeme za nákup. Posíláme účtenku k Vaší platbě kreditem.</p>
+      ${renderReceiptHtml(receipt)}
+    </div>
+    <div style="background-color: #f8f9fa; padding: 20px 30px; text-align: center; color: #6c757d; font-size: 14px;">
+      <p>Zasílání účtenek můžete vypnout v historii transakcí v aplikaci.</p>
+      <p>Tento e-mail byl odeslán automaticky. Neodpovídejte na něj.</p>
+      <p>&copy; ${new Date().getFullYear()} EasyLoyalty. Všechna práva vyhrazena.</p>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const text = `
+Děkujeme za nákup. Posíláme účtenku k Vaší platbě kreditem.
+
+${renderReceiptText(receipt)}
+Zasílání účtenek můžete vypnout v historii transakcí v aplikaci.
+
+Tento e-mail byl odeslán automaticky. Neodpovídejte na něj.
+
+© ${new Date().getFullYear()} EasyLoyalty. Všechna práva vyhrazena.
+`;
+
+  return { html, text };
+}
+
+export async function sendReceiptEmail(userEmail: string, receipt: ReceiptDocument): Promise<void> {
+  const { html, text } = generateReceiptEmailHtml(receipt);
+
+  await sendEmail({
+    to: userEmail,
+    subject: `Účtenka ${receipt.receiptNumber} – EasyLoyalty`,
+    html,
+    text,
+  });
+}
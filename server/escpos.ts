@@ -0,0 +1,102 @@
+import { layoutLine, wrapText, type ReceiptBlock } from "./receipt";
+
+/**
+ * ESC/POS output for the counter's 80 mm thermal printer. Prints the same blocks as the
+ * HTML and text receipts; text goes out in code page 852 so Czech diacritics print
+ */
+
+export const ESCPOS_COLUMNS = 48; // font A on 80 mm paper
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const INIT = [ESC, 0x40];
+const CODE_PAGE_852 = [ESC, 0x74, 18];
+const ALIGN_LEFT = [ESC, 0x61, 0];
+const ALIGN_CENTER = [ESC, 0x61, 1];
+const BOLD_ON = [ESC, 0x45, 1];
+const BOLD_OFF = [ESC, 0x45, 0];
+const DOUBLE_SIZE = [GS, 0x21, 0x11];
+const NORMAL_SIZE = [GS, 0x21, 0x00];
+const FEED_AND_CUT = [GS, 0x56, 0x42, 3]; // feed 3 lines, partial cut
+
+const CP852: Record<string, number> = {
+  "á": 0xa0, "Á": 0xb5, "č": 0x9f, "Č": 0xac, "ď": 0xd4, "Ď": 0xd2, "é": 0x82, "É": 0x90,
+  "ě": 0xd8, "Ě": 0xb7, "í": 0xa1, "Í": 0xd6, "ň": 0xe5, "Ň": 0xd5, "ó": 0xa2, "Ó": 0xe0,
+  "ř": 0xfd, "Ř": 0xfc, "š": 0xe7, "Š": 0xe6, "ť": 0x9c, "Ť": 0x9b, "ú": 0xa3, "Ú": 0xe9,
+  "ů": 0x85, "Ů": 0xde, "ý": 0xec, "Ý": 0xed, "ž": 0xa7, "Ž": 0xa6, "ä": 0x84, "Ä": 0x8e,
+  "ö": 0x94, "Ö": 0x99, "ü": 0x81, "Ü": 0x9a, "ô": 0x93, "Ô": 0xe2, "ľ": 0x96, "Ľ": 0x95,
+  "ĺ": 0x92, "Ĺ": 0x91, "ŕ": 0xea, "Ŕ": 0xe8
+};
+
+// Printable stand-ins for characters code page 852 doesn't have
+const FALLBACKS: Record<string, string> = { "×": "x", "–": "-", "—": "-", "„": "\"", "“": "\"" };
+
+export function encodeCp852(text: string): number[] {
+  return Array.from(text, char => {
+    const fallback = FALLBACKS[char] ?? char;
+    const code = fallback.charCodeAt(0);
+    if (fallback.length === 1 && code >= 0x20 && code < 0x7f) {
+      return code;
+    }
+    return CP852[char] ?? 0x3f; // "?"
+  });
+}
+
+const row = (text: string) => [...encodeCp852(text), LF];
+
+/**
+ * QR code (model 2) with GS ( k: select the model, module size and error correction,
+ * store the data, then print it
+ */
+function qrCode(data: string): number[] {
+  const bytes = Array.from(Buffer.from(data, "utf8"));
+  const storeLength = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00,
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 6,
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31,
+    GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...bytes,
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30
+  ];
+}
+
+/**
+ * One print job: the blocks, then the QR code if given, then feed and cut. Headings are
+ * printed double size, so they wrap at half the columns
+ */
+export function renderEscPos(blocks: ReceiptBlock[], options: { qr?: string; columns?: number } = {}): Buffer {
+  const columns = options.columns ?? ESCPOS_COLUMNS;
+  const bytes: number[] = [...INIT, ...CODE_PAGE_852];
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case "heading":
+        bytes.push(...ALIGN_CENTER, ...DOUBLE_SIZE, ...BOLD_ON);
+        wrapText(block.text, Math.floor(columns / 2)).forEach(text => bytes.push(...row(text)));
+        bytes.push(...BOLD_OFF, ...NORMAL_SIZE, ...ALIGN_LEFT);
+        break;
+      case "note":
+        bytes.push(...ALIGN_CENTER);
+        wrapText(block.text, columns).forEach(text => bytes.push(...row(text)));
+        bytes.push(...ALIGN_LEFT);
+        break;
+      case "rule":
+        bytes.push(...row("-".repeat(columns)));
+        break;
+      case "line":
+        if (block.strong) bytes.push(...BOLD_ON);
+        layoutLine(block.label, block.value, columns).forEach(text => bytes.push(...row(text)));
+        if (block.strong) bytes.push(...BOLD_OFF);
+        break;
+    }
+  }
+
+  if (options.qr) {
+    bytes.push(...ALIGN_CENTER, LF, ...qrCode(options.qr), LF, ...ALIGN_LEFT);
+  }
+
+  bytes.push(...FEED_AND_CUT);
+  return Buffer.from(bytes);
+}
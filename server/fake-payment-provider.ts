@@ -0,0 +1,110 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import {
+  WebhookSignatureError,
+  type PaymentProvider,
+  type CreatePaymentParams,
+  type CreatePaymentResult,
+  type ProviderPaymentStatus,
+  type ProviderWebhookEvent
+} from "./payment-provider";
+
+/**
+ * Offline payment provider for development and tests. It keeps payments in memory,
+ * lets the fake checkout page decide the outcome and signs its webhooks the same
+ * way a real gateway would (HMAC-SHA256 over "<timestamp>.<body>").
+ */
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+// Webhooks older than this are rejected to limit replays
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export type FakeCheckoutOutcome = "succeed" | "fail";
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  private payments = new Map<string, { paymentId: string; status: ProviderPaymentStatus }>();
+
+  constructor(private webhookSecret: string) {}
+
+  async createPayment(params: CreatePaymentParams): Promise<CreatePaymentResult> {
+    const providerRef = `fake_${randomUUID()}`;
+    this.payments.set(providerRef, { paymentId: params.paymentId, status: "pending" });
+    return {
+      providerRef,
+      status: "pending",
+      redirectUrl: `/topup/fake-checkout/${params.paymentId}`
+    };
+  }
+
+  async capturePayment(providerRef: string): Promise<{ status: ProviderPaymentStatus }> {
+    const payment = this.payments.get(providerRef);
+    // Payments are in memory only; one unknown after a restart was authorized by a verified webhook
+    if (!payment || payment.status === "authorized") {
+      this.payments.set(providerRef, { paymentId: payment?.paymentId ?? "", status: "captured" });
+      return { status: "captured" };
+    }
+    return { status: payment.status };
+  }
+
+  /**
+   * What the customer chose on the fake checkout page, as the signed webhook
+   * the provider would send: authorization on success, failure otherwise
+   */
+  checkout(providerRef: string, outcome: FakeCheckoutOutcome): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const event: ProviderWebhookEvent = outcome === "succeed"
+      ? { providerRef, status: "authorized" }
+      : { providerRef, status: "failed", failureReason: "Declined on the fake checkout page" };
+
+    const payment = this.payments.get(providerRef);
+    if (payment) {
+      payment.status = event.status;
+    }
+
+    return this.signEvent(event);
+  }
+
+  signEvent(event: ProviderWebhookEvent, timestamp: number = Date.now()): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const rawBody = Buffer.from(JSON.stringify(event));
+    return {
+      rawBody,
+      headers: { [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(timestamp, rawBody)}` }
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderWebhookEvent {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    if (typeof header !== "string") {
+      throw new WebhookSignatureError("Missing signature header");
+    }
+
+    const parts = Object.fromEntries(header.split(",").map(part => part.split("=", 2)));
+    const timestamp = Number(parts.t);
+    if (!Number.isFinite(timestamp) || !parts.v1) {
+      throw new WebhookSignatureError("Malformed signature header");
+    }
+    if (Math.abs(Date.now() - timestamp) > SIGNATURE_TOLERANCE_MS) {
+      throw new WebhookSignatureError("Signature timestamp outside tolerance");
+    }
+
+    const expected = Buffer.from(this.sign(timestamp, rawBody), "hex");
+    const actual = Buffer.from(parts.v1, "hex");
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new WebhookSignatureError("Signature mismatch");
+    }
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+    if (typeof event.providerRef !== "string" || !["authorized", "captured", "failed"].includes(event.status)) {
+      throw new WebhookSignatureError("Unexpected webhook payload");
+    }
+    return event;
+  }
+
+  private sign(timestamp: number, rawBody: Buffer): string {
+    return createHmac("sha256", this.webhookSecret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest("hex");
+  }
+}
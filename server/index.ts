@@ -4,6 +4,7 @@ import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { keyManager } from "./key-manager";
+import { scheduler, startScheduledJobs } from "./jobs";
 
 const app = express();
 
@@ -35,7 +36,12 @@ app.use(cors({
   credentials: true
 }));
 
-app.use(express.json());
+app.use(express.json({
+  // Payment webhooks are signed over the exact bytes received
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
 
@@ -73,6 +79,7 @@ app.use((req, res, next) => {
   // Initialize keystore with default keys if empty
   try {
     await keyManager.bootstrapIfEmpty();
+    await keyManager.ensureActiveKey("webhook_hmac", "HMAC");
     await keyManager.validateInvariant();
   } catch (error) {
     console.error("❌ Keystore initialization failed:", error);
@@ -107,6 +114,7 @@ app.use((req, res, next) => {
   // Handle graceful shutdown
   process.on('SIGTERM', () => {
     console.log('SIGTERM received, shutting down gracefully');
+    scheduler.stop();
     server.close(() => {
       process.exit(0);
     });
@@ -114,6 +122,7 @@ app.use((req, res, next) => {
 
   process.on('SIGINT', () => {
     console.log('SIGINT received, shutting down gracefully');
+    scheduler.stop();
     server.close(() => {
       process.exit(0);
     });
@@ -124,5 +133,6 @@ app.use((req, res, next) => {
     host: "0.0.0.0",
   }, () => {
     log(`serving on port ${port}`);
+    startScheduledJobs();
   });
 })();
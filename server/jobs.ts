@@ -0,0 +1,130 @@
+import { storage } from "./storage";
+import { ledgerService } from "./routes/ledger/service";
+import { JobScheduler } from "./scheduler";
+import { webhookService } from "./webhook-service";
+import { bonusExpiryService } from "./bonus-expiry-service";
+import { tierService } from "./tier-service";
+import { transferService } from "./transfer-service";
+
+/**
+ * Periodic maintenance jobs. Schedules are cron expressions in UTC.
+ * Set JOBS_ENABLED=false to keep an instance from running any of them.
+ */
+
+const JOBS_ENABLED = process.env.JOBS_ENABLED !== "false";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IDEMPOTENCY_KEY_RETENTION = 7 * DAY_MS;
+const ADMIN_SESSION_RETENTION = 30 * DAY_MS; // keep ended sessions for a month for audits
+const METRICS_MAX_CATCH_UP_DAYS = 90;
+
+export const scheduler = new JobScheduler();
+
+scheduler.register({
+  name: "trial-balance",
+  schedule: "15 2 * * *",
+  description: "Run the ledger trial balance and check the balance cache for drift",
+  run: async () => {
+    const result = await ledgerService.runTrialBalance();
+    if (result.status !== "ok") {
+      // Fail the run so it shows up among failures; details are in trial_balance_daily
+      throw new Error(`Trial balance mismatch: delta ${result.delta}, ${result.drift.length} drifted balance(s)`);
+    }
+    return { sumDebit: result.sumDebit, sumCredit: result.sumCredit };
+  }
+});
+
+scheduler.register({
+  name: "expire-password-reset-tokens",
+  schedule: "*/15 * * * *",
+  description: "Mark active password reset tokens past their expiry as expired",
+  run: async () => ({ expired: await storage.expirePasswordResetTokens() })
+});
+
+scheduler.register({
+  name: "prune-idempotency-keys",
+  schedule: "30 3 * * *",
+  description: "Delete idempotency keys older than 7 days",
+  run: async () => ({
+    deleted: await storage.pruneIdempotencyKeys(new Date(Date.now() - IDEMPOTENCY_KEY_RETENTION))
+  })
+});
+
+scheduler.register({
+  name: "prune-token-blacklist",
+  schedule: "0 * * * *",
+  description: "Delete blacklisted access tokens that have expired anyway",
+  run: async () => ({ deleted: await storage.pruneTokenBlacklist() })
+});
+
+scheduler.register({
+  name: "prune-admin-sessions",
+  schedule: "45 3 * * *",
+  description: "Delete admin sessions that expired or were revoked more than 30 days ago",
+  run: async () => ({
+    deleted: await storage.pruneAdminSessions(new Date(Date.now() - ADMIN_SESSION_RETENTION))
+  })
+});
+
+scheduler.register({
+  name: "deliver-webhooks",
+  schedule: "* * * * *",
+  description: "Retry outbound webhook deliveries whose next attempt is due",
+  run: async () => ({ ...(await webhookService.processDue()) })
+});
+
+scheduler.register({
+  name: "expire-bonus",
+  schedule: "0 1 * * *",
+  description: "Warn customers about bonus credit expiring soon and move expired bonus to breakage",
+  run: async () => ({ ...(await bonusExpiryService.run()) })
+});
+
+scheduler.register({
+  name: "recompute-tiers",
+  schedule: "30 1 * * *",
+  description: "Recompute customer tiers as charge spend moves out of the rolling window",
+  run: async () => ({ ...(await tierService.recomputeAll()) })
+});
+
+scheduler.register({
+  name: "expire-gifts",
+  schedule: "45 1 * * *",
+  description: "Refund gifts nobody claimed within GIFT_EXPIRY_DAYS to their senders",
+  run: async () => ({ ...(await transferService.expireDue()) })
+});
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0]; // YYYY-MM-DD (UTC)
+
+scheduler.register({
+  name: "metrics-daily",
+  schedule: "5 0 * * *",
+  description: "Roll up yesterday's KPIs into metrics_daily, catching up on days missed while no instance ran",
+  run: async () => {
+    const yesterday = new Date(Date.now() - DAY_MS);
+    const latest = await storage.getLatestMetricsDate();
+
+    let day = latest
+      ? new Date(new Date(`${latest}T00:00:00.000Z`).getTime() + DAY_MS)
+      : yesterday;
+    const earliest = new Date(yesterday.getTime() - (METRICS_MAX_CATCH_UP_DAYS - 1) * DAY_MS);
+    if (day < earliest) {
+      day = earliest;
+    }
+
+    const dates: string[] = [];
+    for (; toDateKey(day) <= toDateKey(yesterday); day = new Date(day.getTime() + DAY_MS)) {
+      await storage.rollupMetricsDaily(toDateKey(day));
+      dates.push(toDateKey(day));
+    }
+    return { dates };
+  }
+});
+
+export function startScheduledJobs(): void {
+  if (!JOBS_ENABLED) {
+    console.log("⏰ Scheduled jobs disabled (JOBS_ENABLED=false)");
+    return;
+  }
+  scheduler.start();
+}
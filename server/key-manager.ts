@@ -251,6 +251,28 @@ export class KeyManager {
     console.log("✅ Keystore bootstrap completed");
   }
 
+  /**
+   * Vytvoření aktivního klíče pro účel, který zatím žádný nemá (např. webhook_hmac
+   * u instalací, kde bootstrap proběhl před jeho zavedením)
+   */
+  async ensureActiveKey(purpose: KeyPurpose, alg: string): Promise<void> {
+    const [existing] = await db
+      .select({ kid: keys.kid })
+      .from(keys)
+      .where(and(
+        eq(keys.purpose, purpose),
+        eq(keys.status, "active")
+      ))
+      .limit(1);
+
+    if (existing) {
+      return;
+    }
+
+    const kid = await this.createKey(purpose, alg, `Bootstrap key for ${purpose}`);
+    console.log(`✅ Created ${purpose} key ${kid}`);
+  }
+
   /**
    * Kontrola invarianty - max jeden active klíč per purpose
    */
@@ -0,0 +1,63 @@
+import type { IncomingHttpHeaders } from "http";
+
+/**
+ * Payment gateway abstraction for customer top-ups. A provider creates the payment,
+ * captures it once authorized, and reports status changes through signed webhooks
+ * that arrive at POST /api/payments/webhook/:provider.
+ */
+
+export type ProviderPaymentStatus = "pending" | "authorized" | "captured" | "failed";
+
+export interface CreatePaymentParams {
+  paymentId: string; // our topup_payments.id, echoed back as reference
+  amountCents: number;
+  currency: "CZK";
+  description: string;
+}
+
+export interface CreatePaymentResult {
+  providerRef: string;
+  status: ProviderPaymentStatus;
+  redirectUrl: string | null; // where the customer completes the payment, if anywhere
+}
+
+export interface ProviderWebhookEvent {
+  providerRef: string;
+  status: Exclude<ProviderPaymentStatus, "pending">;
+  failureReason?: string;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createPayment(params: CreatePaymentParams): Promise<CreatePaymentResult>;
+  capturePayment(providerRef: string): Promise<{ status: ProviderPaymentStatus }>;
+  // Throws WebhookSignatureError when the body was not signed by the provider
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderWebhookEvent;
+}
+
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getPaymentProvider(name: string): PaymentProvider | undefined {
+  return providers.get(name);
+}
+
+// Provider used for new top-ups; PAYMENT_PROVIDER selects it, the offline fake is the default
+export function getActivePaymentProvider(): PaymentProvider {
+  const name = process.env.PAYMENT_PROVIDER || "fake";
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Payment provider "${name}" is not registered`);
+  }
+  return provider;
+}
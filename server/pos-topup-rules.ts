@@ -0,0 +1,31 @@
+import type { TopupPackage } from "@shared/schema";
+import { quotePackage } from "./topup-packages";
+import { tierTopupBonus, type CustomerTier } from "./customer-tiers";
+
+/**
+ * What a cash top-up at the counter credits: a package at its current terms or a
+ * custom amount without a package bonus, plus the customer's tier bonus either way
+ */
+
+// Largest custom amount a cashier can take in one top-up
+export const MAX_CUSTOM_TOPUP_CZK = parseInt(process.env.POS_TOPUP_MAX_CZK || "10000", 10);
+
+export interface CashTopupQuote {
+  pay: number; // cents taken in cash
+  bonus: number; // package bonus (promotion included) plus tier bonus
+  total: number;
+  tierBonusCents: number;
+}
+
+export function cashTopupQuote(
+  source: { pkg: TopupPackage } | { payCents: number },
+  tier: CustomerTier,
+  now: Date = new Date()
+): CashTopupQuote {
+  const base = "pkg" in source
+    ? quotePackage(source.pkg, now)
+    : { pay: source.payCents, bonus: 0 };
+  const tierBonusCents = tierTopupBonus(base.pay, tier);
+  const bonus = base.bonus + tierBonusCents;
+  return { pay: base.pay, bonus, total: base.pay + bonus, tierBonusCents };
+}
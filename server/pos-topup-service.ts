@@ -0,0 +1,274 @@
+import { storage } from "./storage";
+import { auditLog } from "./utils";
+import { webhookService } from "./webhook-service";
+import { referralService } from "./referral-service";
+import { voucherService } from "./voucher-service";
+import { chargeService, lookupCustomerByQr } from "./charge-service";
+import { isPackageAvailable } from "./topup-packages";
+import { tierDefinition, type CustomerTier } from "./customer-tiers";
+import { cashTopupQuote } from "./pos-topup-rules";
+import type { PosTopup, TopupPackage, Transaction } from "@shared/schema";
+
+/**
+ * Cash top-up at the counter (/api/pos/topup/*): the cashier scans the customer's QR,
+ * picks a package or enters an amount and takes the cash. Posted Dr 1010 Cash Drawer
+ * in the ledger and voidable within the charge void window
+ */
+
+export type PosTopupErrorCode =
+  | "E_INPUT"
+  | "E_NOT_FOUND"
+  | "E_IDEMPOTENCY_CONFLICT"
+  | "E_VOID_EXPIRED"
+  | "E_CREDIT_SPENT"
+  | "E_REWARDS_SETTLED";
+
+const POS_TOPUP_ERROR_HTTP_MAPPING: Record<PosTopupErrorCode, { status: number; error: string }> = {
+  E_INPUT: { status: 400, error: "BadRequest" },
+  E_NOT_FOUND: { status: 404, error: "NotFound" },
+  E_IDEMPOTENCY_CONFLICT: { status: 409, error: "IdempotencyConflict" },
+  E_VOID_EXPIRED: { status: 422, error: "VoidWindowExpired" },
+  E_CREDIT_SPENT: { status: 422, error: "CreditSpent" },
+  E_REWARDS_SETTLED: { status: 422, error: "RewardsSettled" }
+};
+
+export class PosTopupError extends Error {
+  public status: number;
+  public error: string;
+
+  constructor(public code: PosTopupErrorCode, message: string) {
+    super(message);
+    this.name = "PosTopupError";
+    this.status = POS_TOPUP_ERROR_HTTP_MAPPING[code].status;
+    this.error = POS_TOPUP_ERROR_HTTP_MAPPING[code].error;
+  }
+}
+
+export interface PosTopupServiceOptions {
+  sessionTtlMs: number; // init -> confirm deadline
+  voidWindowMs: number; // confirm -> void deadline
+}
+
+export interface PosTopupInitResult {
+  topupId: string;
+  userId: string;
+  customerName: string;
+  customerEmail: string;
+  balanceCents: number;
+  tier: { tier: CustomerTier; name: string; topupBonusBps: number };
+  expiresAt: Date;
+}
+
+export interface PosTopupConfirmResult {
+  topup: PosTopup;
+  transactionId: string;
+  newBalanceCents: number;
+  voidExpiresAt: Date;
+  idempotent: boolean;
+}
+
+export interface PosTopupVoidResult {
+  topup: PosTopup;
+  transactionId: string;
+  newBalanceCents: number;
+}
+
+export class PosTopupService {
+  constructor(private options: PosTopupServiceOptions) {}
+
+  /**
+   * Scan the customer's QR (the same lookup as a charge) and open a top-up
+   */
+  async init(params: { tokenOrCode: string; adminId: string; adminSessionId: string | null }): Promise<PosTopupInitResult> {
+    const { qrToken, user, wallet } = await lookupCustomerByQr(params.tokenOrCode);
+
+    const topup = await storage.createPosTopup({
+      userId: user.id,
+      adminId: params.adminId,
+      adminSessionId: params.adminSessionId,
+      qrTokenId: qrToken.id,
+      status: "initiated",
+      expiresAt: new Date(Date.now() + this.options.sessionTtlMs)
+    });
+
+    const tier = tierDefinition(user.tier);
+
+    return {
+      topupId: topup.id,
+      userId: user.id,
+      customerName: user.name,
+      customerEmail: user.email,
+      balanceCents: wallet.balanceCents,
+      tier: { tier: tier.tier, name: tier.name, topupBonusBps: tier.topupBonusBps },
+      expiresAt: topup.expiresAt
+    };
+  }
+
+  /**
+   * Credit the cash taken: a package at its current terms, or a custom amount. Replaying
+   * the same idempotency key for the same top-up returns the original result
+   */
+  async confirm(params: {
+    topupId: string;
+    packageCode?: string;
+    amountCents?: number;
+    idempotencyKey: string;
+    adminId: string;
+  }): Promise<PosTopupConfirmResult> {
+    const { topupId, idempotencyKey, adminId } = params;
+
+    const previous = await storage.getTransactionByIdempotencyKey(idempotencyKey);
+    if (previous) {
+      if (previous.relatedId !== topupId || previous.type !== "topup") {
+        throw new PosTopupError("E_IDEMPOTENCY_CONFLICT", "Klíč idempotence byl již použit pro jiný požadavek");
+      }
+      return this.replayConfirm(topupId, previous);
+    }
+
+    const pending = await storage.getPosTopup(topupId);
+    const customer = pending ? await storage.getUser(pending.userId) : undefined;
+    if (!pending || !customer) {
+      throw new PosTopupError("E_NOT_FOUND", "Dobití nenalezeno nebo vypršelo");
+    }
+
+    const now = new Date();
+    let pkg: TopupPackage | undefined;
+    if (params.packageCode) {
+      pkg = await storage.getCurrentTopupPackage(params.packageCode);
+      if (!pkg || !isPackageAvailable(pkg, now)) {
+        throw new PosTopupError("E_INPUT", "Balíček není k dispozici");
+      }
+    }
+
+    const quote = cashTopupQuote(pkg ? { pkg } : { payCents: params.amountCents! }, customer.tier, now);
+
+    const result = await storage.executePosTopup({
+      topupId,
+      packageCode: pkg?.code ?? null,
+      packageId: pkg?.id ?? null,
+      packageData: { pay: quote.pay, bonus: quote.bonus, total: quote.total },
+      idempotencyKey,
+      meta: {
+        adminId,
+        topupId,
+        channel: "pos",
+        ...(quote.tierBonusCents > 0 && { tier: customer.tier, tierBonusCents: quote.tierBonusCents })
+      }
+    });
+
+    if (result.status === "session_unavailable") {
+      throw new PosTopupError("E_NOT_FOUND", "Dobití nenalezeno nebo vypršelo");
+    }
+
+    const { topup, transaction, wallet } = result;
+
+    await auditLog("admin", adminId, "pos_topup_confirmed", {
+      userId: topup.userId,
+      topupId,
+      adminSessionId: topup.adminSessionId,
+      packageCode: topup.packageCode,
+      amountCents: quote.pay,
+      bonusCents: quote.bonus,
+      transactionId: transaction.id
+    });
+    await webhookService.emit("topup.completed", {
+      userId: topup.userId,
+      topupId,
+      channel: "pos",
+      packageCode: topup.packageCode,
+      amountCents: quote.pay,
+      bonusCents: quote.bonus,
+      transactionId: transaction.id,
+      balanceCents: wallet.balanceCents
+    });
+    // Cash counts like a captured card payment; both hooks log their own failures
+    await referralService.onTopupCaptured(topup.userId, { posTopupId: topup.id });
+    await voucherService.onTopupCaptured(topup.userId, { posTopupId: topup.id });
+
+    return {
+      topup,
+      transactionId: transaction.id,
+      newBalanceCents: wallet.balanceCents,
+      voidExpiresAt: new Date(topup.confirmedAt!.getTime() + this.options.voidWindowMs),
+      idempotent: false
+    };
+  }
+
+  /**
+   * Take a cash top-up back while it is inside the void window, still unspent and has
+   * not settled a referral or voucher bonus
+   */
+  async void(params: { topupId: string; adminId: string }): Promise<PosTopupVoidResult> {
+    const { topupId, adminId } = params;
+
+    const existing = await storage.getPosTopup(topupId);
+    if (!existing || existing.status !== "confirmed") {
+      throw new PosTopupError("E_NOT_FOUND", "Dobití nenalezeno");
+    }
+
+    const result = await storage.executePosTopupVoid({
+      topupId,
+      voidWindowMs: this.options.voidWindowMs,
+      voidedBy: adminId,
+      meta: { adminId, originalTopupId: topupId, channel: "pos" }
+    });
+
+    if (result.status === "not_voidable") {
+      throw new PosTopupError("E_VOID_EXPIRED", "Dobití již nelze stornovat");
+    }
+    if (result.status === "credit_spent") {
+      throw new PosTopupError("E_CREDIT_SPENT", "Zákazník už dobitý kredit utratil, dobití nelze stornovat");
+    }
+    if (result.status === "rewards_settled") {
+      throw new PosTopupError("E_REWARDS_SETTLED", "Dobití už připsalo bonus za doporučení nebo voucher, nelze stornovat");
+    }
+
+    const { topup, transaction, wallet } = result;
+
+    await auditLog("admin", adminId, "pos_topup_voided", {
+      userId: topup.userId,
+      topupId,
+      amountCents: topup.amountCents,
+      bonusCents: topup.bonusCents,
+      transactionId: transaction.id
+    });
+    await webhookService.emit("topup.voided", {
+      userId: topup.userId,
+      topupId,
+      channel: "pos",
+      amountCents: topup.amountCents,
+      bonusCents: topup.bonusCents,
+      transactionId: transaction.id,
+      balanceCents: wallet.balanceCents
+    });
+
+    return {
+      topup,
+      transactionId: transaction.id,
+      newBalanceCents: wallet.balanceCents
+    };
+  }
+
+  private async replayConfirm(topupId: string, previous: Transaction): Promise<PosTopupConfirmResult> {
+    const topup = await storage.getPosTopup(topupId);
+    if (!topup || !topup.confirmedAt) {
+      throw new PosTopupError("E_IDEMPOTENCY_CONFLICT", "Požadavek již byl zpracován");
+    }
+
+    const wallet = await storage.getWalletByUserId(topup.userId);
+
+    return {
+      topup,
+      transactionId: previous.id,
+      newBalanceCents: wallet?.balanceCents ?? 0,
+      voidExpiresAt: new Date(topup.confirmedAt.getTime() + this.options.voidWindowMs),
+      idempotent: true
+    };
+  }
+}
+
+// Same void window as POS charges
+export const posTopupService = new PosTopupService({
+  sessionTtlMs: 5 * 60 * 1000,
+  voidWindowMs: chargeService.voidWindowMs
+});
@@ -0,0 +1,141 @@
+import net from "net";
+import { storage } from "./storage";
+import { receiptService } from "./receipt-service";
+import { receiptTemplate, topupSlipTemplate } from "./receipt";
+import { zReportTemplate, type ZReport } from "./shift-report";
+import { renderEscPos } from "./escpos";
+
+/**
+ * Print jobs for the counter's thermal printer (/api/pos/print/*): charge receipts, cash
+ * top-up slips and Z-reports rendered to ESC/POS. The POS downloads the bytes or has the
+ * server send them to the raw TCP printer at ESCPOS_PRINTER_ADDRESS (host:port)
+ */
+
+export type PrintErrorCode =
+  | "E_NOT_FOUND"
+  | "E_PRINTER_NOT_CONFIGURED"
+  | "E_PRINTER_UNAVAILABLE";
+
+const PRINT_ERROR_HTTP_MAPPING: Record<PrintErrorCode, { status: number; error: string }> = {
+  E_NOT_FOUND: { status: 404, error: "NotFound" },
+  E_PRINTER_NOT_CONFIGURED: { status: 503, error: "PrinterNotConfigured" },
+  E_PRINTER_UNAVAILABLE: { status: 502, error: "PrinterUnavailable" }
+};
+
+export class PrintError extends Error {
+  public status: number;
+  public error: string;
+
+  constructor(public code: PrintErrorCode, message: string) {
+    super(message);
+    this.name = "PrintError";
+    this.status = PRINT_ERROR_HTTP_MAPPING[code].status;
+    this.error = PRINT_ERROR_HTTP_MAPPING[code].error;
+  }
+}
+
+export type PrintDocument = "receipt" | "topup" | "shift";
+
+export interface PrintJob {
+  filename: string;
+  payload: Buffer;
+}
+
+const PRINTER_ADDRESS = process.env.ESCPOS_PRINTER_ADDRESS || "";
+const PRINTER_TIMEOUT_MS = 5000;
+const DEFAULT_PRINTER_PORT = 9100;
+
+export class PrintService {
+  get printerConfigured(): boolean {
+    return PRINTER_ADDRESS !== "";
+  }
+
+  /**
+   * Staff print any customer's receipt or top-up slip, but only their own shift's Z-report
+   */
+  async render(document: PrintDocument, id: string, adminId: string): Promise<PrintJob> {
+    switch (document) {
+      case "receipt":
+        return this.renderReceipt(id);
+      case "topup":
+        return this.renderTopupSlip(id);
+      case "shift":
+        return this.renderZReport(id, adminId);
+    }
+  }
+
+  // Raw TCP (port 9100 unless the address says otherwise); resolves once the printer took the bytes
+  async send(job: PrintJob): Promise<void> {
+    if (!this.printerConfigured) {
+      throw new PrintError("E_PRINTER_NOT_CONFIGURED", "Tiskárna není nastavena");
+    }
+
+    const [host, port] = PRINTER_ADDRESS.split(":");
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection({ host, port: port ? parseInt(port, 10) : DEFAULT_PRINTER_PORT });
+      socket.setTimeout(PRINTER_TIMEOUT_MS);
+      socket.on("connect", () => socket.end(job.payload));
+      socket.on("close", hadError => hadError ? undefined : resolve());
+      socket.on("timeout", () => socket.destroy(new Error(`Printer ${PRINTER_ADDRESS} timed out`)));
+      socket.on("error", reject);
+    }).catch(error => {
+      console.error(`Printing ${job.filename} failed:`, error);
+      throw new PrintError("E_PRINTER_UNAVAILABLE", "Tiskárna není dostupná");
+    });
+  }
+
+  private async renderReceipt(receiptId: string): Promise<PrintJob> {
+    const receipt = await storage.getReceipt(receiptId);
+    if (!receipt) {
+      throw new PrintError("E_NOT_FOUND", "Účtenka nenalezena");
+    }
+
+    // The customer scans it to open the receipt in the app
+    const baseUrl = process.env.REPLIT_DEV_DOMAIN
+      ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+      : (process.env.FRONTEND_URL || "http://localhost:5000");
+
+    return {
+      filename: `uctenka-${receipt.receiptNumber}.bin`,
+      payload: renderEscPos(receiptTemplate(receiptService.document(receipt)), { qr: `${baseUrl}/receipts/${receipt.id}` })
+    };
+  }
+
+  private async renderTopupSlip(topupId: string): Promise<PrintJob> {
+    const topup = await storage.getPosTopup(topupId);
+    if (!topup || !topup.confirmedAt) {
+      throw new PrintError("E_NOT_FOUND", "Dobití nenalezeno");
+    }
+
+    const [customer, admin] = await Promise.all([storage.getUser(topup.userId), storage.getAdminUser(topup.adminId)]);
+
+    return {
+      filename: `dobiti-${topup.id.slice(0, 8)}.bin`,
+      payload: renderEscPos(topupSlipTemplate({
+        topupId: topup.id,
+        confirmedAt: topup.confirmedAt,
+        staffName: admin?.name ?? "Obsluha",
+        customerName: customer?.name ?? "",
+        packageCode: topup.packageCode,
+        amountCents: topup.amountCents ?? 0,
+        bonusCents: topup.bonusCents ?? 0,
+        voided: topup.status === "voided"
+      }))
+    };
+  }
+
+  private async renderZReport(shiftId: string, adminId: string): Promise<PrintJob> {
+    const shift = await storage.getPosShift(shiftId);
+    if (!shift || shift.adminId !== adminId || shift.status !== "closed" || !shift.report) {
+      throw new PrintError("E_NOT_FOUND", "Uzavřená směna nenalezena");
+    }
+
+    const header = { shiftId: shift.id, staffName: shift.adminName, openedAt: shift.openedAt, closedAt: shift.closedAt! };
+    return {
+      filename: `z-report-${shift.closedAt!.toISOString().slice(0, 10)}-${shift.id.slice(0, 8)}.bin`,
+      payload: renderEscPos(zReportTemplate(header, shift.report as ZReport))
+    };
+  }
+}
+
+export const printService = new PrintService();
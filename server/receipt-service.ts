@@ -0,0 +1,75 @@
+import { storage, type ReceiptDraft, type ReceiptView } from "./storage";
+import { sendReceiptEmail } from "./email";
+import { vatBreakdown, type ReceiptDocument, type VatLine } from "./receipt";
+import type { PricedItem } from "./basket";
+import type { User } from "@shared/schema";
+
+// A keyed-in amount has no products to take rates from, so it is taxed at this one
+const KEYED_AMOUNT_VAT_RATE_BPS = parseInt(process.env.RECEIPT_KEYED_VAT_RATE_BPS || "1200", 10);
+
+/**
+ * Receipts for wallet charges. Storage issues the receipt in the charge transaction
+ * from the draft built here; emailing it afterwards is best effort
+ */
+export class ReceiptService {
+  async draft(params: {
+    adminId: string;
+    listAmountCents: number;
+    discountCents: number;
+    items?: PricedItem[];
+  }): Promise<ReceiptDraft> {
+    const { adminId, listAmountCents, discountCents, items } = params;
+    const admin = await storage.getAdminUser(adminId);
+
+    const lines = items && items.length > 0
+      ? items.map(item => ({ vatRateBps: item.vatRateBps, grossCents: item.lineTotalCents }))
+      : [{ vatRateBps: KEYED_AMOUNT_VAT_RATE_BPS, grossCents: listAmountCents }];
+
+    return {
+      staffName: admin?.name ?? "Obsluha",
+      listAmountCents,
+      discountCents,
+      vatLines: vatBreakdown(lines, discountCents)
+    };
+  }
+
+  document(receipt: ReceiptView): ReceiptDocument {
+    return {
+      receiptNumber: receipt.receiptNumber,
+      issuedAt: receipt.issuedAt,
+      staffName: receipt.staffName,
+      items: receipt.items,
+      listAmountCents: receipt.listAmountCents,
+      discountCents: receipt.discountCents,
+      amountCents: receipt.amountCents,
+      vatLines: receipt.vatLines as VatLine[],
+      balanceAfterCents: receipt.balanceAfterCents,
+      voided: receipt.voided
+    };
+  }
+
+  /**
+   * Email the receipt to a customer who opted in. Runs in the background so the till
+   * doesn't wait on SMTP; the receipt is in the app whether or not the email goes out
+   */
+  emailIfOptedIn(receiptId: string, customer: User): void {
+    if (!customer.emailReceipts) {
+      return;
+    }
+
+    this.email(receiptId, customer).catch(error => {
+      console.error(`Receipt email ${receiptId} for user ${customer.id} failed:`, error);
+    });
+  }
+
+  private async email(receiptId: string, customer: User): Promise<void> {
+    const receipt = await storage.getReceipt(receiptId);
+    if (!receipt) {
+      return;
+    }
+    await sendReceiptEmail(customer.email, this.document(receipt));
+    await storage.markReceiptEmailed(receiptId);
+  }
+}
+
+export const receiptService = new ReceiptService();
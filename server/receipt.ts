@@ -0,0 +1,279 @@
+import { vatIncluded } from "./basket";
+import type { ChargeItem } from "@shared/schema";
+
+/**
+ * Receipt layout shared by every output. `receiptTemplate` decides what a receipt says
+ * as a list of blocks; the renderers only decide how a block looks, so the HTML and the
+ * plain-text receipt can't drift apart
+ */
+
+export const RECEIPT_TEXT_WIDTH = 40;
+
+// VAT-inclusive total of one rate, after its share of the discount
+export interface VatLine {
+  vatRateBps: number;
+  netCents: number;
+  vatCents: number;
+  grossCents: number;
+}
+
+export type ReceiptItem = Pick<ChargeItem, "name" | "quantity" | "unitPriceCents" | "lineTotalCents" | "vatRateBps">;
+
+export interface ReceiptDocument {
+  receiptNumber: string;
+  issuedAt: Date;
+  staffName: string;
+  items: ReceiptItem[]; // empty when the cashier keyed in an amount
+  listAmountCents: number;
+  discountCents: number;
+  amountCents: number;
+  vatLines: VatLine[];
+  balanceAfterCents: number;
+  voided: boolean;
+}
+
+export type ReceiptBlock =
+  | { kind: "heading"; text: string }
+  | { kind: "line"; label: string; value: string; strong?: boolean }
+  | { kind: "rule" }
+  | { kind: "note"; text: string };
+
+/**
+ * Splits what was paid into VAT rates. A charge-wide discount is shared out in
+ * proportion to each rate's gross, with the haléře lost to rounding going to the
+ * largest remainders, so the lines always add up to the amount charged
+ */
+export function vatBreakdown(lines: { vatRateBps: number; grossCents: number }[], discountCents: number): VatLine[] {
+  const grossByRate = new Map<number, number>();
+  for (const line of lines) {
+    grossByRate.set(line.vatRateBps, (grossByRate.get(line.vatRateBps) ?? 0) + line.grossCents);
+  }
+
+  const rates = Array.from(grossByRate, ([vatRateBps, grossCents]) => ({ vatRateBps, grossCents }))
+    .filter(rate => rate.grossCents > 0)
+    .sort((a, b) => b.vatRateBps - a.vatRateBps);
+  const totalCents = rates.reduce((sum, rate) => sum + rate.grossCents, 0);
+  if (totalCents === 0) {
+    return [];
+  }
+
+  const shares = rates.map(rate => {
+    const exact = discountCents * rate.grossCents / totalCents;
+    return { cents: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = discountCents - shares.reduce((sum, share) => sum + share.cents, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftover === 0) break;
+    share.cents++;
+    leftover--;
+  }
+
+  return rates.map((rate, index) => {
+    const grossCents = rate.grossCents - shares[index].cents;
+    const vatCents = vatIncluded(grossCents, rate.vatRateBps);
+    return { vatRateBps: rate.vatRateBps, netCents: grossCents - vatCents, vatCents, grossCents };
+  });
+}
+
+const amountFormat = new Intl.NumberFormat("cs-CZ", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const dateFormat = new Intl.DateTimeFormat("cs-CZ", {
+  timeZone: "Europe/Prague",
+  day: "numeric",
+  month: "numeric",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit"
+});
+
+const yearFormat = new Intl.DateTimeFormat("en-GB", { timeZone: "Europe/Prague", year: "numeric" });
+
+// Receipts are numbered per calendar year in Prague time, so 31 Dec 23:30 UTC is next year
+export function receiptYear(date: Date): number {
+  return Number(yearFormat.format(date));
+}
+
+export function formatReceiptNumber(year: number, sequence: number): string {
+  return `${year}-${String(sequence).padStart(6, "0")}`;
+}
+
+// Plain spaces only, so fixed-width output lines up
+export function formatKc(cents: number): string {
+  return `${amountFormat.format(cents / 100).replace(/\s/g, " ")} Kč`;
+}
+
+export function formatReceiptDate(date: Date): string {
+  return dateFormat.format(date).replace(/\s/g, " ");
+}
+
+const formatRate = (vatRateBps: number) => `${vatRateBps / 100} %`;
+
+export function receiptTemplate(doc: ReceiptDocument): ReceiptBlock[] {
+  const blocks: ReceiptBlock[] = [
+    { kind: "heading", text: "EasyLoyalty" },
+    { kind: "note", text: `Účtenka č. ${doc.receiptNumber}` },
+    { kind: "line", label: "Datum", value: formatReceiptDate(doc.issuedAt) },
+    { kind: "line", label: "Obsluha", value: doc.staffName },
+    { kind: "rule" }
+  ];
+
+  if (doc.items.length > 0) {
+    for (const item of doc.items) {
+      blocks.push({ kind: "line", label: `${item.quantity}× ${item.name}`, value: formatKc(item.lineTotalCents) });
+    }
+  } else {
+    blocks.push({ kind: "line", label: "Platba", value: formatKc(doc.listAmountCents) });
+  }
+
+  if (doc.discountCents > 0) {
+    blocks.push({ kind: "line", label: "Sleva věrnostní úrovně", value: formatKc(-doc.discountCents) });
+  }
+
+  blocks.push(
+    { kind: "rule" },
+    { kind: "line", label: "Celkem zaplaceno kreditem", value: formatKc(doc.amountCents), strong: true },
+    { kind: "rule" }
+  );
+
+  for (const line of doc.vatLines) {
+    blocks.push(
+      { kind: "line", label: `Základ ${formatRate(line.vatRateBps)}`, value: formatKc(line.netCents) },
+      { kind: "line", label: `DPH ${formatRate(line.vatRateBps)}`, value: formatKc(line.vatCents) }
+    );
+  }
+
+  blocks.push(
+    { kind: "rule" },
+    { kind: "line", label: "Zůstatek po platbě", value: formatKc(doc.balanceAfterCents) }
+  );
+
+  if (doc.voided) {
+    blocks.push({ kind: "note", text: "STORNOVÁNO – částka byla vrácena na účet" });
+  }
+
+  blocks.push({ kind: "note", text: "Děkujeme za návštěvu" });
+  return blocks;
+}
+
+// Slip handed over with a cash top-up at the till
+export interface TopupSlipDocument {
+  topupId: string;
+  confirmedAt: Date;
+  staffName: string;
+  customerName: string;
+  packageCode: string | null; // null for a custom amount
+  amountCents: number; // cash taken
+  bonusCents: number;
+  voided: boolean;
+}
+
+export function topupSlipTemplate(doc: TopupSlipDocument): ReceiptBlock[] {
+  const blocks: ReceiptBlock[] = [
+    { kind: "heading", text: "EasyLoyalty" },
+    { kind: "note", text: `Doklad o dobití č. ${doc.topupId.slice(0, 8).toUpperCase()}` },
+    { kind: "line", label: "Datum", value: formatReceiptDate(doc.confirmedAt) },
+    { kind: "line", label: "Obsluha", value: doc.staffName },
+    { kind: "line", label: "Zákazník", value: doc.customerName },
+    { kind: "rule" },
+    { kind: "line", label: "Balíček", value: doc.packageCode ?? "vlastní částka" },
+    { kind: "line", label: "Přijato v hotovosti", value: formatKc(doc.amountCents), strong: true }
+  ];
+
+  if (doc.bonusCents > 0) {
+    blocks.push({ kind: "line", label: "Bonusový kredit", value: formatKc(doc.bonusCents) });
+  }
+
+  blocks.push(
+    { kind: "rule" },
+    { kind: "line", label: "Připsáno na účet", value: formatKc(doc.amountCents + doc.bonusCents) }
+  );
+
+  if (doc.voided) {
+    blocks.push({ kind: "note", text: "STORNOVÁNO – hotovost byla vrácena" });
+  }
+
+  blocks.push({ kind: "note", text: "Děkujeme za návštěvu" });
+  return blocks;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * HTML fragment with inline styles, so it reads the same in an email client as in the app
+ */
+export function renderReceiptHtml(doc: ReceiptDocument): string {
+  const rows = receiptTemplate(doc).map(block => {
+    switch (block.kind) {
+      case "heading":
+        return `<tr><td colspan="2" style="padding: 4px 0; text-align: center; font-size: 20px; font-weight: 600;">${escapeHtml(block.text)}</td></tr>`;
+      case "note":
+        return `<tr><td colspan="2" style="padding: 4px 0; text-align: center; color: #555;">${escapeHtml(block.text)}</td></tr>`;
+      case "rule":
+        return `<tr><td colspan="2" style="padding: 4px 0;"><hr style="border: 0; border-top: 1px dashed #ccc; margin: 0;"></td></tr>`;
+      case "line": {
+        const weight = block.strong ? " font-weight: 600;" : "";
+        return `<tr><td style="padding: 2px 8px 2px 0;${weight}">${escapeHtml(block.label)}</td>`
+          + `<td style="padding: 2px 0; text-align: right; white-space: nowrap;${weight}">${escapeHtml(block.value)}</td></tr>`;
+      }
+    }
+  });
+
+  return `<table style="width: 100%; max-width: 400px; margin: 0 auto; border-collapse: collapse; font-size: 14px; color: #333;">\n${rows.join("\n")}\n</table>`;
+}
+
+const center = (text: string, width: number) =>
+  `${" ".repeat(Math.max(0, Math.floor((width - text.length) / 2)))}${text}`;
+
+// Word-wraps to the width; a single word longer than that is cut
+export function wrapText(text: string, width: number): string[] {
+  const rows: string[] = [];
+  let row = "";
+  for (const word of text.split(" ")) {
+    if (row && row.length + 1 + word.length > width) {
+      rows.push(row);
+      row = "";
+    }
+    row = row ? `${row} ${word}` : word;
+    while (row.length > width) {
+      rows.push(row.slice(0, width));
+      row = row.slice(width);
+    }
+  }
+  return [...rows, row];
+}
+
+/**
+ * Label left, value right-aligned. When they don't fit side by side the label wraps and
+ * the value goes on the next row
+ */
+export function layoutLine(label: string, value: string, width: number): string[] {
+  const gap = width - label.length - value.length;
+  return gap >= 1
+    ? [`${label}${" ".repeat(gap)}${value}`]
+    : [...wrapText(label, width), value.padStart(width)];
+}
+
+// Fixed-width text for the plain-text email part
+export function renderReceiptText(doc: ReceiptDocument, width = RECEIPT_TEXT_WIDTH): string {
+  const lines = receiptTemplate(doc).flatMap(block => {
+    switch (block.kind) {
+      case "heading":
+        return wrapText(block.text.toUpperCase(), width).map(row => center(row, width));
+      case "note":
+        return wrapText(block.text, width).map(row => center(row, width));
+      case "rule":
+        return ["-".repeat(width)];
+      case "line":
+        return layoutLine(block.label, block.value, width);
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
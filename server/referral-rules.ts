@@ -0,0 +1,56 @@
+import { randomInt } from "crypto";
+import type { ReferralSettings } from "@shared/schema";
+
+/**
+ * Referral programme rules: personal codes and the anti-abuse checks a referral
+ * must pass, first at signup and again when its reward falls due
+ */
+
+// No 0/O or 1/I, so codes survive being read out at the till
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+export type ReferralRejectReason = "same_ip" | "same_device" | "referrer_cap" | "programme_inactive" | "admin";
+
+export function generateReferralCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Codes are matched case-insensitively and without spaces or dashes
+export function normalizeReferralCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toUpperCase();
+}
+
+type Rules = Pick<ReferralSettings, "isActive" | "blockSameIp" | "blockSameDevice" | "maxRewardsPerReferrer">;
+
+/**
+ * Signup check: whether the referrer already used the referee's IP, or the IP and
+ * browser together (same device), for their own sessions
+ */
+export function signupRejection(rules: Rules, origin: { sameIp: boolean; sameDevice: boolean }): ReferralRejectReason | null {
+  if (!rules.isActive) {
+    return "programme_inactive";
+  }
+  if (rules.blockSameDevice && origin.sameDevice) {
+    return "same_device";
+  }
+  if (rules.blockSameIp && origin.sameIp) {
+    return "same_ip";
+  }
+  return null;
+}
+
+// Reward check once the referee's first top-up is captured
+export function rewardRejection(rules: Rules, referrerRewardedCount: number): ReferralRejectReason | null {
+  if (!rules.isActive) {
+    return "programme_inactive";
+  }
+  if (rules.maxRewardsPerReferrer !== null && referrerRewardedCount >= rules.maxRewardsPerReferrer) {
+    return "referrer_cap";
+  }
+  return null;
+}
@@ -0,0 +1,79 @@
+import { storage, type QualifyingTopup } from "./storage";
+import { auditLog } from "./utils";
+import { signupRejection } from "./referral-rules";
+import type { Referral } from "@shared/schema";
+
+/**
+ * Referral programme: a signup with a referral code is recorded as pending (or
+ * rejected straight away by the anti-abuse rules), and the referee's first captured
+ * top-up credits both sides with the configured bonus
+ */
+
+export class ReferralService {
+  // Best-effort like the reward: a failure here must not fail the signup itself
+  async recordSignup(params: { refereeId: string; referrerId: string; code: string; ip: string; userAgent: string }): Promise<Referral | undefined> {
+    const { refereeId, referrerId, code, ip, userAgent } = params;
+
+    try {
+      return await this.createReferral(refereeId, referrerId, code, ip, userAgent);
+    } catch (error) {
+      console.error(`Recording referral for user ${refereeId} failed:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Called after every captured card top-up and confirmed cash top-up; only the first
+   * one finds a pending referral.
+   * Best-effort: the top-up itself is already committed, so failures are only logged
+   */
+  async onTopupCaptured(userId: string, topup: QualifyingTopup): Promise<void> {
+    try {
+      const result = await storage.executeReferralReward({ refereeId: userId, topup });
+      if (result.status === "no_pending_referral") {
+        return;
+      }
+
+      const { referral } = result;
+      await auditLog("system", null, result.status === "ok" ? "referral_rewarded" : "referral_rejected", {
+        referralId: referral.id,
+        referrerId: referral.referrerId,
+        refereeId: referral.refereeId,
+        ...topup,
+        referrerBonusCents: referral.referrerBonusCents,
+        refereeBonusCents: referral.refereeBonusCents,
+        reason: referral.rejectReason
+      });
+    } catch (error) {
+      console.error(`Referral reward for user ${userId} failed:`, error);
+    }
+  }
+
+  private async createReferral(refereeId: string, referrerId: string, code: string, ip: string, userAgent: string): Promise<Referral> {
+    const settings = await storage.getReferralSettings();
+    const origin = await storage.getReferrerOriginMatch(referrerId, ip, userAgent);
+    const rejection = signupRejection(settings, origin);
+
+    const referral = await storage.createReferral({
+      referrerId,
+      refereeId,
+      code,
+      status: rejection ? "rejected" : "pending",
+      rejectReason: rejection,
+      signupIp: ip,
+      signupUserAgent: userAgent,
+      decidedAt: rejection ? new Date() : null
+    });
+
+    await auditLog("system", null, rejection ? "referral_rejected" : "referral_recorded", {
+      referralId: referral.id,
+      referrerId,
+      refereeId,
+      reason: rejection
+    });
+
+    return referral;
+  }
+}
+
+export const referralService = new ReferralService();
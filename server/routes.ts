@@ -1,7 +1,7 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import jwt from "jsonwebtoken";
-import { storage } from "./storage";
+import { storage, type ReceiptView, type VoucherRedemptionView } from "./storage";
 import { setupLedgerRoutes } from "./routes/ledger/index";
 import { ledgerService } from "./routes/ledger/service";
 import { 
@@ -13,6 +13,7 @@ import {
   generateQRToken, 
   generateShortCode, 
   verifyQRToken,
+  hashQRPayload,
   authenticate,
   checkRateLimit,
   verifyGoogleToken,
@@ -37,13 +38,34 @@ import { auditLog, createErrorResponse, validateEmail, validatePassword, formatC
 import { sendPasswordResetEmail } from "./email";
 import { keyManager } from "./key-manager";
 import { metrics } from "./metrics";
+import { chargeService, ChargeError } from "./charge-service";
+import { scheduler } from "./jobs";
+import { topupService, TopupError, FAKE_PAYMENTS_ENABLED } from "./topup-service";
+import { webhookService } from "./webhook-service";
+import { isPackageAvailable, packageTermsError, quotePackage } from "./topup-packages";
+import { stampProgramTermsError } from "./stamp-rules";
+import { TIER_WINDOW_DAYS, nextTier, tierDefinition, tierTopupBonus } from "./customer-tiers";
+import { paidBalance } from "./credit-buckets";
+import { BONUS_EXPIRY_WARNING_DAYS } from "./bonus-lots";
+import { normalizeReferralCode } from "./referral-rules";
+import { referralService } from "./referral-service";
+import { transferService, TransferError } from "./transfer-service";
+import { voucherService, VoucherError } from "./voucher-service";
+import { posTopupService, PosTopupError } from "./pos-topup-service";
+import { MAX_CUSTOM_TOPUP_CZK } from "./pos-topup-rules";
+import { shiftService, ShiftError } from "./shift-service";
+import { zReportCsv, zReportText } from "./shift-report";
+import { renderTextPdf } from "./pdf";
+import { MAX_BASKET_LINES, MAX_LINE_QUANTITY, type PricedItem } from "./basket";
+import { renderReceiptHtml, renderReceiptText } from "./receipt";
+import { receiptService } from "./receipt-service";
+import { printService, PrintError, type PrintDocument } from "./print-service";
+import { voucherBatchTermsError } from "./voucher-rules";
 
 // Production flag for cookie security
 const isProd = process.env.NODE_ENV === "production";
 
-// Ledger integration feature flag
-const LEDGER_POS_INTEGRATION = process.env.LEDGER_POS_INTEGRATION === 'true';
-import { TOP_UP_PACKAGES, type PackageCode, forgotPasswordSchema, resetPasswordSchema } from "@shared/schema";
+import { WEBHOOK_EVENTS, type PosShift, type PosTopup, type TopupPackage, type TopupPayment, type WalletTransfer, forgotPasswordSchema, resetPasswordSchema } from "@shared/schema";
 import { z } from "zod";
 import cookieParser from "cookie-parser";
 import { randomUUID } from "crypto";
@@ -55,7 +77,8 @@ const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
 const signupSchema = z.object({
   email: z.string().email(),
   name: z.string().min(1).max(100),
-  password: z.string().min(8)
+  password: z.string().min(8),
+  referralCode: z.string().min(1).max(32).optional()
 });
 
 const loginSchema = z.object({
@@ -64,40 +87,516 @@ const loginSchema = z.object({
 });
 
 const topupSchema = z.object({
-  packageCode: z.enum(["MINI", "STANDARD", "MAXI", "ULTRA"])
+  packageCode: z.string().min(1)
+});
+
+const transferSchema = z.object({
+  recipientEmail: z.string().email(),
+  amountCZK: z.number().positive().max(100000),
+  message: z.string().trim().max(200).optional()
+});
+
+const giftClaimSchema = z.object({
+  token: z.string().min(1).max(200)
+});
+
+const voucherRedeemSchema = z.object({
+  code: z.string().trim().min(1).max(40)
+});
+
+const preferencesSchema = z.object({
+  emailReceipts: z.boolean()
+});
+
+const voucherBatchSchema = z.object({
+  name: z.string().min(1).max(60),
+  type: z.enum(["fixed", "percent_bonus"]),
+  valueCents: z.number().int().positive().max(100000).nullable().default(null),
+  bonusBps: z.number().int().min(1).max(10000).nullable().default(null),
+  maxRedemptionsPerCode: z.number().int().positive().nullable().default(null),
+  perCustomerLimit: z.number().int().positive().default(1),
+  validFrom: z.coerce.date().nullable().default(null),
+  expiresAt: z.coerce.date().nullable().default(null),
+  // Either one chosen code, or count generated ones starting with prefix
+  code: z.string().regex(/^[A-Za-z0-9-]{4,32}$/, "Use 4-32 letters, digits or -").optional(),
+  prefix: z.string().regex(/^[A-Za-z0-9]{0,12}$/, "Use up to 12 letters or digits").optional(),
+  count: z.number().int().min(1).max(1000).default(1)
+});
+
+const topupPackageSchema = z.object({
+  code: z.string().regex(/^[A-Z0-9_]{2,32}$/, "Use 2-32 upper-case letters, digits or _"),
+  name: z.string().min(1).max(60),
+  payCents: z.number().int().positive(),
+  bonusCents: z.number().int().min(0),
+  isPopular: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validTo: z.coerce.date().nullable().optional(),
+  promoLabel: z.string().min(1).max(80).nullable().optional(),
+  promoBonusBps: z.number().int().min(1).max(10000).nullable().optional(),
+  promoStartsAt: z.coerce.date().nullable().optional(),
+  promoEndsAt: z.coerce.date().nullable().optional()
+});
+
+const productSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  category: z.string().trim().min(1).max(40),
+  priceCents: z.number().int().positive().max(10000000),
+  vatRateBps: z.number().int().min(0).max(10000),
+  isActive: z.boolean().optional()
+});
+
+const productSalesQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+const stampProgramSchema = z.object({
+  name: z.string().min(1).max(60),
+  description: z.string().max(200).nullable().optional(),
+  rule: z.enum(["per_charge", "per_amount"]),
+  thresholdCents: z.number().int().min(0).default(0),
+  stampsRequired: z.number().int().min(1).max(50),
+  rewardName: z.string().min(1).max(60),
+  rewardValueCents: z.number().int().positive(),
+  isActive: z.boolean().optional()
+});
+
+const referralSettingsSchema = z.object({
+  isActive: z.boolean(),
+  referrerBonusCents: z.number().int().min(0).max(100000),
+  refereeBonusCents: z.number().int().min(0).max(100000),
+  maxRewardsPerReferrer: z.number().int().positive().nullable(),
+  blockSameIp: z.boolean(),
+  blockSameDevice: z.boolean()
+}).partial();
+
+const referralReportSchema = z.object({
+  status: z.enum(["pending", "rewarded", "rejected"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+const fakeCheckoutSchema = z.object({
+  outcome: z.enum(["succeed", "fail"])
 });
 
 const chargeInitSchema = z.object({
   tokenOrCode: z.string().min(1)
 });
 
+// A wallet charge for an amount (amountCZK) or a basket of catalogue products (items),
+// or a stamp reward redemption (rewardId)
 const chargeConfirmSchema = z.object({
   chargeId: z.string().uuid(),
-  amountCZK: z.number().positive(),
+  // Anything under one haléř would round to a zero-amount charge
+  amountCZK: z.number().refine(amount => Math.round(amount * 100) >= 1, "Amount must be at least 0.01 CZK").optional(),
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().int().min(1).max(MAX_LINE_QUANTITY)
+  })).min(1).max(MAX_BASKET_LINES).optional(),
+  rewardId: z.string().uuid().optional(),
   idempotencyKey: z.string().min(1)
+}).refine(body => [body.amountCZK, body.items, body.rewardId].filter(value => value !== undefined).length === 1, {
+  message: "Provide exactly one of amountCZK, items or rewardId"
 });
 
 const chargeVoidSchema = z.object({
   chargeId: z.string().uuid()
 });
 
+const posTopupConfirmSchema = z.object({
+  topupId: z.string().uuid(),
+  packageCode: z.string().min(1).optional(),
+  amountCZK: z.number().int().positive().max(MAX_CUSTOM_TOPUP_CZK).optional(), // custom amount, whole crowns
+  idempotencyKey: z.string().min(1)
+}).refine(body => (body.packageCode === undefined) !== (body.amountCZK === undefined), {
+  message: "Provide either packageCode or amountCZK"
+});
+
+const posTopupVoidSchema = z.object({
+  topupId: z.string().uuid()
+});
+
+const shiftOpenSchema = z.object({
+  openingFloatCZK: z.number().min(0)
+});
+
+const shiftCloseSchema = z.object({
+  countedCashCZK: z.number().min(0),
+  note: z.string().trim().max(500).optional()
+});
+
+const shiftListSchema = z.object({
+  adminId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
 const adjustmentSchema = z.object({
   userId: z.string().uuid(),
   amountCZK: z.number(),
+  bucket: z.enum(["paid", "bonus"]).optional(), // sub-balance to adjust; see executeAtomicAdjustment
   reason: z.string().min(1),
   idempotencyKey: z.string().min(1)
 });
 
+const jobRunsQuerySchema = z.object({
+  job: z.string().min(1).optional(),
+  status: z.enum(["running", "succeeded", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+const webhookEndpointSchema = z.object({
+  // Plain http only outside production, where receivers run locally
+  url: z.string().url().refine(
+    url => url.startsWith("https://") || (!isProd && url.startsWith("http://")),
+    { message: "Webhook URL must use https" }
+  ),
+  description: z.string().max(200).nullable().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  isActive: z.boolean().optional()
+});
+
+const webhookDeliveriesQuerySchema = z.object({
+  endpointId: z.string().uuid().optional(),
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+const METRICS_MAX_RANGE_DAYS = 366;
+
+const metricsDailyQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
 const googleAuthSchema = z.object({
-  idToken: z.string().min(1)
+  idToken: z.string().min(1),
+  referralCode: z.string().min(1).max(32).optional()
 });
 
-// In-memory stores for demo (should be Redis in production)
-const qrCodes = new Map<string, { userId: string; expiresAt: number; used: boolean }>();
-const pendingCharges = new Map<string, { userId: string; amountCents: number; createdAt: number; adminId: string; ledgerTxId?: string }>();
+// QR tokens and charge sessions live in the database (qr_tokens / charge_sessions)
+const QR_TOKEN_TTL = 60 * 1000; // 60 seconds
+const QR_TOKEN_RETENTION = 24 * 60 * 60 * 1000; // keep expired tokens for a day for diagnostics
+const EXPIRY_CLEANUP_INTERVAL = 60 * 1000;
+
+function startExpiryCleanup() {
+  const timer = setInterval(async () => {
+    try {
+      const expiredSessions = await storage.expireChargeSessions();
+      const expiredTopups = await storage.expirePosTopups();
+      const deletedTokens = await storage.deleteExpiredQrTokens(new Date(Date.now() - QR_TOKEN_RETENTION));
+      if (expiredSessions > 0 || expiredTopups > 0 || deletedTokens > 0) {
+        console.log(`Expiry cleanup: ${expiredSessions} charge sessions and ${expiredTopups} POS top-ups expired, ${deletedTokens} QR tokens deleted`);
+      }
+    } catch (error) {
+      console.error("Expiry cleanup error:", error);
+    }
+  }, EXPIRY_CLEANUP_INTERVAL);
+  timer.unref();
+}
+
+// A package as offered right now, promotion applied
+function serializePackageOffer(pkg: TopupPackage, now: Date) {
+  const quote = quotePackage(pkg, now);
+  return {
+    id: pkg.id,
+    code: pkg.code,
+    version: pkg.version,
+    name: pkg.name,
+    payCents: quote.pay,
+    bonusCents: quote.bonus,
+    totalCents: quote.total,
+    bonusPercent: Math.round((quote.bonus / quote.pay) * 1000) / 10,
+    isPopular: pkg.isPopular,
+    validTo: pkg.validTo?.toISOString() ?? null,
+    promo: quote.promoActive
+      ? { label: pkg.promoLabel!, bonusBps: pkg.promoBonusBps!, endsAt: pkg.promoEndsAt?.toISOString() ?? null }
+      : null
+  };
+}
+
+function serializeTopupPayment(payment: TopupPayment) {
+  return {
+    paymentId: payment.id,
+    status: payment.status,
+    provider: payment.provider,
+    packageCode: payment.packageCode,
+    packageId: payment.packageId,
+    amountCents: payment.amountCents,
+    bonusCents: payment.bonusCents,
+    redirectUrl: payment.status === "pending" ? payment.redirectUrl : null,
+    failureReason: payment.failureReason,
+    createdAt: payment.createdAt.toISOString(),
+    capturedAt: payment.capturedAt?.toISOString() ?? null
+  };
+}
+
+// From the point of view of the customer asking: outgoing or incoming
+function serializeWalletTransfer(transfer: WalletTransfer & { senderName?: string; recipientName?: string | null }, userId: string) {
+  const outgoing = transfer.senderId === userId;
+  return {
+    transferId: transfer.id,
+    direction: outgoing ? "out" : "in",
+    status: transfer.status,
+    counterpartyName: outgoing ? (transfer.recipientName ?? null) : (transfer.senderName ?? null),
+    // The sender typed the address, so only they get it back
+    recipientEmail: outgoing ? transfer.recipientEmail : null,
+    amountCZK: formatCZK(transfer.amountCents),
+    amountCents: transfer.amountCents,
+    message: transfer.message,
+    expiresAt: transfer.expiresAt?.toISOString() ?? null,
+    createdAt: transfer.createdAt.toISOString(),
+    completedAt: transfer.completedAt?.toISOString() ?? null
+  };
+}
+
+function sendTransferError(res: Response, error: unknown, context: string) {
+  console.error(`${context} error:`, error);
+  if (error instanceof TransferError) {
+    return res.status(error.status).json(createErrorResponse(error.error, error.message, error.code));
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+  }
+  return res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+}
+
+function serializeVoucherRedemption(redemption: VoucherRedemptionView) {
+  return {
+    redemptionId: redemption.id,
+    code: redemption.code,
+    name: redemption.name,
+    type: redemption.type,
+    status: redemption.status,
+    // percent_bonus vouchers get their amount once applied to a top-up
+    bonusPercent: redemption.bonusBps !== null ? redemption.bonusBps / 100 : null,
+    bonusCZK: redemption.bonusCents !== null ? formatCZK(redemption.bonusCents) : null,
+    bonusCents: redemption.bonusCents,
+    createdAt: redemption.createdAt.toISOString(),
+    settledAt: redemption.settledAt?.toISOString() ?? null
+  };
+}
+
+function sendVoucherError(res: Response, error: unknown, context: string) {
+  console.error(`${context} error:`, error);
+  if (error instanceof VoucherError) {
+    return res.status(error.status).json(createErrorResponse(error.error, error.message, error.code, error.reason && { reason: error.reason }));
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+  }
+  return res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+}
+
+function sendTopupError(res: Response, error: unknown, context: string) {
+  console.error(`${context} error:`, error);
+  if (error instanceof TopupError) {
+    return res.status(error.status).json(createErrorResponse(error.error, error.message, error.code));
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+  }
+  return res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+}
+
+function sendChargeError(res: Response, error: unknown, context: string) {
+  console.error(`${context} error:`, error);
+  if (error instanceof ChargeError) {
+    return res.status(error.status).json(createErrorResponse(error.error, error.message, error.code));
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+  }
+  res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+}
+
+// QR lookup failures come from the shared charge lookup as ChargeError
+function sendPosTopupError(res: Response, error: unknown, context: string) {
+  console.error(`${context} error:`, error);
+  if (error instanceof PosTopupError || error instanceof ChargeError) {
+    return res.status(error.status).json(createErrorResponse(error.error, error.message, error.code));
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+  }
+  res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+}
+
+function sendPrintError(res: Response, error: unknown, context: string) {
+  console.error(`${context} error:`, error);
+  if (error instanceof PrintError) {
+    return res.status(error.status).json(createErrorResponse(error.error, error.message, error.code));
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+  }
+  res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+}
+
+function serializePosTopup(topup: PosTopup) {
+  return {
+    topupId: topup.id,
+    status: topup.status,
+    packageCode: topup.packageCode,
+    amountCZK: formatCZK(topup.amountCents ?? 0),
+    amountCents: topup.amountCents,
+    bonusCZK: formatCZK(topup.bonusCents ?? 0),
+    bonusCents: topup.bonusCents,
+    adminId: topup.adminId,
+    adminSessionId: topup.adminSessionId,
+    confirmedAt: topup.confirmedAt?.toISOString() ?? null,
+    voidedAt: topup.voidedAt?.toISOString() ?? null
+  };
+}
+
+function serializePosShift(shift: PosShift & { adminName?: string }) {
+  return {
+    shiftId: shift.id,
+    adminId: shift.adminId,
+    adminName: shift.adminName ?? null,
+    status: shift.status,
+    openingFloatCents: shift.openingFloatCents,
+    countedCashCents: shift.countedCashCents,
+    expectedCashCents: shift.expectedCashCents,
+    varianceCents: shift.varianceCents,
+    note: shift.note,
+    openedAt: shift.openedAt.toISOString(),
+    closedAt: shift.closedAt?.toISOString() ?? null
+  };
+}
+
+function serializeChargeItem(item: PricedItem) {
+  return {
+    productId: item.productId,
+    name: item.name,
+    category: item.category,
+    quantity: item.quantity,
+    unitPriceCents: item.unitPriceCents,
+    lineTotalCents: item.lineTotalCents,
+    vatRateBps: item.vatRateBps,
+    vatCents: item.vatCents
+  };
+}
+
+// Structured receipt plus both renderings of the shared template
+function serializeReceipt(receipt: ReceiptView) {
+  const document = receiptService.document(receipt);
+  return {
+    id: receipt.id,
+    receiptNumber: receipt.receiptNumber,
+    chargeId: receipt.chargeId,
+    issuedAt: receipt.issuedAt.toISOString(),
+    staffName: receipt.staffName,
+    items: receipt.items.map(serializeChargeItem),
+    listAmountCents: receipt.listAmountCents,
+    discountCents: receipt.discountCents,
+    amountCents: receipt.amountCents,
+    vatLines: document.vatLines,
+    balanceAfterCents: receipt.balanceAfterCents,
+    voided: receipt.voided,
+    emailedAt: receipt.emailedAt?.toISOString() ?? null,
+    html: renderReceiptHtml(document),
+    text: renderReceiptText(document)
+  };
+}
+
+function sendShiftError(res: Response, error: unknown, context: string) {
+  console.error(`${context} error:`, error);
+  if (error instanceof ShiftError) {
+    return res.status(error.status).json(createErrorResponse(error.error, error.message, error.code));
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+  }
+  res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+}
+
+// Charge handlers are shared by /api/admin/charge/* and /api/pos/charge/*; both auth middlewares set req.admin
+function chargeInitHandler(channel: "admin" | "pos") {
+  return async (req: Request, res: Response) => {
+    try {
+      const { tokenOrCode } = chargeInitSchema.parse(req.body);
+      const result = await chargeService.init({ tokenOrCode, adminId: req.admin.id });
+
+      res.json({
+        chargeId: result.chargeId,
+        userId: result.userId,
+        customerName: result.customerName,
+        customerEmail: result.customerEmail,
+        balanceCZK: formatCZK(result.balanceCents),
+        balanceCents: result.balanceCents,
+        tier: result.tier,
+        rewards: result.rewards.map(reward => ({
+          ...reward,
+          valueCZK: formatCZK(reward.valueCents)
+        })),
+        expiresAt: result.expiresAt.toISOString()
+      });
+    } catch (error) {
+      sendChargeError(res, error, `Charge init (${channel})`);
+    }
+  };
+}
+
+function chargeConfirmHandler(channel: "admin" | "pos") {
+  return async (req: Request, res: Response) => {
+    try {
+      const { chargeId, amountCZK, items, rewardId, idempotencyKey } = chargeConfirmSchema.parse(req.body);
+      const result = await chargeService.confirm({
+        chargeId,
+        amountCents: amountCZK !== undefined ? Math.round(amountCZK * 100) : undefined,
+        items,
+        rewardId,
+        idempotencyKey,
+        adminId: req.admin.id,
+        channel
+      });
+
+      res.json({
+        success: true,
+        chargeId: result.chargeId,
+        transactionId: result.transactionId,
+        rewardId: result.rewardId,
+        amountCents: result.amountCents,
+        discountCents: result.discountCents,
+        items: result.items.map(serializeChargeItem),
+        receiptId: result.receiptId,
+        newBalanceCZK: formatCZK(result.newBalanceCents),
+        newBalanceCents: result.newBalanceCents,
+        stamps: result.stamps,
+        voidExpiresAt: result.voidExpiresAt.getTime(),
+        voidWindowSeconds: chargeService.voidWindowMs / 1000,
+        ...(result.idempotent && { idempotent: true })
+      });
+    } catch (error) {
+      sendChargeError(res, error, `Charge confirm (${channel})`);
+    }
+  };
+}
+
+function chargeVoidHandler(channel: "admin" | "pos") {
+  return async (req: Request, res: Response) => {
+    try {
+      const { chargeId } = chargeVoidSchema.parse(req.body);
+      const result = await chargeService.void({ chargeId, adminId: req.admin.id, channel });
+
+      res.json({
+        success: true,
+        transactionId: result.transactionId,
+        newBalanceCZK: formatCZK(result.newBalanceCents),
+        newBalanceCents: result.newBalanceCents
+      });
+    } catch (error) {
+      sendChargeError(res, error, `Charge void (${channel})`);
+    }
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   app.use(addRequestId);
+  startExpiryCleanup();
 
   // Health endpoints
   app.get("/health", (req, res) => {
@@ -197,6 +696,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json(createErrorResponse("BadRequest", passwordValidation.message!, "E_INPUT"));
       }
 
+      const referralCode = body.referralCode ? normalizeReferralCode(body.referralCode) : undefined;
+      const referrer = referralCode ? await storage.getUserByReferralCode(referralCode) : undefined;
+      if (referralCode && !referrer) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Unknown referral code", "E_INPUT"));
+      }
+
       // Create user (wallet is created automatically in createUser method)
       const passwordHash = await hashPassword(body.password);
       const user = await storage.createUser({
@@ -205,6 +710,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         passwordHash
       });
 
+      if (referrer) {
+        await referralService.recordSignup({ refereeId: user.id, referrerId: referrer.id, code: referralCode!, ip, userAgent: getUserAgent(req) });
+      }
+
       // Update last login
       await storage.updateUserLastLogin(user.id);
 
@@ -695,7 +1204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Google OAuth login/signup
   app.post("/api/auth/google", async (req, res) => {
     try {
-      const { idToken } = googleAuthSchema.parse(req.body);
+      const { idToken, referralCode: rawReferralCode } = googleAuthSchema.parse(req.body);
       const ip = getClientIP(req);
 
       // Rate limiting
@@ -712,27 +1221,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if user exists by Google ID
       let user = await storage.getUserByGoogleId(googleData.googleId);
+      let isNewUser = false;
 
       if (!user) {
         // Check if user exists by email
         user = await storage.getUserByEmail(googleData.email);
+        isNewUser = !user || !!user.passwordHash;
+      }
 
-        if (user && user.passwordHash) {
-          // User has password auth - create new account to avoid conflicts
-          user = await storage.createUserWithGoogle({
-            googleId: googleData.googleId,
-            email: `google.${googleData.email}`, // Add prefix to avoid email conflicts
-            name: googleData.name,
-            profileImageUrl: googleData.picture
-          });
-        } else if (!user) {
-          // Create new user
-          user = await storage.createUserWithGoogle({
-            googleId: googleData.googleId,
-            email: googleData.email,
-            name: googleData.name,
-            profileImageUrl: googleData.picture
-          });
+      // The referral code only counts for an account created right now
+      const referralCode = isNewUser && rawReferralCode ? normalizeReferralCode(rawReferralCode) : undefined;
+      const referrer = referralCode ? await storage.getUserByReferralCode(referralCode) : undefined;
+      if (referralCode && !referrer) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Unknown referral code", "E_INPUT"));
+      }
+
+      if (!user || isNewUser) {
+        // A user with password auth gets a separate account, with a prefixed email to avoid conflicts
+        user = await storage.createUserWithGoogle({
+          googleId: googleData.googleId,
+          email: user ? `google.${googleData.email}` : googleData.email,
+          name: googleData.name,
+          profileImageUrl: googleData.picture
+        });
+
+        if (referrer) {
+          await referralService.recordSignup({ refereeId: user.id, referrerId: referrer.id, code: referralCode!, ip, userAgent: getUserAgent(req) });
         }
       }
 
@@ -794,6 +1308,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         name: user.name,
         status: user.status,
         lastLoginAt: user.lastLoginAt,
+        emailReceipts: user.emailReceipts,
         wallet: wallet ? {
           balanceCZK: formatCZK(wallet.balanceCents),
           balanceCents: wallet.balanceCents,
@@ -807,6 +1322,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/me/preferences", authenticateWithKeystore, async (req, res) => {
+    try {
+      const { emailReceipts } = preferencesSchema.parse(req.body);
+      const user = await storage.updateUser(req.user.id, { emailReceipts });
+      res.json({ emailReceipts: user.emailReceipts });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+      }
+      console.error("Update preferences error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
   // Wallet routes
   app.get("/api/me/wallet", authenticateWithKeystore, async (req, res) => {
     try {
@@ -818,6 +1347,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         balanceCZK: formatCZK(wallet.balanceCents),
         balanceCents: wallet.balanceCents,
+        paidBalanceCZK: formatCZK(paidBalance(wallet)),
+        paidBalanceCents: paidBalance(wallet),
+        bonusBalanceCZK: formatCZK(wallet.bonusBalanceCents),
+        bonusBalanceCents: wallet.bonusBalanceCents,
         bonusGrantedTotalCZK: formatCZK(wallet.bonusGrantedTotalCents),
         bonusGrantedTotalCents: wallet.bonusGrantedTotalCents,
         lastActivity: wallet.lastActivityAt
@@ -830,6 +1363,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
+  // Customer's tier, its benefits and how far the next one is
+  app.get("/api/me/tier", authenticateWithKeystore, async (req, res) => {
+    try {
+      const user = req.user!;
+      const tier = tierDefinition(user.tier);
+      const next = nextTier(user.tierSpendCents);
+
+      res.json({
+        tier: tier.tier,
+        name: tier.name,
+        topupBonusBps: tier.topupBonusBps,
+        chargeDiscountBps: tier.chargeDiscountBps,
+        spendCZK: formatCZK(user.tierSpendCents),
+        spendCents: user.tierSpendCents,
+        windowDays: TIER_WINDOW_DAYS,
+        next: next && {
+          tier: next.definition.tier,
+          name: next.definition.name,
+          minSpendCents: next.definition.minSpendCents,
+          remainingCZK: formatCZK(next.remainingCents),
+          remainingCents: next.remainingCents
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching tier:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // Customer's own referral code, the current bonuses and whom they referred
+  app.get("/api/me/referrals", authenticateWithKeystore, async (req, res) => {
+    try {
+      const settings = await storage.getReferralSettings();
+      const referrals = await storage.getReferralsByReferrer(req.user!.id);
+
+      res.json({
+        code: req.user!.referralCode,
+        isActive: settings.isActive,
+        referrerBonusCZK: formatCZK(settings.referrerBonusCents),
+        referrerBonusCents: settings.referrerBonusCents,
+        refereeBonusCZK: formatCZK(settings.refereeBonusCents),
+        refereeBonusCents: settings.refereeBonusCents,
+        referrals: referrals.map(referral => ({
+          id: referral.id,
+          refereeName: referral.refereeName,
+          status: referral.status,
+          // Set once the referral is rewarded
+          bonusCZK: referral.referrerBonusCents !== null ? formatCZK(referral.referrerBonusCents) : null,
+          bonusCents: referral.referrerBonusCents,
+          createdAt: referral.createdAt,
+          decidedAt: referral.decidedAt
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching referrals:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // Bonus credit still to be spent, soonest expiry first
+  app.get("/api/me/bonus-expiries", authenticateWithKeystore, async (req, res) => {
+    try {
+      const lots = await storage.getOpenBonusLots(req.user!.id);
+
+      res.json({
+        warningDays: BONUS_EXPIRY_WARNING_DAYS,
+        expiries: lots.map(lot => ({
+          amountCZK: formatCZK(lot.remainingCents),
+          amountCents: lot.remainingCents,
+          expiresAt: lot.expiresAt
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching bonus expiries:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  app.get("/api/me/stamp-cards", authenticateWithKeystore, async (req, res) => {
+    try {
+      const cards = await storage.getStampCards(req.user!.id);
+
+      res.json({
+        cards: cards.map(card => ({
+          programId: card.program.id,
+          name: card.program.name,
+          description: card.program.description,
+          stamps: card.stamps,
+          stampsRequired: card.program.stampsRequired,
+          rewardName: card.program.rewardName,
+          rewards: card.rewards.map(reward => ({
+            id: reward.id,
+            valueCZK: formatCZK(reward.valueCents),
+            valueCents: reward.valueCents,
+            issuedAt: reward.issuedAt
+          }))
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching stamp cards:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
   // Transaction history route
   app.get("/api/me/history", authenticateWithKeystore, async (req, res) => {
     try {
@@ -839,8 +1476,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const transactions = await storage.getUserTransactions(userId, limit, cursor);
 
+      // What was bought, for itemised charges, and the receipt of every charge
+      const chargeIds = transactions.filter(t => t.type === "charge" && t.relatedId).map(t => t.relatedId!);
+      const items = await storage.getChargeItems(chargeIds);
+      const receipts = await storage.getReceiptsByChargeIds(chargeIds);
+
       res.json({
-        transactions,
+        transactions: transactions.map(t => t.type === "charge" && t.relatedId
+          ? {
+            ...t,
+            items: items.filter(item => item.chargeId === t.relatedId).map(serializeChargeItem),
+            receiptId: receipts.find(receipt => receipt.chargeId === t.relatedId)?.id ?? null
+          }
+          : t),
         nextCursor: transactions.length === limit ? transactions[transactions.length - 1].id : null
       });
     } catch (error) {
@@ -849,112 +1497,274 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // QR payment generation route
-  app.post("/api/me/qr", authenticateWithKeystore, async (req, res) => {
+  // Receipts belong to the customer who paid; anyone else gets a 404
+  app.get("/api/me/receipts/:id", authenticateWithKeystore, async (req, res) => {
     try {
-      const userId = req.user!.id;
-      const nonce = Math.random().toString(36).substring(2, 15);
-
-      // Generate JWT token for QR code (expires in 60 seconds)
-      const qrToken = generateQRToken(userId, nonce);
+      const receiptId = z.string().uuid().parse(req.params.id);
+      const receipt = await storage.getReceipt(receiptId);
+      if (!receipt || receipt.userId !== req.user.id) {
+        return res.status(404).json(createErrorResponse("NotFound", "Receipt not found", "E_NOT_FOUND"));
+      }
 
-      // Generate short code as backup
-      const shortCode = generateShortCode();
+      res.json(serializeReceipt(receipt));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(404).json(createErrorResponse("NotFound", "Receipt not found", "E_NOT_FOUND"));
+      }
+      console.error("Get receipt error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
 
+  // Packages customers can buy right now
+  app.get("/api/topup-packages", async (req, res) => {
+    try {
+      const now = new Date();
+      const packages = await storage.getTopupPackages();
       res.json({
-        qrPayload: qrToken,
-        shortCode,
-        expiresIn: 60, // seconds
-        userId
+        packages: packages
+          .filter(pkg => isPackageAvailable(pkg, now))
+          .map(pkg => serializePackageOffer(pkg, now))
       });
     } catch (error) {
-      console.error("QR generation error:", error);
+      console.error("Get topup packages error:", error);
       res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
     }
   });
 
-  // Robust Top-up endpoint with atomic transactions and idempotency
+  // Top-up: opens a payment with the provider; the wallet is credited when it is captured
   app.post("/api/me/topup", authenticateWithKeystore, async (req, res) => {
     try {
       const body = topupSchema.parse(req.body);
       const userId = req.user.id;
-      const ip = getClientIP(req);
-      
+
       // Get idempotency key from header or generate one
       const idempotencyKey = req.headers['idempotency-key'] as string || randomUUID();
 
-      const packageData = TOP_UP_PACKAGES[body.packageCode];
-      if (!packageData) {
+      const pkg = await storage.getCurrentTopupPackage(body.packageCode);
+      const now = new Date();
+      if (!pkg || !isPackageAvailable(pkg, now)) {
         return res.status(400).json(createErrorResponse("BadRequest", "Neplatný packageCode", "E_INPUT"));
       }
 
-      // Check if this idempotency key was already processed
-      const existingTransaction = await storage.getTransactionByIdempotencyKey(idempotencyKey);
-      if (existingTransaction) {
-        console.log(`Idempotent topup request detected: ${idempotencyKey}`);
-        
-        // Return the existing wallet state without making changes
-        const wallet = await storage.getWalletByUserId(userId);
-        return res.json({
-          balanceCZK: formatCZK(wallet!.balanceCents),
-          balanceCents: wallet!.balanceCents,
-          bonusGrantedTotalCZK: formatCZK(wallet!.bonusGrantedTotalCents),
-          bonusGrantedTotalCents: wallet!.bonusGrantedTotalCents,
-          idempotent: true
-        });
-      }
+      // The customer's tier adds its bonus on top of the package offer
+      const quote = quotePackage(pkg, now);
+      const tierBonusCents = tierTopupBonus(quote.pay, req.user.tier);
 
-      // Execute atomic top-up transaction
-      const updatedWallet = await storage.executeAtomicTopup({
+      const { payment, idempotent } = await topupService.start({
         userId,
-        packageCode: body.packageCode,
-        packageData,
-        idempotencyKey,
-        createdBy: "user"
+        packageCode: pkg.code,
+        packageId: pkg.id,
+        packageData: { ...quote, bonus: quote.bonus + tierBonusCents, total: quote.total + tierBonusCents },
+        idempotencyKey
       });
 
-      // Audit log
-      await auditLog("user", userId, "topup", {
-        packageCode: body.packageCode,
-        amount: packageData.total,
-        bonus: packageData.bonus,
+      if (!idempotent) {
+        await auditLog("user", userId, "topup_payment_started", {
+          paymentId: payment.id,
+          packageCode: pkg.code,
+          packageId: pkg.id,
+          packageVersion: pkg.version,
+          ...(tierBonusCents > 0 && { tier: req.user.tier, tierBonusCents }),
+          provider: payment.provider,
+          idempotencyKey
+        }, getUserAgent(req), getClientIP(req));
+      }
+
+      res.status(idempotent ? 200 : 201).json({ ...serializeTopupPayment(payment), idempotent });
+    } catch (error) {
+      sendTopupError(res, error, "Topup");
+    }
+  });
+
+  app.get("/api/me/topup/:paymentId", authenticateWithKeystore, async (req, res) => {
+    try {
+      const paymentId = z.string().uuid().parse(req.params.paymentId);
+      const { payment, wallet } = await topupService.getStatus(req.user.id, paymentId);
+
+      res.json({
+        ...serializeTopupPayment(payment),
+        wallet: wallet && {
+          balanceCZK: formatCZK(wallet.balanceCents),
+          balanceCents: wallet.balanceCents,
+          bonusGrantedTotalCZK: formatCZK(wallet.bonusGrantedTotalCents),
+          bonusGrantedTotalCents: wallet.bonusGrantedTotalCents
+        }
+      });
+    } catch (error) {
+      sendTopupError(res, error, "Topup status");
+    }
+  });
+
+  // Sends paid credit to another customer, or a gift to an email that has no account yet
+  app.post("/api/me/transfer", authenticateWithKeystore, async (req, res) => {
+    try {
+      const body = transferSchema.parse(req.body);
+      const idempotencyKey = req.headers['idempotency-key'] as string || randomUUID();
+
+      const { transfer, wallet, idempotent } = await transferService.send({
+        sender: req.user,
+        recipientEmail: body.recipientEmail,
+        amountCents: Math.round(body.amountCZK * 100),
+        message: body.message || null,
         idempotencyKey
-      }, getUserAgent(req), ip);
+      });
+
+      if (!idempotent) {
+        await auditLog("user", req.user.id, transfer.status === "pending" ? "gift_sent" : "wallet_transfer_sent", {
+          transferId: transfer.id,
+          recipientId: transfer.recipientId,
+          recipientEmail: transfer.recipientEmail,
+          amountCents: transfer.amountCents,
+          idempotencyKey
+        }, getUserAgent(req), getClientIP(req));
+      }
+
+      res.status(idempotent ? 200 : 201).json({
+        ...serializeWalletTransfer(transfer, req.user.id),
+        newBalanceCZK: wallet ? formatCZK(wallet.balanceCents) : null,
+        newBalanceCents: wallet?.balanceCents ?? null,
+        idempotent
+      });
+    } catch (error) {
+      sendTransferError(res, error, "Wallet transfer");
+    }
+  });
+
+  app.get("/api/me/transfers", authenticateWithKeystore, async (req, res) => {
+    try {
+      const transfers = await storage.getWalletTransfers(req.user.id, 50);
+      res.json({ transfers: transfers.map(transfer => serializeWalletTransfer(transfer, req.user.id)) });
+    } catch (error) {
+      sendTransferError(res, error, "Wallet transfers");
+    }
+  });
+
+  // Takes back a gift nobody has claimed yet
+  app.post("/api/me/transfers/:id/cancel", authenticateWithKeystore, async (req, res) => {
+    try {
+      const transferId = z.string().uuid().parse(req.params.id);
+      const { transfer, transaction } = await transferService.cancelGift(req.user.id, transferId);
+
+      await auditLog("user", req.user.id, "gift_cancelled", {
+        transferId,
+        amountCents: transfer.amountCents,
+        transactionId: transaction.id
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json(serializeWalletTransfer(transfer, req.user.id));
+    } catch (error) {
+      sendTransferError(res, error, "Gift cancel");
+    }
+  });
+
+  // Gift claim link from the email; the gift must be addressed to the signed-in account's email
+  app.post("/api/me/gifts/claim", authenticateWithKeystore, async (req, res) => {
+    try {
+      const { token } = giftClaimSchema.parse(req.body);
+      const { transfer, transaction } = await transferService.claimGift(req.user, token);
 
-      console.log(`Topup successful for user ${userId}: ${body.packageCode}, amount: ${packageData.total}, bonus: ${packageData.bonus}`);
+      await auditLog("user", req.user.id, "gift_claimed", {
+        transferId: transfer.id,
+        senderId: transfer.senderId,
+        amountCents: transfer.amountCents,
+        transactionId: transaction.id
+      }, getUserAgent(req), getClientIP(req));
 
+      const [sender, wallet] = await Promise.all([storage.getUser(transfer.senderId), storage.getWalletByUserId(req.user.id)]);
       res.json({
-        balanceCZK: formatCZK(updatedWallet.balanceCents),
-        balanceCents: updatedWallet.balanceCents,
-        bonusGrantedTotalCZK: formatCZK(updatedWallet.bonusGrantedTotalCents),
-        bonusGrantedTotalCents: updatedWallet.bonusGrantedTotalCents
+        ...serializeWalletTransfer({ ...transfer, senderName: sender?.name }, req.user.id),
+        newBalanceCZK: formatCZK(wallet?.balanceCents ?? 0),
+        newBalanceCents: wallet?.balanceCents ?? 0
       });
     } catch (error) {
-      console.error("Topup error:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+      sendTransferError(res, error, "Gift claim");
+    }
+  });
+
+  app.post("/api/me/vouchers/redeem", authenticateWithKeystore, async (req, res) => {
+    try {
+      const { code } = voucherRedeemSchema.parse(req.body);
+      const { redemption, transaction, wallet } = await voucherService.redeem({ userId: req.user.id, code });
+
+      await auditLog("user", req.user.id, "voucher_redeemed", {
+        redemptionId: redemption.id,
+        voucherId: redemption.voucherId,
+        batchId: redemption.batchId,
+        code: redemption.code,
+        type: redemption.type,
+        bonusCents: redemption.bonusCents,
+        transactionId: transaction?.id ?? null
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json({
+        ...serializeVoucherRedemption(redemption),
+        newBalanceCZK: formatCZK(wallet.balanceCents),
+        newBalanceCents: wallet.balanceCents
+      });
+    } catch (error) {
+      sendVoucherError(res, error, "Voucher redeem");
+    }
+  });
+
+  app.get("/api/me/vouchers", authenticateWithKeystore, async (req, res) => {
+    try {
+      const redemptions = await storage.getVoucherRedemptionsByUser(req.user.id, 20);
+      res.json({ redemptions: redemptions.map(serializeVoucherRedemption) });
+    } catch (error) {
+      sendVoucherError(res, error, "Get vouchers");
+    }
+  });
+
+  // Checkout page of the offline fake provider - the customer picks the outcome
+  if (FAKE_PAYMENTS_ENABLED) {
+    app.post("/api/me/topup/:paymentId/fake-checkout", authenticateWithKeystore, async (req, res) => {
+      try {
+        const paymentId = z.string().uuid().parse(req.params.paymentId);
+        const { outcome } = fakeCheckoutSchema.parse(req.body);
+        const payment = await topupService.completeFakeCheckout(req.user.id, paymentId, outcome);
+        res.json(serializeTopupPayment(payment));
+      } catch (error) {
+        sendTopupError(res, error, "Fake checkout");
       }
-      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    });
+  }
+
+  // Provider callbacks; authenticity comes from the provider's signature over the raw body
+  app.post("/api/payments/webhook/:provider", async (req, res) => {
+    try {
+      if (!req.rawBody) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Missing body", "E_INPUT"));
+      }
+      const payment = await topupService.handleWebhook(req.params.provider, req.rawBody, req.headers);
+      res.json({ received: true, status: payment.status });
+    } catch (error) {
+      sendTopupError(res, error, "Payment webhook");
     }
   });
 
+  // QR payment generation route
   app.post("/api/me/qr", authenticateWithKeystore, async (req, res) => {
     try {
       const userId = req.user.id;
       const nonce = randomUUID();
       const shortCode = generateShortCode();
-      const expiresAt = Date.now() + 60000; // 60 seconds
+      const expiresAt = new Date(Date.now() + QR_TOKEN_TTL);
 
       const qrPayload = generateQRToken(userId, nonce);
 
-      // Store QR code data
-      qrCodes.set(shortCode, { userId, expiresAt, used: false });
-      qrCodes.set(qrPayload, { userId, expiresAt, used: false });
+      // Persist QR token - single use is enforced on redemption
+      await storage.createQrToken({
+        userId,
+        payloadHash: hashQRPayload(qrPayload),
+        shortCode,
+        expiresAt
+      });
 
       res.json({
         qrPayload,
         shortCode,
-        expiresAt: new Date(expiresAt).toISOString()
+        expiresAt: expiresAt.toISOString()
       });
     } catch (error) {
       console.error("QR generation error:", error);
@@ -1255,71 +2065,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/charge/init", authenticateAdminWithKeystore, async (req, res) => {
-    try {
-      const body = chargeInitSchema.parse(req.body);
-      const { tokenOrCode } = body;
+  // Charge flow (shared with POS, see ChargeService)
+  app.post("/api/admin/charge/init", authenticateAdminWithKeystore, chargeInitHandler("admin"));
+  app.post("/api/admin/charge/confirm", authenticateAdminWithKeystore, chargeConfirmHandler("admin"));
+  app.post("/api/admin/charge/void", authenticateAdminWithKeystore, chargeVoidHandler("admin"));
 
-      let userId: string;
-      let qrData = qrCodes.get(tokenOrCode);
+  app.get("/api/admin/customers", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const { query, cursor } = req.query;
+      const limit = 50;
+      const offset = cursor ? parseInt(cursor as string) : 0;
 
-      if (qrData) {
-        // QR code or short code
-        if (Date.now() > qrData.expiresAt) {
-          return res.status(410).json(createErrorResponse("GoneTokenExpired", "QR code has expired", "E_EXPIRED_TOKEN"));
-        }
-        if (qrData.used) {
-          return res.status(409).json(createErrorResponse("ConflictTokenUsed", "QR code already used", "E_IDEMPOTENCY_CONFLICT"));
-        }
-        userId = qrData.userId;
-      } else {
-        // Try to verify as JWT token
-        const payload = verifyQRToken(tokenOrCode);
-        if (!payload) {
-          return res.status(404).json(createErrorResponse("NotFound", "Invalid or expired token", "E_NOT_FOUND"));
-        }
-        userId = payload.sub;
+      const result = await storage.getCustomersList(query as string, limit, offset);
 
-        // Check if token was already used
-        qrData = qrCodes.get(tokenOrCode);
-        if (qrData?.used) {
-          return res.status(409).json(createErrorResponse("ConflictTokenUsed", "QR code already used", "E_IDEMPOTENCY_CONFLICT"));
-        }
-      }
+      res.json({
+        customers: result.users.map(user => ({
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          balanceCZK: formatCZK(user.wallet.balanceCents),
+          balanceCents: user.wallet.balanceCents,
+          paidBalanceCents: paidBalance(user.wallet),
+          bonusBalanceCents: user.wallet.bonusBalanceCents,
+          bonusGrantedTotalCZK: formatCZK(user.wallet.bonusGrantedTotalCents),
+          bonusGrantedTotalCents: user.wallet.bonusGrantedTotalCents,
+          tier: user.tier,
+          tierSpendCents: user.tierSpendCents,
+          lastActivity: user.wallet.lastActivityAt
+        })),
+        total: result.total,
+        nextCursor: result.users.length === limit ? offset + limit : null
+      });
+    } catch (error) {
+      console.error("Get customers error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // Admin dashboard stats
+  app.get("/api/admin/dashboard", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const stats = await storage.getDashboardStats();
+      
+      res.json({
+        totalCustomers: stats.membersCount || 0,
+        totalBalance: Math.floor((stats.todayTotalCents || 0) / 100), // Use available data
+        totalTransactions: stats.todayCount || 0,
+        monthlyStats: {
+          newCustomers: stats.newMembersMonthCount,
+          totalSpent: Math.floor((stats.todayTotalCents || 0) / 100),  
+          transactions: stats.todayCount || 0
+        }
+      });
+    } catch (error) {
+      console.error("Dashboard error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      // Mark as used
-      qrCodes.set(tokenOrCode, { ...qrData!, used: true });
+  app.get("/api/admin/summary", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const stats = await storage.getSummaryStats();
 
-      // Get user and wallet info
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json(createErrorResponse("NotFound", "User not found", "E_NOT_FOUND"));
-      }
+      res.json({
+        membersCount: stats.membersCount,
+        liabilityCZK: formatCZK(stats.liabilityCents),
+        liabilityCents: stats.liabilityCents,
+        paidLiabilityCZK: formatCZK(stats.paidLiabilityCents),
+        paidLiabilityCents: stats.paidLiabilityCents,
+        bonusLiabilityCZK: formatCZK(stats.bonusLiabilityCents),
+        bonusLiabilityCents: stats.bonusLiabilityCents,
+        bonusGrantedTotalCZK: formatCZK(stats.bonusGrantedTotalCents),
+        bonusGrantedTotalCents: stats.bonusGrantedTotalCents,
+        spendTodayCZK: formatCZK(stats.spendTodayCents),
+        spendTodayCents: stats.spendTodayCents,
+        spendWeekCZK: formatCZK(stats.spendWeekCents),
+        spendWeekCents: stats.spendWeekCents
+      });
+    } catch (error) {
+      console.error("Get summary error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
 
-      const wallet = await storage.getWalletByUserId(userId);
-      if (!wallet) {
-        return res.status(404).json(createErrorResponse("NotFound", "Wallet not found", "E_NOT_FOUND"));
+  // Daily KPI time series from metrics_daily (rolled up nightly by the metrics-daily job)
+  app.get("/api/admin/metrics/daily", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const query = metricsDailyQuerySchema.parse(req.query);
+      const dayMs = 24 * 60 * 60 * 1000;
+
+      // Defaults to the last 30 complete days
+      const to = query.to ?? new Date(Date.now() - dayMs).toISOString().split("T")[0];
+      const from = query.from ?? new Date(new Date(`${to}T00:00:00.000Z`).getTime() - 29 * dayMs).toISOString().split("T")[0];
+
+      const rangeDays = (new Date(`${to}T00:00:00.000Z`).getTime() - new Date(`${from}T00:00:00.000Z`).getTime()) / dayMs + 1;
+      if (Number.isNaN(rangeDays) || rangeDays < 1 || rangeDays > METRICS_MAX_RANGE_DAYS) {
+        return res.status(400).json(createErrorResponse("BadRequest", `from must not be after to and the range is limited to ${METRICS_MAX_RANGE_DAYS} days`, "E_INPUT"));
       }
 
-      const chargeId = randomUUID();
-      
-      // Store charge initialization for later confirmation
-      pendingCharges.set(chargeId, {
-        userId,
-        amountCents: 0, // Will be set during confirmation
-        createdAt: Date.now(),
-        adminId: req.admin.id
+      const days = await storage.getMetricsDaily(from, to);
+
+      res.json({
+        from,
+        to,
+        days: days.map(day => ({
+          date: day.date,
+          membersCount: day.membersCount,
+          liabilityCents: day.liabilityCents,
+          bonusGrantedCents: day.bonusGrantedCents,
+          spendCents: day.spendCents
+        }))
       });
-      
+    } catch (error) {
+      console.error("Get daily metrics error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+      }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // Scheduled jobs: schedule, next slot and last run of each job, plus recent runs
+  app.get("/api/admin/jobs", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const query = jobRunsQuerySchema.parse(req.query);
+
+      const [latestRuns, runs, failures] = await Promise.all([
+        storage.getLatestJobRuns(),
+        storage.getJobRuns({ jobName: query.job, status: query.status, limit: query.limit }),
+        storage.getJobRuns({ jobName: query.job, status: "failed", limit: query.limit })
+      ]);
+      const lastRunByJob = new Map(latestRuns.map(run => [run.jobName, run]));
+
       res.json({
-        userId: user.id,
-        customerName: user.name,
-        balanceCZK: formatCZK(wallet.balanceCents),
-        balanceCents: wallet.balanceCents,
-        chargeId
+        instanceId: scheduler.instanceId,
+        jobs: scheduler.list().map(job => ({
+          ...job,
+          lastRun: lastRunByJob.get(job.name) ?? null
+        })),
+        runs,
+        failures
       });
     } catch (error) {
-      console.error("Charge init error:", error);
+      console.error("Get jobs error:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
       }
@@ -1327,97 +2215,428 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/charge/confirm", authenticateAdminWithKeystore, async (req, res) => {
+  // Configuration that affects money or customer data - managers only
+  const requireManager = (req: Request, res: Response): boolean => {
+    if (req.admin.role !== "manager") {
+      res.status(403).json(createErrorResponse("Forbidden", "Manager role required", "E_FORBIDDEN"));
+      return false;
+    }
+    return true;
+  };
+
+  // ===== WEBHOOK ROUTES =====
+
+  app.get("/api/admin/webhooks", authenticateAdminWithKeystore, async (req, res) => {
     try {
-      const body = chargeConfirmSchema.parse(req.body);
-      const { chargeId, amountCZK, idempotencyKey } = body;
-      const amountCents = amountCZK * 100;
+      if (!requireManager(req, res)) return;
 
-      // Check idempotency
-      const isIdempotent = await storage.checkIdempotency(idempotencyKey, JSON.stringify(body));
-      if (isIdempotent) {
-        return res.status(409).json(createErrorResponse("IdempotencyConflict", "Request already processed", "E_IDEMPOTENCY_CONFLICT"));
+      const endpoints = await storage.getWebhookEndpoints();
+      res.json({ events: WEBHOOK_EVENTS, endpoints });
+    } catch (error) {
+      console.error("Get webhooks error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  app.post("/api/admin/webhooks", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const body = webhookEndpointSchema.parse(req.body);
+
+      const endpoint = await storage.createWebhookEndpoint({
+        url: body.url,
+        description: body.description ?? null,
+        events: body.events,
+        isActive: body.isActive ?? true,
+        createdBy: req.admin.id
+      });
+
+      await auditLog("admin", req.admin.id, "webhook_endpoint_created", {
+        endpointId: endpoint.id,
+        url: endpoint.url,
+        events: endpoint.events
+      }, getUserAgent(req), getClientIP(req));
+
+      res.status(201).json(endpoint);
+    } catch (error) {
+      console.error("Create webhook error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
       }
-      await storage.setIdempotency(idempotencyKey, JSON.stringify(body));
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
 
-      // Get the pending charge that was initialized
-      const pendingCharge = pendingCharges.get(chargeId);
-      if (!pendingCharge) {
-        return res.status(404).json(createErrorResponse("NotFound", "Charge session not found", "E_NOT_FOUND"));
+  app.patch("/api/admin/webhooks/:id", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const changes = webhookEndpointSchema.partial().parse(req.body);
+
+      const endpoint = await storage.updateWebhookEndpoint(req.params.id, changes);
+      if (!endpoint) {
+        return res.status(404).json(createErrorResponse("NotFound", "Webhook endpoint not found", "E_NOT_FOUND"));
       }
 
-      // Update the pending charge with the amount
-      const userId = pendingCharge.userId;
-      pendingCharge.amountCents = amountCents;
+      await auditLog("admin", req.admin.id, "webhook_endpoint_updated", {
+        endpointId: endpoint.id,
+        changes
+      }, getUserAgent(req), getClientIP(req));
 
-      const wallet = await storage.getWalletByUserId(userId);
-      if (!wallet) {
-        return res.status(404).json(createErrorResponse("NotFound", "Wallet not found", "E_NOT_FOUND"));
+      res.json(endpoint);
+    } catch (error) {
+      console.error("Update webhook error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
       }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
 
-      // Check sufficient funds
-      if (wallet.balanceCents < amountCents) {
-        return res.status(422).json(createErrorResponse("InsufficientFunds", "Insufficient balance", "E_INSUFFICIENT_FUNDS"));
+  app.delete("/api/admin/webhooks/:id", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+
+      const deleted = await storage.deleteWebhookEndpoint(req.params.id);
+      if (!deleted) {
+        return res.status(404).json(createErrorResponse("NotFound", "Webhook endpoint not found", "E_NOT_FOUND"));
       }
 
-      // Create charge transaction (legacy system)
-      const transaction = await storage.createTransaction({
-        userId,
-        type: "charge",
-        amountCents: -amountCents, // Debit
-        relatedId: chargeId,
-        idempotencyKey,
-        createdBy: "admin",
-        meta: {
-          adminId: req.admin.id,
-          chargeId
-        }
-      });
+      await auditLog("admin", req.admin.id, "webhook_endpoint_deleted", {
+        endpointId: req.params.id
+      }, getUserAgent(req), getClientIP(req));
 
-      // Update wallet balance (legacy system)
-      const newBalance = wallet.balanceCents - amountCents;
-      await storage.updateWalletBalance(userId, newBalance);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Delete webhook error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
 
-      // LEDGER INTEGRATION: If enabled, also record in ledger system
-      let ledgerTxId: string | null = null;
-      if (LEDGER_POS_INTEGRATION) {
-        try {
-          const ledgerResult = await ledgerService.charge({
-            userId,
-            amountMinor: amountCents, // Convert cents to minor currency units
-            note: `POS charge ${chargeId}`
-          });
-          ledgerTxId = ledgerResult.txId;
-          console.log(`[LEDGER] POS charge recorded: ${ledgerTxId} for user ${userId}, amount ${amountCents}`);
-        } catch (ledgerError) {
-          console.warn(`[LEDGER] Failed to record POS charge in ledger: ${ledgerError}`);
-          // Continue with legacy system - don't fail the entire transaction
-        }
+  // Secret receivers use to verify signatures, looked up by the kid header
+  app.get("/api/admin/webhooks/signing-key", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+
+      const key = await keyManager.getActiveKey("webhook_hmac");
+      await auditLog("admin", req.admin.id, "webhook_signing_key_viewed", {
+        kid: key.kid
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json({ kid: key.kid, secret: key.privateMaterial, createdAt: key.createdAt });
+    } catch (error) {
+      console.error("Get webhook signing key error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  app.get("/api/admin/webhooks/deliveries", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const query = webhookDeliveriesQuerySchema.parse(req.query);
+
+      const deliveries = await storage.getWebhookDeliveries(query);
+      res.json({ deliveries });
+    } catch (error) {
+      console.error("Get webhook deliveries error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
       }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
 
-      // Store charge for void window (include ledger transaction ID if available)
-      pendingCharges.set(chargeId, {
-        userId,
-        amountCents,
-        createdAt: Date.now(),
-        adminId: req.admin.id,
-        ledgerTxId: ledgerTxId || undefined // Store ledger transaction ID for void support
+  app.post("/api/admin/webhooks/deliveries/:id/replay", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+
+      const delivery = await webhookService.replay(req.params.id);
+      if (!delivery) {
+        return res.status(404).json(createErrorResponse("NotFound", "Webhook delivery not found", "E_NOT_FOUND"));
+      }
+
+      await auditLog("admin", req.admin.id, "webhook_delivery_replayed", {
+        deliveryId: req.params.id,
+        replayId: delivery.id,
+        status: delivery.status
+      }, getUserAgent(req), getClientIP(req));
+
+      res.status(201).json(delivery);
+    } catch (error) {
+      console.error("Replay webhook delivery error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // ===== TOP-UP PACKAGE ROUTES =====
+
+  // Current version of every package, archived and out-of-window ones included
+  app.get("/api/admin/topup-packages", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const now = new Date();
+      const packages = await storage.getTopupPackages();
+      res.json({
+        packages: packages.map(pkg => ({
+          ...pkg,
+          available: isPackageAvailable(pkg, now),
+          offer: serializePackageOffer(pkg, now)
+        }))
       });
+    } catch (error) {
+      console.error("Get admin topup packages error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  app.post("/api/admin/topup-packages", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const body = topupPackageSchema.parse(req.body);
+
+      const terms = {
+        validFrom: body.validFrom ?? null,
+        validTo: body.validTo ?? null,
+        promoLabel: body.promoLabel ?? null,
+        promoBonusBps: body.promoBonusBps ?? null,
+        promoStartsAt: body.promoStartsAt ?? null,
+        promoEndsAt: body.promoEndsAt ?? null
+      };
+      const termsError = packageTermsError(terms);
+      if (termsError) {
+        return res.status(400).json(createErrorResponse("BadRequest", termsError, "E_INPUT"));
+      }
+
+      const pkg = await storage.createTopupPackage({ ...body, ...terms, createdBy: req.admin.id });
+      if (!pkg) {
+        return res.status(409).json(createErrorResponse("Conflict", "Package code already exists", "E_CONFLICT"));
+      }
+
+      await auditLog("admin", req.admin.id, "topup_package_created", {
+        packageId: pkg.id,
+        code: pkg.code,
+        payCents: pkg.payCents,
+        bonusCents: pkg.bonusCents
+      }, getUserAgent(req), getClientIP(req));
+
+      res.status(201).json(pkg);
+    } catch (error) {
+      console.error("Create topup package error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+      }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // Every change creates a new package version; payments keep pointing at the one they were sold on
+  app.patch("/api/admin/topup-packages/:code", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const changes = topupPackageSchema.omit({ code: true }).partial().parse(req.body);
+
+      const current = await storage.getCurrentTopupPackage(req.params.code);
+      if (!current) {
+        return res.status(404).json(createErrorResponse("NotFound", "Package not found", "E_NOT_FOUND"));
+      }
+      const termsError = packageTermsError({ ...current, ...changes });
+      if (termsError) {
+        return res.status(400).json(createErrorResponse("BadRequest", termsError, "E_INPUT"));
+      }
+
+      const pkg = await storage.reviseTopupPackage(req.params.code, { ...changes, createdBy: req.admin.id });
+      if (!pkg) {
+        return res.status(404).json(createErrorResponse("NotFound", "Package not found", "E_NOT_FOUND"));
+      }
+
+      await auditLog("admin", req.admin.id, "topup_package_updated", {
+        packageId: pkg.id,
+        code: pkg.code,
+        version: pkg.version,
+        changes
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json(pkg);
+    } catch (error) {
+      console.error("Update topup package error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+      }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // Archives the package; past payments still reference its versions
+  app.delete("/api/admin/topup-packages/:code", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+
+      const pkg = await storage.reviseTopupPackage(req.params.code, { isActive: false, createdBy: req.admin.id });
+      if (!pkg) {
+        return res.status(404).json(createErrorResponse("NotFound", "Package not found", "E_NOT_FOUND"));
+      }
+
+      await auditLog("admin", req.admin.id, "topup_package_archived", {
+        packageId: pkg.id,
+        code: pkg.code,
+        version: pkg.version
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json(pkg);
+    } catch (error) {
+      console.error("Archive topup package error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // ===== PRODUCT CATALOGUE ROUTES =====
+
+  app.get("/api/admin/products", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const products = await storage.getProducts();
+      res.json({ products });
+    } catch (error) {
+      console.error("Get products error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  app.post("/api/admin/products", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const body = productSchema.parse(req.body);
+
+      const product = await storage.createProduct({ ...body, createdBy: req.admin.id });
+
+      await auditLog("admin", req.admin.id, "product_created", {
+        productId: product.id,
+        name: product.name,
+        priceCents: product.priceCents,
+        vatRateBps: product.vatRateBps
+      }, getUserAgent(req), getClientIP(req));
+
+      res.status(201).json(product);
+    } catch (error) {
+      console.error("Create product error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+      }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // Price changes only affect future charges; items already sold keep their price
+  app.patch("/api/admin/products/:id", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const changes = productSchema.partial().parse(req.body);
+
+      const product = await storage.updateProduct(req.params.id, changes);
+      if (!product) {
+        return res.status(404).json(createErrorResponse("NotFound", "Product not found", "E_NOT_FOUND"));
+      }
+
+      await auditLog("admin", req.admin.id, "product_updated", {
+        productId: product.id,
+        changes
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json(product);
+    } catch (error) {
+      console.error("Update product error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+      }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  app.delete("/api/admin/products/:id", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+
+      const current = await storage.getProduct(req.params.id);
+      if (!current) {
+        return res.status(404).json(createErrorResponse("NotFound", "Product not found", "E_NOT_FOUND"));
+      }
+
+      const product = await storage.deleteProduct(current.id);
+      if (!product) {
+        return res.status(409).json(createErrorResponse("Conflict", "Product has been sold; deactivate it instead", "E_PRODUCT_SOLD"));
+      }
+
+      await auditLog("admin", req.admin.id, "product_deleted", {
+        productId: product.id,
+        name: product.name
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json(product);
+    } catch (error) {
+      console.error("Delete product error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // Units and revenue per product over whole days (UTC), voided charges excluded
+  app.get("/api/admin/products/sales", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const query = productSalesQuerySchema.parse(req.query);
+      const dayMs = 24 * 60 * 60 * 1000;
+
+      // Defaults to the last 30 days including today
+      const to = query.to ?? new Date().toISOString().split("T")[0];
+      const from = query.from ?? new Date(new Date(`${to}T00:00:00.000Z`).getTime() - 29 * dayMs).toISOString().split("T")[0];
+
+      const fromDate = new Date(`${from}T00:00:00.000Z`);
+      const toDate = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + dayMs);
+      const rangeDays = (toDate.getTime() - fromDate.getTime()) / dayMs;
+      if (Number.isNaN(rangeDays) || rangeDays < 1 || rangeDays > METRICS_MAX_RANGE_DAYS) {
+        return res.status(400).json(createErrorResponse("BadRequest", `from must not be after to and the range is limited to ${METRICS_MAX_RANGE_DAYS} days`, "E_INPUT"));
+      }
+
+      const products = await storage.getProductSales({ from: fromDate, to: toDate });
+      res.json({ from, to, products });
+    } catch (error) {
+      console.error("Get product sales error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
+      }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  // ===== STAMP PROGRAMME ROUTES =====
+
+  app.get("/api/admin/stamp-programs", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const programs = await storage.getStampPrograms();
+      res.json({ programs });
+    } catch (error) {
+      console.error("Get stamp programs error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  app.post("/api/admin/stamp-programs", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const body = stampProgramSchema.parse(req.body);
+
+      const termsError = stampProgramTermsError(body);
+      if (termsError) {
+        return res.status(400).json(createErrorResponse("BadRequest", termsError, "E_INPUT"));
+      }
 
-      // Audit log
-      await auditLog("admin", req.admin.id, "charge_confirmed", {
-        userId,
-        amountCents,
-        chargeId,
-        transactionId: transaction.id
-      });
+      const program = await storage.createStampProgram({ ...body, createdBy: req.admin.id });
 
-      res.json({
-        newBalanceCZK: formatCZK(newBalance),
-        newBalanceCents: newBalance
-      });
+      await auditLog("admin", req.admin.id, "stamp_program_created", {
+        programId: program.id,
+        name: program.name,
+        rule: program.rule,
+        stampsRequired: program.stampsRequired
+      }, getUserAgent(req), getClientIP(req));
+
+      res.status(201).json(program);
     } catch (error) {
-      console.error("Charge confirm error:", error);
+      console.error("Create stamp program error:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
       }
@@ -1425,69 +2644,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/charge/void", authenticateAdminWithKeystore, async (req, res) => {
+  // Rule changes only affect future charges; stamps and rewards already earned stay
+  app.patch("/api/admin/stamp-programs/:id", authenticateAdminWithKeystore, async (req, res) => {
     try {
-      const body = chargeVoidSchema.parse(req.body);
-      const { chargeId } = body;
+      if (!requireManager(req, res)) return;
+      const changes = stampProgramSchema.partial().parse(req.body);
 
-      const pendingCharge = pendingCharges.get(chargeId);
-      if (!pendingCharge) {
-        return res.status(404).json(createErrorResponse("NotFound", "Charge not found", "E_NOT_FOUND"));
+      const current = await storage.getStampProgram(req.params.id);
+      if (!current) {
+        return res.status(404).json(createErrorResponse("NotFound", "Stamp program not found", "E_NOT_FOUND"));
+      }
+      const termsError = stampProgramTermsError({ ...current, ...changes });
+      if (termsError) {
+        return res.status(400).json(createErrorResponse("BadRequest", termsError, "E_INPUT"));
       }
 
-      // Check void window (120 seconds)
-      if (Date.now() - pendingCharge.createdAt > 120000) {
-        return res.status(422).json(createErrorResponse("VoidWindowExpired", "Void window has expired", "E_VOID_EXPIRED"));
+      const program = await storage.updateStampProgram(req.params.id, changes);
+      if (!program) {
+        return res.status(404).json(createErrorResponse("NotFound", "Stamp program not found", "E_NOT_FOUND"));
       }
 
-      // Create void transaction (legacy system)
-      const transaction = await storage.createTransaction({
-        userId: pendingCharge.userId,
-        type: "void",
-        amountCents: pendingCharge.amountCents, // Credit back
-        relatedId: chargeId,
-        idempotencyKey: randomUUID(),
-        createdBy: "admin",
-        meta: {
-          adminId: req.admin.id,
-          originalChargeId: chargeId
-        }
-      });
+      await auditLog("admin", req.admin.id, "stamp_program_updated", {
+        programId: program.id,
+        changes
+      }, getUserAgent(req), getClientIP(req));
 
-      // Restore wallet balance (legacy system)
-      const wallet = await storage.getWalletByUserId(pendingCharge.userId);
-      if (wallet) {
-        const newBalance = wallet.balanceCents + pendingCharge.amountCents;
-        await storage.updateWalletBalance(pendingCharge.userId, newBalance);
+      res.json(program);
+    } catch (error) {
+      console.error("Update stamp program error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
       }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
 
-      // LEDGER INTEGRATION: If enabled and we have a ledger transaction, also reverse in ledger
-      if (LEDGER_POS_INTEGRATION && pendingCharge.ledgerTxId) {
-        try {
-          const reversalResult = await ledgerService.reversal({
-            txId: pendingCharge.ledgerTxId
-          });
-          console.log(`[LEDGER] POS void recorded: ${reversalResult.txId} for original tx ${pendingCharge.ledgerTxId}`);
-        } catch (ledgerError) {
-          console.warn(`[LEDGER] Failed to reverse transaction in ledger: ${ledgerError}`);
-          // Continue with legacy system - don't fail the void operation
-        }
+  // ===== REFERRAL ROUTES =====
+
+  app.get("/api/admin/referrals", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const { status, limit } = referralReportSchema.parse(req.query);
+
+      const [referrals, topReferrers] = await Promise.all([
+        storage.getReferralReport({ status, limit }),
+        storage.getReferrerStats(20)
+      ]);
+
+      res.json({ referrals, topReferrers });
+    } catch (error) {
+      console.error("Get referrals error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
       }
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
+
+  app.get("/api/admin/referrals/settings", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      res.json(await storage.getReferralSettings());
+    } catch (error) {
+      console.error("Get referral settings error:", error);
+      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+    }
+  });
 
-      // Remove from pending charges
-      pendingCharges.delete(chargeId);
+  // New bonus amounts apply to referrals rewarded from now on, including pending ones
+  app.put("/api/admin/referrals/settings", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const changes = referralSettingsSchema.parse(req.body);
 
-      // Audit log
-      await auditLog("admin", req.admin.id, "charge_voided", {
-        userId: pendingCharge.userId,
-        amountCents: pendingCharge.amountCents,
-        chargeId,
-        transactionId: transaction.id
-      });
+      const settings = await storage.updateReferralSettings({ ...changes, updatedBy: req.admin.id });
 
-      res.json({ success: true });
+      await auditLog("admin", req.admin.id, "referral_settings_updated", { changes }, getUserAgent(req), getClientIP(req));
+
+      res.json(settings);
     } catch (error) {
-      console.error("Charge void error:", error);
+      console.error("Update referral settings error:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
       }
@@ -1495,80 +2729,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/customers", authenticateAdminWithKeystore, async (req, res) => {
+  // Manual anti-abuse decision; only pending referrals, rewarded ones keep their bonus
+  app.post("/api/admin/referrals/:id/reject", authenticateAdminWithKeystore, async (req, res) => {
     try {
-      const { query, cursor } = req.query;
-      const limit = 50;
-      const offset = cursor ? parseInt(cursor as string) : 0;
+      if (!requireManager(req, res)) return;
 
-      const result = await storage.getCustomersList(query as string, limit, offset);
+      const referral = await storage.rejectReferral(req.params.id, "admin");
+      if (!referral) {
+        return res.status(404).json(createErrorResponse("NotFound", "Pending referral not found", "E_NOT_FOUND"));
+      }
 
-      res.json({
-        customers: result.users.map(user => ({
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          balanceCZK: formatCZK(user.wallet.balanceCents),
-          balanceCents: user.wallet.balanceCents,
-          bonusGrantedTotalCZK: formatCZK(user.wallet.bonusGrantedTotalCents),
-          bonusGrantedTotalCents: user.wallet.bonusGrantedTotalCents,
-          lastActivity: user.wallet.lastActivityAt
-        })),
-        total: result.total,
-        nextCursor: result.users.length === limit ? offset + limit : null
-      });
+      await auditLog("admin", req.admin.id, "referral_rejected", {
+        referralId: referral.id,
+        referrerId: referral.referrerId,
+        refereeId: referral.refereeId,
+        reason: "admin"
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json(referral);
     } catch (error) {
-      console.error("Get customers error:", error);
+      console.error("Reject referral error:", error);
       res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
     }
   });
 
-  // Admin dashboard stats
-  app.get("/api/admin/dashboard", authenticateAdminWithKeystore, async (req, res) => {
+  app.get("/api/admin/vouchers/batches", authenticateAdminWithKeystore, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      
-      res.json({
-        totalCustomers: stats.membersCount || 0,
-        totalBalance: Math.floor((stats.todayTotalCents || 0) / 100), // Use available data
-        totalTransactions: stats.todayCount || 0,
-        monthlyStats: {
-          newCustomers: 0, // TODO: Implement monthly stats
-          totalSpent: Math.floor((stats.todayTotalCents || 0) / 100),  
-          transactions: stats.todayCount || 0
-        }
-      });
+      res.json({ batches: await storage.getVoucherBatches() });
     } catch (error) {
-      console.error("Dashboard error:", error);
-      res.status(500).json({ error: "Internal server error" });
+      sendVoucherError(res, error, "Get voucher batches");
     }
   });
 
-  app.get("/api/admin/summary", authenticateAdminWithKeystore, async (req, res) => {
+  app.post("/api/admin/vouchers/batches", authenticateAdminWithKeystore, async (req, res) => {
     try {
-      const stats = await storage.getSummaryStats();
+      if (!requireManager(req, res)) return;
+      const { code, prefix, count, ...terms } = voucherBatchSchema.parse(req.body);
 
-      res.json({
-        membersCount: stats.membersCount,
-        liabilityCZK: formatCZK(stats.liabilityCents),
-        liabilityCents: stats.liabilityCents,
-        bonusGrantedTotalCZK: formatCZK(stats.bonusGrantedTotalCents),
-        bonusGrantedTotalCents: stats.bonusGrantedTotalCents,
-        spendTodayCZK: formatCZK(stats.spendTodayCents),
-        spendTodayCents: stats.spendTodayCents,
-        spendWeekCZK: formatCZK(stats.spendWeekCents),
-        spendWeekCents: stats.spendWeekCents
+      const termsError = voucherBatchTermsError(terms)
+        ?? (code && count > 1 ? "A chosen code makes a batch of one; use prefix and count to generate codes" : null);
+      if (termsError) {
+        return res.status(400).json(createErrorResponse("BadRequest", termsError, "E_INPUT"));
+      }
+
+      const { batch, vouchers } = await voucherService.createBatch({
+        terms: { ...terms, createdBy: req.admin.id },
+        code,
+        prefix,
+        count
       });
+
+      await auditLog("admin", req.admin.id, "voucher_batch_created", {
+        batchId: batch.id,
+        name: batch.name,
+        type: batch.type,
+        valueCents: batch.valueCents,
+        bonusBps: batch.bonusBps,
+        codes: vouchers.length
+      }, getUserAgent(req), getClientIP(req));
+
+      res.status(201).json({ batch, codes: vouchers.map(voucher => voucher.code) });
     } catch (error) {
-      console.error("Get summary error:", error);
-      res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
+      sendVoucherError(res, error, "Create voucher batch");
+    }
+  });
+
+  // Codes with their use counts, for printing and checking a batch
+  app.get("/api/admin/vouchers/batches/:id", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const batch = await storage.getVoucherBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json(createErrorResponse("NotFound", "Voucher batch not found", "E_NOT_FOUND"));
+      }
+
+      res.json({ batch, vouchers: await storage.getVouchersByBatch(batch.id) });
+    } catch (error) {
+      sendVoucherError(res, error, "Get voucher batch");
+    }
+  });
+
+  // Switching a batch off also lapses its percentage bonuses still waiting for a top-up
+  app.patch("/api/admin/vouchers/batches/:id", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      if (!requireManager(req, res)) return;
+      const { isActive } = z.object({ isActive: z.boolean() }).parse(req.body);
+
+      const batch = await storage.setVoucherBatchActive(req.params.id, isActive);
+      if (!batch) {
+        return res.status(404).json(createErrorResponse("NotFound", "Voucher batch not found", "E_NOT_FOUND"));
+      }
+
+      await auditLog("admin", req.admin.id, isActive ? "voucher_batch_activated" : "voucher_batch_deactivated", {
+        batchId: batch.id
+      }, getUserAgent(req), getClientIP(req));
+
+      res.json(batch);
+    } catch (error) {
+      sendVoucherError(res, error, "Update voucher batch");
     }
   });
 
   app.post("/api/admin/adjustment", authenticateAdminWithKeystore, async (req, res) => {
     try {
       const body = adjustmentSchema.parse(req.body);
-      const { userId, amountCZK, reason, idempotencyKey } = body;
+      const { userId, amountCZK, bucket, reason, idempotencyKey } = body;
       const amountCents = amountCZK * 100;
 
       // Check idempotency
@@ -1578,23 +2842,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       await storage.setIdempotency(idempotencyKey, JSON.stringify(body));
 
-      // Get user and wallet
       const user = await storage.getUser(userId);
       if (!user) {
         return res.status(404).json(createErrorResponse("NotFound", "User not found", "E_NOT_FOUND"));
       }
 
-      const wallet = await storage.getWalletByUserId(userId);
-      if (!wallet) {
-        return res.status(404).json(createErrorResponse("NotFound", "Wallet not found", "E_NOT_FOUND"));
-      }
-
-      // Create adjustment transaction
-      const transaction = await storage.createTransaction({
+      // Create adjustment transaction and update wallet (and ledger in cutover mode) atomically
+      const result = await storage.executeAtomicAdjustment({
         userId,
-        type: "adjustment",
         amountCents,
-        relatedId: null,
+        bucket,
         idempotencyKey,
         createdBy: "admin",
         meta: {
@@ -1603,9 +2860,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
 
-      // Update wallet balance
-      const newBalance = wallet.balanceCents + amountCents;
-      await storage.updateWalletBalance(userId, newBalance);
+      if (result.status === "wallet_not_found") {
+        return res.status(404).json(createErrorResponse("NotFound", "Wallet not found", "E_NOT_FOUND"));
+      }
+      if (result.status === "insufficient_funds") {
+        return res.status(422).json(createErrorResponse("InsufficientFunds", "Adjustment would make the balance negative", "E_INSUFFICIENT_FUNDS", {
+          balanceCents: result.balanceCents
+        }));
+      }
+
+      const { transaction, wallet } = result;
 
       // Audit log
       await auditLog("admin", req.admin.id, "adjustment_created", {
@@ -1614,10 +2878,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reason,
         transactionId: transaction.id
       });
+      await webhookService.emit("adjustment.created", {
+        userId,
+        amountCents,
+        reason,
+        transactionId: transaction.id,
+        balanceCents: wallet.balanceCents
+      });
 
       res.json({
-        newBalanceCZK: formatCZK(newBalance),
-        newBalanceCents: newBalance
+        newBalanceCZK: formatCZK(wallet.balanceCents),
+        newBalanceCents: wallet.balanceCents,
+        paidBalanceCents: paidBalance(wallet),
+        bonusBalanceCents: wallet.bonusBalanceCents
       });
     } catch (error) {
       console.error("Adjustment error:", error);
@@ -1628,6 +2901,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Till shifts and their Z-reports
+  app.get("/api/admin/shifts", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const { adminId, limit, offset } = shiftListSchema.parse(req.query);
+      const shifts = await storage.getPosShifts({ adminId, limit, offset });
+      res.json({ shifts: shifts.map(serializePosShift) });
+    } catch (error) {
+      sendShiftError(res, error, "Get shifts");
+    }
+  });
+
+  app.get("/api/admin/shifts/:id", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const shiftId = z.string().uuid().parse(req.params.id);
+      const shift = await storage.getPosShift(shiftId);
+      if (!shift) {
+        return res.status(404).json(createErrorResponse("NotFound", "Shift not found", "E_NOT_FOUND"));
+      }
+      res.json({ ...serializePosShift(shift), report: shift.report });
+    } catch (error) {
+      sendShiftError(res, error, "Get shift");
+    }
+  });
+
+  app.get("/api/admin/shifts/:id/export.:format(csv|pdf)", authenticateAdminWithKeystore, async (req, res) => {
+    try {
+      const shiftId = z.string().uuid().parse(req.params.id);
+      const { shift, report } = await shiftService.getReport(shiftId);
+      const header = { shiftId: shift.id, staffName: shift.adminName, openedAt: shift.openedAt, closedAt: shift.closedAt! };
+      const filename = `z-report-${shift.closedAt!.toISOString().slice(0, 10)}-${shift.id.slice(0, 8)}`;
+
+      await auditLog("admin", req.admin.id, "shift_report_exported", { shiftId, format: req.params.format }, getUserAgent(req), getClientIP(req));
+
+      if (req.params.format === "pdf") {
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+        return res.send(renderTextPdf(zReportText(header, report)));
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.csv"`);
+      res.send(zReportCsv(header, report));
+    } catch (error) {
+      sendShiftError(res, error, "Export shift report");
+    }
+  });
+
   // ===== POS (Point of Sale) ROUTES =====
 
   // POS authentication middleware - separate from admin auth for different session handling
@@ -1746,199 +3065,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // POS charge flow
-  app.post("/api/pos/charge/init", authenticatePOS, async (req, res) => {
-    try {
-      const { tokenOrCode } = chargeInitSchema.parse(req.body);
-
-      let userId: string;
-
-      // Try QR token first
-      if (tokenOrCode.length > 10) {
-        try {
-          const payload = verifyQRToken(tokenOrCode);
-          if (!payload?.sub) {
-            return res.status(400).json(createErrorResponse("BadRequest", "Neplatný QR kód", "E_INPUT"));
-          }
-          userId = payload.sub;
-        } catch {
-          return res.status(400).json(createErrorResponse("BadRequest", "Neplatný QR kód", "E_INPUT"));
-        }
-      } else {
-        // Try short code
-        const qrData = qrCodes.get(tokenOrCode);
-        if (!qrData || qrData.used || qrData.expiresAt < Date.now()) {
-          return res.status(400).json(createErrorResponse("BadRequest", "Neplatný nebo použitý kód", "E_INPUT"));
-        }
-        userId = qrData.userId;
-        // Mark as used
-        qrCodes.set(tokenOrCode, { ...qrData, used: true });
-      }
-
-      const user = await storage.getUser(userId);
-      if (!user || user.status !== "active") {
-        return res.status(400).json(createErrorResponse("BadRequest", "Uživatel není aktivní", "E_INPUT"));
-      }
-
-      const wallet = await storage.getWalletByUserId(userId);
-      if (!wallet) {
-        return res.status(400).json(createErrorResponse("BadRequest", "Peněženka nenalezena", "E_INPUT"));
-      }
+  // POS charge flow (shared with admin, see ChargeService)
+  app.post("/api/pos/charge/init", authenticatePOS, chargeInitHandler("pos"));
+  app.post("/api/pos/charge/confirm", authenticatePOS, chargeConfirmHandler("pos"));
+  app.post("/api/pos/void", authenticatePOS, chargeVoidHandler("pos"));
 
+  // Quick-tap product grid for itemised charges
+  app.get("/api/pos/products", authenticatePOS, async (req, res) => {
+    try {
+      const products = await storage.getProducts({ activeOnly: true });
       res.json({
-        userId: user.id,
-        customerName: user.name,
-        customerEmail: user.email,
-        balanceCZK: formatCZK(wallet.balanceCents),
-        balanceCents: wallet.balanceCents
+        products: products.map(product => ({
+          id: product.id,
+          name: product.name,
+          category: product.category,
+          priceCents: product.priceCents,
+          vatRateBps: product.vatRateBps
+        }))
       });
-
     } catch (error) {
-      console.error("POS charge init error:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
-      }
+      console.error("POS products error:", error);
       res.status(500).json(createErrorResponse("InternalServerError", "Server error", "E_SERVER"));
     }
   });
 
-  app.post("/api/pos/charge/confirm", authenticatePOS, async (req, res) => {
+  // POS cash top-up: same QR scan as a charge, the cash goes to the drawer (see PosTopupService)
+  app.post("/api/pos/topup/init", authenticatePOS, async (req, res) => {
     try {
-      const { userId, amountCZK, idempotencyKey } = z.object({
-        userId: z.string().uuid(),
-        amountCZK: z.number().positive(),
-        idempotencyKey: z.string().min(1)
-      }).parse(req.body);
-
-      const amountCents = Math.round(amountCZK * 100);
-
-      // Check idempotency
-      const isIdempotent = await storage.checkIdempotency(idempotencyKey, JSON.stringify(req.body));
-      if (isIdempotent) {
-        return res.status(409).json(createErrorResponse("IdempotencyConflict", "Request already processed", "E_IDEMPOTENCY_CONFLICT"));
-      }
-      await storage.setIdempotency(idempotencyKey, JSON.stringify(req.body));
-
-      const wallet = await storage.getWalletByUserId(userId);
-      if (!wallet || wallet.balanceCents < amountCents) {
-        return res.status(400).json(createErrorResponse("BadRequest", "Nedostatečný zůstatek", "E_INSUFFICIENT_FUNDS"));
-      }
-
-      // Create charge transaction
-      const transaction = await storage.createTransaction({
-        userId,
-        type: "charge",
-        amountCents: -amountCents, // Negative for charge
-        relatedId: null,
-        idempotencyKey,
-        createdBy: "admin",
-        meta: {
-          adminId: req.admin.id,
-          posCharge: true
-        }
+      const { tokenOrCode } = chargeInitSchema.parse(req.body);
+      const result = await posTopupService.init({
+        tokenOrCode,
+        adminId: req.admin.id,
+        adminSessionId: req.sessionId ?? null
       });
 
-      // Update wallet balance
-      const newBalance = wallet.balanceCents - amountCents;
-      await storage.updateWalletBalance(userId, newBalance);
+      res.json({
+        topupId: result.topupId,
+        userId: result.userId,
+        customerName: result.customerName,
+        customerEmail: result.customerEmail,
+        balanceCZK: formatCZK(result.balanceCents),
+        balanceCents: result.balanceCents,
+        tier: result.tier,
+        maxAmountCZK: MAX_CUSTOM_TOPUP_CZK,
+        expiresAt: result.expiresAt.toISOString()
+      });
+    } catch (error) {
+      sendPosTopupError(res, error, "POS topup init");
+    }
+  });
 
-      // Store for void tracking (120 seconds)
-      const chargeId = randomUUID();
-      pendingCharges.set(chargeId, {
-        userId,
-        amountCents,
-        createdAt: Date.now(),
+  app.post("/api/pos/topup/confirm", authenticatePOS, async (req, res) => {
+    try {
+      const { topupId, packageCode, amountCZK, idempotencyKey } = posTopupConfirmSchema.parse(req.body);
+      const result = await posTopupService.confirm({
+        topupId,
+        packageCode,
+        amountCents: amountCZK !== undefined ? amountCZK * 100 : undefined,
+        idempotencyKey,
         adminId: req.admin.id
       });
 
-      // Clean up after 120 seconds
-      setTimeout(() => {
-        pendingCharges.delete(chargeId);
-      }, 120000);
-
-      await auditLog("admin", req.admin.id, "pos_charge", { 
-        userId, 
-        amountCents, 
-        transactionId: transaction.id 
+      res.json({
+        success: true,
+        ...serializePosTopup(result.topup),
+        transactionId: result.transactionId,
+        newBalanceCZK: formatCZK(result.newBalanceCents),
+        newBalanceCents: result.newBalanceCents,
+        voidExpiresAt: result.voidExpiresAt.getTime(),
+        voidWindowSeconds: chargeService.voidWindowMs / 1000,
+        ...(result.idempotent && { idempotent: true })
       });
+    } catch (error) {
+      sendPosTopupError(res, error, "POS topup confirm");
+    }
+  });
 
-      res.json({ 
-        success: true, 
-        transactionId: transaction.id,
-        chargeId,
-        voidExpiresAt: Date.now() + 120000,
-        newBalanceCZK: formatCZK(newBalance),
-        newBalanceCents: newBalance
-      });
+  app.post("/api/pos/topup/void", authenticatePOS, async (req, res) => {
+    try {
+      const { topupId } = posTopupVoidSchema.parse(req.body);
+      const result = await posTopupService.void({ topupId, adminId: req.admin.id });
 
+      res.json({
+        success: true,
+        ...serializePosTopup(result.topup),
+        transactionId: result.transactionId,
+        newBalanceCZK: formatCZK(result.newBalanceCents),
+        newBalanceCents: result.newBalanceCents
+      });
     } catch (error) {
-      console.error("POS charge confirm error:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
-      }
-      res.status(500).json(createErrorResponse("InternalServerError", "Chyba při zpracování platby", "E_SERVER"));
+      sendPosTopupError(res, error, "POS topup void");
     }
   });
 
-  app.post("/api/pos/void", authenticatePOS, async (req, res) => {
+  // Till shifts; the Z-report is built and stored on close (see ShiftService)
+  app.get("/api/pos/shift", authenticatePOS, async (req, res) => {
     try {
-      const { chargeId } = z.object({
-        chargeId: z.string().uuid()
-      }).parse(req.body);
-
-      const charge = pendingCharges.get(chargeId);
-      if (!charge) {
-        return res.status(400).json(createErrorResponse("BadRequest", "Platba nenalezena nebo již nelze stornovat", "E_INPUT"));
-      }
+      const shift = await storage.getOpenPosShift(req.admin.id);
+      res.json({ shift: shift ? serializePosShift(shift) : null });
+    } catch (error) {
+      sendShiftError(res, error, "POS shift");
+    }
+  });
 
-      // Check if within 120 seconds
-      if (Date.now() - charge.createdAt > 120000) {
-        pendingCharges.delete(chargeId);
-        return res.status(400).json(createErrorResponse("BadRequest", "Platba již nelze stornovat", "E_INPUT"));
-      }
+  app.post("/api/pos/shift/open", authenticatePOS, async (req, res) => {
+    try {
+      const { openingFloatCZK } = shiftOpenSchema.parse(req.body);
+      const shift = await shiftService.open({
+        adminId: req.admin.id,
+        adminSessionId: req.sessionId ?? null,
+        openingFloatCents: Math.round(openingFloatCZK * 100)
+      });
 
-      // Process void
-      const voidIdempotencyKey = `void-${chargeId}-${Date.now()}`;
+      res.status(201).json(serializePosShift(shift));
+    } catch (error) {
+      sendShiftError(res, error, "POS shift open");
+    }
+  });
 
-      // Create void transaction
-      const transaction = await storage.createTransaction({
-        userId: charge.userId,
-        type: "void",
-        amountCents: charge.amountCents, // Positive to restore balance
-        relatedId: null,
-        idempotencyKey: voidIdempotencyKey,
-        createdBy: "admin",
-        meta: {
-          adminId: req.admin.id,
-          originalChargeId: chargeId,
-          posVoid: true
-        }
+  app.post("/api/pos/shift/close", authenticatePOS, async (req, res) => {
+    try {
+      const { countedCashCZK, note } = shiftCloseSchema.parse(req.body);
+      const { shift, report } = await shiftService.close({
+        adminId: req.admin.id,
+        countedCashCents: Math.round(countedCashCZK * 100),
+        note: note || null
       });
 
-      // Update wallet balance
-      const wallet = await storage.getWalletByUserId(charge.userId);
-      if (wallet) {
-        const newBalance = wallet.balanceCents + charge.amountCents;
-        await storage.updateWalletBalance(charge.userId, newBalance);
-      }
+      res.json({ ...serializePosShift(shift), report });
+    } catch (error) {
+      sendShiftError(res, error, "POS shift close");
+    }
+  });
 
-      pendingCharges.delete(chargeId);
+  // ESC/POS print jobs: download the bytes, or have the server send them to the counter printer
+  app.get("/api/pos/print/config", authenticatePOS, (req, res) => {
+    res.json({ printerConfigured: printService.printerConfigured });
+  });
 
-      await auditLog("admin", req.admin.id, "pos_void", { 
-        chargeId, 
-        userId: charge.userId, 
-        amountCents: charge.amountCents,
-        transactionId: transaction.id
-      });
+  app.get("/api/pos/print/:document(receipt|topup|shift)/:id", authenticatePOS, async (req, res) => {
+    try {
+      const id = z.string().uuid().parse(req.params.id);
+      const job = await printService.render(req.params.document as PrintDocument, id, req.admin.id);
 
-      res.json({ success: true });
+      res.setHeader("Content-Type", "application/octet-stream");
+      res.setHeader("Content-Disposition", `attachment; filename="${job.filename}"`);
+      res.send(job.payload);
+    } catch (error) {
+      sendPrintError(res, error, "POS print download");
+    }
+  });
+
+  app.post("/api/pos/print/:document(receipt|topup|shift)/:id", authenticatePOS, async (req, res) => {
+    try {
+      const id = z.string().uuid().parse(req.params.id);
+      const job = await printService.render(req.params.document as PrintDocument, id, req.admin.id);
+      await printService.send(job);
 
+      res.json({ success: true, bytes: job.payload.length });
     } catch (error) {
-      console.error("POS void error:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json(createErrorResponse("BadRequest", "Invalid input", "E_INPUT", error.errors));
-      }
-      res.status(500).json(createErrorResponse("InternalServerError", "Chyba při stornování platby", "E_SERVER"));
+      sendPrintError(res, error, "POS print");
     }
   });
 
@@ -18,12 +18,22 @@ import {
   CustomerSearchResponse,
   CustomerInfo,
   TrialBalanceRunResponse,
+  RebuildBalanceCacheResponse,
+  ListAccountsResponse,
+  CreateAccountRequest,
+  UpdateAccountRequest,
+  AccountResponse,
+  CreatePeriodRequest,
+  ListPeriodsResponse,
+  PeriodResponse,
   LedgerErrorResponse,
   createLedgerError,
   getHttpStatusForError
 } from '@shared/contracts/ledger'
-import { ledgerService } from './service'
+import { ledgerService, LEDGER_CUTOVER } from './service'
 import { storage } from '../../storage'
+import { auditLog } from '../../utils'
+import type { Account, AccountingPeriod, PeriodBalanceSnapshot } from '@shared/schema'
 
 const router = Router()
 
@@ -59,18 +69,56 @@ function requireAdmin(req: Request, res: Response, next: NextFunction) {
   authenticateAdminWithKeystore(req, res, next)
 }
 
+function serializeAccount(account: Account) {
+  return {
+    ...account,
+    createdAt: account.createdAt.toISOString()
+  }
+}
+
+function serializePeriod(period: AccountingPeriod) {
+  return {
+    id: period.id,
+    granularity: period.granularity,
+    startsAt: period.startsAt.toISOString(),
+    endsAt: period.endsAt.toISOString(),
+    status: period.status,
+    closedAt: period.closedAt?.toISOString() ?? null,
+    closedBy: period.closedBy
+  }
+}
+
+function serializeSnapshot(row: PeriodBalanceSnapshot) {
+  return {
+    accountCode: row.accountCode,
+    userId: row.userId,
+    debitMinor: row.debitMinor,
+    creditMinor: row.creditMinor,
+    balanceMinor: row.balanceMinor
+  }
+}
+
 // 4.1 Health endpoint
-router.get('/health', (req, res) => {
-  const response: HealthResponse = {
-    ok: true,
-    version: '1.0.0',
-    accounts: ['1000', '2000', '4000', '5000'],
-    featureFlags: {
-      LEDGER_ENABLED,
-      LEDGER_DEV_ENDPOINTS_ENABLED
+router.get('/health', async (req, res) => {
+  try {
+    const accounts = await ledgerService.listAccounts()
+    
+    const response: HealthResponse = {
+      ok: true,
+      version: '1.0.0',
+      accounts: accounts.filter(a => a.isActive).map(a => String(a.code)),
+      featureFlags: {
+        LEDGER_ENABLED,
+        LEDGER_DEV_ENDPOINTS_ENABLED,
+        LEDGER_CUTOVER
+      }
     }
+    res.json(response)
+  } catch (error: any) {
+    console.error('Ledger health error:', error)
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during health check')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
   }
-  res.json(response)
 })
 
 // 4.2 Balances & transactions
@@ -125,6 +173,7 @@ router.get('/tx/:txId', async (req, res) => {
       transaction: {
         ...result.transaction,
         createdAt: result.transaction.createdAt.toISOString(),
+        effectiveAt: result.transaction.effectiveAt.toISOString(),
         context: result.transaction.context as Record<string, any>
       },
       entries: result.entries
@@ -157,6 +206,7 @@ router.get('/tx', async (req, res) => {
       transactions: result.transactions.map(tx => ({
         ...tx,
         createdAt: tx.createdAt.toISOString(),
+        effectiveAt: tx.effectiveAt.toISOString(),
         context: tx.context as Record<string, any>
       }))
     }
@@ -350,6 +400,231 @@ router.post('/trial-balance/run', requireAdmin, async (req, res) => {
   }
 })
 
+router.post('/trial-balance/rebuild-cache', requireAdmin, async (req, res) => {
+  try {
+    // Overwrites cached balances - managers only
+    if (req.admin.role !== 'manager') {
+      const error = createLedgerError('FORBIDDEN', 'Only managers can rebuild the balance cache')
+      return res.status(getHttpStatusForError('FORBIDDEN')).json(error)
+    }
+    
+    const result = await ledgerService.rebuildBalanceCache()
+    
+    await auditLog('admin', req.admin.id, 'ledger_balance_cache_rebuilt', {
+      rowsUpdated: result.rowsUpdated,
+      rowsInserted: result.rowsInserted,
+      repaired: result.repaired.map(d => ({
+        accountCode: d.accountCode,
+        userId: d.userId,
+        driftMinor: d.driftMinor
+      }))
+    })
+    
+    const response: RebuildBalanceCacheResponse = result
+    res.json(response)
+  } catch (error: any) {
+    console.error('Balance cache rebuild error:', error)
+    
+    if (error.error) {
+      return res.status(getHttpStatusForError(error.error)).json(error)
+    }
+    
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during balance cache rebuild')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
+  }
+})
+
+// 4.6 Chart of accounts
+router.get('/accounts', requireAdmin, async (req, res) => {
+  try {
+    const accounts = await ledgerService.listAccounts()
+    
+    const response: ListAccountsResponse = {
+      accounts: accounts.map(serializeAccount)
+    }
+    res.json(response)
+  } catch (error: any) {
+    console.error('Account listing error:', error)
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during account listing')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
+  }
+})
+
+router.post('/accounts', requireAdmin, async (req, res) => {
+  try {
+    const request = CreateAccountRequest.parse(req.body)
+    const account = await ledgerService.createAccount(request)
+    
+    await auditLog('admin', req.admin.id, 'ledger_account_created', {
+      code: account.code,
+      name: account.name,
+      type: account.type
+    })
+    
+    const response: AccountResponse = {
+      account: serializeAccount(account)
+    }
+    res.status(201).json(response)
+  } catch (error: any) {
+    console.error('Account creation error:', error)
+    
+    if (error instanceof z.ZodError) {
+      const ledgerError = createLedgerError('VALIDATION_FAILED', 'Invalid request body', error.errors)
+      return res.status(getHttpStatusForError('VALIDATION_FAILED')).json(ledgerError)
+    }
+    
+    if (error.error) {
+      return res.status(getHttpStatusForError(error.error)).json(error)
+    }
+    
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during account creation')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
+  }
+})
+
+router.patch('/accounts/:code', requireAdmin, async (req, res) => {
+  try {
+    const code = z.coerce.number().int().parse(req.params.code)
+    const request = UpdateAccountRequest.parse(req.body)
+    const account = await ledgerService.updateAccount(code, request)
+    
+    await auditLog('admin', req.admin.id, 'ledger_account_updated', {
+      code,
+      ...request
+    })
+    
+    const response: AccountResponse = {
+      account: serializeAccount(account)
+    }
+    res.json(response)
+  } catch (error: any) {
+    console.error('Account update error:', error)
+    
+    if (error instanceof z.ZodError) {
+      const ledgerError = createLedgerError('VALIDATION_FAILED', 'Invalid request', error.errors)
+      return res.status(getHttpStatusForError('VALIDATION_FAILED')).json(ledgerError)
+    }
+    
+    if (error.error) {
+      return res.status(getHttpStatusForError(error.error)).json(error)
+    }
+    
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during account update')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
+  }
+})
+
+// 4.7 Accounting periods
+router.get('/periods', requireAdmin, async (req, res) => {
+  try {
+    const periods = await ledgerService.listPeriods()
+    
+    const response: ListPeriodsResponse = {
+      periods: periods.map(serializePeriod)
+    }
+    res.json(response)
+  } catch (error: any) {
+    console.error('Period listing error:', error)
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during period listing')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
+  }
+})
+
+router.post('/periods', requireAdmin, async (req, res) => {
+  try {
+    const request = CreatePeriodRequest.parse(req.body)
+    const period = await ledgerService.createPeriod(request)
+    
+    const response: PeriodResponse = {
+      period: serializePeriod(period),
+      snapshot: []
+    }
+    res.status(201).json(response)
+  } catch (error: any) {
+    console.error('Period creation error:', error)
+    
+    if (error instanceof z.ZodError) {
+      const ledgerError = createLedgerError('VALIDATION_FAILED', 'Invalid request body', error.errors)
+      return res.status(getHttpStatusForError('VALIDATION_FAILED')).json(ledgerError)
+    }
+    
+    if (error.error) {
+      return res.status(getHttpStatusForError(error.error)).json(error)
+    }
+    
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during period creation')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
+  }
+})
+
+router.get('/periods/:id', requireAdmin, async (req, res) => {
+  try {
+    const periodId = req.params.id
+    
+    if (!z.string().uuid().safeParse(periodId).success) {
+      const error = createLedgerError('VALIDATION_FAILED', 'Invalid period ID format')
+      return res.status(getHttpStatusForError('VALIDATION_FAILED')).json(error)
+    }
+    
+    const result = await ledgerService.getPeriod(periodId)
+    if (!result) {
+      const error = createLedgerError('PERIOD_NOT_FOUND', 'Period not found')
+      return res.status(getHttpStatusForError('PERIOD_NOT_FOUND')).json(error)
+    }
+    
+    const response: PeriodResponse = {
+      period: serializePeriod(result.period),
+      snapshot: result.snapshot.map(serializeSnapshot)
+    }
+    res.json(response)
+  } catch (error: any) {
+    console.error('Period lookup error:', error)
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during period lookup')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
+  }
+})
+
+router.post('/periods/:id/close', requireAdmin, async (req, res) => {
+  try {
+    const periodId = req.params.id
+    
+    if (!z.string().uuid().safeParse(periodId).success) {
+      const error = createLedgerError('VALIDATION_FAILED', 'Invalid period ID format')
+      return res.status(getHttpStatusForError('VALIDATION_FAILED')).json(error)
+    }
+    
+    // Closing is irreversible - managers only
+    if (req.admin.role !== 'manager') {
+      const error = createLedgerError('FORBIDDEN', 'Only managers can close accounting periods')
+      return res.status(getHttpStatusForError('FORBIDDEN')).json(error)
+    }
+    
+    const result = await ledgerService.closePeriod(periodId, req.admin.id)
+    
+    await auditLog('admin', req.admin.id, 'ledger_period_closed', {
+      periodId,
+      granularity: result.period.granularity,
+      startsAt: result.period.startsAt.toISOString(),
+      snapshotRows: result.snapshot.length
+    })
+    
+    const response: PeriodResponse = {
+      period: serializePeriod(result.period),
+      snapshot: result.snapshot.map(serializeSnapshot)
+    }
+    res.json(response)
+  } catch (error: any) {
+    console.error('Period close error:', error)
+    
+    if (error.error) {
+      return res.status(getHttpStatusForError(error.error)).json(error)
+    }
+    
+    const ledgerError = createLedgerError('LEDGER_INVARIANT_BROKEN', 'Internal error during period close')
+    res.status(getHttpStatusForError('LEDGER_INVARIANT_BROKEN')).json(ledgerError)
+  }
+})
+
 export function setupLedgerRoutes(app: Express) {
   app.use('/api/v1/ledger', router)
 }
\ No newline at end of file
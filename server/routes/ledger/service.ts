@@ -1,10 +1,16 @@
-import { eq, and, desc, sum, sql } from 'drizzle-orm'
+import { eq, and, desc, sum, sql, inArray, lt, lte, gt } from 'drizzle-orm'
 import { db } from '../../db'
 import { 
+  accounts,
+  accountingPeriods,
+  periodBalanceSnapshots,
   ledgerTransactions, 
   ledgerEntries, 
   accountBalances,
   trialBalanceDaily,
+  type Account,
+  type AccountingPeriod,
+  type PeriodBalanceSnapshot,
   type LedgerTransaction,
   type LedgerEntry,
   type AccountBalance,
@@ -20,9 +26,34 @@ import {
   type DevChargeRequest,
   type DevBonusRequest,
   type DevReversalRequest,
+  type AdjustmentRequest,
+  type BonusExpiryRequest,
+  type TransferRequest,
+  type CreateAccountRequest,
+  type UpdateAccountRequest,
+  type CreatePeriodRequest,
+  type BalanceDrift,
+  SystemAccount,
   createLedgerError
 } from '@shared/contracts/ledger'
 import { randomUUID } from 'crypto'
+import { splitDebit } from '../../credit-buckets'
+
+// Cutover mode: wallet operations post to the ledger in the same DB transaction
+// as their legacy `transactions` row, and balances are read from accounts 2000 + 2010
+export const LEDGER_CUTOVER = process.env.LEDGER_CUTOVER === 'true'
+
+/**
+ * Database handle postings are written through: the shared pool, or an open
+ * transaction when the posting must commit together with other writes
+ */
+export type LedgerExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+export interface PostingOptions {
+  executor?: LedgerExecutor
+  originRef?: string
+  effectiveAt?: Date // accounting date, defaults to now; must fall into an open period
+}
 
 export interface LedgerOperationResult {
   txId: string
@@ -32,6 +63,8 @@ export interface LedgerOperationResult {
 export interface BalanceResult {
   userId: string
   balanceMinor: number
+  paidMinor: number
+  bonusMinor: number
   updatedAt: string
 }
 
@@ -40,43 +73,64 @@ export interface TrialBalanceResult {
   sumDebit: number
   sumCredit: number
   delta: number
+  drift: BalanceDrift[]
+}
+
+export interface RebuildBalanceCacheResult {
+  rowsUpdated: number
+  rowsInserted: number
+  repaired: BalanceDrift[]
 }
 
+// Entry amount signed against its account's normal side (+ increases the balance);
+// queries using it must join `accounts`
+const signedEntryAmount = sql<number>`CASE WHEN ${ledgerEntries.side} = ${accounts.normalSide} THEN ${ledgerEntries.amountMinor} ELSE -${ledgerEntries.amountMinor} END`
+
+// Keep the stored trial balance details bounded
+const MAX_STORED_DRIFT_ROWS = 100
+
 export class LedgerService {
   
   /**
-   * Get user balance for account 2000 (Customer Credits)
+   * Get user balance: account 2000 (paid credits) + 2010 (bonus credits)
    */
-  async getBalance(userId: string): Promise<BalanceResult | null> {
-    const balance = await db
+  async getBalance(userId: string, executor: LedgerExecutor = db): Promise<BalanceResult | null> {
+    const balances = await executor
       .select()
       .from(accountBalances)
       .where(and(
-        eq(accountBalances.accountCode, 2000),
+        inArray(accountBalances.accountCode, [SystemAccount.CUSTOMER_CREDITS, SystemAccount.CUSTOMER_BONUS_CREDITS]),
         eq(accountBalances.userId, userId)
       ))
-      .limit(1)
     
-    if (balance.length === 0) {
+    if (balances.length === 0) {
       return {
         userId,
         balanceMinor: 0,
+        paidMinor: 0,
+        bonusMinor: 0,
         updatedAt: new Date().toISOString()
       }
     }
     
+    const paidMinor = balances.find(b => b.accountCode === SystemAccount.CUSTOMER_CREDITS)?.balanceMinor ?? 0
+    const bonusMinor = balances.find(b => b.accountCode === SystemAccount.CUSTOMER_BONUS_CREDITS)?.balanceMinor ?? 0
+    const updatedAt = balances.reduce((latest, b) => b.updatedAt > latest ? b.updatedAt : latest, balances[0].updatedAt)
+
     return {
       userId,
-      balanceMinor: balance[0].balanceMinor,
-      updatedAt: balance[0].updatedAt.toISOString()
+      balanceMinor: paidMinor + bonusMinor,
+      paidMinor,
+      bonusMinor,
+      updatedAt: updatedAt.toISOString()
     }
   }
 
   /**
    * Get transaction with its entries
    */
-  async getTransaction(txId: string): Promise<{ transaction: LedgerTransaction, entries: LedgerEntry[] } | null> {
-    const transaction = await db
+  async getTransaction(txId: string, executor: LedgerExecutor = db): Promise<{ transaction: LedgerTransaction, entries: LedgerEntry[] } | null> {
+    const transaction = await executor
       .select()
       .from(ledgerTransactions)
       .where(eq(ledgerTransactions.id, txId))
@@ -86,7 +140,7 @@ export class LedgerService {
       return null
     }
     
-    const entries = await db
+    const entries = await executor
       .select()
       .from(ledgerEntries)
       .where(eq(ledgerEntries.txId, txId))
@@ -98,6 +152,17 @@ export class LedgerService {
     }
   }
 
+  /**
+   * Get transactions posted for an external reference (e.g. a legacy `transactions` row)
+   */
+  async getTransactionsByOriginRef(originRef: string, executor: LedgerExecutor = db): Promise<LedgerTransaction[]> {
+    return executor
+      .select()
+      .from(ledgerTransactions)
+      .where(eq(ledgerTransactions.originRef, originRef))
+      .orderBy(ledgerTransactions.createdAt)
+  }
+
   /**
    * Get paginated transactions for a user
    */
@@ -143,64 +208,139 @@ export class LedgerService {
   }
 
   /**
-   * Execute top-up operation: Dr 1000 +X, Cr 2000(user) +X
+   * List the chart of accounts
+   */
+  async listAccounts(): Promise<Account[]> {
+    return db.select().from(accounts).orderBy(accounts.code)
+  }
+
+  /**
+   * Add an account to the chart; the normal side defaults from the account type
+   */
+  async createAccount(request: CreateAccountRequest): Promise<Account> {
+    const normalSide: LedgerEntrySide = request.normalSide
+      ?? (request.type === 'asset' || request.type === 'expense' ? 'debit' : 'credit')
+    
+    const created = await db
+      .insert(accounts)
+      .values({
+        code: request.code,
+        name: request.name,
+        type: request.type,
+        normalSide,
+        perCustomer: request.perCustomer
+      })
+      .onConflictDoNothing()
+      .returning()
+    
+    if (created.length === 0) {
+      throw createLedgerError('ACCOUNT_ALREADY_EXISTS', `Account ${request.code} already exists`)
+    }
+    
+    return created[0]
+  }
+
+  /**
+   * Rename or (de)activate an account. System accounts cannot be deactivated.
+   */
+  async updateAccount(code: number, request: UpdateAccountRequest): Promise<Account> {
+    if (request.name === undefined && request.isActive === undefined) {
+      throw createLedgerError('VALIDATION_FAILED', 'Nothing to update')
+    }
+    
+    const systemCodes: number[] = Object.values(SystemAccount)
+    if (request.isActive === false && systemCodes.includes(code)) {
+      throw createLedgerError('VALIDATION_FAILED', `System account ${code} cannot be deactivated`)
+    }
+    
+    const updated = await db
+      .update(accounts)
+      .set(request)
+      .where(eq(accounts.code, code))
+      .returning()
+    
+    if (updated.length === 0) {
+      throw createLedgerError('ACCOUNT_NOT_FOUND', `Account ${code} not found`)
+    }
+    
+    return updated[0]
+  }
+
+  /**
+   * Execute top-up operation as one journal entry: Dr 1000 +X, Cr 2000(user) +X, Dr 5000 +B, Cr 2010(user) +B
+   * The bonus legs are only posted when bonusMinor > 0; cash taken at the counter debits 1010 instead of 1000
    */
-  async topup(request: DevTopupRequest): Promise<LedgerOperationResult> {
-    return this.executeTransaction('topup', async () => {
+  async topup(request: DevTopupRequest, options: PostingOptions = {}): Promise<LedgerOperationResult> {
+    const bonusMinor = request.bonusMinor ?? 0
+    const cashAccount = request.tender === 'cash' ? SystemAccount.CASH_DRAWER : SystemAccount.CASH
+
+    return this.executeTransaction('topup', options, async (executor) => {
       const entries: InsertLedgerEntry[] = [
         {
           txId: '', // Will be set by executeTransaction
-          accountCode: 1000, // Cash/Top-up Clearing (assets)
+          accountCode: cashAccount,
           userId: null, // Global account
           side: 'debit',
           amountMinor: request.amountMinor
         },
         {
           txId: '', // Will be set by executeTransaction
-          accountCode: 2000, // Customer Credits (liabilities)
+          accountCode: SystemAccount.CUSTOMER_CREDITS,
           userId: request.userId,
           side: 'credit',
           amountMinor: request.amountMinor
-        }
+        },
+        ...(bonusMinor > 0 ? [{
+          txId: '', // Will be set by executeTransaction
+          accountCode: SystemAccount.MARKETING_EXPENSE,
+          userId: null, // Global account
+          side: 'debit' as LedgerEntrySide,
+          amountMinor: bonusMinor
+        }, {
+          txId: '', // Will be set by executeTransaction
+          accountCode: SystemAccount.CUSTOMER_BONUS_CREDITS,
+          userId: request.userId,
+          side: 'credit' as LedgerEntrySide,
+          amountMinor: bonusMinor
+        }] : [])
       ]
       
       await this.updateBalances([
-        { accountCode: 1000, userId: null, delta: request.amountMinor },
-        { accountCode: 2000, userId: request.userId, delta: request.amountMinor }
-      ])
+        { accountCode: cashAccount, userId: null, delta: request.amountMinor },
+        { accountCode: SystemAccount.CUSTOMER_CREDITS, userId: request.userId, delta: request.amountMinor },
+        ...(bonusMinor > 0 ? [
+          { accountCode: SystemAccount.MARKETING_EXPENSE, userId: null, delta: bonusMinor },
+          { accountCode: SystemAccount.CUSTOMER_BONUS_CREDITS, userId: request.userId, delta: bonusMinor }
+        ] : [])
+      ], executor)
       
       return {
         type: 'topup' as LedgerTransactionType,
-        context: { note: request.note },
+        context: { note: request.note, ...(bonusMinor > 0 && { bonusMinor }) },
         entries
       }
     })
   }
 
   /**
-   * Execute charge operation: Dr 2000(user) +X, Cr 4000 +X
-   * Rejects if user balance would go below 0
+   * Execute charge operation: Dr 2000(user) +P, Dr 2010(user) +B, Cr 4000 +(P+B)
+   * The paid/bonus split is the caller's bonusMinor, or the consumption order applied
+   * to the current sub-balances. Rejects if either sub-balance would go below 0
+   * (checked by updateBalances under the row lock)
    */
-  async charge(request: DevChargeRequest): Promise<LedgerOperationResult> {
-    // First check if user has sufficient funds
-    const currentBalance = await this.getBalance(request.userId)
-    if (currentBalance && currentBalance.balanceMinor < request.amountMinor) {
-      throw createLedgerError('INSUFFICIENT_FUNDS', 
-        `Insufficient funds. Current balance: ${currentBalance.balanceMinor}, required: ${request.amountMinor}`)
-    }
-    
-    return this.executeTransaction('charge', async () => {
+  async charge(request: DevChargeRequest, options: PostingOptions = {}): Promise<LedgerOperationResult> {
+    return this.executeTransaction('charge', options, async (executor) => {
+      const bonusMinor = request.bonusMinor ?? await this.splitCustomerDebit(request.userId, request.amountMinor, executor)
+      const paidMinor = request.amountMinor - bonusMinor
+      if (paidMinor < 0) {
+        throw createLedgerError('VALIDATION_FAILED', 'bonusMinor must not exceed amountMinor')
+      }
+
       const entries: InsertLedgerEntry[] = [
+        ...this.customerLegs(request.userId, 'debit', paidMinor, bonusMinor),
         {
           txId: '', // Will be set by executeTransaction
-          accountCode: 2000, // Customer Credits (liabilities)
-          userId: request.userId,
-          side: 'debit',
-          amountMinor: request.amountMinor
-        },
-        {
-          txId: '', // Will be set by executeTransaction
-          accountCode: 4000, // Sales Revenue (revenue)
+          accountCode: SystemAccount.SALES_REVENUE,
           userId: null, // Global account
           side: 'credit',
           amountMinor: request.amountMinor
@@ -208,34 +348,34 @@ export class LedgerService {
       ]
       
       await this.updateBalances([
-        { accountCode: 2000, userId: request.userId, delta: -request.amountMinor },
-        { accountCode: 4000, userId: null, delta: request.amountMinor }
-      ])
+        ...this.customerDeltas(request.userId, -paidMinor, -bonusMinor),
+        { accountCode: SystemAccount.SALES_REVENUE, userId: null, delta: request.amountMinor }
+      ], executor)
       
       return {
         type: 'charge' as LedgerTransactionType,
-        context: { note: request.note },
+        context: { note: request.note, ...(bonusMinor > 0 && { bonusMinor }) },
         entries
       }
     })
   }
 
   /**
-   * Execute bonus operation: Dr 5000 +X, Cr 2000(user) +X
+   * Execute bonus operation: Dr 5000 +X, Cr 2010(user) +X
    */
-  async bonus(request: DevBonusRequest): Promise<LedgerOperationResult> {
-    return this.executeTransaction('bonus', async () => {
+  async bonus(request: DevBonusRequest, options: PostingOptions = {}): Promise<LedgerOperationResult> {
+    return this.executeTransaction('bonus', options, async (executor) => {
       const entries: InsertLedgerEntry[] = [
         {
           txId: '', // Will be set by executeTransaction
-          accountCode: 5000, // Marketing Expense (expense)
+          accountCode: SystemAccount.MARKETING_EXPENSE,
           userId: null, // Global account
           side: 'debit',
           amountMinor: request.amountMinor
         },
         {
           txId: '', // Will be set by executeTransaction
-          accountCode: 2000, // Customer Credits (liabilities)
+          accountCode: SystemAccount.CUSTOMER_BONUS_CREDITS,
           userId: request.userId,
           side: 'credit',
           amountMinor: request.amountMinor
@@ -243,9 +383,9 @@ export class LedgerService {
       ]
       
       await this.updateBalances([
-        { accountCode: 5000, userId: null, delta: request.amountMinor },
-        { accountCode: 2000, userId: request.userId, delta: request.amountMinor }
-      ])
+        { accountCode: SystemAccount.MARKETING_EXPENSE, userId: null, delta: request.amountMinor },
+        { accountCode: SystemAccount.CUSTOMER_BONUS_CREDITS, userId: request.userId, delta: request.amountMinor }
+      ], executor)
       
       return {
         type: 'bonus' as LedgerTransactionType,
@@ -255,35 +395,139 @@ export class LedgerService {
     })
   }
 
+  /**
+   * Execute manual adjustment against marketing expense:
+   * credit  Dr 5000 +X, Cr 2000(user) +P, Cr 2010(user) +B
+   * debit   Dr 2000(user) +P, Dr 2010(user) +B, Cr 5000 +X (rejects if a sub-balance would go below 0)
+   * A credit goes to bonus unless bonusMinor says otherwise; a debit follows the consumption order
+   */
+  async adjustment(request: AdjustmentRequest, options: PostingOptions = {}): Promise<LedgerOperationResult> {
+    const amount = Math.abs(request.amountMinor)
+    const isCredit = request.amountMinor > 0
+    const effectiveAt = options.effectiveAt ?? (request.effectiveAt ? new Date(request.effectiveAt) : undefined)
+
+    return this.executeTransaction('adjustment', { ...options, effectiveAt }, async (executor) => {
+      const bonusMinor = request.bonusMinor ?? (isCredit ? amount : await this.splitCustomerDebit(request.userId, amount, executor))
+      const paidMinor = amount - bonusMinor
+      if (paidMinor < 0) {
+        throw createLedgerError('VALIDATION_FAILED', 'bonusMinor must not exceed the adjusted amount')
+      }
+      const sign = isCredit ? 1 : -1
+
+      const entries: InsertLedgerEntry[] = [
+        {
+          txId: '', // Will be set by executeTransaction
+          accountCode: SystemAccount.MARKETING_EXPENSE,
+          userId: null, // Global account
+          side: isCredit ? 'debit' : 'credit',
+          amountMinor: amount
+        },
+        ...this.customerLegs(request.userId, isCredit ? 'credit' : 'debit', paidMinor, bonusMinor)
+      ]
+
+      await this.updateBalances([
+        { accountCode: SystemAccount.MARKETING_EXPENSE, userId: null, delta: request.amountMinor },
+        ...this.customerDeltas(request.userId, sign * paidMinor, sign * bonusMinor)
+      ], executor)
+
+      return {
+        type: 'adjustment' as LedgerTransactionType,
+        context: { reason: request.reason, ...(bonusMinor > 0 && { bonusMinor }) },
+        entries
+      }
+    })
+  }
+
+  /**
+   * Execute bonus expiry: Dr 2010(user) +X, Cr 4100 +X
+   * Rejects if the bonus balance would go below 0
+   */
+  async expiry(request: BonusExpiryRequest, options: PostingOptions = {}): Promise<LedgerOperationResult> {
+    return this.executeTransaction('expiry', options, async (executor) => {
+      const entries: InsertLedgerEntry[] = [
+        ...this.customerLegs(request.userId, 'debit', 0, request.amountMinor),
+        {
+          txId: '', // Will be set by executeTransaction
+          accountCode: SystemAccount.BREAKAGE_REVENUE,
+          userId: null, // Global account
+          side: 'credit',
+          amountMinor: request.amountMinor
+        }
+      ]
+
+      await this.updateBalances([
+        ...this.customerDeltas(request.userId, 0, -request.amountMinor),
+        { accountCode: SystemAccount.BREAKAGE_REVENUE, userId: null, delta: request.amountMinor }
+      ], executor)
+
+      return {
+        type: 'expiry' as LedgerTransactionType,
+        context: { lotId: request.lotId },
+        entries
+      }
+    })
+  }
+
+  /**
+   * Execute transfer of paid credit: Dr 2000(from) +X, Cr 2000(to) +X, with 2020
+   * Pending Gifts standing in for a side that is not a customer yet.
+   * Rejects if the sender's paid balance would go below 0
+   */
+  async transfer(request: TransferRequest, options: PostingOptions = {}): Promise<LedgerOperationResult> {
+    return this.executeTransaction('transfer', options, async (executor) => {
+      const side = (userId: string | null) => userId
+        ? { accountCode: SystemAccount.CUSTOMER_CREDITS, userId }
+        : { accountCode: SystemAccount.PENDING_GIFTS, userId: null }
+      const from = side(request.fromUserId)
+      const to = side(request.toUserId)
+
+      const entries: InsertLedgerEntry[] = [
+        { txId: '', ...from, side: 'debit', amountMinor: request.amountMinor }, // txId will be set by executeTransaction
+        { txId: '', ...to, side: 'credit', amountMinor: request.amountMinor }
+      ]
+
+      await this.updateBalances([
+        { ...from, delta: -request.amountMinor },
+        { ...to, delta: request.amountMinor }
+      ], executor)
+
+      return {
+        type: 'transfer' as LedgerTransactionType,
+        context: { transferId: request.transferId },
+        entries
+      }
+    })
+  }
+
   /**
    * Execute reversal operation: Create exact mirror entries of origin transaction
    * Max 1 reversal per origin. Reversal of a reversal is forbidden.
    */
-  async reversal(request: DevReversalRequest): Promise<LedgerOperationResult> {
-    // Get original transaction
-    const original = await this.getTransaction(request.txId)
-    if (!original) {
-      throw createLedgerError('TX_NOT_FOUND', `Transaction ${request.txId} not found`)
-    }
-    
-    // Check if original is already a reversal
-    if (original.transaction.type === 'reversal') {
-      throw createLedgerError('REVERSAL_FORBIDDEN_TYPE', 'Cannot reverse a reversal transaction')
-    }
-    
-    // Check if reversal already exists
-    const existingReversal = await db
-      .select()
-      .from(ledgerTransactions)
-      .where(eq(ledgerTransactions.reversalOf, request.txId))
-      .limit(1)
-    
-    if (existingReversal.length > 0) {
-      throw createLedgerError('REVERSAL_ALREADY_EXISTS', 
-        `Transaction ${request.txId} has already been reversed`)
-    }
-    
-    return this.executeTransaction('reversal', async () => {
+  async reversal(request: DevReversalRequest, options: PostingOptions = {}): Promise<LedgerOperationResult> {
+    return this.executeTransaction('reversal', options, async (executor) => {
+      // Get original transaction
+      const original = await this.getTransaction(request.txId, executor)
+      if (!original) {
+        throw createLedgerError('TX_NOT_FOUND', `Transaction ${request.txId} not found`)
+      }
+      
+      // Check if original is already a reversal
+      if (original.transaction.type === 'reversal') {
+        throw createLedgerError('REVERSAL_FORBIDDEN_TYPE', 'Cannot reverse a reversal transaction')
+      }
+      
+      // Check if reversal already exists (the unique index on reversal_of backs this up)
+      const existingReversal = await executor
+        .select()
+        .from(ledgerTransactions)
+        .where(eq(ledgerTransactions.reversalOf, request.txId))
+        .limit(1)
+      
+      if (existingReversal.length > 0) {
+        throw createLedgerError('REVERSAL_ALREADY_EXISTS', 
+          `Transaction ${request.txId} has already been reversed`)
+      }
+      
       // Create mirror entries (opposite sides)
       const entries: InsertLedgerEntry[] = original.entries.map(entry => ({
         txId: '', // Will be set by executeTransaction
@@ -294,9 +538,10 @@ export class LedgerService {
       }))
       
       // Reconstruct original balance deltas and reverse them
-      const balanceUpdates = this.reconstructAndReverseBalanceDeltas(original)
+      const originalAccounts = await this.loadAccounts(original.entries.map(e => e.accountCode), executor)
+      const balanceUpdates = this.reconstructAndReverseBalanceDeltas(original, originalAccounts)
       
-      await this.updateBalances(balanceUpdates)
+      await this.updateBalances(balanceUpdates, executor)
       
       return {
         type: 'reversal' as LedgerTransactionType,
@@ -308,7 +553,8 @@ export class LedgerService {
   }
 
   /**
-   * Run trial balance calculation
+   * Run trial balance calculation: global Σdebit vs Σcredit, plus every account_balances
+   * row recomputed from ledger_entries to detect a drifted balance cache
    */
   async runTrialBalance(): Promise<TrialBalanceResult> {
     // Calculate sum of all debits and credits
@@ -322,11 +568,20 @@ export class LedgerService {
     const sumDebit = Number(result[0]?.totalDebit || 0)
     const sumCredit = Number(result[0]?.totalCredit || 0)
     const delta = sumDebit - sumCredit
-    const status: TrialBalanceStatus = delta === 0 ? 'ok' : 'mismatch'
+    const drift = await this.findBalanceDrift(db)
+    const status: TrialBalanceStatus = delta === 0 && drift.length === 0 ? 'ok' : 'mismatch'
     
     // Store daily trial balance record
     const today = new Date().toISOString().split('T')[0] // YYYY-MM-DD
     
+    const details = status === 'ok' ? null : {
+      ...(delta !== 0 && { error: 'Debit/Credit mismatch detected' }),
+      ...(drift.length > 0 && {
+        driftCount: drift.length,
+        drift: drift.slice(0, MAX_STORED_DRIFT_ROWS)
+      })
+    }
+    
     // Check if record exists for today
     const existingRecord = await db
       .select()
@@ -334,15 +589,6 @@ export class LedgerService {
       .where(eq(trialBalanceDaily.asOfDate, today))
       .limit(1)
     
-    const trialBalanceData = {
-      asOfDate: today,
-      sumDebit,
-      sumCredit,
-      delta,
-      status,
-      details: delta !== 0 ? { error: 'Debit/Credit mismatch detected' } : null
-    }
-    
     if (existingRecord.length > 0) {
       // Update existing record
       await db
@@ -352,46 +598,257 @@ export class LedgerService {
           sumCredit,
           delta,
           status,
-          details: delta !== 0 ? { error: 'Debit/Credit mismatch detected' } : null
+          details
         })
         .where(eq(trialBalanceDaily.asOfDate, today))
     } else {
       // Insert new record
       await db
         .insert(trialBalanceDaily)
-        .values(trialBalanceData)
+        .values({
+          asOfDate: today,
+          sumDebit,
+          sumCredit,
+          delta,
+          status,
+          details
+        })
+    }
+    
+    return { status, sumDebit, sumCredit, delta, drift }
+  }
+
+  /**
+   * Rewrite account_balances from ledger_entries. The table is locked against
+   * concurrent postings for the duration, so the rebuilt cache is exact.
+   */
+  async rebuildBalanceCache(): Promise<RebuildBalanceCacheResult> {
+    return db.transaction(async (tx) => {
+      // EXCLUSIVE still allows plain reads but blocks the row locks postings take
+      await tx.execute(sql`LOCK TABLE ${accountBalances} IN EXCLUSIVE MODE`)
+      
+      const repaired = await this.findBalanceDrift(tx)
+      let rowsUpdated = 0
+      let rowsInserted = 0
+      
+      for (const item of repaired) {
+        const updated = await tx
+          .update(accountBalances)
+          .set({ balanceMinor: item.expectedMinor, updatedAt: new Date() })
+          .where(this.balanceRowCondition(item.accountCode, item.userId))
+          .returning({ id: accountBalances.id })
+        
+        if (updated.length > 0) {
+          rowsUpdated++
+          continue
+        }
+        
+        await tx
+          .insert(accountBalances)
+          .values({
+            accountCode: item.accountCode,
+            userId: item.userId,
+            balanceMinor: item.expectedMinor
+          })
+        rowsInserted++
+      }
+      
+      return { rowsUpdated, rowsInserted, repaired }
+    })
+  }
+
+  /**
+   * List accounting periods, newest first
+   */
+  async listPeriods(): Promise<AccountingPeriod[]> {
+    return db
+      .select()
+      .from(accountingPeriods)
+      .orderBy(desc(accountingPeriods.startsAt), accountingPeriods.granularity)
+  }
+
+  /**
+   * Open a day or month period (UTC). Returns the existing period if it was already created.
+   */
+  async createPeriod(request: CreatePeriodRequest): Promise<AccountingPeriod> {
+    const [year, month, day] = request.startsOn.split('-').map(Number)
+    const date = new Date(Date.UTC(year, month - 1, day))
+    if (date.toISOString().slice(0, 10) !== request.startsOn) {
+      throw createLedgerError('VALIDATION_FAILED', `Invalid date: ${request.startsOn}`)
     }
     
-    return { status, sumDebit, sumCredit, delta }
+    const startsAt = request.granularity === 'month'
+      ? new Date(Date.UTC(year, month - 1, 1))
+      : date
+    const endsAt = request.granularity === 'month'
+      ? new Date(Date.UTC(year, month, 1))
+      : new Date(Date.UTC(year, month - 1, day + 1))
+    
+    const [created] = await db
+      .insert(accountingPeriods)
+      .values({ granularity: request.granularity, startsAt, endsAt })
+      .onConflictDoNothing()
+      .returning()
+    
+    if (created) {
+      return created
+    }
+    
+    const [existing] = await db
+      .select()
+      .from(accountingPeriods)
+      .where(and(
+        eq(accountingPeriods.granularity, request.granularity),
+        eq(accountingPeriods.startsAt, startsAt)
+      ))
+    return existing
+  }
+
+  /**
+   * Get a period with its frozen balance snapshot (empty while open)
+   */
+  async getPeriod(periodId: string): Promise<{ period: AccountingPeriod, snapshot: PeriodBalanceSnapshot[] } | null> {
+    const [period] = await db
+      .select()
+      .from(accountingPeriods)
+      .where(eq(accountingPeriods.id, periodId))
+    
+    if (!period) {
+      return null
+    }
+    
+    const snapshot = await db
+      .select()
+      .from(periodBalanceSnapshots)
+      .where(eq(periodBalanceSnapshots.periodId, periodId))
+      .orderBy(periodBalanceSnapshots.accountCode, periodBalanceSnapshots.userId)
+    
+    return { period, snapshot }
+  }
+
+  /**
+   * Close a period that has already ended: freeze the closing balance and the period
+   * activity of every account/user pair, then mark the period closed. From then on
+   * postings dated inside it are rejected with PERIOD_CLOSED.
+   */
+  async closePeriod(periodId: string, closedBy: string): Promise<{ period: AccountingPeriod, snapshot: PeriodBalanceSnapshot[] }> {
+    return db.transaction(async (tx) => {
+      // Waits for in-flight postings into this period (they hold a share lock, see assertPeriodOpen)
+      const [period] = await tx
+        .select()
+        .from(accountingPeriods)
+        .where(eq(accountingPeriods.id, periodId))
+        .for('update')
+      
+      if (!period) {
+        throw createLedgerError('PERIOD_NOT_FOUND', `Period ${periodId} not found`)
+      }
+      if (period.status === 'closed') {
+        throw createLedgerError('PERIOD_CLOSED', `Period ${periodId} is already closed`)
+      }
+      if (period.endsAt > new Date()) {
+        throw createLedgerError('VALIDATION_FAILED', 
+          `Period ${periodId} has not ended yet (ends ${period.endsAt.toISOString()})`)
+      }
+      
+      const withinPeriod = sql`${ledgerTransactions.effectiveAt} >= ${period.startsAt}`
+      const balances = await tx
+        .select({
+          accountCode: ledgerEntries.accountCode,
+          userId: ledgerEntries.userId,
+          debitMinor: sum(sql`CASE WHEN ${ledgerEntries.side} = 'debit' AND ${withinPeriod} THEN ${ledgerEntries.amountMinor} ELSE 0 END`),
+          creditMinor: sum(sql`CASE WHEN ${ledgerEntries.side} = 'credit' AND ${withinPeriod} THEN ${ledgerEntries.amountMinor} ELSE 0 END`),
+          balanceMinor: sum(signedEntryAmount)
+        })
+        .from(ledgerEntries)
+        .innerJoin(ledgerTransactions, eq(ledgerEntries.txId, ledgerTransactions.id))
+        .innerJoin(accounts, eq(ledgerEntries.accountCode, accounts.code))
+        .where(lt(ledgerTransactions.effectiveAt, period.endsAt))
+        .groupBy(ledgerEntries.accountCode, ledgerEntries.userId)
+      
+      const snapshot = balances.length === 0 ? [] : await tx
+        .insert(periodBalanceSnapshots)
+        .values(balances.map(b => ({
+          periodId,
+          accountCode: b.accountCode,
+          userId: b.userId,
+          debitMinor: Number(b.debitMinor || 0),
+          creditMinor: Number(b.creditMinor || 0),
+          balanceMinor: Number(b.balanceMinor || 0)
+        })))
+        .returning()
+      
+      const [closed] = await tx
+        .update(accountingPeriods)
+        .set({ status: 'closed', closedAt: new Date(), closedBy })
+        .where(eq(accountingPeriods.id, periodId))
+        .returning()
+      
+      return { period: closed, snapshot }
+    })
+  }
+
+  // Bonus part of a customer debit under the configured consumption order
+  private async splitCustomerDebit(userId: string, amountMinor: number, executor: LedgerExecutor): Promise<number> {
+    const balance = await this.getBalance(userId, executor)
+    return splitDebit(amountMinor, { paidCents: balance?.paidMinor ?? 0, bonusCents: balance?.bonusMinor ?? 0 }).bonusCents
+  }
+
+  // Customer legs on 2000 (paid) and 2010 (bonus); zero legs are left out
+  private customerLegs(userId: string, side: LedgerEntrySide, paidMinor: number, bonusMinor: number): InsertLedgerEntry[] {
+    return [
+      { accountCode: SystemAccount.CUSTOMER_CREDITS, amountMinor: paidMinor },
+      { accountCode: SystemAccount.CUSTOMER_BONUS_CREDITS, amountMinor: bonusMinor }
+    ]
+      .filter(leg => leg.amountMinor > 0)
+      .map(leg => ({ txId: '', userId, side, ...leg })) // txId will be set by executeTransaction
+  }
+
+  private customerDeltas(userId: string, paidDelta: number, bonusDelta: number): Array<{ accountCode: number, userId: string, delta: number }> {
+    return [
+      { accountCode: SystemAccount.CUSTOMER_CREDITS, userId, delta: paidDelta },
+      { accountCode: SystemAccount.CUSTOMER_BONUS_CREDITS, userId, delta: bonusDelta }
+    ].filter(update => update.delta !== 0)
   }
 
   /**
-   * Generic transaction executor that ensures atomicity
+   * Generic transaction executor that ensures atomicity: balance updates, the
+   * transaction record and its entries commit or roll back together. Joins the
+   * caller's DB transaction when one is passed as options.executor.
    */
   private async executeTransaction(
     type: LedgerTransactionType,
-    operation: () => Promise<{
+    options: PostingOptions,
+    operation: (executor: LedgerExecutor) => Promise<{
       type: LedgerTransactionType
       context: Record<string, any>
       entries: InsertLedgerEntry[]
       reversalOf?: string
     }>
   ): Promise<LedgerOperationResult> {
-    // Execute the operation to get transaction details
-    const { type: txType, context, entries, reversalOf } = await operation()
-    
-    // Validate entries (must be exactly 2: 1 debit + 1 credit)
-    if (entries.length !== 2) {
-      throw createLedgerError('LEDGER_INVARIANT_BROKEN', 
-        `Transaction must have exactly 2 entries, got ${entries.length}`)
+    if (!options.executor) {
+      return db.transaction(tx => this.executeTransaction(type, { ...options, executor: tx }, operation))
     }
+    const executor = options.executor
+    const effectiveAt = options.effectiveAt ?? new Date()
     
+    await this.assertPeriodOpen(effectiveAt, executor)
+
+    // Execute the operation to get transaction details
+    const { type: txType, context, entries, reversalOf } = await operation(executor)
+    
+    // Validate entries (N legs: at least 1 debit + 1 credit, all amounts positive)
     const debits = entries.filter(e => e.side === 'debit')
     const credits = entries.filter(e => e.side === 'credit')
     
-    if (debits.length !== 1 || credits.length !== 1) {
+    if (debits.length === 0 || credits.length === 0) {
+      throw createLedgerError('LEDGER_INVARIANT_BROKEN', 
+        `Transaction must have at least 1 debit and 1 credit entry, got ${debits.length} debit(s) and ${credits.length} credit(s)`)
+    }
+    
+    if (entries.some(e => !Number.isInteger(e.amountMinor) || e.amountMinor <= 0)) {
       throw createLedgerError('LEDGER_INVARIANT_BROKEN', 
-        'Transaction must have exactly 1 debit and 1 credit entry')
+        'Every entry amount must be a positive integer')
     }
     
     // Validate Σdebit = Σcredit
@@ -403,16 +860,34 @@ export class LedgerService {
         `Debit/Credit mismatch: ${totalDebit} != ${totalCredit}`)
     }
     
+    // Validate entries against the chart of accounts
+    const accountsByCode = await this.loadAccounts(entries.map(e => e.accountCode), executor)
+    for (const entry of entries) {
+      const account = accountsByCode.get(entry.accountCode)!
+      
+      // Reversals may still unwind postings on accounts deactivated since
+      if (!account.isActive && txType !== 'reversal') {
+        throw createLedgerError('INVALID_ACCOUNT', `Account ${account.code} (${account.name}) is inactive`)
+      }
+      
+      if (account.perCustomer !== Boolean(entry.userId)) {
+        throw createLedgerError('INVALID_ACCOUNT', account.perCustomer
+          ? `Account ${account.code} (${account.name}) requires a userId`
+          : `Account ${account.code} (${account.name}) is a global account and does not take a userId`)
+      }
+    }
+    
     // Create transaction record - Step 1
     const txRecord: InsertLedgerTransaction = {
       type: txType,
       context,
       reversalOf: reversalOf || null,
       createdBy: null, // TODO: Add created_by tracking
-      originRef: null
+      originRef: options.originRef ?? null,
+      effectiveAt
     }
     
-    const result = await db.insert(ledgerTransactions).values(txRecord).returning()
+    const result = await executor.insert(ledgerTransactions).values(txRecord).returning()
     const actualTxId = result[0].id
     
     // Update entries with actual transaction ID - Step 2
@@ -420,7 +895,7 @@ export class LedgerService {
       ...entry,
       txId: actualTxId
     }))
-    const createdEntries = await db.insert(ledgerEntries).values(entriesWithActualTxId).returning()
+    const createdEntries = await executor.insert(ledgerEntries).values(entriesWithActualTxId).returning()
     
     return {
       txId: actualTxId,
@@ -429,98 +904,234 @@ export class LedgerService {
   }
 
   /**
-   * Reconstruct the original balance deltas for a transaction and return their opposites for reversal
+   * Reconstruct the original balance deltas for a transaction and return their opposites for reversal.
+   * Works leg by leg, so any balanced N-leg transaction can be reversed regardless of its type.
    */
-  private reconstructAndReverseBalanceDeltas(original: { transaction: LedgerTransaction, entries: LedgerEntry[] }): Array<{
+  private reconstructAndReverseBalanceDeltas(
+    original: { transaction: LedgerTransaction, entries: LedgerEntry[] },
+    accountsByCode: Map<number, Account>
+  ): Array<{
     accountCode: number
     userId: string | null
     delta: number
   }> {
     const { transaction, entries } = original
-    const amount = entries[0].amountMinor // Both entries have same amount
     
+    if (transaction.type === 'reversal') {
+      throw createLedgerError('LEDGER_INVARIANT_BROKEN', `Cannot reverse transaction type: ${transaction.type}`)
+    }
     
-    switch (transaction.type) {
-      case 'topup':
-        // Original: +amount to customer (2000), +amount to cash (1000)
-        return [
-          { accountCode: 1000, userId: null, delta: -amount },
-          { accountCode: 2000, userId: entries.find(e => e.accountCode === 2000)?.userId || null, delta: -amount }
-        ]
+    return entries.map(entry => {
+      const { normalSide } = accountsByCode.get(entry.accountCode)!
       
-      case 'charge':
-        // Original: -amount to customer (2000), +amount to revenue (4000)
-        return [
-          { accountCode: 2000, userId: entries.find(e => e.accountCode === 2000)?.userId || null, delta: +amount },
-          { accountCode: 4000, userId: null, delta: -amount }
-        ]
-      
-      case 'bonus':
-        // Original: +amount to customer (2000), +amount to expense (5000)
-        return [
-          { accountCode: 5000, userId: null, delta: -amount },
-          { accountCode: 2000, userId: entries.find(e => e.accountCode === 2000)?.userId || null, delta: -amount }
-        ]
+      // Original delta: +amount on the account's normal side, -amount on the other
+      const originalDelta = entry.side === normalSide ? entry.amountMinor : -entry.amountMinor
+      return { accountCode: entry.accountCode, userId: entry.userId, delta: -originalDelta }
+    })
+  }
+
+  /**
+   * Reject postings dated inside a closed period. The covering period rows are share-locked
+   * so a concurrent close either waits for this posting (and includes it in its snapshot)
+   * or closes first and this posting is rejected.
+   */
+  private async assertPeriodOpen(effectiveAt: Date, executor: LedgerExecutor): Promise<void> {
+    const covering = await executor
+      .select()
+      .from(accountingPeriods)
+      .where(and(
+        lte(accountingPeriods.startsAt, effectiveAt),
+        gt(accountingPeriods.endsAt, effectiveAt)
+      ))
+      .for('share')
+    
+    const closed = covering.find(period => period.status === 'closed')
+    if (closed) {
+      throw createLedgerError('PERIOD_CLOSED', 
+        `Posting dated ${effectiveAt.toISOString()} falls into closed ${closed.granularity} period starting ${closed.startsAt.toISOString()}; post a dated adjustment in an open period instead`,
+        { periodId: closed.id })
+    }
+  }
+
+  /**
+   * Compare every cached balance with the sum of its ledger entries. Pairs missing on
+   * either side count as 0, so orphaned cache rows and missing cache rows both show up.
+   */
+  private async findBalanceDrift(executor: LedgerExecutor): Promise<BalanceDrift[]> {
+    const expectedRows = await executor
+      .select({
+        accountCode: ledgerEntries.accountCode,
+        userId: ledgerEntries.userId,
+        balanceMinor: sum(signedEntryAmount)
+      })
+      .from(ledgerEntries)
+      .innerJoin(accounts, eq(ledgerEntries.accountCode, accounts.code))
+      .groupBy(ledgerEntries.accountCode, ledgerEntries.userId)
+    
+    const cachedRows = await executor
+      .select()
+      .from(accountBalances)
+    
+    const key = (accountCode: number, userId: string | null) => `${accountCode}:${userId ?? ''}`
+    const pairs = new Map<string, { accountCode: number, userId: string | null, cachedMinor: number, expectedMinor: number }>()
+    
+    for (const row of expectedRows) {
+      pairs.set(key(row.accountCode, row.userId), {
+        accountCode: row.accountCode,
+        userId: row.userId,
+        cachedMinor: 0,
+        expectedMinor: Number(row.balanceMinor || 0)
+      })
+    }
+    for (const row of cachedRows) {
+      const pair = pairs.get(key(row.accountCode, row.userId))
+      if (pair) {
+        pair.cachedMinor = row.balanceMinor
+      } else {
+        pairs.set(key(row.accountCode, row.userId), {
+          accountCode: row.accountCode,
+          userId: row.userId,
+          cachedMinor: row.balanceMinor,
+          expectedMinor: 0
+        })
+      }
+    }
+    
+    const drift: BalanceDrift[] = []
+    for (const pair of Array.from(pairs.values())) {
+      if (pair.cachedMinor === pair.expectedMinor) {
+        continue
+      }
       
-      default:
-        throw createLedgerError('LEDGER_INVARIANT_BROKEN', `Cannot reverse transaction type: ${transaction.type}`)
+      const since = await this.findDriftStart(pair.accountCode, pair.userId, pair.cachedMinor, executor)
+      drift.push({
+        ...pair,
+        driftMinor: pair.cachedMinor - pair.expectedMinor,
+        sinceTxId: since?.txId ?? null,
+        sinceAt: since?.at.toISOString() ?? null
+      })
     }
+    
+    return drift.sort((a, b) => a.accountCode - b.accountCode || (a.userId ?? '').localeCompare(b.userId ?? ''))
   }
 
   /**
-   * Update account balances using UPSERT
+   * Replay an account's transactions in order and find the last point where the running
+   * balance equalled the cached value; the drift started with the transaction after it.
+   */
+  private async findDriftStart(
+    accountCode: number,
+    userId: string | null,
+    cachedMinor: number,
+    executor: LedgerExecutor
+  ): Promise<{ txId: string, at: Date } | null> {
+    const history = await executor
+      .select({
+        txId: ledgerTransactions.id,
+        at: ledgerTransactions.createdAt,
+        deltaMinor: sum(signedEntryAmount)
+      })
+      .from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.txId, ledgerTransactions.id))
+      .innerJoin(accounts, eq(ledgerEntries.accountCode, accounts.code))
+      .where(this.entryAccountCondition(accountCode, userId))
+      .groupBy(ledgerTransactions.id, ledgerTransactions.createdAt)
+      .orderBy(ledgerTransactions.createdAt, ledgerTransactions.id)
+    
+    if (history.length === 0) {
+      return null
+    }
+    
+    // -1 = the cache matched before the first transaction
+    let running = 0
+    let lastMatch: number | null = cachedMinor === 0 ? -1 : null
+    history.forEach((tx, index) => {
+      running += Number(tx.deltaMinor || 0)
+      if (running === cachedMinor) {
+        lastMatch = index
+      }
+    })
+    
+    const start = history[lastMatch === null ? 0 : lastMatch + 1]
+    return start ? { txId: start.txId, at: start.at } : null
+  }
+
+  private balanceRowCondition(accountCode: number, userId: string | null) {
+    return userId
+      ? and(eq(accountBalances.accountCode, accountCode), eq(accountBalances.userId, userId))
+      : and(eq(accountBalances.accountCode, accountCode), sql`${accountBalances.userId} IS NULL`)
+  }
+
+  private entryAccountCondition(accountCode: number, userId: string | null) {
+    return userId
+      ? and(eq(ledgerEntries.accountCode, accountCode), eq(ledgerEntries.userId, userId))
+      : and(eq(ledgerEntries.accountCode, accountCode), sql`${ledgerEntries.userId} IS NULL`)
+  }
+
+  /**
+   * Load the accounts referenced by a posting, rejecting unknown codes
+   */
+  private async loadAccounts(codes: number[], executor: LedgerExecutor): Promise<Map<number, Account>> {
+    const uniqueCodes = Array.from(new Set(codes))
+    const rows = await executor
+      .select()
+      .from(accounts)
+      .where(inArray(accounts.code, uniqueCodes))
+    
+    const byCode = new Map(rows.map(account => [account.code, account]))
+    const missing = uniqueCodes.filter(code => !byCode.has(code))
+    if (missing.length > 0) {
+      throw createLedgerError('INVALID_ACCOUNT', `Unknown account code(s): ${missing.join(', ')}`)
+    }
+    
+    return byCode
+  }
+
+  /**
+   * Update account balances. Each balance row is created if missing, then locked
+   * with SELECT ... FOR UPDATE so concurrent postings on the same account queue up
+   * instead of overwriting each other; rows are locked in a fixed order to avoid deadlocks.
+   * Must run inside a DB transaction (see executeTransaction).
    */
   private async updateBalances(updates: Array<{
     accountCode: number
     userId: string | null
     delta: number
-  }>): Promise<void> {
-    for (const update of updates) {
-      // Check if balance would go negative for customer credits (account 2000)
-      if (update.accountCode === 2000 && update.delta < 0) {
-        const current = await this.getBalance(update.userId!)
-        if (current && current.balanceMinor + update.delta < 0) {
-          throw createLedgerError('INSUFFICIENT_FUNDS', 
-            `Balance would go negative: ${current.balanceMinor} + ${update.delta} < 0`)
-        }
-      }
-      
-      // Check if balance exists and update or insert
-      const existingBalance = await db
+  }>, executor: LedgerExecutor): Promise<void> {
+    const accountsByCode = await this.loadAccounts(updates.map(u => u.accountCode), executor)
+    const ordered = [...updates].sort((a, b) =>
+      a.accountCode - b.accountCode || (a.userId ?? '').localeCompare(b.userId ?? ''))
+
+    for (const update of ordered) {
+      await executor
+        .insert(accountBalances)
+        .values({
+          accountCode: update.accountCode,
+          userId: update.userId,
+          balanceMinor: 0
+        } as InsertAccountBalance)
+        .onConflictDoNothing()
+
+      const [locked] = await executor
         .select()
         .from(accountBalances)
-        .where(
-          update.userId 
-            ? and(
-                eq(accountBalances.accountCode, update.accountCode),
-                eq(accountBalances.userId, update.userId)
-              )
-            : and(
-                eq(accountBalances.accountCode, update.accountCode),
-                sql`${accountBalances.userId} IS NULL`
-              )
-        )
-        .limit(1)
-      
-      if (existingBalance.length > 0) {
-        // Update existing balance
-        await db
-          .update(accountBalances)
-          .set({
-            balanceMinor: existingBalance[0].balanceMinor + update.delta,
-            updatedAt: new Date()
-          })
-          .where(eq(accountBalances.id, existingBalance[0].id))
-      } else {
-        // Insert new balance
-        await db
-          .insert(accountBalances)
-          .values({
-            accountCode: update.accountCode,
-            userId: update.userId,
-            balanceMinor: update.delta
-          } as InsertAccountBalance)
+        .where(this.balanceRowCondition(update.accountCode, update.userId))
+        .for('update')
+
+      // Customer liability accounts (e.g. 2000 Customer Credits) cannot go negative
+      const account = accountsByCode.get(update.accountCode)!
+      if (account.perCustomer && account.type === 'liability' && locked.balanceMinor + update.delta < 0) {
+        throw createLedgerError('INSUFFICIENT_FUNDS', 
+          `Insufficient funds. Current balance: ${locked.balanceMinor}, required: ${-update.delta}`)
       }
+
+      await executor
+        .update(accountBalances)
+        .set({
+          balanceMinor: sql`${accountBalances.balanceMinor} + ${update.delta}`,
+          updatedAt: new Date()
+        })
+        .where(eq(accountBalances.id, locked.id))
     }
   }
 }
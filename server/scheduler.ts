@@ -0,0 +1,147 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { CronSchedule } from "./cron";
+
+/**
+ * In-process job scheduler. Every server instance runs the same timers; a job's
+ * schedule slot is claimed through job_locks, so only one instance executes it,
+ * and each execution is recorded in job_runs.
+ */
+
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+
+export interface JobDefinition {
+  name: string;
+  schedule: string; // cron expression, UTC
+  description: string;
+  leaseMs?: number; // how long the lock is held before another instance may take over
+  run: () => Promise<Record<string, unknown> | void>;
+}
+
+export interface JobStatus {
+  name: string;
+  schedule: string;
+  description: string;
+  nextRunAt: Date | null;
+  running: boolean;
+}
+
+interface ScheduledJob {
+  definition: JobDefinition;
+  cron: CronSchedule;
+  timer: NodeJS.Timeout | null;
+  nextRunAt: Date | null;
+  running: boolean;
+}
+
+export class JobScheduler {
+  readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private jobs = new Map<string, ScheduledJob>();
+  private started = false;
+
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job "${definition.name}" is already registered`);
+    }
+
+    this.jobs.set(definition.name, {
+      definition,
+      cron: new CronSchedule(definition.schedule),
+      timer: null,
+      nextRunAt: null,
+      running: false
+    });
+
+    if (this.started) {
+      this.arm(this.jobs.get(definition.name)!);
+    }
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of Array.from(this.jobs.values())) {
+      this.arm(job);
+    }
+    console.log(`⏰ Scheduler started (${this.jobs.size} jobs, instance ${this.instanceId})`);
+  }
+
+  stop(): void {
+    this.started = false;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.timer) clearTimeout(job.timer);
+      job.timer = null;
+      job.nextRunAt = null;
+    }
+  }
+
+  list(): JobStatus[] {
+    return Array.from(this.jobs.values()).map(job => ({
+      name: job.definition.name,
+      schedule: job.definition.schedule,
+      description: job.definition.description,
+      nextRunAt: job.nextRunAt,
+      running: job.running
+    }));
+  }
+
+  private arm(job: ScheduledJob): void {
+    job.nextRunAt = job.cron.next(new Date());
+    this.wait(job, job.nextRunAt);
+  }
+
+  private wait(job: ScheduledJob, slot: Date): void {
+    const delay = Math.min(slot.getTime() - Date.now(), MAX_TIMER_DELAY);
+    job.timer = setTimeout(() => {
+      if (!this.started) return;
+      if (Date.now() < slot.getTime()) {
+        // Long delay was capped - keep waiting for the same slot
+        return this.wait(job, slot);
+      }
+      this.execute(job, slot).finally(() => {
+        if (this.started) this.arm(job);
+      });
+    }, Math.max(delay, 0));
+    job.timer.unref();
+  }
+
+  private async execute(job: ScheduledJob, slot: Date): Promise<void> {
+    const { name, leaseMs = DEFAULT_LEASE_MS } = job.definition;
+
+    // Previous run still going on this instance - skip the slot rather than overlap
+    if (job.running) {
+      console.warn(`⏰ Job ${name} skipped slot ${slot.toISOString()}: previous run still in progress`);
+      return;
+    }
+
+    let runId: string | null = null;
+    try {
+      const acquired = await storage.acquireJobLock(name, this.instanceId, slot, leaseMs);
+      if (!acquired) return;
+
+      job.running = true;
+      const run = await storage.startJobRun({ jobName: name, instanceId: this.instanceId, scheduledFor: slot });
+      runId = run.id;
+
+      const result = await job.definition.run();
+      await storage.finishJobRun(runId, { status: "succeeded", result: result ?? null });
+    } catch (error: any) {
+      console.error(`⏰ Job ${name} failed:`, error);
+      if (runId) {
+        await storage.finishJobRun(runId, { status: "failed", error: String(error?.message ?? error) })
+          .catch(finishError => console.error(`⏰ Could not record failure of job ${name}:`, finishError));
+      }
+    } finally {
+      if (job.running) {
+        job.running = false;
+        await storage.releaseJobLock(name, this.instanceId)
+          .catch(releaseError => console.error(`⏰ Could not release lock of job ${name}:`, releaseError));
+      }
+    }
+  }
+}
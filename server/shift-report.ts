@@ -0,0 +1,175 @@
+import type { Transaction } from "@shared/schema";
+import { formatKc, formatReceiptDate, type ReceiptBlock } from "./receipt";
+
+/**
+ * Z-report of a till shift: what the staff member did between opening and closing it,
+ * and how the cash counted at close compares with what the drawer should hold
+ */
+
+// Transactions a staff member records at the till; transactions.meta.adminId says who
+export const SHIFT_ACTIVITY_TYPES = ["charge", "void", "topup", "topup_void", "adjustment"] as const;
+
+export type ShiftActivity = Pick<Transaction, "type" | "amountCents" | "meta">;
+
+export interface ZReportLine {
+  count: number;
+  amountCents: number;
+}
+
+export interface ZReport {
+  charges: ZReportLine; // wallet money taken
+  voids: ZReportLine; // charges given back
+  netSalesCents: number;
+  cashTopups: ZReportLine & { bonusCents: number }; // amountCents is the cash taken
+  topupVoids: ZReportLine & { bonusCents: number }; // amountCents is the cash handed back
+  adjustments: ZReportLine; // net, credits positive
+  openingFloatCents: number;
+  expectedCashCents: number; // float + cash top-ups - voided cash top-ups
+  countedCashCents: number;
+  varianceCents: number; // counted - expected; negative means cash is missing
+}
+
+const emptyLine = (): ZReportLine => ({ count: 0, amountCents: 0 });
+
+export function buildZReport(params: {
+  openingFloatCents: number;
+  countedCashCents: number;
+  activity: ShiftActivity[];
+}): ZReport {
+  const charges = emptyLine();
+  const voids = emptyLine();
+  const cashTopups = { ...emptyLine(), bonusCents: 0 };
+  const topupVoids = { ...emptyLine(), bonusCents: 0 };
+  const adjustments = emptyLine();
+
+  for (const row of params.activity) {
+    const meta = (row.meta ?? {}) as Record<string, any>;
+    switch (row.type) {
+      case "charge":
+        charges.count++;
+        charges.amountCents += Math.abs(row.amountCents);
+        break;
+      case "void":
+        voids.count++;
+        voids.amountCents += Math.abs(row.amountCents);
+        break;
+      case "topup":
+        // Only cash taken at the counter goes through the drawer
+        if (meta.tender === "cash") {
+          cashTopups.count++;
+          cashTopups.amountCents += Number(meta.payCents ?? row.amountCents);
+          cashTopups.bonusCents += Number(meta.bonusCents ?? 0);
+        }
+        break;
+      case "topup_void":
+        topupVoids.count++;
+        topupVoids.amountCents += Number(meta.payCents ?? Math.abs(row.amountCents));
+        topupVoids.bonusCents += Number(meta.bonusCents ?? 0);
+        break;
+      case "adjustment":
+        adjustments.count++;
+        adjustments.amountCents += row.amountCents;
+        break;
+    }
+  }
+
+  const expectedCashCents = params.openingFloatCents + cashTopups.amountCents - topupVoids.amountCents;
+
+  return {
+    charges,
+    voids,
+    netSalesCents: charges.amountCents - voids.amountCents,
+    cashTopups,
+    topupVoids,
+    adjustments,
+    openingFloatCents: params.openingFloatCents,
+    expectedCashCents,
+    countedCashCents: params.countedCashCents,
+    varianceCents: params.countedCashCents - expectedCashCents
+  };
+}
+
+export interface ZReportHeader {
+  shiftId: string;
+  staffName: string;
+  openedAt: Date;
+  closedAt: Date;
+}
+
+const formatAmount = (cents: number) => (cents / 100).toFixed(2);
+
+// Label, count and amount per row, shared by the CSV and PDF exports
+export function zReportRows(report: ZReport): [string, number | null, number][] {
+  return [
+    ["Charges", report.charges.count, report.charges.amountCents],
+    ["Voids", report.voids.count, -report.voids.amountCents],
+    ["Net sales", null, report.netSalesCents],
+    ["Cash top-ups", report.cashTopups.count, report.cashTopups.amountCents],
+    ["Cash top-up bonus credited", null, report.cashTopups.bonusCents],
+    ["Voided cash top-ups", report.topupVoids.count, -report.topupVoids.amountCents],
+    ["Adjustments (net)", report.adjustments.count, report.adjustments.amountCents],
+    ["Opening float", null, report.openingFloatCents],
+    ["Expected cash", null, report.expectedCashCents],
+    ["Counted cash", null, report.countedCashCents],
+    ["Variance", null, report.varianceCents]
+  ];
+}
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function zReportCsv(header: ZReportHeader, report: ZReport): string {
+  const lines = [
+    ["Shift", header.shiftId],
+    ["Staff", header.staffName],
+    ["Opened", header.openedAt.toISOString()],
+    ["Closed", header.closedAt.toISOString()],
+    [],
+    ["Item", "Count", "Amount CZK"],
+    ...zReportRows(report).map(([label, count, cents]) => [label, count === null ? "" : String(count), formatAmount(cents)])
+  ];
+  return lines.map(line => line.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Fixed-width text for the PDF, which is set in a monospace font
+export function zReportText(header: ZReportHeader, report: ZReport): string[] {
+  return [
+    "Z-REPORT",
+    "",
+    `Shift:  ${header.shiftId}`,
+    `Staff:  ${header.staffName}`,
+    `Opened: ${header.openedAt.toISOString()}`,
+    `Closed: ${header.closedAt.toISOString()}`,
+    "",
+    ...zReportRows(report).map(([label, count, cents]) =>
+      `${label.padEnd(30)}${(count === null ? "" : String(count)).padStart(6)}${formatAmount(cents).padStart(14)} CZK`
+    )
+  ];
+}
+
+// Printed at the till in Czech, laid out with the receipt blocks
+export function zReportTemplate(header: ZReportHeader, report: ZReport): ReceiptBlock[] {
+  const counted = (label: string, line: ZReportLine): ReceiptBlock =>
+    ({ kind: "line", label: `${label} (${line.count}×)`, value: formatKc(line.amountCents) });
+
+  return [
+    { kind: "heading", text: "Z-report" },
+    { kind: "note", text: `Směna ${header.shiftId.slice(0, 8).toUpperCase()}` },
+    { kind: "line", label: "Obsluha", value: header.staffName },
+    { kind: "line", label: "Otevřena", value: formatReceiptDate(header.openedAt) },
+    { kind: "line", label: "Uzavřena", value: formatReceiptDate(header.closedAt) },
+    { kind: "rule" },
+    counted("Platby", report.charges),
+    counted("Storna plateb", report.voids),
+    { kind: "line", label: "Čistá tržba", value: formatKc(report.netSalesCents), strong: true },
+    { kind: "rule" },
+    counted("Dobití hotovostí", report.cashTopups),
+    { kind: "line", label: "Připsaný bonus", value: formatKc(report.cashTopups.bonusCents) },
+    counted("Stornovaná dobití", report.topupVoids),
+    counted("Úpravy zůstatku", report.adjustments),
+    { kind: "rule" },
+    { kind: "line", label: "Počáteční hotovost", value: formatKc(report.openingFloatCents) },
+    { kind: "line", label: "Očekávaná hotovost", value: formatKc(report.expectedCashCents) },
+    { kind: "line", label: "Napočítaná hotovost", value: formatKc(report.countedCashCents) },
+    { kind: "line", label: "Rozdíl", value: `${report.varianceCents > 0 ? "+" : ""}${formatKc(report.varianceCents)}`, strong: true }
+  ];
+}
@@ -0,0 +1,91 @@
+import { storage, type PosShiftView } from "./storage";
+import { auditLog } from "./utils";
+import { buildZReport, type ZReport } from "./shift-report";
+import type { PosShift } from "@shared/schema";
+
+/**
+ * Till shifts (/api/pos/shift/*): staff open a shift with the cash float and close it
+ * with the cash they counted; closing stores the shift's Z-report
+ */
+
+export type ShiftErrorCode =
+  | "E_NOT_FOUND"
+  | "E_SHIFT_OPEN"
+  | "E_NO_OPEN_SHIFT";
+
+const SHIFT_ERROR_HTTP_MAPPING: Record<ShiftErrorCode, { status: number; error: string }> = {
+  E_NOT_FOUND: { status: 404, error: "NotFound" },
+  E_SHIFT_OPEN: { status: 409, error: "ShiftAlreadyOpen" },
+  E_NO_OPEN_SHIFT: { status: 409, error: "NoOpenShift" }
+};
+
+export class ShiftError extends Error {
+  public status: number;
+  public error: string;
+
+  constructor(public code: ShiftErrorCode, message: string) {
+    super(message);
+    this.name = "ShiftError";
+    this.status = SHIFT_ERROR_HTTP_MAPPING[code].status;
+    this.error = SHIFT_ERROR_HTTP_MAPPING[code].error;
+  }
+}
+
+export class ShiftService {
+  async open(params: { adminId: string; adminSessionId: string | null; openingFloatCents: number }): Promise<PosShift> {
+    const shift = await storage.openPosShift(params);
+    if (!shift) {
+      throw new ShiftError("E_SHIFT_OPEN", "Směnu už máte otevřenou");
+    }
+
+    await auditLog("admin", params.adminId, "pos_shift_opened", {
+      shiftId: shift.id,
+      adminSessionId: params.adminSessionId,
+      openingFloatCents: params.openingFloatCents
+    });
+    return shift;
+  }
+
+  /**
+   * Closes the staff member's open shift and stores its Z-report, built from what they
+   * recorded between opening and now
+   */
+  async close(params: { adminId: string; countedCashCents: number; note: string | null }): Promise<{ shift: PosShift; report: ZReport }> {
+    const open = await storage.getOpenPosShift(params.adminId);
+    if (!open) {
+      throw new ShiftError("E_NO_OPEN_SHIFT", "Nemáte otevřenou směnu");
+    }
+
+    const closedAt = new Date();
+    const activity = await storage.getShiftActivity(params.adminId, open.openedAt, closedAt);
+    const report = buildZReport({
+      openingFloatCents: open.openingFloatCents,
+      countedCashCents: params.countedCashCents,
+      activity
+    });
+
+    const shift = await storage.closePosShift({ shiftId: open.id, closedAt, report, note: params.note });
+    if (!shift) {
+      // Closed meanwhile from another till
+      throw new ShiftError("E_NO_OPEN_SHIFT", "Směna už byla uzavřena");
+    }
+
+    await auditLog("admin", params.adminId, "pos_shift_closed", {
+      shiftId: shift.id,
+      expectedCashCents: report.expectedCashCents,
+      countedCashCents: report.countedCashCents,
+      varianceCents: report.varianceCents
+    });
+    return { shift, report };
+  }
+
+  async getReport(shiftId: string): Promise<{ shift: PosShiftView; report: ZReport }> {
+    const shift = await storage.getPosShift(shiftId);
+    if (!shift || shift.status !== "closed" || !shift.report) {
+      throw new ShiftError("E_NOT_FOUND", "Closed shift not found");
+    }
+    return { shift, report: shift.report as ZReport };
+  }
+}
+
+export const shiftService = new ShiftService();
@@ -0,0 +1,30 @@
+import type { StampProgram } from "@shared/schema";
+
+/**
+ * Stamp programme rules: how many stamps a charge earns and how many rewards a
+ * customer's stamps add up to
+ */
+
+export function stampsForCharge(program: Pick<StampProgram, "rule" | "thresholdCents">, amountCents: number): number {
+  if (program.rule === "per_amount") {
+    return program.thresholdCents > 0 ? Math.floor(amountCents / program.thresholdCents) : 0;
+  }
+  return amountCents >= program.thresholdCents ? 1 : 0;
+}
+
+// Full cards in a stamp balance; a balance below zero (stamps taken back by a void) fills none
+export function rewardsDue(stamps: number, stampsRequired: number): number {
+  return stamps > 0 ? Math.floor(stamps / stampsRequired) : 0;
+}
+
+type ProgramTerms = Pick<StampProgram, "rule" | "thresholdCents">;
+
+/**
+ * Cross-field checks on a programme's rule (the DB enforces the same); null when valid
+ */
+export function stampProgramTermsError(terms: ProgramTerms): string | null {
+  if (terms.rule === "per_amount" && terms.thresholdCents <= 0) {
+    return "A per_amount programme needs a positive thresholdCents";
+  }
+  return null;
+}
@@ -1,6 +1,145 @@
-import { users, wallets, adminUsers, refreshTokens, adminSessions, transactions, auditLogs, idempotencyKeys, passwordResetTokens, type User, type InsertUser, type Wallet, type AdminUser, type InsertAdminUser, type Transaction, type InsertTransaction, type AuditLog, type InsertAuditLog, type RefreshToken, type AdminSession, type PasswordResetToken, type InsertPasswordResetToken } from "@shared/schema";
+import { users, wallets, adminUsers, refreshTokens, adminSessions, transactions, auditLogs, idempotencyKeys, passwordResetTokens, qrTokens, chargeSessions, accountBalances, ledgerEntries, ledgerTransactions, tokenBlacklist, metricsDaily, jobLocks, jobRuns, topupPayments, topupPackages, webhookEndpoints, webhookDeliveries, bonusLots, stampPrograms, stampRewards, stampEntries, referrals, referralSettings, walletTransfers, voucherBatches, vouchers, voucherRedemptions, posTopups, posShifts, products, chargeItems, receipts, receiptNumberCounters, type User, type InsertUser, type Wallet, type AdminUser, type InsertAdminUser, type Transaction, type InsertTransaction, type AuditLog, type InsertAuditLog, type RefreshToken, type AdminSession, type PasswordResetToken, type InsertPasswordResetToken, type QrToken, type InsertQrToken, type ChargeSession, type InsertChargeSession, type PosTopup, type InsertPosTopup, type PosShift, type Product, type InsertProduct, type ChargeItem, type Receipt, type MetricsDaily, type JobRun, type InsertJobRun, type TopupPayment, type InsertTopupPayment, type TopupPaymentStatus, type TopupPackage, type InsertTopupPackage, type WebhookEndpoint, type InsertWebhookEndpoint, type WebhookDelivery, type InsertWebhookDelivery, type BonusLot, type StampProgram, type InsertStampProgram, type StampReward, type Referral, type InsertReferral, type ReferralSettings, type WalletTransfer, type VoucherBatch, type InsertVoucherBatch, type Voucher, type VoucherRedemption } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, count, sum, gte, lt, isNull, gt } from "drizzle-orm";
+import { eq, and, or, desc, sql, count, sum, gte, lt, lte, isNull, isNotNull, gt, inArray, arrayContains } from "drizzle-orm";
+import { ledgerService, LEDGER_CUTOVER, type LedgerExecutor } from "./routes/ledger/service";
+import { createLedgerError, SystemAccount } from "@shared/contracts/ledger";
+import { splitDebit, paidBalance, type CreditBucket, type CreditSplit } from "./credit-buckets";
+import { allocateFifo, bonusExpiresAt, type LotAllocation } from "./bonus-lots";
+import { stampsForCharge, rewardsDue } from "./stamp-rules";
+import type { CustomerTier } from "./customer-tiers";
+import { generateReferralCode, rewardRejection, type ReferralRejectReason } from "./referral-rules";
+import { transferLimitError } from "./transfer-rules";
+import { redemptionRejection, voucherTopupBonus, type VoucherRejectReason } from "./voucher-rules";
+import { SHIFT_ACTIVITY_TYPES, type ShiftActivity, type ZReport } from "./shift-report";
+import type { PricedItem } from "./basket";
+import { formatReceiptNumber, receiptYear, type VatLine } from "./receipt";
+import { alias } from "drizzle-orm/pg-core";
+
+// Stamps one charge earned on one programme
+export interface StampAward {
+  programId: string;
+  programName: string;
+  earned: number;
+  rewardsIssued: number;
+}
+
+export interface StampCard {
+  program: StampProgram;
+  stamps: number;
+  rewards: StampReward[]; // available ones
+}
+
+export type AtomicChargeResult =
+  | { status: "ok"; session: ChargeSession; transaction: Transaction; wallet: Wallet; stamps: StampAward[]; receipt: Receipt }
+  | { status: "session_unavailable" }
+  | { status: "insufficient_funds"; balanceCents: number };
+
+// What the charge service knows about a receipt before the charge is written
+export interface ReceiptDraft {
+  staffName: string;
+  listAmountCents: number;
+  discountCents: number;
+  vatLines: VatLine[];
+}
+
+export type AtomicPosTopupResult =
+  | { status: "ok"; topup: PosTopup; transaction: Transaction; wallet: Wallet }
+  | { status: "session_unavailable" };
+
+export type AtomicPosTopupVoidResult =
+  | { status: "ok"; topup: PosTopup; transaction: Transaction; wallet: Wallet }
+  | { status: "not_voidable" }
+  | { status: "credit_spent" }
+  | { status: "rewards_settled" };
+
+export type TopupPaymentCaptureResult =
+  | { status: "ok"; payment: TopupPayment; transaction: Transaction; wallet: Wallet }
+  | { status: "already_captured"; payment: TopupPayment }
+  | { status: "not_capturable"; payment: TopupPayment }
+  | { status: "not_found" };
+
+// Top-up that settles a pending referral or percent voucher: a captured card payment or a confirmed cash top-up
+export type QualifyingTopup = { paymentId: string } | { posTopupId: string };
+
+export type ReferralRewardResult =
+  | { status: "ok"; referral: Referral; transactions: Transaction[] }
+  | { status: "rejected"; referral: Referral }
+  | { status: "no_pending_referral" };
+
+// One row of the admin referral report
+export type ReferralReportRow = Referral & {
+  referrerName: string;
+  referrerEmail: string;
+  refereeName: string;
+  refereeEmail: string;
+};
+
+export type WalletTransferResult =
+  | { status: "ok"; transfer: WalletTransfer; transaction: Transaction; wallet: Wallet }
+  | { status: "idempotent"; transfer: WalletTransfer }
+  | { status: "insufficient_funds"; paidBalanceCents: number }
+  | { status: "limit_exceeded"; message: string };
+
+// Gift refunded to its sender, or credited to the customer who claimed it
+export interface GiftSettlement {
+  transfer: WalletTransfer;
+  transaction: Transaction;
+}
+
+export type GiftClaimResult =
+  | ({ status: "ok" } & GiftSettlement)
+  | { status: "not_found" } // unknown link, or the gift was claimed, cancelled or expired
+  | { status: "wrong_recipient" };
+
+// Transfer as listed to one of its two customers
+export type WalletTransferView = WalletTransfer & { senderName: string; recipientName: string | null };
+
+export type VoucherBatchCreateResult =
+  | { status: "ok"; batch: VoucherBatch; vouchers: Voucher[] }
+  | { status: "code_taken"; codes: string[] };
+
+// Batch with its usage, for the admin list
+export type VoucherBatchSummary = VoucherBatch & { codes: number; redemptions: number; creditedCents: number };
+
+export type VoucherRedemptionResult =
+  | { status: "ok"; batch: VoucherBatch; redemption: VoucherRedemption; transaction: Transaction | null; wallet: Wallet }
+  | { status: "rejected"; reason: VoucherRejectReason }
+  | { status: "not_found" };
+
+export type VoucherTopupBonusResult =
+  | { status: "ok"; redemption: VoucherRedemption; transaction: Transaction }
+  | { status: "expired"; redemption: VoucherRedemption }
+  | { status: "no_pending_voucher" };
+
+// Redemption as listed to the customer
+export type VoucherRedemptionView = VoucherRedemption & Pick<VoucherBatch, "name" | "type" | "valueCents" | "bonusBps"> & { code: string };
+
+// Shift as listed to admins
+export type PosShiftView = PosShift & { adminName: string };
+
+// Units sold of one product in a period, voided charges excluded
+export interface ProductSalesRow {
+  productId: string;
+  name: string;
+  category: string;
+  quantity: number;
+  revenueCents: number; // list prices, before tier discounts
+  vatCents: number;
+  charges: number;
+}
+
+// Receipt with the lines it was issued for; voided when its charge has been voided since
+export type ReceiptView = Receipt & { items: ChargeItem[]; voided: boolean };
+
+export type RewardRedemptionResult =
+  | { status: "ok"; session: ChargeSession; reward: StampReward; wallet: Wallet }
+  | { status: "session_unavailable" }
+  | { status: "reward_unavailable" };
+
+export type AtomicAdjustmentResult =
+  | { status: "ok"; transaction: Transaction; wallet: Wallet }
+  | { status: "wallet_not_found" }
+  | { status: "insufficient_funds"; balanceCents: number };
 
 export interface IStorage {
   // User operations
@@ -42,6 +181,177 @@ export interface IStorage {
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   getUserTransactions(userId: string, limit?: number, cursor?: string): Promise<Transaction[]>;
   getTransactionById(id: string): Promise<Transaction | undefined>;
+  executeAtomicAdjustment(params: {
+    userId: string;
+    amountCents: number;
+    bucket?: CreditBucket;
+    idempotencyKey: string;
+    createdBy: string;
+    meta: Record<string, any>;
+  }): Promise<AtomicAdjustmentResult>;
+
+  // Top-up package operations
+  getTopupPackages(): Promise<TopupPackage[]>;
+  getCurrentTopupPackage(code: string): Promise<TopupPackage | undefined>;
+  getTopupPackage(id: string): Promise<TopupPackage | undefined>;
+  createTopupPackage(pkg: Omit<InsertTopupPackage, "version">): Promise<TopupPackage | undefined>;
+  reviseTopupPackage(code: string, changes: Partial<Omit<InsertTopupPackage, "code" | "version">>): Promise<TopupPackage | undefined>;
+
+  // Top-up payment operations
+  createTopupPayment(payment: InsertTopupPayment): Promise<TopupPayment>;
+  getTopupPayment(id: string): Promise<TopupPayment | undefined>;
+  getTopupPaymentByIdempotencyKey(userId: string, idempotencyKey: string): Promise<TopupPayment | undefined>;
+  getTopupPaymentByProviderRef(provider: string, providerRef: string): Promise<TopupPayment | undefined>;
+  setTopupPaymentProviderRef(id: string, providerRef: string, redirectUrl: string | null): Promise<TopupPayment>;
+  transitionTopupPayment(id: string, from: TopupPaymentStatus[], to: "authorized" | "failed", failureReason?: string): Promise<TopupPayment | undefined>;
+  captureTopupPayment(id: string): Promise<TopupPaymentCaptureResult>;
+
+  // Webhook operations
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  getWebhookEndpoints(): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  updateWebhookEndpoint(id: string, changes: Partial<Pick<InsertWebhookEndpoint, "url" | "description" | "events" | "isActive">>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(id: string): Promise<boolean>;
+  getSubscribedWebhookEndpoints(event: string): Promise<WebhookEndpoint[]>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  claimWebhookDeliveries(params: { ids?: string[]; limit: number; leaseMs: number }): Promise<WebhookDelivery[]>;
+  recordWebhookAttempt(id: string, outcome: {
+    status: WebhookDelivery["status"];
+    nextAttemptAt: Date;
+    statusCode: number | null;
+    error: string | null;
+    kid: string | null;
+  }): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(filter: { endpointId?: string; status?: WebhookDelivery["status"]; limit: number }): Promise<WebhookDelivery[]>;
+
+  // Bonus lot operations
+  getOpenBonusLots(userId: string): Promise<BonusLot[]>;
+  getBonusLotsToWarn(until: Date, limit: number): Promise<(BonusLot & { email: string; name: string })[]>;
+  markBonusLotsWarned(ids: string[]): Promise<void>;
+  getExpiredBonusLotIds(now: Date, limit: number): Promise<string[]>;
+  expireBonusLot(id: string, now: Date): Promise<{ transaction: Transaction; amountCents: number } | undefined>;
+
+  // Stamp card operations
+  getStampPrograms(): Promise<StampProgram[]>;
+  getStampProgram(id: string): Promise<StampProgram | undefined>;
+  createStampProgram(program: InsertStampProgram): Promise<StampProgram>;
+  updateStampProgram(id: string, changes: Partial<Omit<InsertStampProgram, "createdBy">>): Promise<StampProgram | undefined>;
+  getStampCards(userId: string): Promise<StampCard[]>;
+  executeRewardRedemption(params: { chargeId: string; rewardId: string }): Promise<RewardRedemptionResult>;
+  executeRewardVoid(params: { chargeId: string; voidWindowMs: number }): Promise<{ session: ChargeSession; reward: StampReward; wallet: Wallet } | undefined>;
+
+  // Customer tier operations
+  getRollingChargeSpend(userId: string, since: Date): Promise<number>;
+  getTierSpends(since: Date): Promise<{ userId: string; tier: CustomerTier; tierSpendCents: number; spendCents: number }[]>;
+  setUserTier(userId: string, tier: CustomerTier, spendCents: number): Promise<User | undefined>;
+
+  // Referral operations
+  getUserByReferralCode(code: string): Promise<User | undefined>;
+  getReferralSettings(): Promise<ReferralSettings>;
+  updateReferralSettings(changes: Partial<Omit<ReferralSettings, "id" | "updatedAt">>): Promise<ReferralSettings>;
+  getReferrerOriginMatch(referrerId: string, ip: string, userAgent: string): Promise<{ sameIp: boolean; sameDevice: boolean }>;
+  createReferral(referral: InsertReferral): Promise<Referral>;
+  getReferralsByReferrer(referrerId: string): Promise<(Referral & { refereeName: string })[]>;
+  rejectReferral(id: string, reason: ReferralRejectReason): Promise<Referral | undefined>;
+  executeReferralReward(params: { refereeId: string; topup: QualifyingTopup }): Promise<ReferralRewardResult>;
+  getReferralReport(filter: { status?: Referral["status"]; limit: number }): Promise<ReferralReportRow[]>;
+  getReferrerStats(limit: number): Promise<{ referrerId: string; name: string; email: string; total: number; pending: number; rewarded: number; rejected: number; bonusCents: number }[]>;
+
+  // Wallet transfer operations
+  getUserByEmailIgnoringCase(email: string): Promise<User | undefined>;
+  executeWalletTransfer(params: {
+    senderId: string;
+    recipientId: string | null;
+    recipientEmail: string;
+    amountCents: number;
+    message: string | null;
+    idempotencyKey: string;
+    expiresAt: Date | null;
+  }): Promise<WalletTransferResult>;
+  claimGift(claimTokenHash: string, user: { id: string; email: string }, now?: Date): Promise<GiftClaimResult>;
+  refundGift(id: string, status: "cancelled" | "expired", options: { senderId?: string; now?: Date }): Promise<GiftSettlement | undefined>;
+  getExpiredGiftIds(now: Date, limit: number): Promise<string[]>;
+  getWalletTransfers(userId: string, limit: number): Promise<WalletTransferView[]>;
+
+  // Voucher operations
+  createVoucherBatch(batch: InsertVoucherBatch, codes: string[]): Promise<VoucherBatchCreateResult>;
+  getVoucherBatches(): Promise<VoucherBatchSummary[]>;
+  getVoucherBatch(id: string): Promise<VoucherBatch | undefined>;
+  getVouchersByBatch(batchId: string): Promise<Voucher[]>;
+  setVoucherBatchActive(id: string, isActive: boolean): Promise<VoucherBatch | undefined>;
+  redeemVoucher(params: { userId: string; code: string; now?: Date }): Promise<VoucherRedemptionResult>;
+  applyVoucherTopupBonus(params: { userId: string; topup: QualifyingTopup; now?: Date }): Promise<VoucherTopupBonusResult>;
+  getVoucherRedemptionsByUser(userId: string, limit: number): Promise<VoucherRedemptionView[]>;
+
+  // QR token operations
+  createQrToken(token: InsertQrToken): Promise<QrToken>;
+  findQrToken(lookup: { shortCode: string; payloadHash: string }): Promise<QrToken | undefined>;
+  consumeQrToken(lookup: { shortCode: string; payloadHash: string }): Promise<QrToken | undefined>;
+  deleteExpiredQrTokens(expiredBefore: Date): Promise<number>;
+
+  // Charge session operations
+  createChargeSession(session: InsertChargeSession): Promise<ChargeSession>;
+  getChargeSession(id: string): Promise<ChargeSession | undefined>;
+  setChargeSessionLedgerTx(id: string, ledgerTxId: string): Promise<void>;
+  expireChargeSessions(): Promise<number>;
+  executeAtomicCharge(params: {
+    chargeId: string;
+    amountCents: number;
+    idempotencyKey: string;
+    createdBy: string;
+    meta: Record<string, any>;
+    items?: PricedItem[]; // basket lines of an itemised charge
+    receipt: ReceiptDraft;
+  }): Promise<AtomicChargeResult>;
+  executeAtomicVoid(params: {
+    chargeId: string;
+    voidWindowMs: number;
+    createdBy: string;
+    meta: Record<string, any>;
+  }): Promise<{ session: ChargeSession; transaction: Transaction; wallet: Wallet } | undefined>;
+
+  // POS top-up operations
+  createPosTopup(topup: InsertPosTopup): Promise<PosTopup>;
+  getPosTopup(id: string): Promise<PosTopup | undefined>;
+  expirePosTopups(): Promise<number>;
+  executePosTopup(params: {
+    topupId: string;
+    packageCode: string | null;
+    packageId: string | null;
+    packageData: { pay: number; bonus: number; total: number };
+    idempotencyKey: string;
+    meta: Record<string, any>;
+  }): Promise<AtomicPosTopupResult>;
+  executePosTopupVoid(params: {
+    topupId: string;
+    voidWindowMs: number;
+    voidedBy: string;
+    meta: Record<string, any>;
+  }): Promise<AtomicPosTopupVoidResult>;
+
+  // POS shift operations
+  openPosShift(params: { adminId: string; adminSessionId: string | null; openingFloatCents: number }): Promise<PosShift | undefined>;
+  getOpenPosShift(adminId: string): Promise<PosShift | undefined>;
+  getPosShift(id: string): Promise<PosShiftView | undefined>;
+  getPosShifts(params: { adminId?: string; limit: number; offset: number }): Promise<PosShiftView[]>;
+  getShiftActivity(adminId: string, from: Date, to: Date): Promise<ShiftActivity[]>;
+  closePosShift(params: { shiftId: string; closedAt: Date; report: ZReport; note: string | null }): Promise<PosShift | undefined>;
+
+  // Product catalogue operations
+  getProducts(filter?: { activeOnly?: boolean }): Promise<Product[]>;
+  getProduct(id: string): Promise<Product | undefined>;
+  getProductsByIds(ids: string[]): Promise<Product[]>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: string, changes: Partial<Omit<InsertProduct, "createdBy">>): Promise<Product | undefined>;
+  deleteProduct(id: string): Promise<Product | undefined>;
+  getChargeItems(chargeIds: string[]): Promise<ChargeItem[]>;
+  getProductSales(params: { from: Date; to: Date }): Promise<ProductSalesRow[]>;
+
+  // Receipt operations
+  getReceipt(id: string): Promise<ReceiptView | undefined>;
+  getReceiptsByChargeIds(chargeIds: string[]): Promise<Receipt[]>;
+  markReceiptEmailed(id: string): Promise<void>;
 
   // Audit operations
   createAuditLog(log: InsertAuditLog): Promise<void>;
@@ -65,6 +375,8 @@ export interface IStorage {
   getSummaryStats(): Promise<{
     membersCount: number;
     liabilityCents: number;
+    paidLiabilityCents: number;
+    bonusLiabilityCents: number;
     bonusGrantedTotalCents: number;
     spendTodayCents: number;
     spendWeekCents: number;
@@ -73,8 +385,26 @@ export interface IStorage {
     todayTotalCents: number;
     todayCount: number;
     membersCount: number;
+    newMembersMonthCount: number;
   }>;
   getRecentTransactions(limit?: number): Promise<(Transaction & { user: { name: string } })[]>;
+
+  // Scheduled job operations
+  acquireJobLock(jobName: string, instanceId: string, slot: Date, leaseMs: number): Promise<boolean>;
+  releaseJobLock(jobName: string, instanceId: string): Promise<void>;
+  startJobRun(run: InsertJobRun): Promise<JobRun>;
+  finishJobRun(id: string, outcome: { status: "succeeded" | "failed"; result?: Record<string, unknown> | null; error?: string | null }): Promise<void>;
+  getJobRuns(filter: { jobName?: string; status?: JobRun["status"]; limit: number }): Promise<JobRun[]>;
+  getLatestJobRuns(): Promise<JobRun[]>;
+
+  // Maintenance operations
+  expirePasswordResetTokens(): Promise<number>;
+  pruneIdempotencyKeys(seenBefore: Date): Promise<number>;
+  pruneTokenBlacklist(): Promise<number>;
+  pruneAdminSessions(endedBefore: Date): Promise<number>;
+  rollupMetricsDaily(date: string): Promise<MetricsDaily>;
+  getLatestMetricsDate(): Promise<string | null>;
+  getMetricsDaily(from: string, to: string): Promise<MetricsDaily[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -98,7 +428,7 @@ export class DatabaseStorage implements IStorage {
   async createUser(user: InsertUser & { passwordHash?: string | null }): Promise<User> {
     const [newUser] = await db
       .insert(users)
-      .values(user)
+      .values({ ...user, referralCode: generateReferralCode() })
       .returning();
 
     // Create wallet for new user
@@ -141,7 +471,18 @@ export class DatabaseStorage implements IStorage {
 
   async getWalletByUserId(userId: string): Promise<Wallet | undefined> {
     const [wallet] = await db.select().from(wallets).where(eq(wallets.userId, userId));
-    return wallet || undefined;
+    return wallet ? await this.withLedgerBalance(wallet) : undefined;
+  }
+
+  // In ledger cutover mode the customer credit accounts (2000 paid, 2010 bonus) are
+  // the source of truth; the wallet row is still maintained but its balances are not trusted
+  private async withLedgerBalance(wallet: Wallet, executor: LedgerExecutor = db): Promise<Wallet> {
+    if (!LEDGER_CUTOVER) {
+      return wallet;
+    }
+
+    const balance = await ledgerService.getBalance(wallet.userId, executor);
+    return { ...wallet, balanceCents: balance?.balanceMinor ?? 0, bonusBalanceCents: balance?.bonusMinor ?? 0 };
   }
 
   async createWallet(userId: string): Promise<Wallet> {
@@ -355,306 +696,2798 @@ export class DatabaseStorage implements IStorage {
     return transaction || undefined;
   }
 
-  async createAuditLog(log: InsertAuditLog): Promise<void> {
-    await db.insert(auditLogs).values(log);
-  }
-
-  // Enhanced audit logging for new auth system
-  async createEnhancedAuditLog(data: {
-    event: string;
-    userId: string | null;
-    ip: string;
-    userAgent: string;
-    meta: Record<string, any>;
-    timestamp: Date;
-  }): Promise<void> {
-    await db.insert(auditLogs).values({
-      actorType: data.userId ? "user" : "system",
-      actorId: data.userId,
-      action: data.event,
-      meta: data.meta
-    });
+  async createQrToken(token: InsertQrToken): Promise<QrToken> {
+    const [newToken] = await db
+      .insert(qrTokens)
+      .values(token)
+      .returning();
+    return newToken;
   }
 
-  async checkIdempotency(key: string, requestHash: string): Promise<boolean> {
-    const [existing] = await db
+  async findQrToken(lookup: { shortCode: string; payloadHash: string }): Promise<QrToken | undefined> {
+    const [token] = await db
       .select()
-      .from(idempotencyKeys)
-      .where(eq(idempotencyKeys.key, key));
-
-    if (!existing) return false;
-    return existing.requestHash === requestHash;
+      .from(qrTokens)
+      .where(or(
+        eq(qrTokens.shortCode, lookup.shortCode),
+        eq(qrTokens.payloadHash, lookup.payloadHash)
+      ))
+      .limit(1);
+    return token || undefined;
   }
 
-  async setIdempotency(key: string, requestHash: string): Promise<void> {
-    await db
-      .insert(idempotencyKeys)
-      .values({ key, requestHash })
-      .onConflictDoNothing();
+  // Single use is enforced by the conditional UPDATE: only one caller can flip used_at
+  async consumeQrToken(lookup: { shortCode: string; payloadHash: string }): Promise<QrToken | undefined> {
+    const [token] = await db
+      .update(qrTokens)
+      .set({ usedAt: sql`now()` })
+      .where(and(
+        or(
+          eq(qrTokens.shortCode, lookup.shortCode),
+          eq(qrTokens.payloadHash, lookup.payloadHash)
+        ),
+        isNull(qrTokens.usedAt),
+        gt(qrTokens.expiresAt, sql`now()`)
+      ))
+      .returning();
+    return token || undefined;
   }
 
-  async getCustomersList(search?: string, limit: number = 50, offset: number = 0): Promise<{ users: (User & { wallet: Wallet })[], total: number }> {
-    let whereCondition = undefined;
+  async deleteExpiredQrTokens(expiredBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(qrTokens)
+      .where(lt(qrTokens.expiresAt, expiredBefore))
+      .returning({ id: qrTokens.id });
+    return deleted.length;
+  }
 
-    if (search) {
-      whereCondition = sql`${users.name} ILIKE ${`%${search}%`} OR ${users.email} ILIKE ${`%${search}%`}`;
-    }
+  async createChargeSession(session: InsertChargeSession): Promise<ChargeSession> {
+    const [newSession] = await db
+      .insert(chargeSessions)
+      .values(session)
+      .returning();
+    return newSession;
+  }
 
-    const results = await db
-      .select({
-        user: users,
-        wallet: wallets
-      })
-      .from(users)
-      .leftJoin(wallets, eq(users.id, wallets.userId))
-      .where(whereCondition)
-      .limit(limit)
-      .offset(offset)
-      .orderBy(desc(users.createdAt));
+  async getChargeSession(id: string): Promise<ChargeSession | undefined> {
+    const [session] = await db.select().from(chargeSessions).where(eq(chargeSessions.id, id));
+    return session || undefined;
+  }
 
-    const [totalResult] = await db
-      .select({ count: count() })
-      .from(users);
+  async setChargeSessionLedgerTx(id: string, ledgerTxId: string): Promise<void> {
+    await db
+      .update(chargeSessions)
+      .set({ ledgerTxId })
+      .where(eq(chargeSessions.id, id));
+  }
 
-    return {
-      users: results.map(r => ({ ...r.user, wallet: r.wallet! })),
-      total: totalResult.count
-    };
+  async expireChargeSessions(): Promise<number> {
+    const expired = await db
+      .update(chargeSessions)
+      .set({ status: "expired" })
+      .where(and(
+        eq(chargeSessions.status, "initiated"),
+        lt(chargeSessions.expiresAt, sql`now()`)
+      ))
+      .returning({ id: chargeSessions.id });
+    return expired.length;
   }
 
+  async executeAtomicCharge(params: {
+    chargeId: string;
+    amountCents: number;
+    idempotencyKey: string;
+    createdBy: string;
+    meta: Record<string, any>;
+    items?: PricedItem[];
+    receipt: ReceiptDraft;
+  }): Promise<AtomicChargeResult> {
+    const { chargeId, amountCents, idempotencyKey, createdBy, meta, items = [], receipt: draft } = params;
 
+    return await db.transaction(async (tx) => {
+      const [pending] = await tx
+        .select()
+        .from(chargeSessions)
+        .where(eq(chargeSessions.id, chargeId));
 
-  async getSummaryStats(): Promise<{
-    membersCount: number;
-    liabilityCents: number;
-    bonusGrantedTotalCents: number;
-    spendTodayCents: number;
-    spendWeekCents: number;
-  }> {
-    const [membersResult] = await db
-      .select({ count: count() })
-      .from(users)
-      .where(eq(users.status, "active"));
+      if (!pending) {
+        return { status: "session_unavailable" as const };
+      }
 
-    const [liabilityResult] = await db
-      .select({ 
-        total: sum(wallets.balanceCents),
-        bonusTotal: sum(wallets.bonusGrantedTotalCents)
-      })
-      .from(wallets);
+      // Lock the wallet row so concurrent charges for the same user serialize here
+      const [wallet] = await tx
+        .select()
+        .from(wallets)
+        .where(eq(wallets.userId, pending.userId))
+        .for("update");
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+      const available = wallet ? await this.withLedgerBalance(wallet, tx) : undefined;
+      if (!available || available.balanceCents < amountCents) {
+        return { status: "insufficient_funds" as const, balanceCents: available?.balanceCents ?? 0 };
+      }
 
-    const weekAgo = new Date();
-    weekAgo.setDate(weekAgo.getDate() - 7);
+      const split = splitDebit(amountCents, { paidCents: paidBalance(available), bonusCents: available.bonusBalanceCents });
 
-    const [todaySpendResult] = await db
-      .select({ total: sql<number>`COALESCE(SUM(ABS(${transactions.amountCents})), 0)` })
-      .from(transactions)
-      .where(and(
-        eq(transactions.type, "charge"),
-        gte(transactions.createdAt, today)
-      ));
+      // Claim the session - only one confirm can win
+      const [session] = await tx
+        .update(chargeSessions)
+        .set({
+          status: "confirmed",
+          amountCents,
+          confirmedAt: sql`now()`
+        })
+        .where(and(
+          eq(chargeSessions.id, chargeId),
+          eq(chargeSessions.status, "initiated"),
+          gt(chargeSessions.expiresAt, sql`now()`)
+        ))
+        .returning();
 
-    const [weekSpendResult] = await db
-      .select({ total: sql<number>`COALESCE(SUM(ABS(${transactions.amountCents})), 0)` })
-      .from(transactions)
-      .where(and(
-        eq(transactions.type, "charge"),
-        gte(transactions.createdAt, weekAgo)
-      ));
+      if (!session) {
+        return { status: "session_unavailable" as const };
+      }
 
-    return {
-      membersCount: membersResult.count,
-      liabilityCents: Number(liabilityResult.total || 0),
-      bonusGrantedTotalCents: Number(liabilityResult.bonusTotal || 0),
-      spendTodayCents: Number(todaySpendResult.total || 0),
-      spendWeekCents: Number(weekSpendResult.total || 0)
-    };
-  }
+      // Only once the claim won: a losing confirm commits with nothing written
+      const bonusLotsUsed = await this.consumeBonusLots(tx, session.userId, split.bonusCents);
+
+      const [transaction] = await tx
+        .insert(transactions)
+        .values({
+          userId: session.userId,
+          type: "charge",
+          amountCents: -amountCents, // Debit
+          relatedId: chargeId,
+          idempotencyKey,
+          createdBy,
+          meta: { ...meta, ...split, ...(bonusLotsUsed.length > 0 && { bonusLots: bonusLotsUsed }) }
+        })
+        .returning();
 
-  async getDashboardStats(): Promise<{
-    todayTotalCents: number;
-    todayCount: number;
-    membersCount: number;
-  }> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+      const [updatedWallet] = await tx
+        .update(wallets)
+        .set({
+          balanceCents: sql`${wallets.balanceCents} - ${amountCents}`,
+          bonusBalanceCents: sql`${wallets.bonusBalanceCents} - ${split.bonusCents}`,
+          lastActivityAt: new Date()
+        })
+        .where(eq(wallets.userId, session.userId))
+        .returning();
 
-    const [membersResult] = await db
-      .select({ count: count() })
-      .from(users)
-      .where(eq(users.status, "active"));
+      let ledgerTxId: string | null = null;
+      if (LEDGER_CUTOVER) {
+        const posting = await ledgerService.charge(
+          { userId: session.userId, amountMinor: amountCents, bonusMinor: split.bonusCents, note: `charge ${chargeId}` },
+          { executor: tx, originRef: transaction.id }
+        );
+        ledgerTxId = posting.txId;
+      }
 
-    const [todayStatsResult] = await db
-      .select({ 
-        total: sql<number>`COALESCE(SUM(ABS(${transactions.amountCents})), 0)`,
-        count: count()
-      })
-      .from(transactions)
-      .where(and(
-        eq(transactions.type, "charge"),
-        gte(transactions.createdAt, today)
-      ));
+      const [linkedSession] = await tx
+        .update(chargeSessions)
+        .set({ transactionId: transaction.id, ledgerTxId })
+        .where(eq(chargeSessions.id, chargeId))
+        .returning();
 
-    return {
-      todayTotalCents: Number(todayStatsResult.total || 0),
-      todayCount: Number(todayStatsResult.count || 0),
-      membersCount: membersResult.count
-    };
-  }
+      if (items.length > 0) {
+        await tx.insert(chargeItems).values(items.map(item => ({ ...item, chargeId })));
+      }
 
-  async getRecentTransactions(limit: number = 10): Promise<(Transaction & { user: { name: string } })[]> {
-    return await db
-      .select({
-        transaction: transactions,
-        user: { name: users.name }
-      })
-      .from(transactions)
-      .leftJoin(users, eq(transactions.userId, users.id))
-      .orderBy(desc(transactions.createdAt))
-      .limit(limit)
-      .then(results => results.map(r => ({ ...r.transaction, user: r.user! })));
-  }
+      const stamps = await this.awardStamps(tx, session.userId, chargeId, amountCents);
+      const walletAfter = await this.withLedgerBalance(updatedWallet, tx);
+
+      const issuedAt = new Date();
+      const year = receiptYear(issuedAt);
+      const [counter] = await tx
+        .insert(receiptNumberCounters)
+        .values({ year, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: receiptNumberCounters.year,
+          set: { lastNumber: sql`${receiptNumberCounters.lastNumber} + 1` }
+        })
+        .returning();
 
-  async getTransactionByIdempotencyKey(idempotencyKey: string): Promise<Transaction | null> {
-    const [result] = await db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.idempotencyKey, idempotencyKey))
-      .limit(1);
-    
-    return result || null;
+      const [receipt] = await tx
+        .insert(receipts)
+        .values({
+          receiptNumber: formatReceiptNumber(year, counter.lastNumber),
+          chargeId,
+          userId: session.userId,
+          adminId: session.adminId,
+          ...draft,
+          issuedAt,
+          amountCents,
+          balanceAfterCents: walletAfter.balanceCents
+        })
+        .returning();
+
+      return {
+        status: "ok" as const,
+        session: linkedSession,
+        transaction,
+        wallet: walletAfter,
+        stamps,
+        receipt
+      };
+    });
   }
 
-  async executeAtomicTopup(params: {
-    userId: string;
-    packageCode: string;
-    packageData: { pay: number; bonus: number; total: number };
-    idempotencyKey: string;
+  async executeAtomicVoid(params: {
+    chargeId: string;
+    voidWindowMs: number;
     createdBy: string;
-  }): Promise<Wallet> {
-    const { userId, packageCode, packageData, idempotencyKey, createdBy } = params;
-    
+    meta: Record<string, any>;
+  }): Promise<{ session: ChargeSession; transaction: Transaction; wallet: Wallet } | undefined> {
+    const { chargeId, voidWindowMs, createdBy, meta } = params;
+
     return await db.transaction(async (tx) => {
-      // Create transaction record first (this ensures idempotency)
-      await tx.insert(transactions).values({
-        userId,
-        type: "topup",
-        amountCents: packageData.total,
-        relatedId: null,
-        idempotencyKey,
-        createdBy,
-        meta: {
-          packageCode,
-          payCents: packageData.pay,
-          bonusCents: packageData.bonus
-        }
-      });
+      const [session] = await tx
+        .update(chargeSessions)
+        .set({
+          status: "voided",
+          voidedAt: sql`now()`
+        })
+        .where(and(
+          eq(chargeSessions.id, chargeId),
+          eq(chargeSessions.status, "confirmed"),
+          isNull(chargeSessions.rewardId), // reward redemptions go through executeRewardVoid
+          gt(chargeSessions.confirmedAt, new Date(Date.now() - voidWindowMs))
+        ))
+        .returning();
 
-      // Update wallet balance and bonus atomically with SQL operations
-      await tx
+      if (!session) {
+        return undefined;
+      }
+
+      const amountCents = session.amountCents!;
+
+      // Give back to the sub-balances the charge took from; charges that predate
+      // the split were paid credit
+      const [charge] = session.transactionId
+        ? await tx.select().from(transactions).where(eq(transactions.id, session.transactionId))
+        : [];
+      const chargeMeta = (charge?.meta ?? {}) as Record<string, any>;
+      const bonusCents = Number(chargeMeta.bonusCents ?? 0);
+      await this.restoreBonusLots(tx, chargeMeta.bonusLots ?? []);
+
+      const [transaction] = await tx
+        .insert(transactions)
+        .values({
+          userId: session.userId,
+          type: "void",
+          amountCents, // Credit back
+          relatedId: chargeId,
+          idempotencyKey: `void-${chargeId}`,
+          createdBy,
+          meta: { ...meta, paidCents: amountCents - bonusCents, bonusCents }
+        })
+        .returning();
+
+      const [wallet] = await tx
         .update(wallets)
         .set({
-          balanceCents: sql`${wallets.balanceCents} + ${packageData.total}`,
-          bonusGrantedTotalCents: sql`${wallets.bonusGrantedTotalCents} + ${packageData.bonus}`,
+          balanceCents: sql`${wallets.balanceCents} + ${amountCents}`,
+          bonusBalanceCents: sql`${wallets.bonusBalanceCents} + ${bonusCents}`,
           lastActivityAt: new Date()
         })
-        .where(eq(wallets.userId, userId));
+        .where(eq(wallets.userId, session.userId))
+        .returning();
 
-      // Return updated wallet
-      const [updatedWallet] = await tx
-        .select()
-        .from(wallets)
+      if (LEDGER_CUTOVER) {
+        if (!session.ledgerTxId) {
+          throw createLedgerError("TX_NOT_FOUND", `Charge ${chargeId} has no ledger posting to reverse`);
+        }
+        await ledgerService.reversal({ txId: session.ledgerTxId }, { executor: tx, originRef: transaction.id });
+      }
+
+      await this.revokeStamps(tx, session.userId, chargeId);
+
+      return { session, transaction, wallet: await this.withLedgerBalance(wallet, tx) };
+    });
+  }
+
+  async createPosTopup(topup: InsertPosTopup): Promise<PosTopup> {
+    const [created] = await db.insert(posTopups).values(topup).returning();
+    return created;
+  }
+
+  async getPosTopup(id: string): Promise<PosTopup | undefined> {
+    const [topup] = await db.select().from(posTopups).where(eq(posTopups.id, id));
+    return topup || undefined;
+  }
+
+  async expirePosTopups(): Promise<number> {
+    const expired = await db
+      .update(posTopups)
+      .set({ status: "expired" })
+      .where(and(
+        eq(posTopups.status, "initiated"),
+        lt(posTopups.expiresAt, sql`now()`)
+      ))
+      .returning({ id: posTopups.id });
+    return expired.length;
+  }
+
+  // Credits cash taken at the counter to an initialized top-up, exactly once
+  async executePosTopup(params: {
+    topupId: string;
+    packageCode: string | null;
+    packageId: string | null;
+    packageData: { pay: number; bonus: number; total: number };
+    idempotencyKey: string;
+    meta: Record<string, any>;
+  }): Promise<AtomicPosTopupResult> {
+    const { topupId, packageCode, packageId, packageData, idempotencyKey, meta } = params;
+
+    return await db.transaction(async (tx) => {
+      // Claim the top-up - only one confirm can win
+      const [claimed] = await tx
+        .update(posTopups)
+        .set({
+          status: "confirmed",
+          packageCode,
+          packageId,
+          amountCents: packageData.pay,
+          bonusCents: packageData.bonus,
+          confirmedAt: sql`now()`
+        })
+        .where(and(
+          eq(posTopups.id, topupId),
+          eq(posTopups.status, "initiated"),
+          gt(posTopups.expiresAt, sql`now()`)
+        ))
+        .returning();
+
+      if (!claimed) {
+        return { status: "session_unavailable" as const };
+      }
+
+      const { transaction, wallet, ledgerTxId } = await this.creditTopup(tx, {
+        userId: claimed.userId,
+        packageCode,
+        packageId,
+        packageData,
+        idempotencyKey,
+        createdBy: "admin",
+        relatedId: topupId,
+        tender: "cash",
+        meta
+      });
+
+      const [topup] = await tx
+        .update(posTopups)
+        .set({ transactionId: transaction.id, ledgerTxId })
+        .where(eq(posTopups.id, topupId))
+        .returning();
+
+      return { status: "ok" as const, topup, transaction, wallet };
+    });
+  }
+
+  // Takes a cash top-up back inside the void window. Only while the customer has not
+  // spent it: the paid part must still be in the wallet and the bonus lot untouched.
+  // Nor once it settled a referral or voucher bonus, which the cash refund would not undo
+  async executePosTopupVoid(params: {
+    topupId: string;
+    voidWindowMs: number;
+    voidedBy: string;
+    meta: Record<string, any>;
+  }): Promise<AtomicPosTopupVoidResult> {
+    const { topupId, voidWindowMs, voidedBy, meta } = params;
+
+    return await db.transaction(async (tx) => {
+      const [topup] = await tx
+        .select()
+        .from(posTopups)
+        .where(eq(posTopups.id, topupId))
+        .for("update");
+
+      if (!topup || topup.status !== "confirmed" || !topup.confirmedAt
+        || topup.confirmedAt.getTime() <= Date.now() - voidWindowMs) {
+        return { status: "not_voidable" as const };
+      }
+
+      const [referral] = await tx
+        .select({ id: referrals.id })
+        .from(referrals)
+        .where(and(eq(referrals.qualifyingPosTopupId, topupId), eq(referrals.status, "rewarded")));
+      const [redemption] = await tx
+        .select({ id: voucherRedemptions.id })
+        .from(voucherRedemptions)
+        .where(and(eq(voucherRedemptions.posTopupId, topupId), eq(voucherRedemptions.status, "credited")));
+      if (referral || redemption) {
+        return { status: "rewards_settled" as const };
+      }
+
+      const payCents = topup.amountCents!;
+      const bonusCents = topup.bonusCents ?? 0;
+
+      const [lockedWallet] = await tx
+        .select()
+        .from(wallets)
+        .where(eq(wallets.userId, topup.userId))
+        .for("update");
+
+      const available = lockedWallet ? await this.withLedgerBalance(lockedWallet, tx) : undefined;
+      if (!available || paidBalance(available) < payCents) {
+        return { status: "credit_spent" as const };
+      }
+
+      if (bonusCents > 0) {
+        const [lot] = await tx
+          .update(bonusLots)
+          .set({ remainingCents: 0 })
+          .where(and(
+            eq(bonusLots.transactionId, topup.transactionId!),
+            eq(bonusLots.remainingCents, bonusCents),
+            isNull(bonusLots.expiredAt)
+          ))
+          .returning();
+
+        if (!lot) {
+          return { status: "credit_spent" as const };
+        }
+      }
+
+      const [voided] = await tx
+        .update(posTopups)
+        .set({ status: "voided", voidedAt: sql`now()`, voidedBy })
+        .where(eq(posTopups.id, topupId))
+        .returning();
+
+      const [transaction] = await tx
+        .insert(transactions)
+        .values({
+          userId: topup.userId,
+          type: "topup_void",
+          amountCents: -(payCents + bonusCents), // Debit
+          relatedId: topupId,
+          idempotencyKey: `topup-void-${topupId}`,
+          createdBy: "admin",
+          meta: { ...meta, payCents, bonusCents, tender: "cash" }
+        })
+        .returning();
+
+      const [wallet] = await tx
+        .update(wallets)
+        .set({
+          balanceCents: sql`${wallets.balanceCents} - ${payCents + bonusCents}`,
+          bonusBalanceCents: sql`${wallets.bonusBalanceCents} - ${bonusCents}`,
+          bonusGrantedTotalCents: sql`${wallets.bonusGrantedTotalCents} - ${bonusCents}`,
+          lastActivityAt: new Date()
+        })
+        .where(eq(wallets.userId, topup.userId))
+        .returning();
+
+      if (LEDGER_CUTOVER) {
+        if (!topup.ledgerTxId) {
+          throw createLedgerError("TX_NOT_FOUND", `POS top-up ${topupId} has no ledger posting to reverse`);
+        }
+        await ledgerService.reversal({ txId: topup.ledgerTxId }, { executor: tx, originRef: transaction.id });
+      }
+
+      return { status: "ok" as const, topup: voided, transaction, wallet: await this.withLedgerBalance(wallet, tx) };
+    });
+  }
+
+  // Undefined when the staff member already has an open shift
+  async openPosShift(params: { adminId: string; adminSessionId: string | null; openingFloatCents: number }): Promise<PosShift | undefined> {
+    const [shift] = await db
+      .insert(posShifts)
+      .values({ ...params, status: "open" })
+      .onConflictDoNothing()
+      .returning();
+    return shift || undefined;
+  }
+
+  async getOpenPosShift(adminId: string): Promise<PosShift | undefined> {
+    const [shift] = await db
+      .select()
+      .from(posShifts)
+      .where(and(eq(posShifts.adminId, adminId), eq(posShifts.status, "open")));
+    return shift || undefined;
+  }
+
+  async getPosShift(id: string): Promise<PosShiftView | undefined> {
+    const [row] = await db
+      .select({ shift: posShifts, adminName: adminUsers.name })
+      .from(posShifts)
+      .innerJoin(adminUsers, eq(posShifts.adminId, adminUsers.id))
+      .where(eq(posShifts.id, id));
+    return row ? { ...row.shift, adminName: row.adminName } : undefined;
+  }
+
+  // Newest first
+  async getPosShifts(params: { adminId?: string; limit: number; offset: number }): Promise<PosShiftView[]> {
+    const rows = await db
+      .select({ shift: posShifts, adminName: adminUsers.name })
+      .from(posShifts)
+      .innerJoin(adminUsers, eq(posShifts.adminId, adminUsers.id))
+      .where(params.adminId ? eq(posShifts.adminId, params.adminId) : undefined)
+      .orderBy(desc(posShifts.openedAt))
+      .limit(params.limit)
+      .offset(params.offset);
+    return rows.map(row => ({ ...row.shift, adminName: row.adminName }));
+  }
+
+  // Transactions the staff member recorded in [from, to)
+  async getShiftActivity(adminId: string, from: Date, to: Date): Promise<ShiftActivity[]> {
+    return await db
+      .select({ type: transactions.type, amountCents: transactions.amountCents, meta: transactions.meta })
+      .from(transactions)
+      .where(and(
+        sql`${transactions.meta}->>'adminId' = ${adminId}`,
+        inArray(transactions.type, [...SHIFT_ACTIVITY_TYPES]),
+        gte(transactions.createdAt, from),
+        lt(transactions.createdAt, to)
+      ));
+  }
+
+  // Conditional on the shift still being open, so it is closed (and reported) once
+  async closePosShift(params: { shiftId: string; closedAt: Date; report: ZReport; note: string | null }): Promise<PosShift | undefined> {
+    const { shiftId, closedAt, report, note } = params;
+    const [shift] = await db
+      .update(posShifts)
+      .set({
+        status: "closed",
+        countedCashCents: report.countedCashCents,
+        expectedCashCents: report.expectedCashCents,
+        varianceCents: report.varianceCents,
+        report,
+        note,
+        closedAt
+      })
+      .where(and(eq(posShifts.id, shiftId), eq(posShifts.status, "open")))
+      .returning();
+    return shift || undefined;
+  }
+
+  async getProducts(filter: { activeOnly?: boolean } = {}): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .where(filter.activeOnly ? eq(products.isActive, true) : undefined)
+      .orderBy(products.category, products.name);
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.id, id));
+    return product || undefined;
+  }
+
+  async getProductsByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(products).where(inArray(products.id, ids));
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const [created] = await db.insert(products).values(product).returning();
+    return created;
+  }
+
+  async updateProduct(id: string, changes: Partial<Omit<InsertProduct, "createdBy">>): Promise<Product | undefined> {
+    const [updated] = await db
+      .update(products)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Only products that were never sold can be deleted; the rest are deactivated instead
+  async deleteProduct(id: string): Promise<Product | undefined> {
+    const [deleted] = await db
+      .delete(products)
+      .where(and(
+        eq(products.id, id),
+        sql`NOT EXISTS (SELECT 1 FROM ${chargeItems} WHERE ${chargeItems.productId} = ${products.id})`
+      ))
+      .returning();
+    return deleted || undefined;
+  }
+
+  async getChargeItems(chargeIds: string[]): Promise<ChargeItem[]> {
+    if (chargeIds.length === 0) return [];
+    return await db
+      .select()
+      .from(chargeItems)
+      .where(inArray(chargeItems.chargeId, chargeIds))
+      .orderBy(chargeItems.createdAt, chargeItems.id);
+  }
+
+  async getProductSales(params: { from: Date; to: Date }): Promise<ProductSalesRow[]> {
+    return await db
+      .select({
+        productId: chargeItems.productId,
+        name: products.name,
+        category: products.category,
+        quantity: sql<number>`SUM(${chargeItems.quantity})::integer`,
+        revenueCents: sql<number>`SUM(${chargeItems.lineTotalCents})::integer`,
+        vatCents: sql<number>`SUM(${chargeItems.vatCents})::integer`,
+        charges: sql<number>`COUNT(DISTINCT ${chargeItems.chargeId})::integer`
+      })
+      .from(chargeItems)
+      .innerJoin(chargeSessions, eq(chargeSessions.id, chargeItems.chargeId))
+      .innerJoin(products, eq(products.id, chargeItems.productId))
+      .where(and(
+        eq(chargeSessions.status, "confirmed"),
+        gte(chargeSessions.confirmedAt, params.from),
+        lt(chargeSessions.confirmedAt, params.to)
+      ))
+      .groupBy(chargeItems.productId, products.name, products.category)
+      .orderBy(desc(sql`SUM(${chargeItems.lineTotalCents})`));
+  }
+
+  async getReceipt(id: string): Promise<ReceiptView | undefined> {
+    const [row] = await db
+      .select({ receipt: receipts, chargeStatus: chargeSessions.status })
+      .from(receipts)
+      .innerJoin(chargeSessions, eq(chargeSessions.id, receipts.chargeId))
+      .where(eq(receipts.id, id));
+    if (!row) return undefined;
+
+    return {
+      ...row.receipt,
+      items: await this.getChargeItems([row.receipt.chargeId]),
+      voided: row.chargeStatus === "voided"
+    };
+  }
+
+  async getReceiptsByChargeIds(chargeIds: string[]): Promise<Receipt[]> {
+    if (chargeIds.length === 0) return [];
+    return await db
+      .select()
+      .from(receipts)
+      .where(inArray(receipts.chargeId, chargeIds));
+  }
+
+  async markReceiptEmailed(id: string): Promise<void> {
+    await db
+      .update(receipts)
+      .set({ emailedAt: new Date() })
+      .where(eq(receipts.id, id));
+  }
+
+  async createAuditLog(log: InsertAuditLog): Promise<void> {
+    await db.insert(auditLogs).values(log);
+  }
+
+  // Enhanced audit logging for new auth system
+  async createEnhancedAuditLog(data: {
+    event: string;
+    userId: string | null;
+    ip: string;
+    userAgent: string;
+    meta: Record<string, any>;
+    timestamp: Date;
+  }): Promise<void> {
+    await db.insert(auditLogs).values({
+      actorType: data.userId ? "user" : "system",
+      actorId: data.userId,
+      action: data.event,
+      meta: data.meta
+    });
+  }
+
+  async checkIdempotency(key: string, requestHash: string): Promise<boolean> {
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(eq(idempotencyKeys.key, key));
+
+    if (!existing) return false;
+    return existing.requestHash === requestHash;
+  }
+
+  async setIdempotency(key: string, requestHash: string): Promise<void> {
+    await db
+      .insert(idempotencyKeys)
+      .values({ key, requestHash })
+      .onConflictDoNothing();
+  }
+
+  async getCustomersList(search?: string, limit: number = 50, offset: number = 0): Promise<{ users: (User & { wallet: Wallet })[], total: number }> {
+    let whereCondition = undefined;
+
+    if (search) {
+      whereCondition = sql`${users.name} ILIKE ${`%${search}%`} OR ${users.email} ILIKE ${`%${search}%`}`;
+    }
+
+    const bonusBalances = alias(accountBalances, "bonus_balances");
+
+    const results = await db
+      .select({
+        user: users,
+        wallet: wallets,
+        ledgerPaidCents: accountBalances.balanceMinor,
+        ledgerBonusCents: bonusBalances.balanceMinor
+      })
+      .from(users)
+      .leftJoin(wallets, eq(users.id, wallets.userId))
+      .leftJoin(accountBalances, and(
+        eq(accountBalances.userId, users.id),
+        eq(accountBalances.accountCode, SystemAccount.CUSTOMER_CREDITS)
+      ))
+      .leftJoin(bonusBalances, and(
+        eq(bonusBalances.userId, users.id),
+        eq(bonusBalances.accountCode, SystemAccount.CUSTOMER_BONUS_CREDITS)
+      ))
+      .where(whereCondition)
+      .limit(limit)
+      .offset(offset)
+      .orderBy(desc(users.createdAt));
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(users);
+
+    return {
+      users: results.map(r => ({
+        ...r.user,
+        wallet: LEDGER_CUTOVER && r.wallet
+          ? {
+              ...r.wallet,
+              balanceCents: (r.ledgerPaidCents ?? 0) + (r.ledgerBonusCents ?? 0),
+              bonusBalanceCents: r.ledgerBonusCents ?? 0
+            }
+          : r.wallet!
+      })),
+      total: totalResult.count
+    };
+  }
+
+
+
+  async getSummaryStats(): Promise<{
+    membersCount: number;
+    liabilityCents: number;
+    paidLiabilityCents: number;
+    bonusLiabilityCents: number;
+    bonusGrantedTotalCents: number;
+    spendTodayCents: number;
+    spendWeekCents: number;
+  }> {
+    const [membersResult] = await db
+      .select({ count: count() })
+      .from(users)
+      .where(eq(users.status, "active"));
+
+    const [liabilityResult] = await db
+      .select({ 
+        total: sum(wallets.balanceCents),
+        bonus: sum(wallets.bonusBalanceCents),
+        bonusTotal: sum(wallets.bonusGrantedTotalCents)
+      })
+      .from(wallets);
+
+    const [ledgerLiabilityResult] = LEDGER_CUTOVER
+      ? await db
+          .select({
+            total: sum(accountBalances.balanceMinor),
+            bonus: sql<string | null>`SUM(${accountBalances.balanceMinor}) FILTER (WHERE ${accountBalances.accountCode} = ${SystemAccount.CUSTOMER_BONUS_CREDITS})`
+          })
+          .from(accountBalances)
+          .where(inArray(accountBalances.accountCode, [SystemAccount.CUSTOMER_CREDITS, SystemAccount.CUSTOMER_BONUS_CREDITS]))
+      : [{ total: liabilityResult.total, bonus: liabilityResult.bonus }];
+
+    const liabilityCents = Number(ledgerLiabilityResult.total || 0);
+    const bonusLiabilityCents = Number(ledgerLiabilityResult.bonus || 0);
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 7);
+
+    const [todaySpendResult] = await db
+      .select({ total: sql<number>`COALESCE(SUM(ABS(${transactions.amountCents})), 0)` })
+      .from(transactions)
+      .where(and(
+        eq(transactions.type, "charge"),
+        gte(transactions.createdAt, today)
+      ));
+
+    const [weekSpendResult] = await db
+      .select({ total: sql<number>`COALESCE(SUM(ABS(${transactions.amountCents})), 0)` })
+      .from(transactions)
+      .where(and(
+        eq(transactions.type, "charge"),
+        gte(transactions.createdAt, weekAgo)
+      ));
+
+    return {
+      membersCount: membersResult.count,
+      liabilityCents,
+      paidLiabilityCents: liabilityCents - bonusLiabilityCents,
+      bonusLiabilityCents,
+      bonusGrantedTotalCents: Number(liabilityResult.bonusTotal || 0),
+      spendTodayCents: Number(todaySpendResult.total || 0),
+      spendWeekCents: Number(weekSpendResult.total || 0)
+    };
+  }
+
+  async getDashboardStats(): Promise<{
+    todayTotalCents: number;
+    todayCount: number;
+    membersCount: number;
+    newMembersMonthCount: number;
+  }> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const monthStart = new Date(today);
+    monthStart.setDate(1);
+
+    const [membersResult] = await db
+      .select({ count: count() })
+      .from(users)
+      .where(eq(users.status, "active"));
+
+    const [todayStatsResult] = await db
+      .select({ 
+        total: sql<number>`COALESCE(SUM(ABS(${transactions.amountCents})), 0)`,
+        count: count()
+      })
+      .from(transactions)
+      .where(and(
+        eq(transactions.type, "charge"),
+        gte(transactions.createdAt, today)
+      ));
+
+    const [newMembersResult] = await db
+      .select({ count: count() })
+      .from(users)
+      .where(gte(users.createdAt, monthStart));
+
+    return {
+      todayTotalCents: Number(todayStatsResult.total || 0),
+      todayCount: Number(todayStatsResult.count || 0),
+      membersCount: membersResult.count,
+      newMembersMonthCount: newMembersResult.count
+    };
+  }
+
+  async getRecentTransactions(limit: number = 10): Promise<(Transaction & { user: { name: string } })[]> {
+    return await db
+      .select({
+        transaction: transactions,
+        user: { name: users.name }
+      })
+      .from(transactions)
+      .leftJoin(users, eq(transactions.userId, users.id))
+      .orderBy(desc(transactions.createdAt))
+      .limit(limit)
+      .then(results => results.map(r => ({ ...r.transaction, user: r.user! })));
+  }
+
+  async getTransactionByIdempotencyKey(idempotencyKey: string): Promise<Transaction | null> {
+    const [result] = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.idempotencyKey, idempotencyKey))
+      .limit(1);
+    
+    return result || null;
+  }
+
+  async executeAtomicTopup(params: {
+    userId: string;
+    packageCode: string;
+    packageData: { pay: number; bonus: number; total: number };
+    idempotencyKey: string;
+    createdBy: string;
+  }): Promise<Wallet> {
+    return await db.transaction(async (tx) => {
+      const { wallet } = await this.creditTopup(tx, params);
+      return wallet;
+    });
+  }
+
+  // Credits a top-up (bonus included) inside the caller's transaction
+  private async creditTopup(tx: LedgerExecutor, params: {
+    userId: string;
+    packageCode: string | null; // null for a custom amount at the counter
+    packageId?: string | null;
+    packageData: { pay: number; bonus: number; total: number };
+    idempotencyKey: string;
+    createdBy: string;
+    relatedId?: string;
+    tender?: "card" | "cash";
+    meta?: Record<string, any>;
+  }): Promise<{ transaction: Transaction; wallet: Wallet; ledgerTxId: string | null }> {
+    const { userId, packageCode, packageData, idempotencyKey, createdBy } = params;
+
+    // Create transaction record first (this ensures idempotency)
+    const [transaction] = await tx.insert(transactions).values({
+      userId,
+      type: "topup",
+      amountCents: packageData.total,
+      relatedId: params.relatedId ?? null,
+      idempotencyKey,
+      createdBy,
+      meta: {
+        packageCode,
+        packageId: params.packageId ?? null,
+        payCents: packageData.pay,
+        bonusCents: packageData.bonus,
+        ...(params.tender === "cash" && { tender: "cash" }),
+        ...params.meta
+      }
+    }).returning();
+
+    // Update wallet balance and bonus atomically with SQL operations
+    await tx
+      .update(wallets)
+      .set({
+        balanceCents: sql`${wallets.balanceCents} + ${packageData.total}`,
+        bonusBalanceCents: sql`${wallets.bonusBalanceCents} + ${packageData.bonus}`,
+        bonusGrantedTotalCents: sql`${wallets.bonusGrantedTotalCents} + ${packageData.bonus}`,
+        lastActivityAt: new Date()
+      })
+      .where(eq(wallets.userId, userId));
+
+    if (packageData.bonus > 0) {
+      await tx.insert(bonusLots).values({
+        userId,
+        transactionId: transaction.id,
+        grantedCents: packageData.bonus,
+        remainingCents: packageData.bonus,
+        grantedAt: transaction.createdAt,
+        expiresAt: bonusExpiresAt(transaction.createdAt)
+      });
+    }
+
+    let ledgerTxId: string | null = null;
+    if (LEDGER_CUTOVER) {
+      const posting = await ledgerService.topup(
+        {
+          userId,
+          amountMinor: packageData.pay,
+          bonusMinor: packageData.bonus,
+          tender: params.tender,
+          note: `topup ${packageCode ?? "custom"}`
+        },
+        { executor: tx, originRef: transaction.id }
+      );
+      ledgerTxId = posting.txId;
+    }
+
+    // Return updated wallet
+    const [updatedWallet] = await tx
+      .select()
+      .from(wallets)
+      .where(eq(wallets.userId, userId))
+      .limit(1);
+
+    if (!updatedWallet) {
+      throw new Error("Wallet not found after update");
+    }
+
+    return { transaction, wallet: await this.withLedgerBalance(updatedWallet, tx), ledgerTxId };
+  }
+
+  // Current version of every package, archived ones included
+  async getTopupPackages(): Promise<TopupPackage[]> {
+    return await db
+      .select()
+      .from(topupPackages)
+      .where(isNull(topupPackages.supersededAt))
+      .orderBy(topupPackages.sortOrder, topupPackages.code);
+  }
+
+  async getCurrentTopupPackage(code: string): Promise<TopupPackage | undefined> {
+    const [pkg] = await db
+      .select()
+      .from(topupPackages)
+      .where(and(
+        eq(topupPackages.code, code),
+        isNull(topupPackages.supersededAt)
+      ));
+    return pkg || undefined;
+  }
+
+  async getTopupPackage(id: string): Promise<TopupPackage | undefined> {
+    const [pkg] = await db.select().from(topupPackages).where(eq(topupPackages.id, id));
+    return pkg || undefined;
+  }
+
+  // Undefined when the code is already taken (by any version)
+  async createTopupPackage(pkg: Omit<InsertTopupPackage, "version">): Promise<TopupPackage | undefined> {
+    const [created] = await db
+      .insert(topupPackages)
+      .values({ ...pkg, version: 1 })
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  // Supersedes the current version with a copy carrying the changes; undefined if there is none
+  async reviseTopupPackage(code: string, changes: Partial<Omit<InsertTopupPackage, "code" | "version">>): Promise<TopupPackage | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(topupPackages)
+        .where(and(
+          eq(topupPackages.code, code),
+          isNull(topupPackages.supersededAt)
+        ))
+        .for("update");
+
+      if (!current) {
+        return undefined;
+      }
+
+      await tx
+        .update(topupPackages)
+        .set({ supersededAt: new Date() })
+        .where(eq(topupPackages.id, current.id));
+
+      const { id, supersededAt, createdAt, ...terms } = current;
+      const [revised] = await tx
+        .insert(topupPackages)
+        .values({ ...terms, ...changes, version: current.version + 1 })
+        .returning();
+      return revised;
+    });
+  }
+
+  async createTopupPayment(payment: InsertTopupPayment): Promise<TopupPayment> {
+    const [newPayment] = await db
+      .insert(topupPayments)
+      .values(payment)
+      .returning();
+    return newPayment;
+  }
+
+  async getTopupPayment(id: string): Promise<TopupPayment | undefined> {
+    const [payment] = await db.select().from(topupPayments).where(eq(topupPayments.id, id));
+    return payment || undefined;
+  }
+
+  async getTopupPaymentByIdempotencyKey(userId: string, idempotencyKey: string): Promise<TopupPayment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(topupPayments)
+      .where(and(
+        eq(topupPayments.userId, userId),
+        eq(topupPayments.idempotencyKey, idempotencyKey)
+      ));
+    return payment || undefined;
+  }
+
+  async getTopupPaymentByProviderRef(provider: string, providerRef: string): Promise<TopupPayment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(topupPayments)
+      .where(and(
+        eq(topupPayments.provider, provider),
+        eq(topupPayments.providerRef, providerRef)
+      ));
+    return payment || undefined;
+  }
+
+  async setTopupPaymentProviderRef(id: string, providerRef: string, redirectUrl: string | null): Promise<TopupPayment> {
+    const [payment] = await db
+      .update(topupPayments)
+      .set({ providerRef, redirectUrl, updatedAt: new Date() })
+      .where(eq(topupPayments.id, id))
+      .returning();
+    return payment;
+  }
+
+  // Conditional status change; undefined when the payment is no longer in one of the `from` states
+  async transitionTopupPayment(id: string, from: TopupPaymentStatus[], to: "authorized" | "failed", failureReason?: string): Promise<TopupPayment | undefined> {
+    const now = new Date();
+    const [payment] = await db
+      .update(topupPayments)
+      .set({
+        status: to,
+        updatedAt: now,
+        ...(to === "authorized" ? { authorizedAt: now } : { failureReason: failureReason ?? null })
+      })
+      .where(and(
+        eq(topupPayments.id, id),
+        inArray(topupPayments.status, from)
+      ))
+      .returning();
+    return payment || undefined;
+  }
+
+  // Marks the payment captured and credits the wallet in one transaction, exactly once
+  async captureTopupPayment(id: string): Promise<TopupPaymentCaptureResult> {
+    return await db.transaction(async (tx) => {
+      const [payment] = await tx
+        .select()
+        .from(topupPayments)
+        .where(eq(topupPayments.id, id))
+        .for("update");
+
+      if (!payment) {
+        return { status: "not_found" as const };
+      }
+      if (payment.status === "captured") {
+        return { status: "already_captured" as const, payment };
+      }
+      if (payment.status === "failed") {
+        return { status: "not_capturable" as const, payment };
+      }
+
+      const { transaction, wallet } = await this.creditTopup(tx, {
+        userId: payment.userId,
+        packageCode: payment.packageCode,
+        packageId: payment.packageId,
+        packageData: {
+          pay: payment.amountCents,
+          bonus: payment.bonusCents,
+          total: payment.amountCents + payment.bonusCents
+        },
+        idempotencyKey: `topup_payment:${payment.id}`,
+        createdBy: "user",
+        relatedId: payment.id
+      });
+
+      const now = new Date();
+      const [captured] = await tx
+        .update(topupPayments)
+        .set({
+          status: "captured",
+          transactionId: transaction.id,
+          capturedAt: now,
+          authorizedAt: payment.authorizedAt ?? now,
+          updatedAt: now
+        })
+        .where(eq(topupPayments.id, id))
+        .returning();
+
+      return { status: "ok" as const, payment: captured, transaction, wallet };
+    });
+  }
+
+  // Credits go to the requested bucket (bonus by default); debits take from the
+  // requested bucket only, or follow the consumption order when none is given
+  async executeAtomicAdjustment(params: {
+    userId: string;
+    amountCents: number;
+    bucket?: CreditBucket;
+    idempotencyKey: string;
+    createdBy: string;
+    meta: Record<string, any>;
+  }): Promise<AtomicAdjustmentResult> {
+    const { userId, amountCents, bucket, idempotencyKey, createdBy, meta } = params;
+
+    return await db.transaction(async (tx) => {
+      const [wallet] = await tx
+        .select()
+        .from(wallets)
         .where(eq(wallets.userId, userId))
-        .limit(1);
+        .for("update");
+
+      if (!wallet) {
+        return { status: "wallet_not_found" as const };
+      }
+
+      const current = await this.withLedgerBalance(wallet, tx);
+      const available: CreditSplit = { paidCents: paidBalance(current), bonusCents: current.bonusBalanceCents };
+      const amount = Math.abs(amountCents);
+
+      let split: CreditSplit;
+      if (amountCents > 0 || bucket) {
+        const target = bucket ?? "bonus";
+        const targetCents = target === "paid" ? available.paidCents : available.bonusCents;
+        if (amountCents < 0 && targetCents < amount) {
+          return { status: "insufficient_funds" as const, balanceCents: targetCents };
+        }
+        split = target === "paid" ? { paidCents: amount, bonusCents: 0 } : { paidCents: 0, bonusCents: amount };
+      } else {
+        if (current.balanceCents < amount) {
+          return { status: "insufficient_funds" as const, balanceCents: current.balanceCents };
+        }
+        split = splitDebit(amount, available);
+      }
+      const bonusDelta = amountCents > 0 ? split.bonusCents : -split.bonusCents;
+      // Bonus credited by hand opens no lot and never expires
+      const bonusLotsUsed = amountCents < 0 ? await this.consumeBonusLots(tx, userId, split.bonusCents) : [];
+
+      const [transaction] = await tx
+        .insert(transactions)
+        .values({
+          userId,
+          type: "adjustment",
+          amountCents,
+          relatedId: null,
+          idempotencyKey,
+          createdBy,
+          meta: { ...meta, ...split, ...(bonusLotsUsed.length > 0 && { bonusLots: bonusLotsUsed }) }
+        })
+        .returning();
+
+      const [updatedWallet] = await tx
+        .update(wallets)
+        .set({
+          balanceCents: sql`${wallets.balanceCents} + ${amountCents}`,
+          bonusBalanceCents: sql`${wallets.bonusBalanceCents} + ${bonusDelta}`,
+          lastActivityAt: new Date()
+        })
+        .where(eq(wallets.userId, userId))
+        .returning();
+
+      if (LEDGER_CUTOVER) {
+        await ledgerService.adjustment(
+          { userId, amountMinor: amountCents, bonusMinor: split.bonusCents, reason: meta.reason ?? "adjustment" },
+          { executor: tx, originRef: transaction.id }
+        );
+      }
+
+      return { status: "ok" as const, transaction, wallet: await this.withLedgerBalance(updatedWallet, tx) };
+    });
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [newToken] = await db
+      .insert(passwordResetTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async markPasswordResetTokenUsed(tokenId: string, ip: string, userAgent: string): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ 
+        status: "used",
+        usedAt: new Date(),
+        ipConsume: ip,
+        uaConsume: userAgent
+      })
+      .where(eq(passwordResetTokens.id, tokenId));
+  }
+
+  async revokeUserPasswordResetTokens(userId: string): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ 
+        status: "revoked"
+      })
+      .where(and(
+        eq(passwordResetTokens.userId, userId),
+        eq(passwordResetTokens.status, "active")
+      ));
+  }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ 
+        passwordHash,
+        passwordChangedAt: new Date()
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async incrementUserTokenVersion(userId: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ 
+        tokenVersion: sql`${users.tokenVersion} + 1`
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async updateAdminPassword(adminId: string, passwordHash: string): Promise<void> {
+    await db
+      .update(adminUsers)
+      .set({ 
+        passwordHash,
+        passwordChangedAt: new Date()
+      })
+      .where(eq(adminUsers.id, adminId));
+  }
+
+  async incrementAdminTokenVersion(adminId: string): Promise<void> {
+    await db
+      .update(adminUsers)
+      .set({ 
+        tokenVersion: sql`${adminUsers.tokenVersion} + 1`
+      })
+      .where(eq(adminUsers.id, adminId));
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [created] = await db
+      .insert(webhookEndpoints)
+      .values(endpoint)
+      .returning();
+    return created;
+  }
+
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return await db
+      .select()
+      .from(webhookEndpoints)
+      .orderBy(desc(webhookEndpoints.createdAt));
+  }
+
+  async getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint || undefined;
+  }
+
+  async updateWebhookEndpoint(id: string, changes: Partial<Pick<InsertWebhookEndpoint, "url" | "description" | "events" | "isActive">>): Promise<WebhookEndpoint | undefined> {
+    const [updated] = await db
+      .update(webhookEndpoints)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, id))
+      .returning({ id: webhookEndpoints.id });
+    return deleted.length > 0;
+  }
+
+  async getSubscribedWebhookEndpoints(event: string): Promise<WebhookEndpoint[]> {
+    return await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(
+        eq(webhookEndpoints.isActive, true),
+        arrayContains(webhookEndpoints.events, [event])
+      ));
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(webhookDeliveries)
+      .values(deliveries)
+      .returning();
+  }
+
+  // Takes due pending deliveries and pushes their next attempt out by the lease, so a
+  // delivery in flight is not picked up again unless its sender dies mid-attempt
+  async claimWebhookDeliveries(params: { ids?: string[]; limit: number; leaseMs: number }): Promise<WebhookDelivery[]> {
+    const { ids, limit, leaseMs } = params;
+
+    return await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: webhookDeliveries.id })
+        .from(webhookDeliveries)
+        .where(and(
+          eq(webhookDeliveries.status, "pending"),
+          lte(webhookDeliveries.nextAttemptAt, sql`now()`),
+          ids ? inArray(webhookDeliveries.id, ids) : undefined
+        ))
+        .orderBy(webhookDeliveries.nextAttemptAt)
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      if (due.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .update(webhookDeliveries)
+        .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+        .where(inArray(webhookDeliveries.id, due.map(row => row.id)))
+        .returning();
+    });
+  }
+
+  async recordWebhookAttempt(id: string, outcome: {
+    status: WebhookDelivery["status"];
+    nextAttemptAt: Date;
+    statusCode: number | null;
+    error: string | null;
+    kid: string | null;
+  }): Promise<WebhookDelivery> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({
+        status: outcome.status,
+        attempts: sql`${webhookDeliveries.attempts} + 1`,
+        nextAttemptAt: outcome.nextAttemptAt,
+        lastAttemptAt: new Date(),
+        lastStatusCode: outcome.statusCode,
+        lastError: outcome.error,
+        kid: outcome.kid,
+        deliveredAt: outcome.status === "succeeded" ? new Date() : null
+      })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async getWebhookDeliveries(filter: { endpointId?: string; status?: WebhookDelivery["status"]; limit: number }): Promise<WebhookDelivery[]> {
+    const conditions = [];
+    if (filter.endpointId) {
+      conditions.push(eq(webhookDeliveries.endpointId, filter.endpointId));
+    }
+    if (filter.status) {
+      conditions.push(eq(webhookDeliveries.status, filter.status));
+    }
+
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(filter.limit);
+  }
+
+  async getStampPrograms(): Promise<StampProgram[]> {
+    return await db.select().from(stampPrograms).orderBy(desc(stampPrograms.isActive), stampPrograms.name);
+  }
+
+  async getStampProgram(id: string): Promise<StampProgram | undefined> {
+    const [program] = await db.select().from(stampPrograms).where(eq(stampPrograms.id, id));
+    return program || undefined;
+  }
+
+  async createStampProgram(program: InsertStampProgram): Promise<StampProgram> {
+    const [created] = await db.insert(stampPrograms).values(program).returning();
+    return created;
+  }
+
+  async updateStampProgram(id: string, changes: Partial<Omit<InsertStampProgram, "createdBy">>): Promise<StampProgram | undefined> {
+    const [updated] = await db
+      .update(stampPrograms)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(stampPrograms.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Active programmes plus inactive ones the customer still has stamps or rewards on
+  async getStampCards(userId: string): Promise<StampCard[]> {
+    const programs = await db.select().from(stampPrograms).orderBy(stampPrograms.name);
+
+    const balances = await db
+      .select({ programId: stampEntries.programId, stamps: sql<number>`COALESCE(SUM(${stampEntries.delta}), 0)::integer` })
+      .from(stampEntries)
+      .where(eq(stampEntries.userId, userId))
+      .groupBy(stampEntries.programId);
+
+    const rewards = await db
+      .select()
+      .from(stampRewards)
+      .where(and(eq(stampRewards.userId, userId), eq(stampRewards.status, "available")))
+      .orderBy(stampRewards.issuedAt);
+
+    return programs
+      .map(program => ({
+        program,
+        stamps: balances.find(b => b.programId === program.id)?.stamps ?? 0,
+        rewards: rewards.filter(r => r.programId === program.id)
+      }))
+      .filter(card => card.program.isActive || card.stamps !== 0 || card.rewards.length > 0);
+  }
+
+  // Stamps for a confirmed charge on every active programme; full cards turn into
+  // rewards right away. Runs inside the charge transaction, under the wallet lock
+  private async awardStamps(tx: LedgerExecutor, userId: string, chargeId: string, amountCents: number): Promise<StampAward[]> {
+    const programs = await tx.select().from(stampPrograms).where(eq(stampPrograms.isActive, true));
+
+    const awards: StampAward[] = [];
+    for (const program of programs) {
+      const earned = stampsForCharge(program, amountCents);
+      if (earned === 0) {
+        continue;
+      }
+
+      await tx.insert(stampEntries).values({ programId: program.id, userId, delta: earned, reason: "charge", chargeId });
+
+      const [balance] = await tx
+        .select({ stamps: sql<number>`COALESCE(SUM(${stampEntries.delta}), 0)::integer` })
+        .from(stampEntries)
+        .where(and(eq(stampEntries.userId, userId), eq(stampEntries.programId, program.id)));
+
+      const rewardsIssued = rewardsDue(balance.stamps, program.stampsRequired);
+      for (let i = 0; i < rewardsIssued; i++) {
+        const [reward] = await tx
+          .insert(stampRewards)
+          .values({ programId: program.id, userId, valueCents: program.rewardValueCents, issuedByChargeId: chargeId })
+          .returning();
+        await tx.insert(stampEntries).values({
+          programId: program.id,
+          userId,
+          delta: -program.stampsRequired,
+          reason: "reward",
+          chargeId,
+          rewardId: reward.id
+        });
+      }
+
+      awards.push({ programId: program.id, programName: program.name, earned, rewardsIssued });
+    }
+    return awards;
+  }
+
+  // Takes back what a voided charge earned: its stamps, and rewards it issued that
+  // are still unused. A reward already redeemed stays, so the card may go negative
+  private async revokeStamps(tx: LedgerExecutor, userId: string, chargeId: string): Promise<void> {
+    const revoked = await tx
+      .update(stampRewards)
+      .set({ status: "revoked", revokedAt: new Date() })
+      .where(and(eq(stampRewards.issuedByChargeId, chargeId), eq(stampRewards.status, "available")))
+      .returning({ id: stampRewards.id });
+    const revokedIds = new Set(revoked.map(r => r.id));
+
+    const entries = await tx
+      .select()
+      .from(stampEntries)
+      .where(and(eq(stampEntries.chargeId, chargeId), inArray(stampEntries.reason, ["charge", "reward"])));
+
+    for (const entry of entries) {
+      if (entry.reason === "reward" && !revokedIds.has(entry.rewardId!)) {
+        continue;
+      }
+      await tx.insert(stampEntries).values({
+        programId: entry.programId,
+        userId,
+        delta: -entry.delta,
+        reason: "void",
+        chargeId,
+        rewardId: entry.rewardId
+      });
+    }
+  }
+
+  // Settles a charge session with a stamp reward instead of wallet money
+  async executeRewardRedemption(params: { chargeId: string; rewardId: string }): Promise<RewardRedemptionResult> {
+    const { chargeId, rewardId } = params;
+
+    return await db.transaction(async (tx) => {
+      const [pending] = await tx
+        .select()
+        .from(chargeSessions)
+        .where(eq(chargeSessions.id, chargeId));
+
+      if (!pending) {
+        return { status: "session_unavailable" as const };
+      }
+
+      // Same per-customer serialization as wallet charges
+      const [wallet] = await tx
+        .select()
+        .from(wallets)
+        .where(eq(wallets.userId, pending.userId))
+        .for("update");
+
+      const [reward] = await tx
+        .select()
+        .from(stampRewards)
+        .where(and(
+          eq(stampRewards.id, rewardId),
+          eq(stampRewards.userId, pending.userId),
+          eq(stampRewards.status, "available")
+        ))
+        .for("update");
+
+      if (!reward || !wallet) {
+        return { status: "reward_unavailable" as const };
+      }
+
+      const [session] = await tx
+        .update(chargeSessions)
+        .set({
+          status: "confirmed",
+          amountCents: null, // no wallet money moves; see the amount_cents check
+          rewardId,
+          confirmedAt: sql`now()`
+        })
+        .where(and(
+          eq(chargeSessions.id, chargeId),
+          eq(chargeSessions.status, "initiated"),
+          gt(chargeSessions.expiresAt, sql`now()`)
+        ))
+        .returning();
+
+      if (!session) {
+        return { status: "session_unavailable" as const };
+      }
+
+      const [redeemed] = await tx
+        .update(stampRewards)
+        .set({ status: "redeemed", redeemedAt: new Date(), redeemedChargeId: chargeId })
+        .where(eq(stampRewards.id, rewardId))
+        .returning();
+
+      return { status: "ok" as const, session, reward: redeemed, wallet: await this.withLedgerBalance(wallet, tx) };
+    });
+  }
+
+  async executeRewardVoid(params: { chargeId: string; voidWindowMs: number }): Promise<{ session: ChargeSession; reward: StampReward; wallet: Wallet } | undefined> {
+    const { chargeId, voidWindowMs } = params;
+
+    return await db.transaction(async (tx) => {
+      const [session] = await tx
+        .update(chargeSessions)
+        .set({
+          status: "voided",
+          voidedAt: sql`now()`
+        })
+        .where(and(
+          eq(chargeSessions.id, chargeId),
+          eq(chargeSessions.status, "confirmed"),
+          isNotNull(chargeSessions.rewardId),
+          gt(chargeSessions.confirmedAt, new Date(Date.now() - voidWindowMs))
+        ))
+        .returning();
+
+      if (!session) {
+        return undefined;
+      }
+
+      const [reward] = await tx
+        .update(stampRewards)
+        .set({ status: "available", redeemedAt: null, redeemedChargeId: null })
+        .where(eq(stampRewards.id, session.rewardId!))
+        .returning();
+
+      const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, session.userId));
+
+      return { session, reward, wallet: await this.withLedgerBalance(wallet, tx) };
+    });
+  }
+
+  // Charged minus voided since the given time; a void nets out the charge it reverses
+  async getRollingChargeSpend(userId: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ spend: sql<number>`COALESCE(-SUM(${transactions.amountCents}), 0)::integer` })
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        inArray(transactions.type, ["charge", "void"]),
+        gte(transactions.createdAt, since)
+      ));
+    return result.spend;
+  }
+
+  // Rolling spend of every customer who has any, or had any at the last recompute
+  async getTierSpends(since: Date): Promise<{ userId: string; tier: CustomerTier; tierSpendCents: number; spendCents: number }[]> {
+    const spends = db
+      .select({
+        userId: transactions.userId,
+        spendCents: sql<number>`-SUM(${transactions.amountCents})`.as("spend_cents")
+      })
+      .from(transactions)
+      .where(and(inArray(transactions.type, ["charge", "void"]), gte(transactions.createdAt, since)))
+      .groupBy(transactions.userId)
+      .as("spends");
+
+    return await db
+      .select({
+        userId: users.id,
+        tier: users.tier,
+        tierSpendCents: users.tierSpendCents,
+        spendCents: sql<number>`COALESCE(${spends.spendCents}, 0)::integer`
+      })
+      .from(users)
+      .leftJoin(spends, eq(spends.userId, users.id))
+      .where(or(
+        sql`${spends.userId} IS NOT NULL`,
+        sql`${users.tier} <> 'bronze'`,
+        sql`${users.tierSpendCents} <> 0`
+      ));
+  }
+
+  async setUserTier(userId: string, tier: CustomerTier, spendCents: number): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ tier, tierSpendCents: spendCents, tierUpdatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  async getUserByReferralCode(code: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.referralCode, code));
+    return user || undefined;
+  }
+
+  async getReferralSettings(): Promise<ReferralSettings> {
+    const [settings] = await db.select().from(referralSettings).where(eq(referralSettings.id, 1));
+    if (!settings) {
+      throw new Error("referral_settings row missing; run migrations/18_referrals.sql");
+    }
+    return settings;
+  }
+
+  async updateReferralSettings(changes: Partial<Omit<ReferralSettings, "id" | "updatedAt">>): Promise<ReferralSettings> {
+    const [settings] = await db
+      .update(referralSettings)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(referralSettings.id, 1))
+      .returning();
+    return settings;
+  }
+
+  // Whether the referrer has signed in from this IP, or from this IP with this browser
+  async getReferrerOriginMatch(referrerId: string, ip: string, userAgent: string): Promise<{ sameIp: boolean; sameDevice: boolean }> {
+    const [match] = await db
+      .select({
+        sameIp: sql<boolean>`COALESCE(BOOL_OR(${refreshTokens.ip} = ${ip}::inet), false)`,
+        sameDevice: sql<boolean>`COALESCE(BOOL_OR(${refreshTokens.ip} = ${ip}::inet AND ${refreshTokens.userAgent} = ${userAgent}), false)`
+      })
+      .from(refreshTokens)
+      .where(eq(refreshTokens.userId, referrerId));
+    return { sameIp: match?.sameIp ?? false, sameDevice: match?.sameDevice ?? false };
+  }
+
+  async createReferral(referral: InsertReferral): Promise<Referral> {
+    const [created] = await db.insert(referrals).values(referral).returning();
+    return created;
+  }
+
+  async getReferralsByReferrer(referrerId: string): Promise<(Referral & { refereeName: string })[]> {
+    const rows = await db
+      .select({ referral: referrals, refereeName: users.name })
+      .from(referrals)
+      .innerJoin(users, eq(users.id, referrals.refereeId))
+      .where(eq(referrals.referrerId, referrerId))
+      .orderBy(desc(referrals.createdAt));
+    return rows.map(row => ({ ...row.referral, refereeName: row.refereeName }));
+  }
+
+  // Only pending referrals can be rejected; rewarded ones keep their bonus
+  async rejectReferral(id: string, reason: ReferralRejectReason): Promise<Referral | undefined> {
+    const [referral] = await db
+      .update(referrals)
+      .set({ status: "rejected", rejectReason: reason, decidedAt: new Date() })
+      .where(and(eq(referrals.id, id), eq(referrals.status, "pending")))
+      .returning();
+    return referral || undefined;
+  }
+
+  /**
+   * Settles the referee's pending referral after a captured top-up: both sides get
+   * their bonus, unless the programme is off or the referrer reached the cap. Both
+   * wallets are locked first, so concurrent rewards cannot overshoot the cap
+   */
+  async executeReferralReward(params: { refereeId: string; topup: QualifyingTopup }): Promise<ReferralRewardResult> {
+    const { refereeId, topup } = params;
+    const qualifying = "paymentId" in topup
+      ? { qualifyingPaymentId: topup.paymentId }
+      : { qualifyingPosTopupId: topup.posTopupId };
+
+    return await db.transaction(async (tx) => {
+      if (!(await this.lockQualifyingTopup(tx, topup))) {
+        return { status: "no_pending_referral" as const };
+      }
+
+      const [candidate] = await tx
+        .select()
+        .from(referrals)
+        .where(and(eq(referrals.refereeId, refereeId), eq(referrals.status, "pending")));
+      if (!candidate) {
+        return { status: "no_pending_referral" as const };
+      }
+
+      // Lock order by user id, as with any other pair of wallets
+      await tx
+        .select({ id: wallets.id })
+        .from(wallets)
+        .where(inArray(wallets.userId, [candidate.referrerId, candidate.refereeId]))
+        .orderBy(wallets.userId)
+        .for("update");
+
+      const [pending] = await tx
+        .select()
+        .from(referrals)
+        .where(and(eq(referrals.id, candidate.id), eq(referrals.status, "pending")))
+        .for("update");
+      if (!pending) {
+        return { status: "no_pending_referral" as const };
+      }
+
+      const [settings] = await tx.select().from(referralSettings).where(eq(referralSettings.id, 1));
+      const [{ rewarded }] = await tx
+        .select({ rewarded: count() })
+        .from(referrals)
+        .where(and(eq(referrals.referrerId, pending.referrerId), eq(referrals.status, "rewarded")));
+
+      const rejection = rewardRejection(settings, rewarded);
+      if (rejection) {
+        const [rejected] = await tx
+          .update(referrals)
+          .set({ status: "rejected", rejectReason: rejection, ...qualifying, decidedAt: new Date() })
+          .where(eq(referrals.id, pending.id))
+          .returning();
+        return { status: "rejected" as const, referral: rejected };
+      }
+
+      const credited: Transaction[] = [];
+      for (const [userId, role, amountCents] of [
+        [pending.referrerId, "referrer", settings.referrerBonusCents],
+        [pending.refereeId, "referee", settings.refereeBonusCents]
+      ] as const) {
+        if (amountCents > 0) {
+          credited.push(await this.creditReferralBonus(tx, userId, pending.id, role, amountCents));
+        }
+      }
+
+      const [referral] = await tx
+        .update(referrals)
+        .set({
+          status: "rewarded",
+          referrerBonusCents: settings.referrerBonusCents,
+          refereeBonusCents: settings.refereeBonusCents,
+          ...qualifying,
+          decidedAt: new Date()
+        })
+        .where(eq(referrals.id, pending.id))
+        .returning();
+
+      return { status: "ok" as const, referral, transactions: credited };
+    });
+  }
+
+  // A cash top-up qualifies only while confirmed. Locked before any wallet, in the same
+  // order as executePosTopupVoid, so a concurrent void waits for the reward or finds it
+  private async lockQualifyingTopup(tx: LedgerExecutor, topup: QualifyingTopup): Promise<boolean> {
+    if ("paymentId" in topup) {
+      return true;
+    }
+    const [posTopup] = await tx
+      .select({ status: posTopups.status })
+      .from(posTopups)
+      .where(eq(posTopups.id, topup.posTopupId))
+      .for("share");
+    return posTopup?.status === "confirmed";
+  }
+
+  // Referral bonus is bonus credit without a lot, so it does not expire
+  private async creditReferralBonus(
+    tx: LedgerExecutor,
+    userId: string,
+    referralId: string,
+    role: "referrer" | "referee",
+    amountCents: number
+  ): Promise<Transaction> {
+    const [transaction] = await tx
+      .insert(transactions)
+      .values({
+        userId,
+        type: "referral_bonus",
+        amountCents,
+        relatedId: referralId,
+        idempotencyKey: `referral-${referralId}-${role}`,
+        createdBy: "system",
+        meta: { referralId, role, paidCents: 0, bonusCents: amountCents }
+      })
+      .returning();
+
+    await tx
+      .update(wallets)
+      .set({
+        balanceCents: sql`${wallets.balanceCents} + ${amountCents}`,
+        bonusBalanceCents: sql`${wallets.bonusBalanceCents} + ${amountCents}`,
+        bonusGrantedTotalCents: sql`${wallets.bonusGrantedTotalCents} + ${amountCents}`,
+        lastActivityAt: new Date()
+      })
+      .where(eq(wallets.userId, userId));
+
+    if (LEDGER_CUTOVER) {
+      await ledgerService.bonus(
+        { userId, amountMinor: amountCents, reason: `referral ${role} ${referralId}` },
+        { executor: tx, originRef: transaction.id }
+      );
+    }
+
+    return transaction;
+  }
+
+  async getReferralReport(filter: { status?: Referral["status"]; limit: number }): Promise<ReferralReportRow[]> {
+    const referrers = alias(users, "referrers");
+    const rows = await db
+      .select({
+        referral: referrals,
+        referrerName: referrers.name,
+        referrerEmail: referrers.email,
+        refereeName: users.name,
+        refereeEmail: users.email
+      })
+      .from(referrals)
+      .innerJoin(referrers, eq(referrers.id, referrals.referrerId))
+      .innerJoin(users, eq(users.id, referrals.refereeId))
+      .where(filter.status ? eq(referrals.status, filter.status) : undefined)
+      .orderBy(desc(referrals.createdAt))
+      .limit(filter.limit);
+    return rows.map(({ referral, ...names }) => ({ ...referral, ...names }));
+  }
+
+  // Referrers with the most referrals, for spotting abuse at a glance
+  async getReferrerStats(limit: number): Promise<{ referrerId: string; name: string; email: string; total: number; pending: number; rewarded: number; rejected: number; bonusCents: number }[]> {
+    return await db
+      .select({
+        referrerId: referrals.referrerId,
+        name: users.name,
+        email: users.email,
+        total: sql<number>`COUNT(*)::integer`,
+        pending: sql<number>`COUNT(*) FILTER (WHERE ${referrals.status} = 'pending')::integer`,
+        rewarded: sql<number>`COUNT(*) FILTER (WHERE ${referrals.status} = 'rewarded')::integer`,
+        rejected: sql<number>`COUNT(*) FILTER (WHERE ${referrals.status} = 'rejected')::integer`,
+        bonusCents: sql<number>`COALESCE(SUM(${referrals.referrerBonusCents} + ${referrals.refereeBonusCents}), 0)::integer`
+      })
+      .from(referrals)
+      .innerJoin(users, eq(users.id, referrals.referrerId))
+      .groupBy(referrals.referrerId, users.name, users.email)
+      .orderBy(sql`COUNT(*) DESC`)
+      .limit(limit);
+  }
+
+  async getUserByEmailIgnoringCase(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user || undefined;
+  }
+
+  /**
+   * Moves paid credit from the sender to a registered recipient, or into a pending
+   * gift when recipientId is null. Limits are checked with the sender's wallet locked,
+   * so parallel requests cannot slip past them
+   */
+  async executeWalletTransfer(params: {
+    senderId: string;
+    recipientId: string | null;
+    recipientEmail: string;
+    amountCents: number;
+    message: string | null;
+    idempotencyKey: string;
+    expiresAt: Date | null;
+    claimTokenHash: string | null;
+  }): Promise<WalletTransferResult> {
+    const { senderId, recipientId, amountCents } = params;
+
+    return await db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(wallets)
+        .where(inArray(wallets.userId, recipientId ? [senderId, recipientId] : [senderId]))
+        .orderBy(wallets.userId)
+        .for("update");
+
+      // Checked under the sender's lock, so a retry racing the original waits for it
+      const [existing] = await tx
+        .select()
+        .from(walletTransfers)
+        .where(and(eq(walletTransfers.senderId, senderId), eq(walletTransfers.idempotencyKey, params.idempotencyKey)));
+      if (existing) {
+        return { status: "idempotent" as const, transfer: existing };
+      }
+      const senderWallet = locked.find(wallet => wallet.userId === senderId);
+      if (!senderWallet) {
+        return { status: "insufficient_funds" as const, paidBalanceCents: 0 };
+      }
+
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const [sentLastDay] = await tx
+        .select({
+          cents: sql<number>`COALESCE(SUM(${walletTransfers.amountCents}), 0)::integer`,
+          count: sql<number>`COUNT(*)::integer`
+        })
+        .from(walletTransfers)
+        .where(and(
+          eq(walletTransfers.senderId, senderId),
+          gte(walletTransfers.createdAt, since),
+          inArray(walletTransfers.status, ["completed", "pending"])
+        ));
+      const limitError = transferLimitError(amountCents, sentLastDay);
+      if (limitError) {
+        return { status: "limit_exceeded" as const, message: limitError };
+      }
+
+      // Only paid credit can be given away; bonus stays with the customer it was granted to
+      const paidBalanceCents = paidBalance(await this.withLedgerBalance(senderWallet, tx));
+      if (paidBalanceCents < amountCents) {
+        return { status: "insufficient_funds" as const, paidBalanceCents };
+      }
+
+      const now = new Date();
+      const [transfer] = await tx
+        .insert(walletTransfers)
+        .values({
+          senderId,
+          recipientId,
+          recipientEmail: params.recipientEmail,
+          amountCents,
+          message: params.message,
+          status: recipientId ? "completed" : "pending",
+          idempotencyKey: params.idempotencyKey,
+          expiresAt: recipientId ? null : params.expiresAt,
+          claimTokenHash: recipientId ? null : params.claimTokenHash,
+          completedAt: recipientId ? now : null
+        })
+        .returning();
+
+      const transaction = await this.recordTransferCredit(tx, senderId, transfer, -amountCents, "out");
+      if (recipientId) {
+        await this.recordTransferCredit(tx, recipientId, transfer, amountCents, "in");
+      }
+
+      if (LEDGER_CUTOVER) {
+        await ledgerService.transfer(
+          { fromUserId: senderId, toUserId: recipientId, amountMinor: amountCents, transferId: transfer.id },
+          { executor: tx, originRef: transaction.id }
+        );
+      }
+
+      const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, senderId));
+      return { status: "ok" as const, transfer, transaction, wallet: await this.withLedgerBalance(wallet, tx) };
+    });
+  }
+
+  /**
+   * Credits the gift behind a claim link to the signed-in customer. Their account must
+   * carry the email the gift was sent to (normalised), so a forwarded link can't be
+   * claimed elsewhere
+   */
+  async claimGift(claimTokenHash: string, user: { id: string; email: string }, now: Date = new Date()): Promise<GiftClaimResult> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: wallets.id }).from(wallets).where(eq(wallets.userId, user.id)).for("update");
 
-      if (!updatedWallet) {
-        throw new Error("Wallet not found after update");
+      const [gift] = await tx
+        .select()
+        .from(walletTransfers)
+        .where(and(
+          eq(walletTransfers.claimTokenHash, claimTokenHash),
+          eq(walletTransfers.status, "pending"),
+          gt(walletTransfers.expiresAt, now)
+        ))
+        .for("update");
+
+      if (!gift) {
+        return { status: "not_found" as const };
+      }
+      // Someone who gifted their own address can cancel it instead
+      if (gift.recipientEmail !== user.email || gift.senderId === user.id) {
+        return { status: "wrong_recipient" as const };
+      }
+
+      const [transfer] = await tx
+        .update(walletTransfers)
+        .set({ status: "completed", recipientId: user.id, completedAt: now })
+        .where(eq(walletTransfers.id, gift.id))
+        .returning();
+
+      const transaction = await this.recordTransferCredit(tx, user.id, transfer, transfer.amountCents, "in");
+      if (LEDGER_CUTOVER) {
+        await ledgerService.transfer(
+          { fromUserId: null, toUserId: user.id, amountMinor: transfer.amountCents, transferId: transfer.id },
+          { executor: tx, originRef: transaction.id }
+        );
       }
 
-      return updatedWallet;
+      return { status: "ok" as const, transfer, transaction };
     });
   }
 
-  // Password reset token operations
-  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
-    const [newToken] = await db
-      .insert(passwordResetTokens)
-      .values(token)
+  // Returns a pending gift to its sender; senderId restricts a cancellation to the sender's own gifts
+  async refundGift(id: string, status: "cancelled" | "expired", options: { senderId?: string; now?: Date }): Promise<GiftSettlement | undefined> {
+    const now = options.now ?? new Date();
+
+    return await db.transaction(async (tx) => {
+      const [candidate] = await tx.select().from(walletTransfers).where(eq(walletTransfers.id, id));
+      if (!candidate || (options.senderId && candidate.senderId !== options.senderId)) {
+        return undefined;
+      }
+
+      // Same lock order as the transfer itself: wallet first, then the transfer row
+      await tx.select({ id: wallets.id }).from(wallets).where(eq(wallets.userId, candidate.senderId)).for("update");
+      const [gift] = await tx
+        .select()
+        .from(walletTransfers)
+        .where(and(eq(walletTransfers.id, id), eq(walletTransfers.status, "pending")))
+        .for("update");
+      if (!gift || (status === "expired" && gift.expiresAt! > now)) {
+        return undefined;
+      }
+
+      const [transfer] = await tx
+        .update(walletTransfers)
+        .set({ status, completedAt: now })
+        .where(eq(walletTransfers.id, id))
+        .returning();
+
+      const transaction = await this.recordTransferCredit(tx, transfer.senderId, transfer, transfer.amountCents, "refund");
+      if (LEDGER_CUTOVER) {
+        await ledgerService.transfer(
+          { fromUserId: null, toUserId: transfer.senderId, amountMinor: transfer.amountCents, transferId: transfer.id },
+          { executor: tx, originRef: transaction.id }
+        );
+      }
+
+      return { transfer, transaction };
+    });
+  }
+
+  async getExpiredGiftIds(now: Date, limit: number): Promise<string[]> {
+    const rows = await db
+      .select({ id: walletTransfers.id })
+      .from(walletTransfers)
+      .where(and(eq(walletTransfers.status, "pending"), lte(walletTransfers.expiresAt, now)))
+      .orderBy(walletTransfers.expiresAt)
+      .limit(limit);
+    return rows.map(row => row.id);
+  }
+
+  async getWalletTransfers(userId: string, limit: number): Promise<WalletTransferView[]> {
+    const senders = alias(users, "senders");
+    const rows = await db
+      .select({ transfer: walletTransfers, senderName: senders.name, recipientName: users.name })
+      .from(walletTransfers)
+      .innerJoin(senders, eq(senders.id, walletTransfers.senderId))
+      .leftJoin(users, eq(users.id, walletTransfers.recipientId))
+      .where(or(eq(walletTransfers.senderId, userId), eq(walletTransfers.recipientId, userId)))
+      .orderBy(desc(walletTransfers.createdAt))
+      .limit(limit);
+    return rows.map(row => ({ ...row.transfer, senderName: row.senderName, recipientName: row.recipientName }));
+  }
+
+  // One side of a transfer in the legacy journal; transfers only ever touch paid credit
+  private async recordTransferCredit(
+    tx: LedgerExecutor,
+    userId: string,
+    transfer: WalletTransfer,
+    amountCents: number,
+    direction: "out" | "in" | "refund"
+  ): Promise<Transaction> {
+    const [transaction] = await tx
+      .insert(transactions)
+      .values({
+        userId,
+        type: "transfer",
+        amountCents,
+        relatedId: transfer.id,
+        idempotencyKey: `transfer-${transfer.id}-${direction}`,
+        createdBy: direction === "out" ? "user" : "system",
+        meta: {
+          transferId: transfer.id,
+          direction,
+          gift: transfer.expiresAt !== null,
+          counterpartyId: direction === "in" ? transfer.senderId : transfer.recipientId,
+          recipientEmail: transfer.recipientEmail,
+          message: transfer.message,
+          paidCents: Math.abs(amountCents),
+          bonusCents: 0
+        }
+      })
       .returning();
-    return newToken;
+
+    await tx
+      .update(wallets)
+      .set({
+        balanceCents: sql`${wallets.balanceCents} + ${amountCents}`,
+        lastActivityAt: new Date()
+      })
+      .where(eq(wallets.userId, userId));
+
+    return transaction;
   }
 
-  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
-    const [token] = await db
-      .select()
-      .from(passwordResetTokens)
-      .where(eq(passwordResetTokens.tokenHash, tokenHash));
-    return token || undefined;
+  // Codes are checked and inserted in one transaction; the unique index still has the last word
+  async createVoucherBatch(batch: InsertVoucherBatch, codes: string[]): Promise<VoucherBatchCreateResult> {
+    return await db.transaction(async (tx) => {
+      const taken = await tx.select({ code: vouchers.code }).from(vouchers).where(inArray(vouchers.code, codes));
+      if (taken.length > 0) {
+        return { status: "code_taken" as const, codes: taken.map(row => row.code) };
+      }
+
+      const [created] = await tx.insert(voucherBatches).values(batch).returning();
+      const inserted = await tx
+        .insert(vouchers)
+        .values(codes.map(code => ({ batchId: created.id, code })))
+        .returning();
+      return { status: "ok" as const, batch: created, vouchers: inserted };
+    });
   }
 
-  async markPasswordResetTokenUsed(tokenId: string, ip: string, userAgent: string): Promise<void> {
-    await db
-      .update(passwordResetTokens)
-      .set({ 
-        status: "used",
-        usedAt: new Date(),
-        ipConsume: ip,
-        uaConsume: userAgent
+  async getVoucherBatches(): Promise<VoucherBatchSummary[]> {
+    const codeCounts = db
+      .select({
+        batchId: vouchers.batchId,
+        codes: sql<number>`COUNT(*)::integer`.as("codes")
       })
-      .where(eq(passwordResetTokens.id, tokenId));
+      .from(vouchers)
+      .groupBy(vouchers.batchId)
+      .as("code_counts");
+    const usage = db
+      .select({
+        batchId: voucherRedemptions.batchId,
+        redemptions: sql<number>`COUNT(*)::integer`.as("redemptions"),
+        creditedCents: sql<number>`COALESCE(SUM(${voucherRedemptions.bonusCents}), 0)::integer`.as("credited_cents")
+      })
+      .from(voucherRedemptions)
+      .groupBy(voucherRedemptions.batchId)
+      .as("usage");
+
+    const rows = await db
+      .select({
+        batch: voucherBatches,
+        codes: sql<number>`COALESCE(${codeCounts.codes}, 0)::integer`,
+        redemptions: sql<number>`COALESCE(${usage.redemptions}, 0)::integer`,
+        creditedCents: sql<number>`COALESCE(${usage.creditedCents}, 0)::integer`
+      })
+      .from(voucherBatches)
+      .leftJoin(codeCounts, eq(codeCounts.batchId, voucherBatches.id))
+      .leftJoin(usage, eq(usage.batchId, voucherBatches.id))
+      .orderBy(desc(voucherBatches.createdAt));
+    return rows.map(({ batch, ...stats }) => ({ ...batch, ...stats }));
   }
 
-  async revokeUserPasswordResetTokens(userId: string): Promise<void> {
-    await db
-      .update(passwordResetTokens)
-      .set({ 
-        status: "revoked"
+  async getVoucherBatch(id: string): Promise<VoucherBatch | undefined> {
+    const [batch] = await db.select().from(voucherBatches).where(eq(voucherBatches.id, id));
+    return batch || undefined;
+  }
+
+  async getVouchersByBatch(batchId: string): Promise<Voucher[]> {
+    return await db.select().from(vouchers).where(eq(vouchers.batchId, batchId)).orderBy(vouchers.code);
+  }
+
+  async setVoucherBatchActive(id: string, isActive: boolean): Promise<VoucherBatch | undefined> {
+    const [batch] = await db
+      .update(voucherBatches)
+      .set({ isActive })
+      .where(eq(voucherBatches.id, id))
+      .returning();
+    return batch || undefined;
+  }
+
+  /**
+   * Redeems a code for the customer: a fixed voucher is credited as bonus at once, a
+   * percent_bonus one waits for the next captured top-up. The wallet and then the code
+   * are locked, so parallel redemptions cannot overshoot either limit
+   */
+  async redeemVoucher(params: { userId: string; code: string; now?: Date }): Promise<VoucherRedemptionResult> {
+    const { userId, code } = params;
+    const now = params.now ?? new Date();
+
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(wallets).where(eq(wallets.userId, userId)).for("update");
+      const [voucher] = await tx.select().from(vouchers).where(eq(vouchers.code, code)).for("update");
+      if (!locked || !voucher) {
+        return { status: "not_found" as const };
+      }
+      const [batch] = await tx.select().from(voucherBatches).where(eq(voucherBatches.id, voucher.batchId));
+
+      const [usage] = await tx
+        .select({ customerRedemptions: sql<number>`COUNT(*)::integer` })
+        .from(voucherRedemptions)
+        .where(and(eq(voucherRedemptions.userId, userId), eq(voucherRedemptions.batchId, batch.id)));
+      // A pending bonus from any batch blocks another percentage voucher
+      const [pending] = await tx
+        .select({ id: voucherRedemptions.id })
+        .from(voucherRedemptions)
+        .where(and(eq(voucherRedemptions.userId, userId), eq(voucherRedemptions.status, "pending")));
+
+      const rejection = redemptionRejection(batch, {
+        codeRedemptions: voucher.redemptionCount,
+        customerRedemptions: usage.customerRedemptions,
+        hasPendingBonus: pending !== undefined
+      }, now);
+      if (rejection) {
+        return { status: "rejected" as const, reason: rejection };
+      }
+
+      await tx
+        .update(vouchers)
+        .set({ redemptionCount: sql`${vouchers.redemptionCount} + 1` })
+        .where(eq(vouchers.id, voucher.id));
+
+      const fixed = batch.type === "fixed";
+      const [redemption] = await tx
+        .insert(voucherRedemptions)
+        .values({
+          voucherId: voucher.id,
+          batchId: batch.id,
+          userId,
+          status: fixed ? "credited" : "pending",
+          bonusCents: fixed ? batch.valueCents : null,
+          settledAt: fixed ? now : null
+        })
+        .returning();
+
+      let transaction: Transaction | null = null;
+      if (fixed) {
+        transaction = await this.creditVoucherBonus(tx, redemption, voucher.code, batch.valueCents!);
+      }
+
+      const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, userId));
+      return { status: "ok" as const, batch, redemption, transaction, wallet: await this.withLedgerBalance(wallet, tx) };
+    });
+  }
+
+  /**
+   * Settles the customer's pending percent_bonus voucher against a captured top-up.
+   * A voucher whose batch expired or was switched off in the meantime lapses instead
+   */
+  async applyVoucherTopupBonus(params: { userId: string; topup: QualifyingTopup; now?: Date }): Promise<VoucherTopupBonusResult> {
+    const { userId, topup } = params;
+    const now = params.now ?? new Date();
+    const settledBy = "paymentId" in topup ? { paymentId: topup.paymentId } : { posTopupId: topup.posTopupId };
+
+    return await db.transaction(async (tx) => {
+      if (!(await this.lockQualifyingTopup(tx, topup))) {
+        return { status: "no_pending_voucher" as const };
+      }
+
+      await tx.select({ id: wallets.id }).from(wallets).where(eq(wallets.userId, userId)).for("update");
+      const [pending] = await tx
+        .select({ redemption: voucherRedemptions, batch: voucherBatches, code: vouchers.code })
+        .from(voucherRedemptions)
+        .innerJoin(voucherBatches, eq(voucherBatches.id, voucherRedemptions.batchId))
+        .innerJoin(vouchers, eq(vouchers.id, voucherRedemptions.voucherId))
+        .where(and(eq(voucherRedemptions.userId, userId), eq(voucherRedemptions.status, "pending")))
+        .for("update", { of: voucherRedemptions });
+      if (!pending) {
+        return { status: "no_pending_voucher" as const };
+      }
+      const { batch } = pending;
+
+      if (!batch.isActive || (batch.expiresAt && now >= batch.expiresAt)) {
+        const [redemption] = await tx
+          .update(voucherRedemptions)
+          .set({ status: "expired", ...settledBy, settledAt: now })
+          .where(eq(voucherRedemptions.id, pending.redemption.id))
+          .returning();
+        return { status: "expired" as const, redemption };
+      }
+
+      // The percentage applies to the money paid, card or cash; never to bonus credit
+      const [paid] = "paymentId" in topup
+        ? await tx.select({ amountCents: topupPayments.amountCents }).from(topupPayments).where(eq(topupPayments.id, topup.paymentId))
+        : await tx.select({ amountCents: posTopups.amountCents }).from(posTopups).where(eq(posTopups.id, topup.posTopupId));
+      const bonusCents = voucherTopupBonus(batch.bonusBps!, paid.amountCents ?? 0);
+
+      const [redemption] = await tx
+        .update(voucherRedemptions)
+        .set({ status: "credited", bonusCents, ...settledBy, settledAt: now })
+        .where(eq(voucherRedemptions.id, pending.redemption.id))
+        .returning();
+      const transaction = await this.creditVoucherBonus(tx, redemption, pending.code, bonusCents);
+
+      return { status: "ok" as const, redemption, transaction };
+    });
+  }
+
+  async getVoucherRedemptionsByUser(userId: string, limit: number): Promise<VoucherRedemptionView[]> {
+    const rows = await db
+      .select({
+        redemption: voucherRedemptions,
+        code: vouchers.code,
+        name: voucherBatches.name,
+        type: voucherBatches.type,
+        valueCents: voucherBatches.valueCents,
+        bonusBps: voucherBatches.bonusBps
+      })
+      .from(voucherRedemptions)
+      .innerJoin(vouchers, eq(vouchers.id, voucherRedemptions.voucherId))
+      .innerJoin(voucherBatches, eq(voucherBatches.id, voucherRedemptions.batchId))
+      .where(eq(voucherRedemptions.userId, userId))
+      .orderBy(desc(voucherRedemptions.createdAt))
+      .limit(limit);
+    return rows.map(({ redemption, ...batch }) => ({ ...redemption, ...batch }));
+  }
+
+  // Voucher bonus is bonus credit without a lot, like the referral bonus
+  private async creditVoucherBonus(
+    tx: LedgerExecutor,
+    redemption: VoucherRedemption,
+    code: string,
+    amountCents: number
+  ): Promise<Transaction> {
+    const [transaction] = await tx
+      .insert(transactions)
+      .values({
+        userId: redemption.userId,
+        type: "voucher_bonus",
+        amountCents,
+        relatedId: redemption.id,
+        idempotencyKey: `voucher-${redemption.id}`,
+        createdBy: "system",
+        meta: {
+          redemptionId: redemption.id,
+          voucherId: redemption.voucherId,
+          code,
+          paymentId: redemption.paymentId,
+          posTopupId: redemption.posTopupId,
+          paidCents: 0,
+          bonusCents: amountCents
+        }
+      })
+      .returning();
+
+    await tx
+      .update(wallets)
+      .set({
+        balanceCents: sql`${wallets.balanceCents} + ${amountCents}`,
+        bonusBalanceCents: sql`${wallets.bonusBalanceCents} + ${amountCents}`,
+        bonusGrantedTotalCents: sql`${wallets.bonusGrantedTotalCents} + ${amountCents}`,
+        lastActivityAt: new Date()
       })
+      .where(eq(wallets.userId, redemption.userId));
+
+    if (LEDGER_CUTOVER) {
+      await ledgerService.bonus(
+        { userId: redemption.userId, amountMinor: amountCents, reason: `voucher ${code}` },
+        { executor: tx, originRef: transaction.id }
+      );
+    }
+
+    return transaction;
+  }
+
+  // Spends bonus from the user's lots, soonest expiry first; the wallet row must
+  // already be locked by the caller
+  private async consumeBonusLots(tx: LedgerExecutor, userId: string, amountCents: number): Promise<LotAllocation[]> {
+    if (amountCents <= 0) {
+      return [];
+    }
+
+    const lots = await tx
+      .select()
+      .from(bonusLots)
+      .where(and(eq(bonusLots.userId, userId), gt(bonusLots.remainingCents, 0)))
+      .orderBy(bonusLots.expiresAt, bonusLots.grantedAt)
+      .for("update");
+
+    const allocations = allocateFifo(lots, amountCents);
+    for (const allocation of allocations) {
+      await tx
+        .update(bonusLots)
+        .set({ remainingCents: sql`${bonusLots.remainingCents} - ${allocation.cents}` })
+        .where(eq(bonusLots.id, allocation.lotId));
+    }
+    return allocations;
+  }
+
+  // Puts voided bonus back into the lots it came from; a lot that expired meanwhile
+  // is picked up again by the next expiry run
+  private async restoreBonusLots(tx: LedgerExecutor, allocations: LotAllocation[]): Promise<void> {
+    for (const allocation of allocations) {
+      await tx
+        .update(bonusLots)
+        .set({ remainingCents: sql`${bonusLots.remainingCents} + ${allocation.cents}` })
+        .where(eq(bonusLots.id, allocation.lotId));
+    }
+  }
+
+  async getOpenBonusLots(userId: string): Promise<BonusLot[]> {
+    return await db
+      .select()
+      .from(bonusLots)
       .where(and(
-        eq(passwordResetTokens.userId, userId),
-        eq(passwordResetTokens.status, "active")
-      ));
+        eq(bonusLots.userId, userId),
+        gt(bonusLots.remainingCents, 0),
+        gt(bonusLots.expiresAt, sql`now()`)
+      ))
+      .orderBy(bonusLots.expiresAt);
   }
 
-  async updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+  // Open lots expiring before `until` whose owner has not been warned yet
+  async getBonusLotsToWarn(until: Date, limit: number): Promise<(BonusLot & { email: string; name: string })[]> {
+    const rows = await db
+      .select({ lot: bonusLots, email: users.email, name: users.name })
+      .from(bonusLots)
+      .innerJoin(users, eq(bonusLots.userId, users.id))
+      .where(and(
+        gt(bonusLots.remainingCents, 0),
+        isNull(bonusLots.warnedAt),
+        gt(bonusLots.expiresAt, sql`now()`),
+        lt(bonusLots.expiresAt, until),
+        eq(users.status, "active")
+      ))
+      .orderBy(bonusLots.userId, bonusLots.expiresAt)
+      .limit(limit);
+    return rows.map(r => ({ ...r.lot, email: r.email, name: r.name }));
+  }
+
+  async markBonusLotsWarned(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
     await db
-      .update(users)
-      .set({ 
-        passwordHash,
-        passwordChangedAt: new Date()
+      .update(bonusLots)
+      .set({ warnedAt: new Date() })
+      .where(inArray(bonusLots.id, ids));
+  }
+
+  async getExpiredBonusLotIds(now: Date, limit: number): Promise<string[]> {
+    const rows = await db
+      .select({ id: bonusLots.id })
+      .from(bonusLots)
+      .where(and(gt(bonusLots.remainingCents, 0), lte(bonusLots.expiresAt, now)))
+      .orderBy(bonusLots.expiresAt)
+      .limit(limit);
+    return rows.map(r => r.id);
+  }
+
+  // Moves what is left of an expired lot out of the customer's bonus balance (to
+  // breakage in the ledger); undefined when there was nothing left to expire
+  async expireBonusLot(id: string, now: Date): Promise<{ transaction: Transaction; amountCents: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [candidate] = await tx.select().from(bonusLots).where(eq(bonusLots.id, id));
+      if (!candidate) {
+        return undefined;
+      }
+
+      // Same lock order as the charge paths: wallet first, then its lots
+      const [wallet] = await tx
+        .select()
+        .from(wallets)
+        .where(eq(wallets.userId, candidate.userId))
+        .for("update");
+      const [lot] = await tx
+        .select()
+        .from(bonusLots)
+        .where(eq(bonusLots.id, id))
+        .for("update");
+
+      if (!wallet || lot.remainingCents <= 0 || lot.expiresAt > now) {
+        return undefined;
+      }
+
+      // Never take more than the bonus the customer actually holds
+      const current = await this.withLedgerBalance(wallet, tx);
+      const amountCents = Math.min(lot.remainingCents, current.bonusBalanceCents);
+
+      await tx
+        .update(bonusLots)
+        .set({ remainingCents: 0, expiredAt: now })
+        .where(eq(bonusLots.id, id));
+
+      if (amountCents <= 0) {
+        return undefined;
+      }
+
+      const [transaction] = await tx
+        .insert(transactions)
+        .values({
+          userId: lot.userId,
+          type: "bonus_expiry",
+          amountCents: -amountCents,
+          relatedId: lot.id,
+          idempotencyKey: `bonus-expiry-${lot.id}-${now.getTime()}`,
+          createdBy: "system",
+          meta: { lotId: lot.id, paidCents: 0, bonusCents: amountCents, expiresAt: lot.expiresAt.toISOString() }
+        })
+        .returning();
+
+      await tx
+        .update(wallets)
+        .set({
+          balanceCents: sql`${wallets.balanceCents} - ${amountCents}`,
+          bonusBalanceCents: sql`${wallets.bonusBalanceCents} - ${amountCents}`
+        })
+        .where(eq(wallets.userId, lot.userId));
+
+      if (LEDGER_CUTOVER) {
+        await ledgerService.expiry(
+          { userId: lot.userId, amountMinor: amountCents, lotId: lot.id },
+          { executor: tx, originRef: transaction.id }
+        );
+      }
+
+      return { transaction, amountCents };
+    });
+  }
+
+  // Claims a schedule slot: succeeds only if no live lease is held and the slot is newer
+  // than the last one claimed, so a slot runs once even if every instance fires for it
+  async acquireJobLock(jobName: string, instanceId: string, slot: Date, leaseMs: number): Promise<boolean> {
+    const lockedUntil = new Date(Date.now() + leaseMs);
+    const claimed = await db
+      .insert(jobLocks)
+      .values({ jobName, lockedBy: instanceId, lockedUntil, lastSlotAt: slot })
+      .onConflictDoUpdate({
+        target: jobLocks.jobName,
+        set: { lockedBy: instanceId, lockedUntil, lastSlotAt: slot },
+        setWhere: and(
+          lt(jobLocks.lockedUntil, sql`now()`),
+          lt(jobLocks.lastSlotAt, slot)
+        )
       })
-      .where(eq(users.id, userId));
+      .returning({ jobName: jobLocks.jobName });
+    return claimed.length > 0;
   }
 
-  async incrementUserTokenVersion(userId: string): Promise<void> {
+  async releaseJobLock(jobName: string, instanceId: string): Promise<void> {
     await db
-      .update(users)
-      .set({ 
-        tokenVersion: sql`${users.tokenVersion} + 1`
-      })
-      .where(eq(users.id, userId));
+      .update(jobLocks)
+      .set({ lockedUntil: sql`now()` })
+      .where(and(eq(jobLocks.jobName, jobName), eq(jobLocks.lockedBy, instanceId)));
   }
 
-  async updateAdminPassword(adminId: string, passwordHash: string): Promise<void> {
+  async startJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [newRun] = await db
+      .insert(jobRuns)
+      .values(run)
+      .returning();
+    return newRun;
+  }
+
+  async finishJobRun(id: string, outcome: { status: "succeeded" | "failed"; result?: Record<string, unknown> | null; error?: string | null }): Promise<void> {
     await db
-      .update(adminUsers)
-      .set({ 
-        passwordHash,
-        passwordChangedAt: new Date()
+      .update(jobRuns)
+      .set({
+        status: outcome.status,
+        result: outcome.result ?? null,
+        error: outcome.error ?? null,
+        finishedAt: new Date()
       })
-      .where(eq(adminUsers.id, adminId));
+      .where(eq(jobRuns.id, id));
   }
 
-  async incrementAdminTokenVersion(adminId: string): Promise<void> {
-    await db
-      .update(adminUsers)
-      .set({ 
-        tokenVersion: sql`${adminUsers.tokenVersion} + 1`
+  async getJobRuns(filter: { jobName?: string; status?: JobRun["status"]; limit: number }): Promise<JobRun[]> {
+    const conditions = [];
+    if (filter.jobName) {
+      conditions.push(eq(jobRuns.jobName, filter.jobName));
+    }
+    if (filter.status) {
+      conditions.push(eq(jobRuns.status, filter.status));
+    }
+
+    return await db
+      .select()
+      .from(jobRuns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(filter.limit);
+  }
+
+  async getLatestJobRuns(): Promise<JobRun[]> {
+    return await db
+      .selectDistinctOn([jobRuns.jobName])
+      .from(jobRuns)
+      .orderBy(jobRuns.jobName, desc(jobRuns.startedAt));
+  }
+
+  async expirePasswordResetTokens(): Promise<number> {
+    const expired = await db
+      .update(passwordResetTokens)
+      .set({ status: "expired" })
+      .where(and(
+        eq(passwordResetTokens.status, "active"),
+        lt(passwordResetTokens.expiresAt, sql`now()`)
+      ))
+      .returning({ id: passwordResetTokens.id });
+    return expired.length;
+  }
+
+  async pruneIdempotencyKeys(seenBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(idempotencyKeys)
+      .where(lt(idempotencyKeys.firstSeenAt, seenBefore))
+      .returning({ key: idempotencyKeys.key });
+    return deleted.length;
+  }
+
+  async pruneTokenBlacklist(): Promise<number> {
+    const deleted = await db
+      .delete(tokenBlacklist)
+      .where(lt(tokenBlacklist.expiresAt, sql`now()`))
+      .returning({ jti: tokenBlacklist.jti });
+    return deleted.length;
+  }
+
+  async pruneAdminSessions(endedBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(adminSessions)
+      .where(or(
+        lt(adminSessions.expiresAt, endedBefore),
+        lt(adminSessions.revokedAt, endedBefore)
+      ))
+      .returning({ id: adminSessions.id });
+    return deleted.length;
+  }
+
+  // Rolls up one UTC day (YYYY-MM-DD); re-running a day overwrites its row
+  async rollupMetricsDaily(date: string): Promise<MetricsDaily> {
+    const dayStart = new Date(`${date}T00:00:00.000Z`);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const [membersResult] = await db
+      .select({ count: count() })
+      .from(users)
+      .where(and(
+        eq(users.status, "active"),
+        lt(users.createdAt, dayEnd)
+      ));
+
+    // Liability at the end of the day, from the ledger in cutover mode
+    const [liabilityResult] = LEDGER_CUTOVER
+      ? await db
+          .select({ total: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.side} = 'credit' THEN ${ledgerEntries.amountMinor} ELSE -${ledgerEntries.amountMinor} END), 0)` })
+          .from(ledgerEntries)
+          .innerJoin(ledgerTransactions, eq(ledgerEntries.txId, ledgerTransactions.id))
+          .where(and(
+            inArray(ledgerEntries.accountCode, [SystemAccount.CUSTOMER_CREDITS, SystemAccount.CUSTOMER_BONUS_CREDITS]),
+            lt(ledgerTransactions.effectiveAt, dayEnd)
+          ))
+      : await db
+          .select({ total: sql<number>`COALESCE(SUM(${transactions.amountCents}), 0)` })
+          .from(transactions)
+          .where(lt(transactions.createdAt, dayEnd));
+
+    const [bonusResult] = await db
+      .select({ total: sql<number>`COALESCE(SUM((${transactions.meta}->>'bonusCents')::integer), 0)` })
+      .from(transactions)
+      .where(and(
+        eq(transactions.type, "topup"),
+        gte(transactions.createdAt, dayStart),
+        lt(transactions.createdAt, dayEnd)
+      ));
+
+    const [spendResult] = await db
+      .select({ total: sql<number>`COALESCE(SUM(ABS(${transactions.amountCents})), 0)` })
+      .from(transactions)
+      .where(and(
+        eq(transactions.type, "charge"),
+        gte(transactions.createdAt, dayStart),
+        lt(transactions.createdAt, dayEnd)
+      ));
+
+    const row = {
+      date,
+      membersCount: membersResult.count,
+      liabilityCents: Number(liabilityResult.total || 0),
+      bonusGrantedCents: Number(bonusResult.total || 0),
+      spendCents: Number(spendResult.total || 0)
+    };
+
+    const [saved] = await db
+      .insert(metricsDaily)
+      .values(row)
+      .onConflictDoUpdate({
+        target: metricsDaily.date,
+        set: {
+          membersCount: row.membersCount,
+          liabilityCents: row.liabilityCents,
+          bonusGrantedCents: row.bonusGrantedCents,
+          spendCents: row.spendCents
+        }
       })
-      .where(eq(adminUsers.id, adminId));
+      .returning();
+    return saved;
+  }
+
+  async getLatestMetricsDate(): Promise<string | null> {
+    const [latest] = await db
+      .select({ date: metricsDaily.date })
+      .from(metricsDaily)
+      .orderBy(desc(metricsDaily.date))
+      .limit(1);
+    return latest?.date ?? null;
+  }
+
+  // Dates are YYYY-MM-DD strings, so the text comparison is chronological
+  async getMetricsDaily(from: string, to: string): Promise<MetricsDaily[]> {
+    return await db
+      .select()
+      .from(metricsDaily)
+      .where(and(
+        gte(metricsDaily.date, from),
+        lte(metricsDaily.date, to)
+      ))
+      .orderBy(metricsDaily.date);
   }
 
 }
@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import { auditLog } from "./utils";
+import { TIER_WINDOW_DAYS, tierForSpend, type CustomerTier } from "./customer-tiers";
+
+/**
+ * Keeps users.tier in line with rolling charge spend: refreshed for one customer
+ * after each charge and void, and for everyone by the nightly recompute-tiers job
+ * (spend also drops out of the window without any new charge)
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TierTrigger = "charge" | "void" | "nightly";
+
+export interface TierRecomputeResult {
+  checked: number;
+  changed: number;
+  failures: number;
+}
+
+export class TierService {
+  windowStart(now: Date = new Date()): Date {
+    return new Date(now.getTime() - TIER_WINDOW_DAYS * DAY_MS);
+  }
+
+  async refresh(userId: string, trigger: TierTrigger, now: Date = new Date()): Promise<CustomerTier | undefined> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return undefined;
+    }
+
+    const spendCents = await storage.getRollingChargeSpend(userId, this.windowStart(now));
+    await this.apply(userId, user.tier, spendCents, trigger);
+    return tierForSpend(spendCents).tier;
+  }
+
+  async recomputeAll(now: Date = new Date()): Promise<TierRecomputeResult> {
+    const spends = await storage.getTierSpends(this.windowStart(now));
+
+    let changed = 0;
+    let failures = 0;
+    for (const row of spends) {
+      if (row.spendCents === row.tierSpendCents && tierForSpend(row.spendCents).tier === row.tier) {
+        continue;
+      }
+      try {
+        if (await this.apply(row.userId, row.tier, row.spendCents, "nightly")) {
+          changed++;
+        }
+      } catch (error) {
+        console.error(`Tier recompute for user ${row.userId} failed:`, error);
+        failures++;
+      }
+    }
+
+    return { checked: spends.length, changed, failures };
+  }
+
+  // Stores the spend and tier; true when the tier changed
+  private async apply(userId: string, currentTier: CustomerTier, spendCents: number, trigger: TierTrigger): Promise<boolean> {
+    const tier = tierForSpend(spendCents).tier;
+    await storage.setUserTier(userId, tier, spendCents);
+
+    if (tier === currentTier) {
+      return false;
+    }
+
+    await auditLog("system", null, "tier_changed", {
+      userId,
+      from: currentTier,
+      to: tier,
+      spendCents,
+      windowDays: TIER_WINDOW_DAYS,
+      trigger
+    });
+    return true;
+  }
+}
+
+export const tierService = new TierService();
@@ -0,0 +1,50 @@
+import type { TopupPackage } from "@shared/schema";
+
+/**
+ * Pricing rules for admin-managed top-up packages: when a package can be bought
+ * and what it credits at a given moment, promotion included
+ */
+
+export interface TopupPackageQuote {
+  pay: number; // cents charged
+  bonus: number; // cents credited on top, promotion included
+  total: number;
+  promoActive: boolean;
+}
+
+const inWindow = (now: Date, from: Date | null, to: Date | null) =>
+  (!from || from <= now) && (!to || now < to);
+
+export function isPackageAvailable(pkg: TopupPackage, now: Date = new Date()): boolean {
+  return pkg.isActive && pkg.supersededAt === null && inWindow(now, pkg.validFrom, pkg.validTo);
+}
+
+export function isPromoActive(pkg: TopupPackage, now: Date = new Date()): boolean {
+  return pkg.promoBonusBps !== null && inWindow(now, pkg.promoStartsAt, pkg.promoEndsAt);
+}
+
+export function quotePackage(pkg: TopupPackage, now: Date = new Date()): TopupPackageQuote {
+  const promoActive = isPromoActive(pkg, now);
+  // Promo bonus is a share of the paid amount, rounded down to whole cents
+  const promoBonus = promoActive ? Math.floor(pkg.payCents * pkg.promoBonusBps! / 10000) : 0;
+  const bonus = pkg.bonusCents + promoBonus;
+  return { pay: pkg.payCents, bonus, total: pkg.payCents + bonus, promoActive };
+}
+
+type PackageTerms = Pick<TopupPackage, "validFrom" | "validTo" | "promoLabel" | "promoBonusBps" | "promoStartsAt" | "promoEndsAt">;
+
+/**
+ * Cross-field checks on a package's terms (the DB enforces the same); null when valid
+ */
+export function packageTermsError(terms: PackageTerms): string | null {
+  if (terms.validFrom && terms.validTo && terms.validFrom >= terms.validTo) {
+    return "validFrom must be before validTo";
+  }
+  if ((terms.promoBonusBps === null) !== (terms.promoLabel === null)) {
+    return "A promotion needs both promoLabel and promoBonusBps";
+  }
+  if (terms.promoStartsAt && terms.promoEndsAt && terms.promoStartsAt >= terms.promoEndsAt) {
+    return "promoStartsAt must be before promoEndsAt";
+  }
+  return null;
+}
@@ -0,0 +1,272 @@
+import type { IncomingHttpHeaders } from "http";
+import { storage } from "./storage";
+import { auditLog } from "./utils";
+import { webhookService } from "./webhook-service";
+import { referralService } from "./referral-service";
+import { voucherService } from "./voucher-service";
+import {
+  getActivePaymentProvider,
+  getPaymentProvider,
+  registerPaymentProvider,
+  WebhookSignatureError,
+  type PaymentProvider,
+  type ProviderPaymentStatus,
+  type ProviderWebhookEvent
+} from "./payment-provider";
+import { FakePaymentProvider, type FakeCheckoutOutcome } from "./fake-payment-provider";
+import type { TopupPayment, Wallet } from "@shared/schema";
+
+/**
+ * Customer top-up flow used by /api/me/topup and the payment webhooks:
+ * open a payment with the provider, capture it once authorized and credit
+ * the wallet (bonus included) only on capture
+ */
+
+// Production only gets it on explicit opt-in, and never with the public dev secret:
+// anyone could sign a captured webhook with it and mint paid credit
+export const FAKE_PAYMENTS_ENABLED = process.env.NODE_ENV !== "production" || process.env.PAYMENT_PROVIDER === "fake";
+
+if (FAKE_PAYMENTS_ENABLED && process.env.NODE_ENV === "production" && !process.env.FAKE_PAYMENT_WEBHOOK_SECRET) {
+  throw new Error("FAKE_PAYMENT_WEBHOOK_SECRET is required in production when PAYMENT_PROVIDER=fake");
+}
+
+export const fakePaymentProvider = new FakePaymentProvider(
+  process.env.FAKE_PAYMENT_WEBHOOK_SECRET || "fake-payment-webhook-secret-dev-only"
+);
+if (FAKE_PAYMENTS_ENABLED) {
+  registerPaymentProvider(fakePaymentProvider);
+}
+
+export type TopupErrorCode =
+  | "E_NOT_FOUND"
+  | "E_INVALID_SIGNATURE"
+  | "E_PROVIDER_UNAVAILABLE"
+  | "E_PAYMENT_STATE";
+
+const TOPUP_ERROR_HTTP_MAPPING: Record<TopupErrorCode, { status: number; error: string }> = {
+  E_NOT_FOUND: { status: 404, error: "NotFound" },
+  E_INVALID_SIGNATURE: { status: 401, error: "InvalidSignature" },
+  E_PROVIDER_UNAVAILABLE: { status: 502, error: "PaymentProviderUnavailable" },
+  E_PAYMENT_STATE: { status: 409, error: "PaymentStateConflict" }
+};
+
+export class TopupError extends Error {
+  public status: number;
+  public error: string;
+
+  constructor(public code: TopupErrorCode, message: string) {
+    super(message);
+    this.name = "TopupError";
+    this.status = TOPUP_ERROR_HTTP_MAPPING[code].status;
+    this.error = TOPUP_ERROR_HTTP_MAPPING[code].error;
+  }
+}
+
+export interface TopupStartResult {
+  payment: TopupPayment;
+  idempotent: boolean;
+}
+
+export interface TopupStatusResult {
+  payment: TopupPayment;
+  wallet: Wallet | null; // set once captured
+}
+
+export class TopupService {
+  /**
+   * Open a payment for the package; the same idempotency key returns the existing payment
+   */
+  async start(params: {
+    userId: string;
+    packageCode: string;
+    packageId?: string; // package version quoted to the customer
+    packageData: { pay: number; bonus: number; total: number };
+    idempotencyKey: string;
+  }): Promise<TopupStartResult> {
+    const existing = await storage.getTopupPaymentByIdempotencyKey(params.userId, params.idempotencyKey);
+    if (existing) {
+      return { payment: existing, idempotent: true };
+    }
+
+    let provider: PaymentProvider;
+    try {
+      provider = getActivePaymentProvider();
+    } catch (error) {
+      console.error("Payment provider configuration error:", error);
+      throw new TopupError("E_PROVIDER_UNAVAILABLE", "Platební brána není nakonfigurována");
+    }
+
+    const payment = await storage.createTopupPayment({
+      userId: params.userId,
+      packageCode: params.packageCode,
+      packageId: params.packageId ?? null,
+      amountCents: params.packageData.pay,
+      bonusCents: params.packageData.bonus,
+      provider: provider.name,
+      idempotencyKey: params.idempotencyKey
+    });
+
+    let created;
+    try {
+      created = await provider.createPayment({
+        paymentId: payment.id,
+        amountCents: payment.amountCents,
+        currency: "CZK",
+        description: `EasyLoyalty ${payment.packageCode}`
+      });
+    } catch (error) {
+      console.error(`Payment provider ${provider.name} createPayment error:`, error);
+      await storage.transitionTopupPayment(payment.id, ["pending"], "failed", "Provider unavailable");
+      throw new TopupError("E_PROVIDER_UNAVAILABLE", "Platební bránu se nepodařilo kontaktovat");
+    }
+
+    const stored = await storage.setTopupPaymentProviderRef(payment.id, created.providerRef, created.redirectUrl);
+
+    // Some providers settle synchronously
+    if (created.status !== "pending") {
+      return { payment: await this.applyStatus(provider, stored, created.status), idempotent: false };
+    }
+    return { payment: stored, idempotent: false };
+  }
+
+  async getStatus(userId: string, paymentId: string): Promise<TopupStatusResult> {
+    const payment = await storage.getTopupPayment(paymentId);
+    if (!payment || payment.userId !== userId) {
+      throw new TopupError("E_NOT_FOUND", "Platba nenalezena");
+    }
+
+    const wallet = payment.status === "captured" ? await storage.getWalletByUserId(userId) : undefined;
+    return { payment, wallet: wallet ?? null };
+  }
+
+  /**
+   * Verify and apply a provider callback. Safe to receive repeatedly and out of order.
+   */
+  async handleWebhook(providerName: string, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<TopupPayment> {
+    const provider = getPaymentProvider(providerName);
+    if (!provider) {
+      throw new TopupError("E_NOT_FOUND", `Unknown payment provider ${providerName}`);
+    }
+
+    let event: ProviderWebhookEvent;
+    try {
+      event = provider.verifyWebhook(rawBody, headers);
+    } catch (error) {
+      if (error instanceof WebhookSignatureError || error instanceof SyntaxError) {
+        throw new TopupError("E_INVALID_SIGNATURE", error.message);
+      }
+      throw error;
+    }
+
+    const payment = await storage.getTopupPaymentByProviderRef(provider.name, event.providerRef);
+    if (!payment) {
+      throw new TopupError("E_NOT_FOUND", `Unknown payment ${event.providerRef}`);
+    }
+
+    return this.applyStatus(provider, payment, event.status, event.failureReason);
+  }
+
+  /**
+   * Outcome chosen on the fake provider's checkout page, delivered as a signed webhook
+   */
+  async completeFakeCheckout(userId: string, paymentId: string, outcome: FakeCheckoutOutcome): Promise<TopupPayment> {
+    const payment = await storage.getTopupPayment(paymentId);
+    if (!FAKE_PAYMENTS_ENABLED || !payment || payment.userId !== userId || payment.provider !== fakePaymentProvider.name || !payment.providerRef) {
+      throw new TopupError("E_NOT_FOUND", "Platba nenalezena");
+    }
+    if (payment.status !== "pending") {
+      throw new TopupError("E_PAYMENT_STATE", "Platba již byla zpracována");
+    }
+
+    const { rawBody, headers } = fakePaymentProvider.checkout(payment.providerRef, outcome);
+    return this.handleWebhook(fakePaymentProvider.name, rawBody, headers);
+  }
+
+  private async applyStatus(
+    provider: PaymentProvider,
+    payment: TopupPayment,
+    status: ProviderPaymentStatus,
+    failureReason?: string
+  ): Promise<TopupPayment> {
+    switch (status) {
+      case "pending":
+        return payment;
+
+      case "failed": {
+        const failed = await storage.transitionTopupPayment(payment.id, ["pending", "authorized"], "failed", failureReason);
+        if (failed) {
+          await auditLog("user", payment.userId, "topup_payment_failed", {
+            paymentId: payment.id,
+            provider: provider.name,
+            reason: failureReason ?? null
+          });
+        }
+        return failed ?? (await storage.getTopupPayment(payment.id))!;
+      }
+
+      case "authorized": {
+        const authorized = await storage.transitionTopupPayment(payment.id, ["pending"], "authorized");
+        if (!authorized) {
+          // Already authorized, captured or failed - a duplicate or late callback
+          return (await storage.getTopupPayment(payment.id))!;
+        }
+
+        const capture = await provider.capturePayment(authorized.providerRef!);
+        // Anything short of captured now is reported later by another webhook
+        if (capture.status === "captured" || capture.status === "failed") {
+          return this.applyStatus(provider, authorized, capture.status, "Capture declined");
+        }
+        return authorized;
+      }
+
+      case "captured":
+        return this.capture(payment);
+    }
+  }
+
+  private async capture(payment: TopupPayment): Promise<TopupPayment> {
+    const result = await storage.captureTopupPayment(payment.id);
+
+    switch (result.status) {
+      case "not_found":
+        throw new TopupError("E_NOT_FOUND", "Platba nenalezena");
+      case "not_capturable":
+        // Captured by the provider after we marked it failed - needs a manual refund or adjustment
+        console.error(`Topup payment ${payment.id} captured by ${payment.provider} but already marked failed`);
+        await auditLog("system", null, "topup_payment_capture_after_failure", {
+          paymentId: payment.id,
+          userId: payment.userId,
+          amountCents: payment.amountCents
+        });
+        return result.payment;
+      case "already_captured":
+        return result.payment;
+      case "ok": {
+        const { payment: captured, transaction, wallet } = result;
+        await auditLog("user", captured.userId, "topup", {
+          packageCode: captured.packageCode,
+          amount: captured.amountCents + captured.bonusCents,
+          bonus: captured.bonusCents,
+          paymentId: captured.id,
+          provider: captured.provider,
+          transactionId: transaction.id
+        });
+        console.log(`Topup captured for user ${captured.userId}: ${captured.packageCode}, amount: ${captured.amountCents}, bonus: ${captured.bonusCents}`);
+        await webhookService.emit("topup.completed", {
+          userId: captured.userId,
+          paymentId: captured.id,
+          packageCode: captured.packageCode,
+          amountCents: captured.amountCents,
+          bonusCents: captured.bonusCents,
+          transactionId: transaction.id,
+          balanceCents: wallet.balanceCents
+        });
+        await referralService.onTopupCaptured(captured.userId, { paymentId: captured.id });
+        await voucherService.onTopupCaptured(captured.userId, { paymentId: captured.id });
+        return captured;
+      }
+    }
+  }
+}
+
+export const topupService = new TopupService();
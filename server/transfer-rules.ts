@@ -0,0 +1,61 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Wallet transfer rules: what a customer may send within a rolling day, and how long
+ * a gift to an unregistered email waits to be claimed
+ */
+
+export interface TransferLimits {
+  minCents: number;
+  dailyLimitCents: number; // sum over the last 24 hours, gifts included
+  dailyMaxCount: number;
+}
+
+export const TRANSFER_LIMITS: TransferLimits = {
+  minCents: 100,
+  dailyLimitCents: parseInt(process.env.TRANSFER_DAILY_LIMIT_CENTS || "300000", 10),
+  dailyMaxCount: parseInt(process.env.TRANSFER_DAILY_MAX_COUNT || "10", 10)
+};
+
+export const GIFT_EXPIRY_DAYS = parseInt(process.env.GIFT_EXPIRY_DAYS || "30", 10);
+
+// Gifts are matched to the account registered with this email
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Token for the claim link in the gift email. Opening it proves the recipient reads
+ * that inbox, which signing up with the address does not; only the hash is stored
+ */
+export function generateGiftClaimToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashGiftClaimToken(token) };
+}
+
+export function hashGiftClaimToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function giftExpiresAt(sentAt: Date): Date {
+  return new Date(sentAt.getTime() + GIFT_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Czech message for the customer, or null when the transfer fits
+export function transferLimitError(
+  amountCents: number,
+  sentLastDay: { cents: number; count: number },
+  limits: TransferLimits = TRANSFER_LIMITS
+): string | null {
+  if (amountCents < limits.minCents) {
+    return `Nejmenší částka převodu je ${limits.minCents / 100} Kč`;
+  }
+  if (sentLastDay.count >= limits.dailyMaxCount) {
+    return `Za 24 hodin lze odeslat nejvýše ${limits.dailyMaxCount} převodů`;
+  }
+  if (sentLastDay.cents + amountCents > limits.dailyLimitCents) {
+    const remaining = Math.max(0, limits.dailyLimitCents - sentLastDay.cents);
+    return `Denní limit převodů je ${limits.dailyLimitCents / 100} Kč, zbývá ${remaining / 100} Kč`;
+  }
+  return null;
+}
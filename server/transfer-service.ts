@@ -0,0 +1,170 @@
+import { storage, type GiftSettlement } from "./storage";
+import { sendGiftEmail } from "./email";
+import { auditLog } from "./utils";
+import { generateGiftClaimToken, giftExpiresAt, hashGiftClaimToken, normalizeEmail } from "./transfer-rules";
+import type { User, Wallet, WalletTransfer } from "@shared/schema";
+
+/**
+ * Wallet-to-wallet transfers (/api/me/transfer): paid credit goes straight to a
+ * registered recipient, or waits as a gift for an email with no account yet. The
+ * recipient claims it through the link in the gift email once signed up with that
+ * address. Gifts nobody claims within GIFT_EXPIRY_DAYS go back to the sender
+ * (expire-gifts job)
+ */
+
+export type TransferErrorCode =
+  | "E_INPUT"
+  | "E_NOT_FOUND"
+  | "E_WRONG_RECIPIENT"
+  | "E_INSUFFICIENT_FUNDS"
+  | "E_TRANSFER_LIMIT"
+  | "E_IDEMPOTENCY_CONFLICT";
+
+const TRANSFER_ERROR_HTTP_MAPPING: Record<TransferErrorCode, { status: number; error: string }> = {
+  E_INPUT: { status: 400, error: "BadRequest" },
+  E_NOT_FOUND: { status: 404, error: "NotFound" },
+  E_WRONG_RECIPIENT: { status: 403, error: "Forbidden" },
+  E_INSUFFICIENT_FUNDS: { status: 422, error: "InsufficientFunds" },
+  E_TRANSFER_LIMIT: { status: 422, error: "TransferLimitExceeded" },
+  E_IDEMPOTENCY_CONFLICT: { status: 409, error: "IdempotencyConflict" }
+};
+
+export class TransferError extends Error {
+  public status: number;
+  public error: string;
+
+  constructor(public code: TransferErrorCode, message: string) {
+    super(message);
+    this.name = "TransferError";
+    this.status = TRANSFER_ERROR_HTTP_MAPPING[code].status;
+    this.error = TRANSFER_ERROR_HTTP_MAPPING[code].error;
+  }
+}
+
+export interface TransferSendResult {
+  transfer: WalletTransfer;
+  wallet: Wallet | null; // sender's wallet after the transfer; null on an idempotent replay
+  idempotent: boolean;
+}
+
+// Per run; whatever is left over is picked up by the next run
+const EXPIRY_BATCH_SIZE = 500;
+
+export class TransferService {
+  async send(params: {
+    sender: User;
+    recipientEmail: string;
+    amountCents: number;
+    message: string | null;
+    idempotencyKey: string;
+  }): Promise<TransferSendResult> {
+    const { sender, amountCents, message, idempotencyKey } = params;
+    const recipientEmail = normalizeEmail(params.recipientEmail);
+
+    const recipient = await storage.getUserByEmailIgnoringCase(recipientEmail);
+    if (recipient?.id === sender.id || recipientEmail === normalizeEmail(sender.email)) {
+      throw new TransferError("E_INPUT", "Kredit nelze poslat sám sobě");
+    }
+    if (recipient?.status === "blocked") {
+      throw new TransferError("E_INPUT", "Tento zákazník nemůže přijímat převody");
+    }
+
+    const claim = recipient ? null : generateGiftClaimToken();
+    const result = await storage.executeWalletTransfer({
+      senderId: sender.id,
+      recipientId: recipient?.id ?? null,
+      recipientEmail,
+      amountCents,
+      message,
+      idempotencyKey,
+      expiresAt: recipient ? null : giftExpiresAt(new Date()),
+      claimTokenHash: claim?.hash ?? null
+    });
+
+    switch (result.status) {
+      case "idempotent": {
+        const { transfer } = result;
+        if (transfer.amountCents !== amountCents || transfer.recipientEmail !== recipientEmail || transfer.message !== message) {
+          throw new TransferError("E_IDEMPOTENCY_CONFLICT", "Klíč idempotence byl použit pro jiný převod");
+        }
+        return { transfer, wallet: null, idempotent: true };
+      }
+      case "limit_exceeded":
+        throw new TransferError("E_TRANSFER_LIMIT", result.message);
+      case "insufficient_funds":
+        throw new TransferError("E_INSUFFICIENT_FUNDS", "Nedostatečný zaplacený kredit (bonusový kredit převést nelze)");
+      case "ok":
+        if (result.transfer.status === "pending" && claim) {
+          await this.notifyGiftRecipient(sender, result.transfer, claim.token);
+        }
+        return { transfer: result.transfer, wallet: result.wallet, idempotent: false };
+    }
+  }
+
+  // Opened from the gift email by the recipient, signed in with the addressed email
+  async claimGift(user: User, claimToken: string): Promise<GiftSettlement> {
+    const result = await storage.claimGift(hashGiftClaimToken(claimToken), { id: user.id, email: normalizeEmail(user.email) });
+
+    switch (result.status) {
+      case "not_found":
+        throw new TransferError("E_NOT_FOUND", "Dárek nebyl nalezen, už byl převzat nebo vypršel");
+      case "wrong_recipient":
+        throw new TransferError("E_WRONG_RECIPIENT", "Dárek je určen pro jinou e-mailovou adresu");
+      case "ok":
+        return { transfer: result.transfer, transaction: result.transaction };
+    }
+  }
+
+  async cancelGift(senderId: string, transferId: string): Promise<GiftSettlement> {
+    const refunded = await storage.refundGift(transferId, "cancelled", { senderId });
+    if (!refunded) {
+      throw new TransferError("E_NOT_FOUND", "Dárek nebyl nalezen nebo už byl převzat");
+    }
+    return refunded;
+  }
+
+  async expireDue(now: Date = new Date()): Promise<{ expired: number; expiredCents: number; failures: number }> {
+    const ids = await storage.getExpiredGiftIds(now, EXPIRY_BATCH_SIZE);
+
+    let expired = 0;
+    let expiredCents = 0;
+    let failures = 0;
+    for (const id of ids) {
+      try {
+        const refunded = await storage.refundGift(id, "expired", { now });
+        if (refunded) {
+          expired++;
+          expiredCents += refunded.transfer.amountCents;
+          await auditLog("system", null, "gift_expired", {
+            transferId: id,
+            senderId: refunded.transfer.senderId,
+            amountCents: refunded.transfer.amountCents,
+            transactionId: refunded.transaction.id
+          });
+        }
+      } catch (error) {
+        console.error(`Expiring gift ${id} failed:`, error);
+        failures++;
+      }
+    }
+
+    return { expired, expiredCents, failures };
+  }
+
+  // The credit is already held for them; without the email the sender can cancel and resend
+  private async notifyGiftRecipient(sender: User, gift: WalletTransfer, claimToken: string): Promise<void> {
+    try {
+      await sendGiftEmail(gift.recipientEmail, {
+        senderName: sender.name,
+        amountCents: gift.amountCents,
+        message: gift.message,
+        expiresAt: gift.expiresAt!,
+        claimToken
+      });
+    } catch (error) {
+      console.error(`Gift email for transfer ${gift.id} failed:`, error);
+    }
+  }
+}
+
+export const transferService = new TransferService();
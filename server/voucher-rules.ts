@@ -0,0 +1,87 @@
+import { randomInt } from "crypto";
+import type { VoucherBatch } from "@shared/schema";
+
+/**
+ * Voucher rules: generated codes, the checks a redemption must pass and the bonus a
+ * percent_bonus voucher adds to the top-up it is applied to
+ */
+
+// No 0/O or 1/I, so printed codes can be typed back without guessing
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+export type VoucherRejectReason =
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "exhausted"
+  | "customer_limit"
+  | "bonus_pending";
+
+// Codes are matched case-insensitively and without spaces or dashes
+export function normalizeVoucherCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toUpperCase();
+}
+
+export function generateVoucherCode(prefix = ""): string {
+  let code = normalizeVoucherCode(prefix);
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+type Terms = Pick<VoucherBatch, "type" | "isActive" | "validFrom" | "expiresAt" | "maxRedemptionsPerCode" | "perCustomerLimit">;
+
+export function redemptionRejection(
+  batch: Terms,
+  usage: {
+    codeRedemptions: number; // of this code, by anyone
+    customerRedemptions: number; // of any code in the batch, by this customer
+    hasPendingBonus: boolean; // customer already has a percent bonus waiting for a top-up
+  },
+  now: Date
+): VoucherRejectReason | null {
+  if (!batch.isActive) {
+    return "inactive";
+  }
+  if (batch.validFrom && now < batch.validFrom) {
+    return "not_started";
+  }
+  if (batch.expiresAt && now >= batch.expiresAt) {
+    return "expired";
+  }
+  if (batch.maxRedemptionsPerCode !== null && usage.codeRedemptions >= batch.maxRedemptionsPerCode) {
+    return "exhausted";
+  }
+  if (usage.customerRedemptions >= batch.perCustomerLimit) {
+    return "customer_limit";
+  }
+  if (batch.type === "percent_bonus" && usage.hasPendingBonus) {
+    return "bonus_pending";
+  }
+  return null;
+}
+
+// Rounded down like the package bonus, on the amount paid only
+export function voucherTopupBonus(bonusBps: number, payCents: number): number {
+  return Math.floor((payCents * bonusBps) / 10000);
+}
+
+type BatchTerms = Pick<VoucherBatch, "type" | "valueCents" | "bonusBps" | "validFrom" | "expiresAt">;
+
+/**
+ * Cross-field checks on a batch's terms (the DB enforces the same); null when valid
+ */
+export function voucherBatchTermsError(terms: BatchTerms): string | null {
+  if (terms.type === "fixed" && (terms.valueCents === null || terms.bonusBps !== null)) {
+    return "A fixed voucher needs valueCents and no bonusBps";
+  }
+  if (terms.type === "percent_bonus" && (terms.bonusBps === null || terms.valueCents !== null)) {
+    return "A percent_bonus voucher needs bonusBps and no valueCents";
+  }
+  if (terms.validFrom && terms.expiresAt && terms.validFrom >= terms.expiresAt) {
+    return "validFrom must be before expiresAt";
+  }
+  return null;
+}
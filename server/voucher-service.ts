@@ -0,0 +1,144 @@
+import { storage, type QualifyingTopup, type VoucherRedemptionView, type VoucherTopupBonusResult } from "./storage";
+import { auditLog } from "./utils";
+import { generateVoucherCode, normalizeVoucherCode, type VoucherRejectReason } from "./voucher-rules";
+import type { InsertVoucherBatch, Transaction, Voucher, VoucherBatch, Wallet } from "@shared/schema";
+
+/**
+ * Promo and voucher codes (/api/me/vouchers/redeem): admins generate batches of codes,
+ * customers redeem them for bonus credit straight away (fixed) or on their next
+ * captured top-up (percent_bonus)
+ */
+
+export type VoucherErrorCode =
+  | "E_INPUT"
+  | "E_NOT_FOUND"
+  | "E_VOUCHER_REJECTED"
+  | "E_CODE_TAKEN";
+
+const VOUCHER_ERROR_HTTP_MAPPING: Record<VoucherErrorCode, { status: number; error: string }> = {
+  E_INPUT: { status: 400, error: "BadRequest" },
+  E_NOT_FOUND: { status: 404, error: "NotFound" },
+  E_VOUCHER_REJECTED: { status: 422, error: "VoucherRejected" },
+  E_CODE_TAKEN: { status: 409, error: "Conflict" }
+};
+
+export class VoucherError extends Error {
+  public status: number;
+  public error: string;
+
+  constructor(public code: VoucherErrorCode, message: string, public reason?: VoucherRejectReason) {
+    super(message);
+    this.name = "VoucherError";
+    this.status = VOUCHER_ERROR_HTTP_MAPPING[code].status;
+    this.error = VOUCHER_ERROR_HTTP_MAPPING[code].error;
+  }
+}
+
+// Shown to the customer on the top-up page
+const REJECT_MESSAGES: Record<VoucherRejectReason, string> = {
+  inactive: "Tento kód už neplatí",
+  not_started: "Tento kód zatím nelze uplatnit",
+  expired: "Platnost kódu vypršela",
+  exhausted: "Kód už byl vyčerpán",
+  customer_limit: "Tento kód jste už uplatnili",
+  bonus_pending: "Na příští dobití už máte čekající bonus z jiného kódu"
+};
+
+export interface VoucherRedeemResult {
+  redemption: VoucherRedemptionView;
+  transaction: Transaction | null; // null while a percent_bonus waits for a top-up
+  wallet: Wallet;
+}
+
+// Generated codes are random, so a clash is rare; a few fresh draws settle it
+const GENERATE_ATTEMPTS = 3;
+
+export class VoucherService {
+  /**
+   * Creates a batch with either one chosen code (e.g. a flyer's WELCOME50) or count
+   * generated ones starting with prefix
+   */
+  async createBatch(params: {
+    terms: InsertVoucherBatch;
+    code?: string;
+    count: number;
+    prefix?: string;
+  }): Promise<{ batch: VoucherBatch; vouchers: Voucher[] }> {
+    if (params.code) {
+      const code = normalizeVoucherCode(params.code);
+      const result = await storage.createVoucherBatch(params.terms, [code]);
+      if (result.status === "code_taken") {
+        throw new VoucherError("E_CODE_TAKEN", `Voucher code ${code} already exists`);
+      }
+      return result;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const codes = new Set<string>();
+      while (codes.size < params.count) {
+        codes.add(generateVoucherCode(params.prefix));
+      }
+
+      const result = await storage.createVoucherBatch(params.terms, Array.from(codes));
+      if (result.status === "ok") {
+        return result;
+      }
+      if (attempt === GENERATE_ATTEMPTS) {
+        throw new VoucherError("E_CODE_TAKEN", "Could not generate unique voucher codes, try a longer prefix");
+      }
+    }
+  }
+
+  async redeem(params: { userId: string; code: string }): Promise<VoucherRedeemResult> {
+    const code = normalizeVoucherCode(params.code);
+    if (!code) {
+      throw new VoucherError("E_INPUT", "Zadejte kód");
+    }
+
+    const result = await storage.redeemVoucher({ userId: params.userId, code });
+    switch (result.status) {
+      case "not_found":
+        throw new VoucherError("E_NOT_FOUND", "Neplatný kód");
+      case "rejected":
+        throw new VoucherError("E_VOUCHER_REJECTED", REJECT_MESSAGES[result.reason], result.reason);
+      case "ok": {
+        const { batch, redemption, transaction, wallet } = result;
+        return {
+          redemption: { ...redemption, code, name: batch.name, type: batch.type, valueCents: batch.valueCents, bonusBps: batch.bonusBps },
+          transaction,
+          wallet
+        };
+      }
+    }
+  }
+
+  /**
+   * Called after every captured card top-up and confirmed cash top-up to apply a
+   * waiting percent_bonus voucher.
+   * Best-effort: the top-up itself is already committed, so failures are only logged
+   */
+  async onTopupCaptured(userId: string, topup: QualifyingTopup): Promise<VoucherTopupBonusResult | undefined> {
+    try {
+      const result = await storage.applyVoucherTopupBonus({ userId, topup });
+      if (result.status === "no_pending_voucher") {
+        return result;
+      }
+
+      const { redemption } = result;
+      await auditLog("system", null, result.status === "ok" ? "voucher_bonus_credited" : "voucher_lapsed", {
+        redemptionId: redemption.id,
+        voucherId: redemption.voucherId,
+        userId,
+        ...topup,
+        bonusCents: redemption.bonusCents,
+        transactionId: result.status === "ok" ? result.transaction.id : null
+      });
+      return result;
+    } catch (error) {
+      console.error(`Voucher bonus for user ${userId} failed:`, error);
+      return undefined;
+    }
+  }
+}
+
+export const voucherService = new VoucherService();
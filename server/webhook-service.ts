@@ -0,0 +1,164 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { keyManager } from "./key-manager";
+import { signWebhook } from "./webhook-signing";
+import type { WebhookDelivery, WebhookEvent } from "@shared/schema";
+
+/**
+ * Outbound webhooks: every event is stored as one delivery per subscribed endpoint,
+ * sent right away and then retried with exponential backoff by the deliver-webhooks job
+ */
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Longer than an attempt can take, so a claimed delivery is not sent twice
+const CLAIM_LEASE_MS = 2 * DELIVERY_TIMEOUT_MS;
+const MAX_STORED_RESPONSE_CHARS = 500;
+
+// 1 min, 2 min, 4 min ... capped at 6 h
+export function webhookRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+export interface WebhookProcessResult {
+  attempted: number;
+  succeeded: number;
+  failed: number; // out of attempts
+}
+
+export class WebhookService {
+  /**
+   * Queue an event for every active endpoint subscribed to it. Never throws -
+   * a webhook problem must not fail the wallet operation that caused it.
+   */
+  async emit(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const endpoints = await storage.getSubscribedWebhookEndpoints(event);
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const eventId = randomUUID();
+      const payload = { id: eventId, type: event, createdAt: new Date().toISOString(), data };
+      const deliveries = await storage.createWebhookDeliveries(
+        endpoints.map(endpoint => ({ endpointId: endpoint.id, eventId, event, payload }))
+      );
+
+      // First attempt in the background; the job picks up anything that fails
+      this.deliver(deliveries.map(delivery => delivery.id)).catch(error => {
+        console.error(`Webhook delivery for ${event} ${eventId} failed:`, error);
+      });
+    } catch (error) {
+      console.error(`Failed to queue webhook ${event}:`, error);
+    }
+  }
+
+  /**
+   * Send deliveries whose next attempt is due (run by the deliver-webhooks job)
+   */
+  async processDue(limit = 100): Promise<WebhookProcessResult> {
+    const claimed = await storage.claimWebhookDeliveries({ limit, leaseMs: CLAIM_LEASE_MS });
+    return this.attemptAll(claimed);
+  }
+
+  /**
+   * Send a delivery's payload again as a new delivery, keeping the original for inspection
+   */
+  async replay(deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const original = await storage.getWebhookDelivery(deliveryId);
+    if (!original) {
+      return undefined;
+    }
+
+    const [replayed] = await storage.createWebhookDeliveries([{
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      event: original.event,
+      payload: original.payload as Record<string, unknown>,
+      replayOf: original.id
+    }]);
+
+    await this.deliver([replayed.id]);
+    return (await storage.getWebhookDelivery(replayed.id))!;
+  }
+
+  private async deliver(ids: string[]): Promise<WebhookProcessResult> {
+    const claimed = await storage.claimWebhookDeliveries({ ids, limit: ids.length, leaseMs: CLAIM_LEASE_MS });
+    return this.attemptAll(claimed);
+  }
+
+  private async attemptAll(deliveries: WebhookDelivery[]): Promise<WebhookProcessResult> {
+    const result: WebhookProcessResult = { attempted: deliveries.length, succeeded: 0, failed: 0 };
+    for (const delivery of deliveries) {
+      const updated = await this.attempt(delivery);
+      if (updated.status === "succeeded") {
+        result.succeeded++;
+      } else if (updated.status === "failed") {
+        result.failed++;
+      }
+    }
+    return result;
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const endpoint = await storage.getWebhookEndpoint(delivery.endpointId);
+    if (!endpoint || !endpoint.isActive) {
+      return storage.recordWebhookAttempt(delivery.id, {
+        status: "failed",
+        nextAttemptAt: new Date(),
+        statusCode: null,
+        error: "Endpoint disabled",
+        kid: null
+      });
+    }
+
+    let kid: string | null = null;
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const key = await keyManager.getActiveKey("webhook_hmac");
+      kid = key.kid;
+
+      const body = JSON.stringify(delivery.payload);
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: signWebhook({ kid, secret: key.privateMaterial, body, event: delivery.event, deliveryId: delivery.id }),
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+      await keyManager.auditEvent(kid, "webhook_hmac", "sign_ok", { deliveryId: delivery.id, event: delivery.event });
+
+      statusCode = response.status;
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        error = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_STORED_RESPONSE_CHARS)}` : ""}`;
+      }
+    } catch (attemptError) {
+      error = attemptError instanceof Error ? attemptError.message : String(attemptError);
+    }
+
+    if (!error) {
+      return storage.recordWebhookAttempt(delivery.id, { status: "succeeded", nextAttemptAt: new Date(), statusCode, error, kid });
+    }
+
+    const attempts = delivery.attempts + 1;
+    const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    if (exhausted) {
+      console.warn(`Webhook delivery ${delivery.id} (${delivery.event}) failed after ${attempts} attempts: ${error}`);
+    }
+    return storage.recordWebhookAttempt(delivery.id, {
+      status: exhausted ? "failed" : "pending",
+      nextAttemptAt: new Date(Date.now() + (exhausted ? 0 : webhookRetryDelayMs(attempts))),
+      statusCode,
+      error,
+      kid
+    });
+  }
+}
+
+export const webhookService = new WebhookService();
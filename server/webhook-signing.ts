@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signature scheme for outbound webhooks. The body is signed with the active
+ * webhook_hmac key as HMAC-SHA256 over "<timestamp>.<body>"; receivers look the
+ * secret up by the kid header, so keys can be rotated without breaking them.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-easyloyalty-signature";
+export const WEBHOOK_KID_HEADER = "x-easyloyalty-kid";
+export const WEBHOOK_EVENT_HEADER = "x-easyloyalty-event";
+export const WEBHOOK_DELIVERY_HEADER = "x-easyloyalty-delivery";
+
+// Receivers should reject signatures older than this to limit replays
+export const WEBHOOK_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+}
+
+/**
+ * Headers for one delivery attempt; the timestamp is fresh on every attempt
+ */
+export function signWebhook(params: {
+  kid: string;
+  secret: string;
+  body: string;
+  event: string;
+  deliveryId: string;
+  timestamp?: number;
+}): Record<string, string> {
+  const timestamp = params.timestamp ?? Date.now();
+  return {
+    "content-type": "application/json",
+    [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${computeWebhookSignature(params.secret, timestamp, params.body)}`,
+    [WEBHOOK_KID_HEADER]: params.kid,
+    [WEBHOOK_EVENT_HEADER]: params.event,
+    [WEBHOOK_DELIVERY_HEADER]: params.deliveryId
+  };
+}
+
+/**
+ * Reference check for receivers (and tests): true when the header signs the body
+ * with the secret and is within the tolerance
+ */
+export function verifyWebhookSignature(secret: string, body: string, header: string, now: number = Date.now()): boolean {
+  const parts = Object.fromEntries(header.split(",").map(part => part.split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) {
+    return false;
+  }
+  if (Math.abs(now - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE_MS) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeWebhookSignature(secret, timestamp, body), "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
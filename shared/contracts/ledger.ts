@@ -8,7 +8,13 @@ export const LedgerErrorCode = z.enum([
   'REVERSAL_FORBIDDEN_TYPE',
   'VALIDATION_FAILED',
   'LEDGER_INVARIANT_BROKEN',
-  'FORBIDDEN_DEV_ENDPOINT'
+  'FORBIDDEN_DEV_ENDPOINT',
+  'INVALID_ACCOUNT',
+  'ACCOUNT_NOT_FOUND',
+  'ACCOUNT_ALREADY_EXISTS',
+  'PERIOD_CLOSED',
+  'PERIOD_NOT_FOUND',
+  'FORBIDDEN'
 ])
 export type LedgerErrorCode = z.infer<typeof LedgerErrorCode>
 
@@ -21,17 +27,32 @@ export const LedgerErrorResponse = z.object({
 export type LedgerErrorResponse = z.infer<typeof LedgerErrorResponse>
 
 // Transaction types
-export const LedgerTransactionType = z.enum(['topup', 'charge', 'bonus', 'reversal'])
+export const LedgerTransactionType = z.enum(['topup', 'charge', 'bonus', 'adjustment', 'expiry', 'transfer', 'reversal'])
 export type LedgerTransactionType = z.infer<typeof LedgerTransactionType>
 
 // Entry sides  
 export const LedgerEntrySide = z.enum(['debit', 'credit'])
 export type LedgerEntrySide = z.infer<typeof LedgerEntrySide>
 
-// Account codes
-export const AccountCode = z.enum(['1000', '2000', '4000', '5000'])
+// Account codes - the chart of accounts lives in the `accounts` table
+export const AccountCode = z.number().int().min(1000).max(9999)
 export type AccountCode = z.infer<typeof AccountCode>
 
+// Accounts the built-in operations post to (seeded by migrations/08_accounts.sql)
+export const SystemAccount = {
+  CASH: 1000, // Cash/Top-up Clearing (assets)
+  CASH_DRAWER: 1010, // Cash Drawer (assets), cash taken at the counter
+  CUSTOMER_CREDITS: 2000, // Customer Paid Credits (liabilities), one balance per customer
+  CUSTOMER_BONUS_CREDITS: 2010, // Customer Bonus Credits (liabilities), one balance per customer
+  PENDING_GIFTS: 2020, // Pending Gifts (liabilities), paid credit gifted to an email not yet registered
+  SALES_REVENUE: 4000, // Sales Revenue (revenue)
+  BREAKAGE_REVENUE: 4100, // Breakage Revenue (revenue), expired bonus credit
+  MARKETING_EXPENSE: 5000 // Marketing Expense (expense)
+} as const
+
+export const AccountType = z.enum(['asset', 'liability', 'revenue', 'expense', 'equity'])
+export type AccountType = z.infer<typeof AccountType>
+
 // Trial balance status
 export const TrialBalanceStatus = z.enum(['ok', 'mismatch'])
 export type TrialBalanceStatus = z.infer<typeof TrialBalanceStatus>
@@ -44,7 +65,8 @@ export const LedgerTransaction = z.object({
   originRef: z.string().nullable(),
   reversalOf: z.string().uuid().nullable(),
   createdBy: z.string().uuid().nullable(),
-  context: z.record(z.any()).default({})
+  context: z.record(z.any()).default({}),
+  effectiveAt: z.string() // accounting date, decides the period
 })
 export type LedgerTransaction = z.infer<typeof LedgerTransaction>
 
@@ -58,6 +80,17 @@ export const LedgerEntry = z.object({
 })
 export type LedgerEntry = z.infer<typeof LedgerEntry>
 
+export const Account = z.object({
+  code: AccountCode,
+  name: z.string(),
+  type: AccountType,
+  normalSide: LedgerEntrySide,
+  perCustomer: z.boolean(),
+  isActive: z.boolean(),
+  createdAt: z.string()
+})
+export type Account = z.infer<typeof Account>
+
 export const AccountBalance = z.object({
   id: z.string().uuid(),
   accountCode: z.number().int(),
@@ -81,10 +114,11 @@ export type TrialBalanceDaily = z.infer<typeof TrialBalanceDaily>
 export const HealthResponse = z.object({
   ok: z.literal(true),
   version: z.string(),
-  accounts: z.array(z.string()).length(4),
+  accounts: z.array(z.string()).min(1), // active account codes
   featureFlags: z.object({
     LEDGER_ENABLED: z.boolean(),
-    LEDGER_DEV_ENDPOINTS_ENABLED: z.boolean()
+    LEDGER_DEV_ENDPOINTS_ENABLED: z.boolean(),
+    LEDGER_CUTOVER: z.boolean()
   })
 })
 export type HealthResponse = z.infer<typeof HealthResponse>
@@ -92,14 +126,16 @@ export type HealthResponse = z.infer<typeof HealthResponse>
 // 4.2 Balances & transactions
 export const GetBalanceResponse = z.object({
   userId: z.string().uuid(),
-  balanceMinor: z.number().int(),
+  balanceMinor: z.number().int(), // paidMinor + bonusMinor
+  paidMinor: z.number().int(),
+  bonusMinor: z.number().int(),
   updatedAt: z.string()
 })
 export type GetBalanceResponse = z.infer<typeof GetBalanceResponse>
 
 export const GetTransactionResponse = z.object({
   transaction: LedgerTransaction,
-  entries: z.array(LedgerEntry).length(2)
+  entries: z.array(LedgerEntry).min(2) // N legs, Σdebit = Σcredit
 })
 export type GetTransactionResponse = z.infer<typeof GetTransactionResponse>
 
@@ -122,6 +158,8 @@ export type GetTransactionsResponse = z.infer<typeof GetTransactionsResponse>
 export const DevTopupRequest = z.object({
   userId: z.string().uuid(),
   amountMinor: z.number().int().positive(),
+  bonusMinor: z.number().int().nonnegative().optional(), // posted as a 5000 -> 2010 leg of the same transaction
+  tender: z.enum(['card', 'cash']).optional(), // cash is debited to 1010 instead of 1000; defaults to card
   note: z.string().optional()
 })
 export type DevTopupRequest = z.infer<typeof DevTopupRequest>
@@ -129,6 +167,7 @@ export type DevTopupRequest = z.infer<typeof DevTopupRequest>
 export const DevChargeRequest = z.object({
   userId: z.string().uuid(),
   amountMinor: z.number().int().positive(),
+  bonusMinor: z.number().int().nonnegative().optional(), // part taken from 2010; split by the consumption order when omitted
   note: z.string().optional()
 })
 export type DevChargeRequest = z.infer<typeof DevChargeRequest>
@@ -140,6 +179,36 @@ export const DevBonusRequest = z.object({
 })
 export type DevBonusRequest = z.infer<typeof DevBonusRequest>
 
+// Signed amount: positive credits the customer, negative debits them.
+// bonusMinor is the part booked on 2010 (credits default to bonus, debits to the
+// consumption order). effectiveAt dates the adjustment (must fall into an open period)
+export const AdjustmentRequest = z.object({
+  userId: z.string().uuid(),
+  amountMinor: z.number().int().refine(value => value !== 0, 'Amount must not be zero'),
+  bonusMinor: z.number().int().nonnegative().optional(),
+  reason: z.string(),
+  effectiveAt: z.string().datetime().optional()
+})
+export type AdjustmentRequest = z.infer<typeof AdjustmentRequest>
+
+// Expired bonus credit moved to breakage; lotId is the bonus lot that ran out
+export const BonusExpiryRequest = z.object({
+  userId: z.string().uuid(),
+  amountMinor: z.number().int().positive(),
+  lotId: z.string().uuid()
+})
+export type BonusExpiryRequest = z.infer<typeof BonusExpiryRequest>
+
+// Paid credit moved between customers; a null side is 2020 Pending Gifts
+// (gift sent to an unregistered email, then claimed or refunded)
+export const TransferRequest = z.object({
+  fromUserId: z.string().uuid().nullable(),
+  toUserId: z.string().uuid().nullable(),
+  amountMinor: z.number().int().positive(),
+  transferId: z.string().uuid()
+}).refine(request => request.fromUserId !== null || request.toUserId !== null, 'At least one side must be a customer')
+export type TransferRequest = z.infer<typeof TransferRequest>
+
 export const DevReversalRequest = z.object({
   txId: z.string().uuid()
 })
@@ -177,14 +246,107 @@ export const CustomerSearchResponse = z.object({
 export type CustomerSearchResponse = z.infer<typeof CustomerSearchResponse>
 
 // 4.5 Trial balance
+// An account_balances row that no longer matches the sum of its ledger entries.
+// sinceTxId is the first transaction after which the cached value stopped matching.
+export const BalanceDrift = z.object({
+  accountCode: z.number().int(),
+  userId: z.string().uuid().nullable(),
+  cachedMinor: z.number().int(),
+  expectedMinor: z.number().int(),
+  driftMinor: z.number().int(), // cached - expected
+  sinceTxId: z.string().uuid().nullable(),
+  sinceAt: z.string().nullable()
+})
+export type BalanceDrift = z.infer<typeof BalanceDrift>
+
 export const TrialBalanceRunResponse = z.object({
-  status: TrialBalanceStatus,
+  status: TrialBalanceStatus, // 'mismatch' on Σdebit ≠ Σcredit or any balance drift
   sumDebit: z.number().int(),
   sumCredit: z.number().int(),
-  delta: z.number().int()
+  delta: z.number().int(),
+  drift: z.array(BalanceDrift)
 })
 export type TrialBalanceRunResponse = z.infer<typeof TrialBalanceRunResponse>
 
+export const RebuildBalanceCacheResponse = z.object({
+  rowsUpdated: z.number().int(),
+  rowsInserted: z.number().int(),
+  repaired: z.array(BalanceDrift) // drift found and fixed by the rebuild
+})
+export type RebuildBalanceCacheResponse = z.infer<typeof RebuildBalanceCacheResponse>
+
+// 4.6 Chart of accounts (admin)
+export const ListAccountsResponse = z.object({
+  accounts: z.array(Account)
+})
+export type ListAccountsResponse = z.infer<typeof ListAccountsResponse>
+
+// normalSide defaults from type: debit for asset/expense, credit otherwise
+export const CreateAccountRequest = z.object({
+  code: AccountCode,
+  name: z.string().min(1).max(100),
+  type: AccountType,
+  normalSide: LedgerEntrySide.optional(),
+  perCustomer: z.boolean().default(false)
+})
+export type CreateAccountRequest = z.infer<typeof CreateAccountRequest>
+
+export const UpdateAccountRequest = z.object({
+  name: z.string().min(1).max(100).optional(),
+  isActive: z.boolean().optional()
+})
+export type UpdateAccountRequest = z.infer<typeof UpdateAccountRequest>
+
+export const AccountResponse = z.object({
+  account: Account
+})
+export type AccountResponse = z.infer<typeof AccountResponse>
+
+// 4.7 Accounting periods
+export const AccountingPeriodGranularity = z.enum(['day', 'month'])
+export type AccountingPeriodGranularity = z.infer<typeof AccountingPeriodGranularity>
+
+export const AccountingPeriodStatus = z.enum(['open', 'closed'])
+export type AccountingPeriodStatus = z.infer<typeof AccountingPeriodStatus>
+
+export const AccountingPeriod = z.object({
+  id: z.string().uuid(),
+  granularity: AccountingPeriodGranularity,
+  startsAt: z.string(),
+  endsAt: z.string(), // exclusive
+  status: AccountingPeriodStatus,
+  closedAt: z.string().nullable(),
+  closedBy: z.string().uuid().nullable()
+})
+export type AccountingPeriod = z.infer<typeof AccountingPeriod>
+
+export const PeriodBalanceSnapshot = z.object({
+  accountCode: z.number().int(),
+  userId: z.string().uuid().nullable(),
+  debitMinor: z.number().int(),
+  creditMinor: z.number().int(),
+  balanceMinor: z.number().int()
+})
+export type PeriodBalanceSnapshot = z.infer<typeof PeriodBalanceSnapshot>
+
+// startsOn is any UTC date inside the period; month periods snap to the 1st
+export const CreatePeriodRequest = z.object({
+  granularity: AccountingPeriodGranularity,
+  startsOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+})
+export type CreatePeriodRequest = z.infer<typeof CreatePeriodRequest>
+
+export const ListPeriodsResponse = z.object({
+  periods: z.array(AccountingPeriod)
+})
+export type ListPeriodsResponse = z.infer<typeof ListPeriodsResponse>
+
+export const PeriodResponse = z.object({
+  period: AccountingPeriod,
+  snapshot: z.array(PeriodBalanceSnapshot) // empty while the period is open
+})
+export type PeriodResponse = z.infer<typeof PeriodResponse>
+
 // HTTP status code mappings for error codes
 export const ERROR_HTTP_MAPPING = {
   INSUFFICIENT_FUNDS: 409,
@@ -193,7 +355,13 @@ export const ERROR_HTTP_MAPPING = {
   REVERSAL_FORBIDDEN_TYPE: 409,
   VALIDATION_FAILED: 422,
   LEDGER_INVARIANT_BROKEN: 500,
-  FORBIDDEN_DEV_ENDPOINT: 403
+  FORBIDDEN_DEV_ENDPOINT: 403,
+  INVALID_ACCOUNT: 422,
+  ACCOUNT_NOT_FOUND: 404,
+  ACCOUNT_ALREADY_EXISTS: 409,
+  PERIOD_CLOSED: 409,
+  PERIOD_NOT_FOUND: 404,
+  FORBIDDEN: 403
 } as const
 
 // Helper to create error response
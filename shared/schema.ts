@@ -1,11 +1,11 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, uuid, timestamp, jsonb, pgEnum, boolean, inet, unique, index, bigint } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, uuid, timestamp, jsonb, pgEnum, boolean, inet, unique, index, uniqueIndex, bigint } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
 // Enums
-export const txnTypeEnum = pgEnum("txn_type", ["topup", "charge", "void", "adjustment"]);
+export const txnTypeEnum = pgEnum("txn_type", ["topup", "charge", "void", "adjustment", "bonus_expiry", "referral_bonus", "transfer", "voucher_bonus", "topup_void"]);
 export const userStatusEnum = pgEnum("user_status", ["active", "blocked"]);
 export const adminRoleEnum = pgEnum("admin_role", ["manager", "staff"]);
 export const actorTypeEnum = pgEnum("actor_type", ["user", "admin", "system"]);
@@ -17,9 +17,44 @@ export const keyStatusEnum = pgEnum("key_status", ["active", "retiring", "retire
 export const keyEventEnum = pgEnum("key_event", ["sign_ok", "sign_fail", "verify_ok", "verify_fail", "jwks_served"]);
 
 // Ledger enums
-export const ledgerTransactionTypeEnum = pgEnum("ledger_transaction_type", ["topup", "charge", "bonus", "reversal"]);
+export const ledgerTransactionTypeEnum = pgEnum("ledger_transaction_type", ["topup", "charge", "bonus", "adjustment", "expiry", "transfer", "reversal"]);
 export const ledgerEntrySideEnum = pgEnum("ledger_entry_side", ["debit", "credit"]);
 export const trialBalanceStatusEnum = pgEnum("trial_balance_status", ["ok", "mismatch"]);
+export const accountTypeEnum = pgEnum("account_type", ["asset", "liability", "revenue", "expense", "equity"]);
+export const accountingPeriodGranularityEnum = pgEnum("accounting_period_granularity", ["day", "month"]);
+export const accountingPeriodStatusEnum = pgEnum("accounting_period_status", ["open", "closed"]);
+
+// Charge flow enums
+export const chargeSessionStatusEnum = pgEnum("charge_session_status", ["initiated", "confirmed", "voided", "expired"]);
+export const posTopupStatusEnum = pgEnum("pos_topup_status", ["initiated", "confirmed", "voided", "expired"]);
+export const posShiftStatusEnum = pgEnum("pos_shift_status", ["open", "closed"]);
+
+// Payment enums
+export const topupPaymentStatusEnum = pgEnum("topup_payment_status", ["pending", "authorized", "captured", "failed"]);
+
+// Scheduler enums
+export const jobRunStatusEnum = pgEnum("job_run_status", ["running", "succeeded", "failed"]);
+
+// Webhook enums
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", ["pending", "succeeded", "failed"]);
+
+// Stamp card enums
+export const stampRuleEnum = pgEnum("stamp_rule", ["per_charge", "per_amount"]);
+export const stampEntryReasonEnum = pgEnum("stamp_entry_reason", ["charge", "void", "reward"]);
+export const stampRewardStatusEnum = pgEnum("stamp_reward_status", ["available", "redeemed", "revoked"]);
+
+// Customer tier enums
+export const customerTierEnum = pgEnum("customer_tier", ["bronze", "silver", "gold"]);
+
+// Referral enums
+export const referralStatusEnum = pgEnum("referral_status", ["pending", "rewarded", "rejected"]);
+
+// Wallet transfer enums
+export const walletTransferStatusEnum = pgEnum("wallet_transfer_status", ["completed", "pending", "cancelled", "expired"]);
+
+// Voucher enums
+export const voucherTypeEnum = pgEnum("voucher_type", ["fixed", "percent_bonus"]);
+export const voucherRedemptionStatusEnum = pgEnum("voucher_redemption_status", ["credited", "pending", "expired"]);
 
 // Users table
 export const users = pgTable("users", {
@@ -32,6 +67,12 @@ export const users = pgTable("users", {
   status: userStatusEnum("status").default("active").notNull(),
   passwordChangedAt: timestamp("password_changed_at"),
   tokenVersion: integer("token_version").default(0).notNull(),
+  // Tier from charge spend over the rolling window; see server/customer-tiers.ts
+  tier: customerTierEnum("tier").default("bronze").notNull(),
+  tierSpendCents: integer("tier_spend_cents").default(0).notNull(), // rolling spend at the last recompute
+  tierUpdatedAt: timestamp("tier_updated_at"),
+  referralCode: text("referral_code").unique(), // personal code new customers sign up with
+  emailReceipts: boolean("email_receipts").default(false).notNull(), // email a receipt after every charge
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
   lastLoginAt: timestamp("last_login_at")
 });
@@ -42,6 +83,8 @@ export const wallets = pgTable("wallets", {
   userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
   balanceCents: integer("balance_cents").default(0).notNull(),
   bonusGrantedTotalCents: integer("bonus_granted_total_cents").default(0).notNull(),
+  // Bonus part of balance_cents; the rest is paid credit
+  bonusBalanceCents: integer("bonus_balance_cents").default(0).notNull(),
   lastActivityAt: timestamp("last_activity_at")
 });
 
@@ -126,7 +169,8 @@ export const transactions = pgTable("transactions", {
   createdAt: timestamp("created_at").default(sql`now()`).notNull()
 }, (table) => ({
   idempotencyKeyIdx: unique("idx_txn_idem").on(table.idempotencyKey),
-  userTimeIdx: index("idx_txn_user_time").on(table.userId, table.createdAt)
+  userTimeIdx: index("idx_txn_user_time").on(table.userId, table.createdAt),
+  metaAdminCreatedIdx: index("idx_transactions_meta_admin_created").on(sql`(${table.meta}->>'adminId')`, table.createdAt) // shift activity
 }));
 
 // Idempotency keys table
@@ -136,6 +180,370 @@ export const idempotencyKeys = pgTable("idempotency_keys", {
   requestHash: text("request_hash").notNull()
 });
 
+// Token blacklist for access tokens (short TTL, see 04_secure_auth.sql)
+export const tokenBlacklist = pgTable("token_blacklist", {
+  jti: varchar("jti", { length: 32 }).primaryKey(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`)
+}, (table) => ({
+  expiresAtIdx: index("idx_token_blacklist_expires").on(table.expiresAt)
+}));
+
+// QR payment tokens (single use, short lived)
+export const qrTokens = pgTable("qr_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  payloadHash: text("payload_hash").notNull().unique(), // SHA-256 of the QR JWT
+  shortCode: text("short_code").notNull().unique(), // e.g. ABCD-1234
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull()
+}, (table) => ({
+  userIdIdx: index("idx_qr_tokens_user_id").on(table.userId),
+  expiresAtIdx: index("idx_qr_tokens_expires_at").on(table.expiresAt)
+}));
+
+// Charge sessions (init -> confirm -> optional void)
+export const chargeSessions = pgTable("charge_sessions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`), // chargeId
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  adminId: uuid("admin_id").references(() => adminUsers.id).notNull(),
+  qrTokenId: uuid("qr_token_id").references(() => qrTokens.id, { onDelete: "set null" }),
+  status: chargeSessionStatusEnum("status").default("initiated").notNull(),
+  amountCents: integer("amount_cents"),
+  transactionId: uuid("transaction_id"),
+  ledgerTxId: uuid("ledger_tx_id"),
+  rewardId: uuid("reward_id"), // stamp reward redeemed instead of wallet money; amount_cents is 0 then
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // deadline for confirm
+  confirmedAt: timestamp("confirmed_at"),
+  voidedAt: timestamp("voided_at")
+}, (table) => ({
+  userIdIdx: index("idx_charge_sessions_user_id").on(table.userId),
+  statusExpiresIdx: index("idx_charge_sessions_status_expires").on(table.status, table.expiresAt)
+}));
+
+// Cash top-ups taken at the counter. Opened by a QR scan like a charge session; records
+// the staff member and POS session that took the cash
+export const posTopups = pgTable("pos_topups", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`), // topupId
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  adminId: uuid("admin_id").references(() => adminUsers.id).notNull(),
+  adminSessionId: uuid("admin_session_id").references(() => adminSessions.id), // POS session at the till
+  qrTokenId: uuid("qr_token_id").references(() => qrTokens.id, { onDelete: "set null" }),
+  status: posTopupStatusEnum("status").default("initiated").notNull(),
+  packageCode: text("package_code"), // null for a custom amount
+  packageId: uuid("package_id").references(() => topupPackages.id),
+  amountCents: integer("amount_cents"), // cash taken
+  bonusCents: integer("bonus_cents"),
+  transactionId: uuid("transaction_id"),
+  ledgerTxId: uuid("ledger_tx_id"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // deadline for confirm
+  confirmedAt: timestamp("confirmed_at"),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: uuid("voided_by").references(() => adminUsers.id)
+}, (table) => ({
+  userIdIdx: index("idx_pos_topups_user_id").on(table.userId),
+  statusExpiresIdx: index("idx_pos_topups_status_expires").on(table.status, table.expiresAt),
+  adminSessionIdx: index("idx_pos_topups_admin_session").on(table.adminSessionId)
+}));
+
+// Till shifts: opened with a cash float, closed with the counted cash. The Z-report of
+// the staff member's activity during the shift is stored on close
+export const posShifts = pgTable("pos_shifts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  adminId: uuid("admin_id").references(() => adminUsers.id).notNull(),
+  adminSessionId: uuid("admin_session_id").references(() => adminSessions.id), // POS session that opened it
+  status: posShiftStatusEnum("status").default("open").notNull(),
+  openingFloatCents: integer("opening_float_cents").notNull(),
+  countedCashCents: integer("counted_cash_cents"), // set on close
+  expectedCashCents: integer("expected_cash_cents"),
+  varianceCents: integer("variance_cents"), // counted - expected
+  report: jsonb("report"), // ZReport, see server/shift-report.ts
+  note: text("note"),
+  openedAt: timestamp("opened_at").default(sql`now()`).notNull(),
+  closedAt: timestamp("closed_at")
+}, (table) => ({
+  adminOpenedIdx: index("idx_pos_shifts_admin_opened").on(table.adminId, table.openedAt),
+  openAdminUnique: uniqueIndex("pos_shifts_open_admin_unique").on(table.adminId).where(sql`status = 'open'`)
+}));
+
+// Product catalogue for itemised charges. Prices include VAT; a product that has been
+// sold is retired by deactivating it, so its charge items keep pointing at it
+export const products = pgTable("products", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  category: text("category").notNull(),
+  priceCents: integer("price_cents").notNull(),
+  vatRateBps: integer("vat_rate_bps").notNull(), // 2100 = 21 %
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: uuid("created_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull()
+}, (table) => ({
+  categoryNameIdx: index("idx_products_category_name").on(table.category, table.name)
+}));
+
+// Line items of an itemised charge, copied from the catalogue at the time of sale so
+// later price or name changes don't rewrite history. Amounts are list prices, before
+// the tier discount on the whole charge
+export const chargeItems = pgTable("charge_items", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  chargeId: uuid("charge_id").references(() => chargeSessions.id, { onDelete: "cascade" }).notNull(),
+  productId: uuid("product_id").references(() => products.id).notNull(),
+  name: text("name").notNull(),
+  category: text("category").notNull(),
+  unitPriceCents: integer("unit_price_cents").notNull(),
+  quantity: integer("quantity").notNull(),
+  vatRateBps: integer("vat_rate_bps").notNull(),
+  lineTotalCents: integer("line_total_cents").notNull(), // unit price x quantity, VAT included
+  vatCents: integer("vat_cents").notNull(), // VAT contained in lineTotalCents
+  createdAt: timestamp("created_at").default(sql`now()`).notNull()
+}, (table) => ({
+  chargeIdIdx: index("idx_charge_items_charge_id").on(table.chargeId),
+  productIdIdx: index("idx_charge_items_product_id").on(table.productId)
+}));
+
+// Receipt issued with every wallet charge, one per charge session. Staff, amounts and
+// the VAT breakdown are snapshots; whether it was voided comes from the charge session.
+// vat_lines holds VatLine[], see server/receipt.ts
+export const receipts = pgTable("receipts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  receiptNumber: text("receipt_number").notNull().unique(), // 2026-000123, see formatReceiptNumber in server/receipt.ts
+  chargeId: uuid("charge_id").references(() => chargeSessions.id, { onDelete: "cascade" }).notNull().unique(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  adminId: uuid("admin_id").references(() => adminUsers.id),
+  staffName: text("staff_name").notNull(),
+  listAmountCents: integer("list_amount_cents").notNull(), // before the tier discount
+  discountCents: integer("discount_cents").default(0).notNull(),
+  amountCents: integer("amount_cents").notNull(), // actually charged
+  balanceAfterCents: integer("balance_after_cents").notNull(),
+  vatLines: jsonb("vat_lines").default([]).notNull(),
+  issuedAt: timestamp("issued_at").default(sql`now()`).notNull(),
+  emailedAt: timestamp("emailed_at")
+}, (table) => ({
+  userIssuedIdx: index("idx_receipts_user_issued").on(table.userId, table.issuedAt)
+}));
+
+// Last receipt number issued per calendar year; bumped in the receipt's transaction
+export const receiptNumberCounters = pgTable("receipt_number_counters", {
+  year: integer("year").primaryKey(),
+  lastNumber: integer("last_number").notNull()
+});
+
+// Top-up packages offered to customers. Rows are immutable versions: an edit supersedes
+// the current row with a new one, so a top-up can point at the exact terms it was sold on
+export const topupPackages = pgTable("topup_packages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  payCents: integer("pay_cents").notNull(),
+  bonusCents: integer("bonus_cents").notNull(),
+  isPopular: boolean("is_popular").default(false).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  validFrom: timestamp("valid_from"), // offered only inside the window, open-ended when null
+  validTo: timestamp("valid_to"),
+  promoLabel: text("promo_label"), // e.g. "+5 % bonus this weekend"
+  promoBonusBps: integer("promo_bonus_bps"), // extra bonus in basis points of the paid amount
+  promoStartsAt: timestamp("promo_starts_at"),
+  promoEndsAt: timestamp("promo_ends_at"),
+  supersededAt: timestamp("superseded_at"), // null on the current version
+  createdBy: uuid("created_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull()
+}, (table) => ({
+  codeVersionUnique: unique("topup_packages_code_version_unique").on(table.code, table.version),
+  currentCodeUnique: uniqueIndex("topup_packages_current_code_unique").on(table.code).where(sql`superseded_at IS NULL`)
+}));
+
+// Customer top-up payments (pending -> authorized -> captured, or failed)
+// The wallet is credited, bonus included, only when the payment is captured
+export const topupPayments = pgTable("topup_payments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  packageCode: text("package_code").notNull(),
+  packageId: uuid("package_id").references(() => topupPackages.id), // package version sold, null before 13_topup_packages.sql
+  amountCents: integer("amount_cents").notNull(), // charged to the customer
+  bonusCents: integer("bonus_cents").notNull(), // credited on top on capture
+  provider: text("provider").notNull(),
+  providerRef: text("provider_ref"), // provider's payment id, set once the payment is created there
+  redirectUrl: text("redirect_url"), // provider checkout page for the customer
+  status: topupPaymentStatusEnum("status").default("pending").notNull(),
+  idempotencyKey: text("idempotency_key").notNull(),
+  transactionId: uuid("transaction_id"), // topup row in transactions, set on capture
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+  authorizedAt: timestamp("authorized_at"),
+  capturedAt: timestamp("captured_at")
+}, (table) => ({
+  userIdempotencyUnique: unique("topup_payments_user_idempotency_unique").on(table.userId, table.idempotencyKey),
+  providerRefUnique: unique("topup_payments_provider_ref_unique").on(table.provider, table.providerRef),
+  userCreatedIdx: index("idx_topup_payments_user_created").on(table.userId, table.createdAt)
+}));
+
+// Bonus lots - bonus credit granted by one top-up, consumed FIFO and expired as a unit
+export const bonusLots = pgTable("bonus_lots", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  transactionId: uuid("transaction_id").references(() => transactions.id), // granting topup, null for lots opened by 15_bonus_expiry.sql
+  grantedCents: integer("granted_cents").notNull(),
+  remainingCents: integer("remaining_cents").notNull(),
+  grantedAt: timestamp("granted_at").default(sql`now()`).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  warnedAt: timestamp("warned_at"), // expiry notice sent
+  expiredAt: timestamp("expired_at")
+}, (table) => ({
+  userExpiresIdx: index("idx_bonus_lots_user_expires").on(table.userId, table.expiresAt)
+}));
+
+// Stamp programmes ("10th coffee free"): charges earn stamps, a full card issues a reward
+export const stampPrograms = pgTable("stamp_programs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  rule: stampRuleEnum("rule").notNull(),
+  // per_charge: minimum charge that earns a stamp; per_amount: charged amount per stamp
+  thresholdCents: integer("threshold_cents").default(0).notNull(),
+  stampsRequired: integer("stamps_required").notNull(),
+  rewardName: text("reward_name").notNull(),
+  rewardValueCents: integer("reward_value_cents").notNull(), // most a redeemed reward may cover
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: uuid("created_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull()
+});
+
+// Rewards issued from full stamp cards
+export const stampRewards = pgTable("stamp_rewards", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  programId: uuid("program_id").references(() => stampPrograms.id).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  status: stampRewardStatusEnum("status").default("available").notNull(),
+  valueCents: integer("value_cents").notNull(), // programme's reward value when issued
+  issuedByChargeId: uuid("issued_by_charge_id"), // charge whose stamps filled the card
+  redeemedChargeId: uuid("redeemed_charge_id"),
+  issuedAt: timestamp("issued_at").default(sql`now()`).notNull(),
+  redeemedAt: timestamp("redeemed_at"),
+  revokedAt: timestamp("revoked_at")
+}, (table) => ({
+  userStatusIdx: index("idx_stamp_rewards_user_status").on(table.userId, table.status)
+}));
+
+// Stamp ledger: a customer's stamps on a programme are the sum of their entries
+export const stampEntries = pgTable("stamp_entries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  programId: uuid("program_id").references(() => stampPrograms.id).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  delta: integer("delta").notNull(),
+  reason: stampEntryReasonEnum("reason").notNull(),
+  chargeId: uuid("charge_id").references(() => chargeSessions.id),
+  rewardId: uuid("reward_id").references(() => stampRewards.id),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull()
+}, (table) => ({
+  userProgramIdx: index("idx_stamp_entries_user_program").on(table.userId, table.programId),
+  chargeIdx: index("idx_stamp_entries_charge").on(table.chargeId)
+}));
+
+// Referrals - one per referred customer, rewarded once the referee's first top-up is captured
+export const referrals = pgTable("referrals", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  referrerId: uuid("referrer_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  refereeId: uuid("referee_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  code: text("code").notNull(), // as entered at signup
+  status: referralStatusEnum("status").default("pending").notNull(),
+  rejectReason: text("reject_reason"), // same_ip, same_device, referrer_cap, programme_inactive or admin
+  signupIp: inet("signup_ip"),
+  signupUserAgent: text("signup_user_agent"),
+  referrerBonusCents: integer("referrer_bonus_cents"), // set when rewarded
+  refereeBonusCents: integer("referee_bonus_cents"),
+  qualifyingPaymentId: uuid("qualifying_payment_id").references(() => topupPayments.id),
+  qualifyingPosTopupId: uuid("qualifying_pos_topup_id").references(() => posTopups.id), // first top-up was cash at the till
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  decidedAt: timestamp("decided_at") // rewarded or rejected
+}, (table) => ({
+  referrerIdx: index("idx_referrals_referrer").on(table.referrerId, table.status)
+}));
+
+// Referral programme settings and anti-abuse rules, a single row (id = 1)
+export const referralSettings = pgTable("referral_settings", {
+  id: integer("id").primaryKey().default(1),
+  isActive: boolean("is_active").default(true).notNull(),
+  referrerBonusCents: integer("referrer_bonus_cents").notNull(),
+  refereeBonusCents: integer("referee_bonus_cents").notNull(),
+  maxRewardsPerReferrer: integer("max_rewards_per_referrer"), // null = no cap
+  blockSameIp: boolean("block_same_ip").default(false).notNull(),
+  blockSameDevice: boolean("block_same_device").default(true).notNull(),
+  updatedBy: uuid("updated_by").references(() => adminUsers.id),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull()
+});
+
+// Wallet-to-wallet transfers of paid credit. A transfer to an unregistered email is a
+// pending gift: debited from the sender at once and credited when the recipient signs up
+export const walletTransfers = pgTable("wallet_transfers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  senderId: uuid("sender_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  recipientId: uuid("recipient_id").references(() => users.id, { onDelete: "cascade" }), // null until a gift is claimed
+  recipientEmail: text("recipient_email").notNull(), // lower-cased
+  amountCents: integer("amount_cents").notNull(),
+  message: text("message"),
+  status: walletTransferStatusEnum("status").notNull(),
+  idempotencyKey: text("idempotency_key").notNull(),
+  expiresAt: timestamp("expires_at"), // gifts only
+  claimTokenHash: text("claim_token_hash"), // gifts only: SHA-256 of the token in the emailed claim link
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  completedAt: timestamp("completed_at") // credited, refunded or expired
+}, (table) => ({
+  senderKeyUnique: unique("wallet_transfers_sender_key_unique").on(table.senderId, table.idempotencyKey),
+  senderCreatedIdx: index("idx_wallet_transfers_sender_created").on(table.senderId, table.createdAt),
+  claimTokenIdx: uniqueIndex("idx_wallet_transfers_claim_token").on(table.claimTokenHash).where(sql`claim_token_hash IS NOT NULL`)
+}));
+
+// Voucher batches: the terms shared by a set of codes (one flyer code or many single-use ones)
+export const voucherBatches = pgTable("voucher_batches", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: voucherTypeEnum("type").notNull(),
+  valueCents: integer("value_cents"), // fixed: bonus credited on redemption
+  bonusBps: integer("bonus_bps"), // percent_bonus: bonus on the next captured top-up, in basis points
+  maxRedemptionsPerCode: integer("max_redemptions_per_code"), // null = unlimited, 1 = single-use
+  perCustomerLimit: integer("per_customer_limit").default(1).notNull(), // across all codes of the batch
+  validFrom: timestamp("valid_from"),
+  expiresAt: timestamp("expires_at"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: uuid("created_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull()
+});
+
+export const vouchers = pgTable("vouchers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: uuid("batch_id").references(() => voucherBatches.id, { onDelete: "cascade" }).notNull(),
+  code: text("code").notNull().unique(), // normalized, see normalizeVoucherCode
+  redemptionCount: integer("redemption_count").default(0).notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull()
+}, (table) => ({
+  batchIdx: index("idx_vouchers_batch").on(table.batchId)
+}));
+
+// A percent_bonus redemption stays pending until the customer's next captured top-up
+export const voucherRedemptions = pgTable("voucher_redemptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  voucherId: uuid("voucher_id").references(() => vouchers.id).notNull(),
+  batchId: uuid("batch_id").references(() => voucherBatches.id).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  status: voucherRedemptionStatusEnum("status").notNull(),
+  bonusCents: integer("bonus_cents"), // set once credited
+  paymentId: uuid("payment_id").references(() => topupPayments.id), // top-up a percent bonus was applied to
+  posTopupId: uuid("pos_topup_id").references(() => posTopups.id), // ... when it was a cash top-up
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  settledAt: timestamp("settled_at") // credited or expired
+}, (table) => ({
+  userBatchIdx: index("idx_voucher_redemptions_user_batch").on(table.userId, table.batchId),
+  pendingUserUnique: uniqueIndex("voucher_redemptions_pending_user_unique").on(table.userId).where(sql`status = 'pending'`)
+}));
+
 // Metrics daily table (optional)
 export const metricsDaily = pgTable("metrics_daily", {
   date: text("date").primaryKey(), // YYYY-MM-DD format
@@ -145,6 +553,64 @@ export const metricsDaily = pgTable("metrics_daily", {
   spendCents: integer("spend_cents").notNull()
 });
 
+// Scheduled job locks - one row per job, held by the instance running it
+export const jobLocks = pgTable("job_locks", {
+  jobName: text("job_name").primaryKey(),
+  lockedBy: text("locked_by").notNull(), // scheduler instance id
+  lockedUntil: timestamp("locked_until").notNull(), // lease, expires if the holder dies
+  lastSlotAt: timestamp("last_slot_at").notNull() // last schedule slot claimed, prevents double runs
+});
+
+// Scheduled job run history
+export const jobRuns = pgTable("job_runs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobName: text("job_name").notNull(),
+  instanceId: text("instance_id").notNull(),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  startedAt: timestamp("started_at").default(sql`now()`).notNull(),
+  finishedAt: timestamp("finished_at"),
+  status: jobRunStatusEnum("status").default("running").notNull(),
+  result: jsonb("result"),
+  error: text("error")
+}, (table) => ({
+  jobStartedIdx: index("idx_job_runs_job_started").on(table.jobName, table.startedAt),
+  statusStartedIdx: index("idx_job_runs_status_started").on(table.status, table.startedAt)
+}));
+
+// Outbound webhook endpoints registered by admins
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: text("events").array().notNull(), // subscribed event types, see WEBHOOK_EVENTS
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: uuid("created_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull()
+});
+
+// One row per event per endpoint, retried with backoff until delivered or out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: uuid("endpoint_id").references(() => webhookEndpoints.id, { onDelete: "cascade" }).notNull(),
+  eventId: uuid("event_id").notNull(), // shared by all deliveries (and replays) of one event
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: webhookDeliveryStatusEnum("status").default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").default(sql`now()`).notNull(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  kid: text("kid"), // webhook_hmac key that signed the last attempt
+  replayOf: uuid("replay_of"), // delivery this one was replayed from
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  deliveredAt: timestamp("delivered_at")
+}, (table) => ({
+  statusNextAttemptIdx: index("idx_webhook_deliveries_status_next_attempt").on(table.status, table.nextAttemptAt),
+  endpointCreatedIdx: index("idx_webhook_deliveries_endpoint_created").on(table.endpointId, table.createdAt)
+}));
+
 // Keys table (keystore)
 export const keys = pgTable("keys", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -171,6 +637,17 @@ export const keyAudit = pgTable("key_audit", {
   context: jsonb("context").default({}).notNull()
 });
 
+// Chart of accounts - every ledger entry and balance row must reference an account here
+export const accounts = pgTable("accounts", {
+  code: integer("code").primaryKey(),
+  name: text("name").notNull(),
+  type: accountTypeEnum("type").notNull(),
+  normalSide: ledgerEntrySideEnum("normal_side").notNull(), // side on which the balance increases
+  perCustomer: boolean("per_customer").default(false).notNull(), // entries carry user_id (sub-ledger per customer)
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull()
+});
+
 // Ledger transactions table
 export const ledgerTransactions = pgTable("ledger_transactions", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -179,10 +656,13 @@ export const ledgerTransactions = pgTable("ledger_transactions", {
   originRef: text("origin_ref"),
   reversalOf: uuid("reversal_of"),
   createdBy: uuid("created_by"),
-  context: jsonb("context").default({}).notNull()
+  context: jsonb("context").default({}).notNull(),
+  effectiveAt: timestamp("effective_at").default(sql`now()`).notNull() // accounting date, decides the period
 }, (table) => ({
+  effectiveAtIdx: index("idx_ledger_tx_effective_at").on(table.effectiveAt),
   reversalOfUnique: unique("ledger_tx_reversal_of_unique").on(table.reversalOf),
   createdAtIdx: index("idx_ledger_tx_created_at").on(table.createdAt),
+  originRefIdx: index("idx_ledger_tx_origin_ref").on(table.originRef),
   reversalOfFk: sql`FOREIGN KEY (reversal_of) REFERENCES ledger_transactions(id)`
 }));
 
@@ -190,7 +670,7 @@ export const ledgerTransactions = pgTable("ledger_transactions", {
 export const ledgerEntries = pgTable("ledger_entries", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   txId: uuid("tx_id").references(() => ledgerTransactions.id, { onDelete: "cascade" }).notNull(),
-  accountCode: integer("account_code").notNull(),
+  accountCode: integer("account_code").references(() => accounts.code).notNull(),
   userId: uuid("user_id"),
   side: ledgerEntrySideEnum("side").notNull(),
   amountMinor: bigint("amount_minor", { mode: "number" }).notNull()
@@ -203,16 +683,12 @@ export const ledgerEntries = pgTable("ledger_entries", {
 // Account balances table (cache)
 export const accountBalances = pgTable("account_balances", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
-  accountCode: integer("account_code").notNull(),
+  accountCode: integer("account_code").references(() => accounts.code).notNull(),
   userId: uuid("user_id"),
   balanceMinor: bigint("balance_minor", { mode: "number" }).notNull(),
   updatedAt: timestamp("updated_at").default(sql`now()`).notNull()
 }, (table) => ({
-  accountCodeIdx: index("idx_account_balances_account_code").on(table.accountCode),
-  // Check constraints for account/user relationships
-  customerCreditsUserRequired: sql`CHECK ((account_code = 2000 AND user_id IS NOT NULL) OR account_code != 2000)`,
-  globalAccountsUserNull: sql`CHECK ((account_code IN (1000, 4000, 5000) AND user_id IS NULL) OR account_code NOT IN (1000, 4000, 5000))`,
-  customerCreditsBalanceNonNegative: sql`CHECK ((account_code != 2000) OR (account_code = 2000 AND balance_minor >= 0))`
+  accountCodeIdx: index("idx_account_balances_account_code").on(table.accountCode)
 }));
 
 // Trial balance daily table
@@ -225,6 +701,34 @@ export const trialBalanceDaily = pgTable("trial_balance_daily", {
   details: jsonb("details")
 });
 
+// Accounting periods - postings dated inside a closed period are rejected
+export const accountingPeriods = pgTable("accounting_periods", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  granularity: accountingPeriodGranularityEnum("granularity").notNull(),
+  startsAt: timestamp("starts_at").notNull(), // UTC midnight, inclusive
+  endsAt: timestamp("ends_at").notNull(), // UTC midnight, exclusive
+  status: accountingPeriodStatusEnum("status").default("open").notNull(),
+  closedAt: timestamp("closed_at"),
+  closedBy: uuid("closed_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull()
+}, (table) => ({
+  granularityStartUnique: unique("accounting_periods_granularity_start_unique").on(table.granularity, table.startsAt),
+  rangeIdx: index("idx_accounting_periods_range").on(table.startsAt, table.endsAt)
+}));
+
+// Per-account balances frozen when a period is closed
+export const periodBalanceSnapshots = pgTable("period_balance_snapshots", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  periodId: uuid("period_id").references(() => accountingPeriods.id, { onDelete: "cascade" }).notNull(),
+  accountCode: integer("account_code").references(() => accounts.code).notNull(),
+  userId: uuid("user_id"),
+  debitMinor: bigint("debit_minor", { mode: "number" }).notNull(), // activity within the period
+  creditMinor: bigint("credit_minor", { mode: "number" }).notNull(),
+  balanceMinor: bigint("balance_minor", { mode: "number" }).notNull() // closing balance at period end
+}, (table) => ({
+  periodIdx: index("idx_period_balance_snapshots_period").on(table.periodId)
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   wallet: one(wallets),
@@ -272,6 +776,28 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
   })
 }));
 
+export const qrTokensRelations = relations(qrTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [qrTokens.userId],
+    references: [users.id]
+  })
+}));
+
+export const chargeSessionsRelations = relations(chargeSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [chargeSessions.userId],
+    references: [users.id]
+  }),
+  admin: one(adminUsers, {
+    fields: [chargeSessions.adminId],
+    references: [adminUsers.id]
+  }),
+  qrToken: one(qrTokens, {
+    fields: [chargeSessions.qrTokenId],
+    references: [qrTokens.id]
+  })
+}));
+
 export const ledgerTransactionsRelations = relations(ledgerTransactions, ({ many, one }) => ({
   entries: many(ledgerEntries),
   reversals: many(ledgerTransactions, {
@@ -294,6 +820,10 @@ export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  referralCode: true,
+  tier: true,
+  tierSpendCents: true,
+  tierUpdatedAt: true,
   createdAt: true,
   lastLoginAt: true
 });
@@ -356,6 +886,26 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   createdAt: true
 });
 
+export const insertQrTokenSchema = createInsertSchema(qrTokens).omit({
+  id: true,
+  createdAt: true,
+  usedAt: true
+});
+
+export const insertChargeSessionSchema = createInsertSchema(chargeSessions).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertPosTopupSchema = createInsertSchema(posTopups).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertAccountSchema = createInsertSchema(accounts).omit({
+  createdAt: true
+});
+
 export const insertLedgerTransactionSchema = createInsertSchema(ledgerTransactions).omit({
   id: true,
   createdAt: true
@@ -372,6 +922,90 @@ export const insertAccountBalanceSchema = createInsertSchema(accountBalances).om
 
 export const insertTrialBalanceDailySchema = createInsertSchema(trialBalanceDaily);
 
+export const insertTopupPackageSchema = createInsertSchema(topupPackages).omit({
+  id: true,
+  supersededAt: true,
+  createdAt: true
+});
+
+export const insertTopupPaymentSchema = createInsertSchema(topupPayments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertReferralSchema = createInsertSchema(referrals).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertWalletTransferSchema = createInsertSchema(walletTransfers).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertVoucherBatchSchema = createInsertSchema(voucherBatches).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertProductSchema = createInsertSchema(products).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertChargeItemSchema = createInsertSchema(chargeItems).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertReceiptSchema = createInsertSchema(receipts).omit({
+  id: true,
+  receiptNumber: true,
+  issuedAt: true,
+  emailedAt: true
+});
+
+export const insertStampProgramSchema = createInsertSchema(stampPrograms).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertBonusLotSchema = createInsertSchema(bonusLots).omit({
+  id: true,
+  warnedAt: true,
+  expiredAt: true
+});
+
+export const insertMetricsDailySchema = createInsertSchema(metricsDaily);
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).omit({
+  id: true,
+  startedAt: true
+});
+
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertAccountingPeriodSchema = createInsertSchema(accountingPeriods).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertPeriodBalanceSnapshotSchema = createInsertSchema(periodBalanceSnapshots).omit({
+  id: true
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -395,6 +1029,15 @@ export type Key = typeof keys.$inferSelect;
 export type InsertKey = z.infer<typeof insertKeySchema>;
 export type KeyAudit = typeof keyAudit.$inferSelect;
 export type InsertKeyAudit = z.infer<typeof insertKeyAuditSchema>;
+export type QrToken = typeof qrTokens.$inferSelect;
+export type InsertQrToken = z.infer<typeof insertQrTokenSchema>;
+export type ChargeSession = typeof chargeSessions.$inferSelect;
+export type InsertChargeSession = z.infer<typeof insertChargeSessionSchema>;
+export type PosTopup = typeof posTopups.$inferSelect;
+export type PosShift = typeof posShifts.$inferSelect;
+export type InsertPosTopup = z.infer<typeof insertPosTopupSchema>;
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
 export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
 export type InsertLedgerTransaction = z.infer<typeof insertLedgerTransactionSchema>;
 export type LedgerEntry = typeof ledgerEntries.$inferSelect;
@@ -403,13 +1046,46 @@ export type AccountBalance = typeof accountBalances.$inferSelect;
 export type InsertAccountBalance = z.infer<typeof insertAccountBalanceSchema>;
 export type TrialBalanceDaily = typeof trialBalanceDaily.$inferSelect;
 export type InsertTrialBalanceDaily = z.infer<typeof insertTrialBalanceDailySchema>;
+export type AccountingPeriod = typeof accountingPeriods.$inferSelect;
+export type InsertAccountingPeriod = z.infer<typeof insertAccountingPeriodSchema>;
+export type PeriodBalanceSnapshot = typeof periodBalanceSnapshots.$inferSelect;
+export type InsertPeriodBalanceSnapshot = z.infer<typeof insertPeriodBalanceSnapshotSchema>;
+export type TopupPackage = typeof topupPackages.$inferSelect;
+export type InsertTopupPackage = z.infer<typeof insertTopupPackageSchema>;
+export type TopupPayment = typeof topupPayments.$inferSelect;
+export type InsertTopupPayment = z.infer<typeof insertTopupPaymentSchema>;
+export type TopupPaymentStatus = TopupPayment["status"];
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ChargeItem = typeof chargeItems.$inferSelect;
+export type InsertChargeItem = z.infer<typeof insertChargeItemSchema>;
+export type Receipt = typeof receipts.$inferSelect;
+export type InsertReceipt = z.infer<typeof insertReceiptSchema>;
+export type StampProgram = typeof stampPrograms.$inferSelect;
+export type InsertStampProgram = z.infer<typeof insertStampProgramSchema>;
+export type StampReward = typeof stampRewards.$inferSelect;
+export type StampEntry = typeof stampEntries.$inferSelect;
+export type Referral = typeof referrals.$inferSelect;
+export type InsertReferral = z.infer<typeof insertReferralSchema>;
+export type ReferralSettings = typeof referralSettings.$inferSelect;
+export type WalletTransfer = typeof walletTransfers.$inferSelect;
+export type InsertWalletTransfer = z.infer<typeof insertWalletTransferSchema>;
+export type VoucherBatch = typeof voucherBatches.$inferSelect;
+export type InsertVoucherBatch = z.infer<typeof insertVoucherBatchSchema>;
+export type Voucher = typeof vouchers.$inferSelect;
+export type VoucherRedemption = typeof voucherRedemptions.$inferSelect;
+export type BonusLot = typeof bonusLots.$inferSelect;
+export type InsertBonusLot = z.infer<typeof insertBonusLotSchema>;
+export type MetricsDaily = typeof metricsDaily.$inferSelect;
+export type InsertMetricsDaily = z.infer<typeof insertMetricsDailySchema>;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
 
-// Top-up package constants
-export const TOP_UP_PACKAGES = {
-  MINI: { pay: 39000, bonus: 3000, total: 42000 }, // amounts in cents
-  STANDARD: { pay: 89000, bonus: 9000, total: 98000 },
-  MAXI: { pay: 159000, bonus: 23000, total: 182000 },
-  ULTRA: { pay: 209000, bonus: 40000, total: 249000 }
-} as const;
+// Outbound webhook event types admins can subscribe endpoints to
+export const WEBHOOK_EVENTS = ["topup.completed", "topup.voided", "charge.confirmed", "charge.voided", "adjustment.created"] as const;
 
-export type PackageCode = keyof typeof TOP_UP_PACKAGES;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { priceBasket, vatIncluded } from '../server/basket'
+import type { Product } from '@shared/schema'
+
+const product = (overrides: Partial<Product> = {}): Product => ({
+  id: 'p_espresso',
+  name: 'Espresso',
+  category: 'Káva',
+  priceCents: 5900,
+  vatRateBps: 1200,
+  isActive: true,
+  createdBy: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+})
+
+const catalogue = [
+  product(),
+  product({ id: 'p_croissant', name: 'Croissant', category: 'Pečivo', priceCents: 4500 }),
+  product({ id: 'p_mug', name: 'Hrnek', category: 'Zboží', priceCents: 24900, vatRateBps: 2100 })
+]
+
+describe('Basket pricing', () => {
+  it('should take the VAT out of a VAT-inclusive price', () => {
+    // 121 Kč včetně 21 % DPH = 21 Kč DPH
+    expect(vatIncluded(12100, 2100)).toBe(2100)
+    expect(vatIncluded(5900, 1200)).toBe(632)
+    expect(vatIncluded(5000, 0)).toBe(0)
+  })
+
+  it('should total the lines at catalogue prices', () => {
+    const basket = priceBasket(catalogue, [
+      { productId: 'p_espresso', quantity: 2 },
+      { productId: 'p_mug', quantity: 1 }
+    ])
+
+    expect(basket.totalCents).toBe(2 * 5900 + 24900)
+    expect(basket.items).toEqual([
+      expect.objectContaining({ productId: 'p_espresso', name: 'Espresso', quantity: 2, unitPriceCents: 5900, lineTotalCents: 11800, vatCents: 1264 }),
+      expect.objectContaining({ productId: 'p_mug', quantity: 1, lineTotalCents: 24900, vatRateBps: 2100, vatCents: 4321 })
+    ])
+    expect(basket.vatCents).toBe(1264 + 4321)
+  })
+
+  it('should merge repeated taps on the same product', () => {
+    const basket = priceBasket(catalogue, [
+      { productId: 'p_croissant', quantity: 1 },
+      { productId: 'p_espresso', quantity: 1 },
+      { productId: 'p_croissant', quantity: 2 }
+    ])
+
+    expect(basket.items.map(item => [item.productId, item.quantity])).toEqual([
+      ['p_croissant', 3],
+      ['p_espresso', 1]
+    ])
+    expect(basket.totalCents).toBe(3 * 4500 + 5900)
+  })
+
+  it('should refuse a product missing from the catalogue', () => {
+    expect(() => priceBasket(catalogue, [{ productId: 'p_unknown', quantity: 1 }])).toThrow()
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { randomUUID } from 'crypto'
+import { allocateFifo, bonusExpiresAt } from '../server/bonus-lots'
+import type { storage as Storage } from '../server/storage'
+import type { topupService as TopupServiceInstance } from '../server/topup-service'
+import type { chargeService as ChargeServiceInstance } from '../server/charge-service'
+import { createTestAdmin, createTestCustomer } from './fixtures'
+
+describe('Bonus lots', () => {
+  it('should expire after calendar months, clamped to the month end', () => {
+    expect(bonusExpiresAt(new Date('2026-03-15T10:00:00Z'), 12).toISOString()).toBe('2027-03-15T10:00:00.000Z')
+    expect(bonusExpiresAt(new Date('2026-08-31T10:00:00Z'), 6).toISOString()).toBe('2027-02-28T10:00:00.000Z')
+  })
+
+  it('should drain the oldest lots first', () => {
+    const lots = [
+      { id: 'lot_old', remainingCents: 1000 },
+      { id: 'lot_empty', remainingCents: 0 },
+      { id: 'lot_new', remainingCents: 3000 }
+    ]
+    expect(allocateFifo(lots, 2500)).toEqual([
+      { lotId: 'lot_old', cents: 1000 },
+      { lotId: 'lot_new', cents: 1500 }
+    ])
+  })
+
+  it('should leave bonus without a lot unallocated', () => {
+    // Bonus z ručních korekcí nemá lot a nepropadá
+    expect(allocateFifo([{ id: 'lot_1', remainingCents: 500 }], 800)).toEqual([{ lotId: 'lot_1', cents: 500 }])
+    expect(allocateFifo([], 800)).toEqual([])
+  })
+})
+
+// Potřebuje skutečnou databázi (DATABASE_URL), bez ní se testy přeskočí
+describe.skipIf(!process.env.DATABASE_URL)('Bonus lots on charge confirm', () => {
+  let storage: typeof Storage
+  let topupService: typeof TopupServiceInstance
+  let chargeService: typeof ChargeServiceInstance
+
+  beforeAll(async () => {
+    ({ storage } = await import('../server/storage'))
+    ;({ topupService } = await import('../server/topup-service'))
+    ;({ chargeService } = await import('../server/charge-service'))
+  })
+
+  it('should leave the lots alone when a charge session is confirmed twice', async () => {
+    const user = await createTestCustomer('lots')
+    const admin = await createTestAdmin('lots-admin')
+
+    const { payment } = await topupService.start({
+      userId: user.id,
+      packageCode: 'MINI',
+      packageData: { pay: 39000, bonus: 3000, total: 42000 },
+      idempotencyKey: randomUUID()
+    })
+    await topupService.completeFakeCheckout(user.id, payment.id, 'succeed')
+
+    const session = await storage.createChargeSession({
+      userId: user.id,
+      adminId: admin.id,
+      status: 'initiated',
+      expiresAt: new Date(Date.now() + 60 * 1000)
+    })
+    const confirm = () => chargeService.confirm({
+      chargeId: session.id,
+      amountCents: 1000,
+      idempotencyKey: randomUUID(),
+      adminId: admin.id,
+      channel: 'pos'
+    })
+
+    await confirm()
+    const lotsAfterCharge = (await storage.getOpenBonusLots(user.id)).map(lot => lot.remainingCents)
+
+    // Druhé potvrzení stejné relace prohraje a nesmí nic zapsat
+    await expect(confirm()).rejects.toMatchObject({ code: 'E_NOT_FOUND' })
+
+    expect((await storage.getOpenBonusLots(user.id)).map(lot => lot.remainingCents)).toEqual(lotsAfterCharge)
+    const wallet = await storage.getWalletByUserId(user.id)
+    expect(lotsAfterCharge.reduce((sum, cents) => sum + cents, 0)).toBe(wallet!.bonusBalanceCents)
+  }, 30_000)
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import express from 'express'
+import cookieParser from 'cookie-parser'
+import { randomUUID } from 'crypto'
+import type { Server } from 'http'
+import type { AddressInfo } from 'net'
+import { createTestAdmin } from './fixtures'
+
+// Potřebuje skutečnou databázi (DATABASE_URL), bez ní se testy přeskočí
+describe.skipIf(!process.env.DATABASE_URL)('POST /api/pos/charge/confirm', () => {
+  let server: Server
+  let baseUrl: string
+  let sessionCookie: string
+
+  beforeAll(async () => {
+    const { registerRoutes } = await import('../server/routes')
+    const { storage } = await import('../server/storage')
+
+    const app = express()
+    app.use(express.json())
+    app.use(cookieParser())
+    server = await registerRoutes(app)
+    await new Promise<void>(resolve => server.listen(0, resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+    const admin = await createTestAdmin('pos')
+    const session = await storage.createAdminSession({
+      adminId: admin.id,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      ip: null,
+      userAgent: null
+    })
+    sessionCookie = `pos_session=${session.id}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  const confirm = (body: Record<string, unknown>) => fetch(`${baseUrl}/api/pos/charge/confirm`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Cookie: sessionCookie },
+    body: JSON.stringify({ chargeId: randomUUID(), idempotencyKey: randomUUID(), ...body })
+  })
+
+  it('should reject an amount that rounds to zero haléřů as bad input', async () => {
+    const response = await confirm({ amountCZK: 0.001 })
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).code).toBe('E_INPUT')
+  }, 30_000)
+
+  it('should accept the smallest chargeable amount past validation', async () => {
+    // Validace projde, neznámá platba pak skončí chybou služby, ne E_INPUT
+    const response = await confirm({ amountCZK: 0.01 })
+
+    expect(response.status).not.toBe(400)
+    expect((await response.json()).code).not.toBe('E_INPUT')
+  }, 30_000)
+})
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { splitDebit, paidBalance } from '../server/credit-buckets'
+
+describe('Paid and bonus credit split', () => {
+  const available = { paidCents: 5000, bonusCents: 2000 }
+
+  it('should spend bonus first by default order', () => {
+    expect(splitDebit(1500, available, 'bonus_first')).toEqual({ paidCents: 0, bonusCents: 1500 })
+    expect(splitDebit(3000, available, 'bonus_first')).toEqual({ paidCents: 1000, bonusCents: 2000 })
+  })
+
+  it('should spend paid credit first when configured', () => {
+    expect(splitDebit(3000, available, 'paid_first')).toEqual({ paidCents: 3000, bonusCents: 0 })
+    expect(splitDebit(6000, available, 'paid_first')).toEqual({ paidCents: 5000, bonusCents: 1000 })
+  })
+
+  it('should leave a shortfall on the second bucket', () => {
+    // Nedostatek zůstatku musí odmítnout až omezení v DB / ledgeru
+    expect(splitDebit(8000, available, 'bonus_first')).toEqual({ paidCents: 6000, bonusCents: 2000 })
+  })
+
+  it('should derive the paid part from the wallet total', () => {
+    expect(paidBalance({ balanceCents: 7000, bonusBalanceCents: 2000 })).toBe(5000)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { CronSchedule } from '../server/cron'
+
+const at = (iso: string) => new Date(iso)
+
+describe('CronSchedule', () => {
+  it('should fire on the next matching minute, strictly after the given time', () => {
+    const cron = new CronSchedule('15 2 * * *')
+    expect(cron.next(at('2026-03-10T01:00:00Z')).toISOString()).toBe('2026-03-10T02:15:00.000Z')
+    // Přesně v okamžiku spuštění – další běh je až zítra
+    expect(cron.next(at('2026-03-10T02:15:00Z')).toISOString()).toBe('2026-03-11T02:15:00.000Z')
+  })
+
+  it('should support steps, ranges and lists', () => {
+    expect(new CronSchedule('*/15 * * * *').next(at('2026-03-10T10:16:30Z')).toISOString())
+      .toBe('2026-03-10T10:30:00.000Z')
+    expect(new CronSchedule('0 9-17/4 * * *').next(at('2026-03-10T13:00:00Z')).toISOString())
+      .toBe('2026-03-10T17:00:00.000Z')
+    expect(new CronSchedule('0 0 1,15 * *').next(at('2026-03-02T00:00:00Z')).toISOString())
+      .toBe('2026-03-15T00:00:00.000Z')
+  })
+
+  it('should roll over months and years', () => {
+    expect(new CronSchedule('0 0 1 1 *').next(at('2026-06-01T00:00:00Z')).toISOString())
+      .toBe('2027-01-01T00:00:00.000Z')
+    expect(new CronSchedule('0 12 29 2 *').next(at('2026-01-01T00:00:00Z')).toISOString())
+      .toBe('2028-02-29T12:00:00.000Z')
+  })
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-03-10 je úterý; "13. v měsíci nebo pondělí" → nejdřív pátek 13., pak pondělí 16.
+    const cron = new CronSchedule('0 0 13 * 1')
+    expect(cron.next(at('2026-03-10T00:00:00Z')).toISOString()).toBe('2026-03-13T00:00:00.000Z')
+    expect(cron.next(at('2026-03-13T00:00:00Z')).toISOString()).toBe('2026-03-16T00:00:00.000Z')
+  })
+
+  it('should treat day-of-week 7 as Sunday', () => {
+    expect(new CronSchedule('0 6 * * 7').next(at('2026-03-10T00:00:00Z')).toISOString())
+      .toBe('2026-03-15T06:00:00.000Z')
+  })
+
+  it('should reject malformed expressions', () => {
+    expect(() => new CronSchedule('* * * *')).toThrow()
+    expect(() => new CronSchedule('60 * * * *')).toThrow()
+    expect(() => new CronSchedule('*/0 * * * *')).toThrow()
+    expect(() => new CronSchedule('a * * * *')).toThrow()
+    expect(() => new CronSchedule('5-1 * * * *')).toThrow()
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { nextTier, tierChargeDiscount, tierForSpend, tierTopupBonus } from '../server/customer-tiers'
+
+describe('Customer tiers', () => {
+  it('should pick the highest tier the rolling spend reaches', () => {
+    expect(tierForSpend(0).tier).toBe('bronze')
+    expect(tierForSpend(199999).tier).toBe('bronze')
+    expect(tierForSpend(200000).tier).toBe('silver')
+    expect(tierForSpend(750000).tier).toBe('gold')
+    // Storna převyšující platby v okně nesmí spadnout pod bronz
+    expect(tierForSpend(-5000).tier).toBe('bronze')
+  })
+
+  it('should report the spend missing to the next tier', () => {
+    expect(nextTier(150000)).toMatchObject({ definition: { tier: 'silver' }, remainingCents: 50000 })
+    expect(nextTier(200000)).toMatchObject({ definition: { tier: 'gold' }, remainingCents: 300000 })
+    expect(nextTier(500000)).toBeNull()
+  })
+
+  it('should round benefits down to whole cents', () => {
+    expect(tierTopupBonus(89000, 'silver')).toBe(1780)
+    expect(tierTopupBonus(89000, 'bronze')).toBe(0)
+    expect(tierChargeDiscount(8990, 'gold')).toBe(269)
+    expect(tierChargeDiscount(8990, 'silver')).toBe(0)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { encodeCp852, renderEscPos } from '../server/escpos'
+import { receiptTemplate, topupSlipTemplate, vatBreakdown } from '../server/receipt'
+import { buildZReport, zReportTemplate } from '../server/shift-report'
+
+// Golden soubory jsou hexdumpy v test/golden; po záměrné změně výstupu je přegenerujte
+// příkazem UPDATE_GOLDEN=1 npx vitest run test/escpos.test.ts
+const GOLDEN_DIR = join(__dirname, 'golden')
+
+function hexDump(payload: Buffer): string {
+  const rows: string[] = []
+  for (let offset = 0; offset < payload.length; offset += 16) {
+    const chunk = payload.subarray(offset, offset + 16)
+    const hex = Array.from(chunk, byte => byte.toString(16).padStart(2, '0')).join(' ')
+    const ascii = Array.from(chunk, byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('')
+    rows.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`)
+  }
+  return rows.join('\n') + '\n'
+}
+
+function expectGolden(name: string, payload: Buffer) {
+  const file = join(GOLDEN_DIR, `${name}.hex`)
+  if (process.env.UPDATE_GOLDEN) {
+    mkdirSync(GOLDEN_DIR, { recursive: true })
+    writeFileSync(file, hexDump(payload))
+  }
+  expect(hexDump(payload)).toBe(readFileSync(file, 'utf8'))
+}
+
+const items = [
+  { name: 'Espresso', quantity: 2, unitPriceCents: 5900, lineTotalCents: 11800, vatRateBps: 1200 },
+  { name: 'Hrnek', quantity: 1, unitPriceCents: 24900, lineTotalCents: 24900, vatRateBps: 2100 }
+]
+
+describe('ESC/POS output', () => {
+  it('should encode Czech text in code page 852', () => {
+    expect(encodeCp852('Účtenka č. 1')).toEqual([0xe9, 0x9f, 0x74, 0x65, 0x6e, 0x6b, 0x61, 0x20, 0x9f, 0x2e, 0x20, 0x31])
+    expect(encodeCp852('2× – ☕')).toEqual([0x32, 0x78, 0x20, 0x2d, 0x20, 0x3f])
+  })
+
+  it('should print a charge receipt with its lookup QR code', () => {
+    const payload = renderEscPos(receiptTemplate({
+      receiptNumber: '2026-000042',
+      issuedAt: new Date('2026-06-06T12:05:00Z'),
+      staffName: 'Jana Nováková',
+      items,
+      listAmountCents: 36700,
+      discountCents: 1000,
+      amountCents: 35700,
+      vatLines: vatBreakdown(items.map(item => ({ vatRateBps: item.vatRateBps, grossCents: item.lineTotalCents })), 1000),
+      balanceAfterCents: 14300,
+      voided: false
+    }), { qr: 'https://kavarna.example/receipts/0b7d5a52-8f0e-4c1b-9d57-3c2f1e0a9b11' })
+
+    // inicializace, kódová stránka 852 ... odstřižení
+    expect(Array.from(payload.subarray(0, 5))).toEqual([0x1b, 0x40, 0x1b, 0x74, 18])
+    expect(Array.from(payload.subarray(-4))).toEqual([0x1d, 0x56, 0x42, 3])
+    expectGolden('receipt', payload)
+  })
+
+  it('should print a cash top-up slip', () => {
+    const payload = renderEscPos(topupSlipTemplate({
+      topupId: '9f3a1c2e-5b7d-4e8f-a1b2-c3d4e5f60718',
+      confirmedAt: new Date('2026-06-06T08:30:00Z'),
+      staffName: 'Jana Nováková',
+      customerName: 'Petr Dvořák',
+      packageCode: 'STANDARD',
+      amountCents: 89000,
+      bonusCents: 9000,
+      voided: false
+    }))
+
+    expectGolden('topup-slip', payload)
+  })
+
+  it('should print a Z-report', () => {
+    const report = buildZReport({
+      openingFloatCents: 200000,
+      countedCashCents: 288500,
+      activity: [
+        { type: 'charge', amountCents: -8900, meta: {} },
+        { type: 'void', amountCents: 4500, meta: {} },
+        { type: 'topup', amountCents: 98000, meta: { tender: 'cash', payCents: 89000, bonusCents: 9000 } }
+      ]
+    })
+    const payload = renderEscPos(zReportTemplate({
+      shiftId: '5b0c2f3e-0000-4000-8000-000000000001',
+      staffName: 'Jana Nováková',
+      openedAt: new Date('2026-06-06T07:00:00Z'),
+      closedAt: new Date('2026-06-06T15:00:00Z')
+    }, report))
+
+    expectGolden('z-report', payload)
+  })
+})
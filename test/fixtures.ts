@@ -0,0 +1,26 @@
+// Sdílené vstupy pro testy s databází (DATABASE_URL)
+import { randomUUID } from 'crypto'
+import type { AdminUser, InsertAdminUser, InsertUser, InsertWebhookEndpoint, User, WebhookEndpoint } from '@shared/schema'
+
+// Storage se načítá až uvnitř testu: bez DATABASE_URL server/db.ts při importu spadne
+const loadStorage = async () => (await import('../server/storage')).storage
+
+// Zákazník s unikátním e-mailem; konkrétní adresu lze předat (např. pro dárky)
+export async function createTestCustomer(prefix: string, email = `${prefix}-${randomUUID()}@example.com`): Promise<User> {
+  const customer: InsertUser & { passwordHash: string } = { email, name: 'Test Customer', passwordHash: 'x' }
+  return (await loadStorage()).createUser(customer)
+}
+
+export async function createTestAdmin(prefix: string): Promise<AdminUser> {
+  const admin: InsertAdminUser & { passwordHash: string } = {
+    email: `${prefix}-${randomUUID()}@example.com`,
+    name: 'Test Admin',
+    passwordHash: 'x'
+  }
+  return (await loadStorage()).createAdminUser(admin)
+}
+
+export async function createTestWebhookEndpoint(url: string, events: string[]): Promise<WebhookEndpoint> {
+  const endpoint: InsertWebhookEndpoint = { url, events, isActive: true }
+  return (await loadStorage()).createWebhookEndpoint(endpoint)
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { randomUUID } from 'crypto'
+import type { LedgerService } from '../server/routes/ledger/service'
+
+// Potřebuje skutečnou databázi (DATABASE_URL), bez ní se testy přeskočí
+describe.skipIf(!process.env.DATABASE_URL)('Ledger Concurrency Tests', () => {
+  let ledgerService: LedgerService
+
+  beforeAll(async () => {
+    // Dynamický import – server/db vyhodí chybu, pokud DATABASE_URL chybí
+    ({ ledgerService } = await import('../server/routes/ledger/service'))
+  })
+
+  it('should never drive a customer balance below zero under parallel charges', async () => {
+    const userId = randomUUID()
+    await ledgerService.topup({ userId, amountMinor: 1000, note: 'concurrency test' })
+
+    // 10 souběžných plateb po 300 – projít smí nejvýš 3
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () =>
+        ledgerService.charge({ userId, amountMinor: 300, note: 'concurrency test' }))
+    )
+
+    const succeeded = results.filter(r => r.status === 'fulfilled')
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+
+    expect(succeeded).toHaveLength(3)
+    for (const r of rejected) {
+      expect(r.reason.error).toBe('INSUFFICIENT_FUNDS')
+    }
+
+    const balance = await ledgerService.getBalance(userId)
+    expect(balance!.balanceMinor).toBe(100)
+  }, 30_000)
+
+  it('should post exactly one reversal when the same charge is reversed in parallel', async () => {
+    const userId = randomUUID()
+    await ledgerService.topup({ userId, amountMinor: 500, note: 'concurrency test' })
+    const charge = await ledgerService.charge({ userId, amountMinor: 200, note: 'concurrency test' })
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => ledgerService.reversal({ txId: charge.txId }))
+    )
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1)
+
+    // Vrácení se projeví v zůstatku právě jednou
+    const balance = await ledgerService.getBalance(userId)
+    expect(balance!.balanceMinor).toBe(500)
+  }, 30_000)
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { cashTopupQuote } from '../server/pos-topup-rules'
+import type { TopupPackage } from '@shared/schema'
+
+const pkg = (overrides: Partial<TopupPackage> = {}): TopupPackage => ({
+  id: 'pkg_1',
+  code: 'STANDARD',
+  version: 1,
+  name: 'STANDARD',
+  payCents: 89000,
+  bonusCents: 9000,
+  isPopular: true,
+  sortOrder: 20,
+  isActive: true,
+  validFrom: null,
+  validTo: null,
+  promoLabel: null,
+  promoBonusBps: null,
+  promoStartsAt: null,
+  promoEndsAt: null,
+  supersededAt: null,
+  createdBy: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+})
+
+const now = new Date('2026-06-06T12:00:00Z')
+
+describe('Cash top-up quote', () => {
+  it('should credit a package at its current terms', () => {
+    expect(cashTopupQuote({ pkg: pkg() }, 'bronze', now)).toEqual({ pay: 89000, bonus: 9000, total: 98000, tierBonusCents: 0 })
+  })
+
+  it('should add the tier bonus on top of the package bonus', () => {
+    // Gold: 3 % z placené částky
+    expect(cashTopupQuote({ pkg: pkg() }, 'gold', now)).toEqual({ pay: 89000, bonus: 11670, total: 100670, tierBonusCents: 2670 })
+  })
+
+  it('should give a custom amount only the tier bonus, rounded down', () => {
+    expect(cashTopupQuote({ payCents: 50000 }, 'bronze', now)).toEqual({ pay: 50000, bonus: 0, total: 50000, tierBonusCents: 0 })
+    // Silver: 2 % z 333 Kč = 6,66 Kč
+    expect(cashTopupQuote({ payCents: 33300 }, 'silver', now)).toEqual({ pay: 33300, bonus: 666, total: 33966, tierBonusCents: 666 })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { RECEIPT_TEXT_WIDTH, formatReceiptNumber, receiptTemplate, receiptYear, renderReceiptHtml, renderReceiptText, vatBreakdown, type ReceiptDocument } from '../server/receipt'
+
+// 2× espresso (12 %) a hrnek (21 %), sleva 10 Kč za věrnostní úroveň
+const lines = [
+  { vatRateBps: 1200, grossCents: 11800 },
+  { vatRateBps: 2100, grossCents: 24900 }
+]
+
+const receipt = (overrides: Partial<ReceiptDocument> = {}): ReceiptDocument => ({
+  receiptNumber: '2026-000042',
+  issuedAt: new Date('2026-06-06T12:05:00Z'),
+  staffName: 'Jana',
+  items: [
+    { name: 'Espresso', quantity: 2, unitPriceCents: 5900, lineTotalCents: 11800, vatRateBps: 1200 },
+    { name: 'Hrnek', quantity: 1, unitPriceCents: 24900, lineTotalCents: 24900, vatRateBps: 2100 }
+  ],
+  listAmountCents: 36700,
+  discountCents: 1000,
+  amountCents: 35700,
+  vatLines: vatBreakdown(lines, 1000),
+  balanceAfterCents: 14300,
+  voided: false,
+  ...overrides
+})
+
+describe('Receipt numbers', () => {
+  it('should count per calendar year in Prague time', () => {
+    // Silvestr 23:30 UTC je už 00:30 nového roku v Praze
+    expect(receiptYear(new Date('2026-12-31T22:59:00Z'))).toBe(2026)
+    expect(receiptYear(new Date('2026-12-31T23:30:00Z'))).toBe(2027)
+  })
+
+  it('should pad the sequence to six digits', () => {
+    expect(formatReceiptNumber(2027, 1)).toBe('2027-000001')
+    expect(formatReceiptNumber(2026, 123456)).toBe('2026-123456')
+  })
+})
+
+describe('VAT breakdown', () => {
+  it('should split a VAT-inclusive total per rate, highest rate first', () => {
+    expect(vatBreakdown(lines, 0)).toEqual([
+      { vatRateBps: 2100, netCents: 20579, vatCents: 4321, grossCents: 24900 },
+      { vatRateBps: 1200, netCents: 10536, vatCents: 1264, grossCents: 11800 }
+    ])
+  })
+
+  it('should share the discount by gross and still add up to the amount charged', () => {
+    // 678,47 a 321,53 haléře - zaokrouhlovací haléř dostane větší zbytek
+    const breakdown = vatBreakdown(lines, 1000)
+
+    expect(breakdown.map(line => line.grossCents)).toEqual([24222, 11478])
+    expect(breakdown.reduce((sum, line) => sum + line.grossCents, 0)).toBe(35700)
+    expect(breakdown[0]).toEqual({ vatRateBps: 2100, netCents: 20018, vatCents: 4204, grossCents: 24222 })
+  })
+
+  it('should merge lines of the same rate', () => {
+    expect(vatBreakdown([...lines, { vatRateBps: 1200, grossCents: 4500 }], 0)[1].grossCents).toBe(16300)
+    expect(vatBreakdown([], 0)).toEqual([])
+  })
+})
+
+describe('Receipt rendering', () => {
+  it('should render HTML and text from the same template', () => {
+    const doc = receipt()
+    const html = renderReceiptHtml(doc)
+    const text = renderReceiptText(doc)
+
+    for (const block of receiptTemplate(doc)) {
+      if (block.kind === 'line') {
+        expect(text).toContain(block.label)
+        expect(text).toContain(block.value)
+        expect(html).toContain(block.value)
+      }
+    }
+    expect(text).toContain('Datum                   6. 6. 2026 14:05')
+    expect(text).toContain('Celkem zaplaceno kreditem      357,00 Kč')
+    expect(html).toContain('DPH 21 %')
+  })
+
+  it('should keep text lines within the paper width', () => {
+    const doc = receipt({
+      items: [{ name: 'Dort s velmi dlouhým názvem z cukrárny', quantity: 1, unitPriceCents: 36700, lineTotalCents: 36700, vatRateBps: 1200 }]
+    })
+    const rows = renderReceiptText(doc).trimEnd().split('\n')
+
+    expect(rows.every(row => row.length <= RECEIPT_TEXT_WIDTH)).toBe(true)
+    expect(rows).toContain('                               367,00 Kč')
+  })
+
+  it('should describe a keyed-in amount, a void and escape HTML', () => {
+    const doc = receipt({ items: [], discountCents: 0, amountCents: 36700, staffName: 'Jana <b>', voided: true })
+
+    expect(renderReceiptText(doc)).toContain('Platba')
+    expect(renderReceiptText(doc)).not.toContain('Sleva')
+    expect(renderReceiptText(doc)).toContain('STORNOVÁNO')
+    expect(renderReceiptHtml(doc)).toContain('Jana &lt;b&gt;')
+  })
+})
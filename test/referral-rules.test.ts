@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { randomUUID } from 'crypto'
+import { generateReferralCode, normalizeReferralCode, rewardRejection, signupRejection } from '../server/referral-rules'
+import type { storage as Storage } from '../server/storage'
+import type { referralService as ReferralServiceInstance } from '../server/referral-service'
+import type { posTopupService as PosTopupServiceInstance } from '../server/pos-topup-service'
+import type { voucherService as VoucherServiceInstance } from '../server/voucher-service'
+import { createTestAdmin, createTestCustomer } from './fixtures'
+
+const rules = {
+  isActive: true,
+  blockSameIp: false,
+  blockSameDevice: true,
+  maxRewardsPerReferrer: 10
+}
+
+describe('Referral rules', () => {
+  it('should generate codes without ambiguous characters', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateReferralCode()).toMatch(/^[A-HJ-NP-Z2-9]{8}$/)
+    }
+  })
+
+  it('should normalize codes typed by hand', () => {
+    expect(normalizeReferralCode(' k7m2-qx9p ')).toBe('K7M2QX9P')
+  })
+
+  it('should reject signups from the referrer\'s own device', () => {
+    expect(signupRejection(rules, { sameIp: true, sameDevice: true })).toBe('same_device')
+    // Sdílená IP (kavárna, firma) sama o sobě ve výchozím nastavení nevadí
+    expect(signupRejection(rules, { sameIp: true, sameDevice: false })).toBeNull()
+    expect(signupRejection({ ...rules, blockSameIp: true }, { sameIp: true, sameDevice: false })).toBe('same_ip')
+    expect(signupRejection({ ...rules, isActive: false }, { sameIp: false, sameDevice: false })).toBe('programme_inactive')
+  })
+
+  it('should stop rewarding at the per-referrer cap', () => {
+    expect(rewardRejection(rules, 9)).toBeNull()
+    expect(rewardRejection(rules, 10)).toBe('referrer_cap')
+    expect(rewardRejection({ ...rules, maxRewardsPerReferrer: null }, 1000)).toBeNull()
+    expect(rewardRejection({ ...rules, isActive: false }, 0)).toBe('programme_inactive')
+  })
+})
+
+// Potřebuje skutečnou databázi (DATABASE_URL), bez ní se testy přeskočí
+describe.skipIf(!process.env.DATABASE_URL)('Referral reward on a cash top-up', () => {
+  let storage: typeof Storage
+  let referralService: typeof ReferralServiceInstance
+  let posTopupService: typeof PosTopupServiceInstance
+  let voucherService: typeof VoucherServiceInstance
+
+  beforeAll(async () => {
+    ({ storage } = await import('../server/storage'))
+    ;({ referralService } = await import('../server/referral-service'))
+    ;({ posTopupService } = await import('../server/pos-topup-service'))
+    ;({ voucherService } = await import('../server/voucher-service'))
+  })
+
+  const referPair = async () => {
+    const referrer = await createTestCustomer('referrer')
+    const referee = await createTestCustomer('referee')
+    const referral = await referralService.recordSignup({
+      refereeId: referee.id,
+      referrerId: referrer.id,
+      code: generateReferralCode(),
+      ip: '192.0.2.10',
+      userAgent: 'vitest'
+    })
+    expect(referral?.status).toBe('pending')
+    return { referrer, referee }
+  }
+
+  const confirmCashTopup = async (userId: string, amountCents: number) => {
+    const admin = await createTestAdmin('pos')
+    const pending = await storage.createPosTopup({
+      userId,
+      adminId: admin.id,
+      status: 'initiated',
+      expiresAt: new Date(Date.now() + 5 * 60 * 1000)
+    })
+    const { topup } = await posTopupService.confirm({
+      topupId: pending.id,
+      amountCents,
+      idempotencyKey: randomUUID(),
+      adminId: admin.id
+    })
+    return { topup, admin }
+  }
+
+  it('should reward the referral when the first top-up is cash at the till', async () => {
+    const { referrer, referee } = await referPair()
+    const { topup } = await confirmCashTopup(referee.id, 50000)
+
+    const [rewarded] = await storage.getReferralsByReferrer(referrer.id)
+    expect(rewarded.status).toBe('rewarded')
+    expect(rewarded.qualifyingPosTopupId).toBe(topup.id)
+    expect(rewarded.qualifyingPaymentId).toBeNull()
+  }, 30_000)
+
+  it('should refuse to void a cash top-up that settled a referral and a voucher', async () => {
+    const { referrer, referee } = await referPair()
+    const code = `CASH${randomUUID().slice(0, 8).toUpperCase()}`
+    await voucherService.createBatch({
+      terms: { name: 'Cash Test', type: 'percent_bonus', bonusBps: 1000, maxRedemptionsPerCode: 1, perCustomerLimit: 1 },
+      code,
+      count: 1
+    })
+    await voucherService.redeem({ userId: referee.id, code })
+
+    const { topup, admin } = await confirmCashTopup(referee.id, 50000)
+    const [redemption] = await storage.getVoucherRedemptionsByUser(referee.id, 1)
+    expect(redemption.status).toBe('credited')
+    expect(redemption.posTopupId).toBe(topup.id)
+    const balanceCents = (await storage.getWalletByUserId(referee.id))!.balanceCents
+
+    // Hotovost by se vrátila, ale bonusy za doporučení a voucher by zůstaly
+    await expect(posTopupService.void({ topupId: topup.id, adminId: admin.id }))
+      .rejects.toMatchObject({ code: 'E_REWARDS_SETTLED' })
+    expect((await storage.getPosTopup(topup.id))!.status).toBe('confirmed')
+    expect((await storage.getWalletByUserId(referee.id))!.balanceCents).toBe(balanceCents)
+    expect((await storage.getReferralsByReferrer(referrer.id))[0].status).toBe('rewarded')
+  }, 30_000)
+})
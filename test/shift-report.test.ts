@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { buildZReport, zReportCsv, zReportText, type ShiftActivity } from '../server/shift-report'
+import { renderTextPdf } from '../server/pdf'
+
+const activity: ShiftActivity[] = [
+  { type: 'charge', amountCents: -8900, meta: { adminId: 'a1' } },
+  { type: 'charge', amountCents: -4500, meta: { adminId: 'a1' } },
+  { type: 'void', amountCents: 4500, meta: { adminId: 'a1', paidCents: 4500, bonusCents: 0 } },
+  { type: 'topup', amountCents: 98000, meta: { tender: 'cash', payCents: 89000, bonusCents: 9000 } },
+  { type: 'topup', amountCents: 50000, meta: { tender: 'cash', payCents: 50000, bonusCents: 0 } },
+  { type: 'topup_void', amountCents: -50000, meta: { tender: 'cash', payCents: 50000, bonusCents: 0 } },
+  { type: 'adjustment', amountCents: -1000, meta: { reason: 'oprava' } },
+  { type: 'adjustment', amountCents: 2500, meta: { reason: 'kompenzace' } }
+]
+
+const header = {
+  shiftId: '5b0c2f3e-0000-4000-8000-000000000001',
+  staffName: 'Jana Nováková',
+  openedAt: new Date('2026-06-06T07:00:00Z'),
+  closedAt: new Date('2026-06-06T15:00:00Z')
+}
+
+describe('Z-report', () => {
+  it('should total charges, voids, cash top-ups and adjustments', () => {
+    const report = buildZReport({ openingFloatCents: 200000, countedCashCents: 289000, activity })
+
+    expect(report.charges).toEqual({ count: 2, amountCents: 13400 })
+    expect(report.voids).toEqual({ count: 1, amountCents: 4500 })
+    expect(report.netSalesCents).toBe(8900)
+    expect(report.cashTopups).toEqual({ count: 2, amountCents: 139000, bonusCents: 9000 })
+    expect(report.topupVoids).toEqual({ count: 1, amountCents: 50000, bonusCents: 0 })
+    expect(report.adjustments).toEqual({ count: 2, amountCents: 1500 })
+  })
+
+  it('should expect the float plus net cash top-ups in the drawer', () => {
+    // 2000 Kč float + 1390 Kč dobití - 500 Kč storno = 2890 Kč
+    const report = buildZReport({ openingFloatCents: 200000, countedCashCents: 288500, activity })
+    expect(report.expectedCashCents).toBe(289000)
+    expect(report.varianceCents).toBe(-500)
+  })
+
+  it('should leave card top-ups out of the drawer', () => {
+    const report = buildZReport({
+      openingFloatCents: 0,
+      countedCashCents: 0,
+      activity: [{ type: 'topup', amountCents: 98000, meta: { payCents: 89000, bonusCents: 9000 } }]
+    })
+    expect(report.cashTopups.count).toBe(0)
+    expect(report.varianceCents).toBe(0)
+  })
+
+  it('should export CSV with amounts in CZK', () => {
+    const report = buildZReport({ openingFloatCents: 200000, countedCashCents: 288500, activity })
+    const csv = zReportCsv(header, report)
+
+    expect(csv).toContain('Staff,Jana Nováková\r\n')
+    expect(csv).toContain('Charges,2,134.00\r\n')
+    expect(csv).toContain('Voids,1,-45.00\r\n')
+    expect(csv).toContain('Variance,,-5.00\r\n')
+  })
+
+  it('should render the report as a PDF without diacritics', () => {
+    const report = buildZReport({ openingFloatCents: 200000, countedCashCents: 288500, activity })
+    const pdf = renderTextPdf(zReportText(header, report)).toString('ascii')
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('(Staff:  Jana Novakova)')
+    // Offset v xref musí ukazovat na začátek prvního objektu
+    const firstOffset = Number(pdf.match(/0000000000 65535 f \n(\d{10})/)![1])
+    expect(pdf.slice(firstOffset, firstOffset + 7)).toBe('1 0 obj')
+  })
+})
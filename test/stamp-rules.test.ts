@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { rewardsDue, stampProgramTermsError, stampsForCharge } from '../server/stamp-rules'
+
+describe('Stamp programme rules', () => {
+  it('should give one stamp per charge from the minimum amount', () => {
+    const program = { rule: 'per_charge' as const, thresholdCents: 5000 }
+    expect(stampsForCharge(program, 5000)).toBe(1)
+    expect(stampsForCharge(program, 120000)).toBe(1)
+    expect(stampsForCharge(program, 4999)).toBe(0)
+    expect(stampsForCharge({ rule: 'per_charge', thresholdCents: 0 }, 100)).toBe(1)
+  })
+
+  it('should give one stamp per full threshold charged', () => {
+    const program = { rule: 'per_amount' as const, thresholdCents: 10000 }
+    expect(stampsForCharge(program, 9999)).toBe(0)
+    expect(stampsForCharge(program, 10000)).toBe(1)
+    expect(stampsForCharge(program, 35000)).toBe(3)
+  })
+
+  it('should count full cards only', () => {
+    expect(rewardsDue(9, 10)).toBe(0)
+    expect(rewardsDue(10, 10)).toBe(1)
+    expect(rewardsDue(25, 10)).toBe(2)
+    // Záporný stav po stornu nevydá žádnou odměnu
+    expect(rewardsDue(-3, 10)).toBe(0)
+  })
+
+  it('should reject a per_amount programme without a threshold', () => {
+    expect(stampProgramTermsError({ rule: 'per_amount', thresholdCents: 0 })).toMatch('thresholdCents')
+    expect(stampProgramTermsError({ rule: 'per_amount', thresholdCents: 10000 })).toBeNull()
+    expect(stampProgramTermsError({ rule: 'per_charge', thresholdCents: 0 })).toBeNull()
+  })
+})
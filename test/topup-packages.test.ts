@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { isPackageAvailable, packageTermsError, quotePackage } from '../server/topup-packages'
+import type { TopupPackage } from '@shared/schema'
+
+const pkg = (overrides: Partial<TopupPackage> = {}): TopupPackage => ({
+  id: 'pkg_1',
+  code: 'STANDARD',
+  version: 1,
+  name: 'STANDARD',
+  payCents: 89000,
+  bonusCents: 9000,
+  isPopular: true,
+  sortOrder: 20,
+  isActive: true,
+  validFrom: null,
+  validTo: null,
+  promoLabel: null,
+  promoBonusBps: null,
+  promoStartsAt: null,
+  promoEndsAt: null,
+  supersededAt: null,
+  createdBy: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+})
+
+const saturday = new Date('2026-06-06T12:00:00Z')
+const weekend = {
+  promoLabel: '+5 % bonus tento víkend',
+  promoBonusBps: 500,
+  promoStartsAt: new Date('2026-06-06T00:00:00Z'),
+  promoEndsAt: new Date('2026-06-08T00:00:00Z')
+}
+
+describe('Top-up package pricing', () => {
+  it('should quote the base bonus without a promotion', () => {
+    expect(quotePackage(pkg(), saturday)).toEqual({ pay: 89000, bonus: 9000, total: 98000, promoActive: false })
+  })
+
+  it('should add the promotion bonus only inside its window', () => {
+    expect(quotePackage(pkg(weekend), saturday)).toEqual({ pay: 89000, bonus: 13450, total: 102450, promoActive: true })
+    expect(quotePackage(pkg(weekend), new Date('2026-06-08T00:00:00Z')).promoActive).toBe(false)
+  })
+
+  it('should only sell active current versions inside their validity window', () => {
+    const window = { validFrom: new Date('2026-06-01T00:00:00Z'), validTo: new Date('2026-07-01T00:00:00Z') }
+    expect(isPackageAvailable(pkg(window), saturday)).toBe(true)
+    expect(isPackageAvailable(pkg(window), new Date('2026-07-01T00:00:00Z'))).toBe(false)
+    expect(isPackageAvailable(pkg({ isActive: false }), saturday)).toBe(false)
+    expect(isPackageAvailable(pkg({ supersededAt: saturday }), saturday)).toBe(false)
+  })
+
+  it('should reject inconsistent terms', () => {
+    expect(packageTermsError(pkg(weekend))).toBeNull()
+    expect(packageTermsError(pkg({ promoBonusBps: 500 }))).toMatch('promoLabel')
+    expect(packageTermsError(pkg({ validFrom: saturday, validTo: saturday }))).toMatch('validFrom')
+    expect(packageTermsError(pkg({ ...weekend, promoEndsAt: weekend.promoStartsAt }))).toMatch('promoStartsAt')
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { randomUUID } from 'crypto'
+import { FakePaymentProvider, FAKE_SIGNATURE_HEADER } from '../server/fake-payment-provider'
+import { WebhookSignatureError } from '../server/payment-provider'
+import type { storage as Storage } from '../server/storage'
+import type { topupService as TopupServiceInstance, fakePaymentProvider as FakeProviderInstance } from '../server/topup-service'
+import { createTestCustomer } from './fixtures'
+
+describe('Fake payment provider webhooks', () => {
+  const provider = new FakePaymentProvider('test-secret')
+
+  it('should accept its own signed webhook', () => {
+    const { rawBody, headers } = provider.signEvent({ providerRef: 'fake_1', status: 'captured' })
+    expect(provider.verifyWebhook(rawBody, headers)).toEqual({ providerRef: 'fake_1', status: 'captured' })
+  })
+
+  it('should reject a tampered body', () => {
+    const { headers } = provider.signEvent({ providerRef: 'fake_1', status: 'failed' })
+    const forged = Buffer.from(JSON.stringify({ providerRef: 'fake_1', status: 'captured' }))
+    expect(() => provider.verifyWebhook(forged, headers)).toThrow(WebhookSignatureError)
+  })
+
+  it('should reject a signature made with another secret', () => {
+    const { rawBody, headers } = new FakePaymentProvider('other-secret').signEvent({ providerRef: 'fake_1', status: 'captured' })
+    expect(() => provider.verifyWebhook(rawBody, headers)).toThrow(WebhookSignatureError)
+  })
+
+  it('should reject stale and missing signatures', () => {
+    const { rawBody, headers } = provider.signEvent({ providerRef: 'fake_1', status: 'captured' }, Date.now() - 10 * 60 * 1000)
+    expect(() => provider.verifyWebhook(rawBody, headers)).toThrow('tolerance')
+
+    const { [FAKE_SIGNATURE_HEADER]: _, ...unsigned } = headers
+    expect(() => provider.verifyWebhook(rawBody, unsigned)).toThrow('Missing signature')
+  })
+})
+
+// Potřebuje skutečnou databázi (DATABASE_URL), bez ní se testy přeskočí
+describe.skipIf(!process.env.DATABASE_URL)('Top-up payment flow', () => {
+  let storage: typeof Storage
+  let topupService: typeof TopupServiceInstance
+  let fakePaymentProvider: typeof FakeProviderInstance
+
+  const packageData = { pay: 39000, bonus: 3000, total: 42000 }
+
+  beforeAll(async () => {
+    ({ storage } = await import('../server/storage'))
+    ;({ topupService, fakePaymentProvider } = await import('../server/topup-service'))
+  })
+
+  it('should credit the wallet only after capture, exactly once', async () => {
+    const user = await createTestCustomer('topup')
+    const { payment } = await topupService.start({ userId: user.id, packageCode: 'MINI', packageData, idempotencyKey: randomUUID() })
+
+    expect(payment.status).toBe('pending')
+    expect((await storage.getWalletByUserId(user.id))!.balanceCents).toBe(0)
+
+    const captured = await topupService.completeFakeCheckout(user.id, payment.id, 'succeed')
+    expect(captured.status).toBe('captured')
+
+    // Opakovaný webhook nesmí připsat podruhé
+    const { rawBody, headers } = fakePaymentProvider.signEvent({ providerRef: payment.providerRef!, status: 'captured' })
+    await topupService.handleWebhook('fake', rawBody, headers)
+
+    const wallet = await storage.getWalletByUserId(user.id)
+    expect(wallet!.balanceCents).toBe(packageData.total)
+    expect(wallet!.bonusGrantedTotalCents).toBe(packageData.bonus)
+    expect(wallet!.bonusBalanceCents).toBe(packageData.bonus)
+    expect((await storage.getOpenBonusLots(user.id)).map(lot => lot.remainingCents)).toEqual([packageData.bonus])
+  }, 30_000)
+
+  it('should not credit a declined payment', async () => {
+    const user = await createTestCustomer('topup')
+    const { payment } = await topupService.start({ userId: user.id, packageCode: 'MINI', packageData, idempotencyKey: randomUUID() })
+
+    const failed = await topupService.completeFakeCheckout(user.id, payment.id, 'fail')
+    expect(failed.status).toBe('failed')
+    expect((await storage.getWalletByUserId(user.id))!.balanceCents).toBe(0)
+  }, 30_000)
+
+  it('should return the same payment for a repeated idempotency key', async () => {
+    const user = await createTestCustomer('topup')
+    const idempotencyKey = randomUUID()
+    const first = await topupService.start({ userId: user.id, packageCode: 'MINI', packageData, idempotencyKey })
+    const second = await topupService.start({ userId: user.id, packageCode: 'MINI', packageData, idempotencyKey })
+
+    expect(second.idempotent).toBe(true)
+    expect(second.payment.id).toBe(first.payment.id)
+  }, 30_000)
+})
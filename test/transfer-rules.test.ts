@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { randomUUID } from 'crypto'
+import { generateGiftClaimToken, giftExpiresAt, hashGiftClaimToken, normalizeEmail, transferLimitError, GIFT_EXPIRY_DAYS } from '../server/transfer-rules'
+import type { storage as Storage } from '../server/storage'
+import type { topupService as TopupServiceInstance } from '../server/topup-service'
+import type { transferService as TransferServiceInstance } from '../server/transfer-service'
+import { createTestCustomer } from './fixtures'
+
+const limits = {
+  minCents: 100,
+  dailyLimitCents: 300000,
+  dailyMaxCount: 10
+}
+
+describe('Transfer rules', () => {
+  it('should match gift emails regardless of case and whitespace', () => {
+    expect(normalizeEmail('  Jana.Novakova@Example.CZ ')).toBe('jana.novakova@example.cz')
+  })
+
+  it('should store only the hash of a gift claim token', () => {
+    const { token, hash } = generateGiftClaimToken()
+    expect(hash).toBe(hashGiftClaimToken(token))
+    expect(hash).not.toContain(token)
+    expect(generateGiftClaimToken().token).not.toBe(token)
+  })
+
+  it('should expire gifts after the configured number of days', () => {
+    const sentAt = new Date('2025-08-01T10:00:00Z')
+    expect(giftExpiresAt(sentAt).getTime() - sentAt.getTime()).toBe(GIFT_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+  })
+
+  it('should enforce the minimum amount', () => {
+    expect(transferLimitError(99, { cents: 0, count: 0 }, limits)).toMatch(/Nejmenší částka/)
+    expect(transferLimitError(100, { cents: 0, count: 0 }, limits)).toBeNull()
+  })
+
+  it('should enforce the rolling daily count and sum', () => {
+    expect(transferLimitError(100, { cents: 0, count: 10 }, limits)).toMatch(/nejvýše 10 převodů/)
+    // Přesně na limit je ještě v pořádku
+    expect(transferLimitError(50000, { cents: 250000, count: 3 }, limits)).toBeNull()
+    expect(transferLimitError(50100, { cents: 250000, count: 3 }, limits)).toBe('Denní limit převodů je 3000 Kč, zbývá 500 Kč')
+  })
+})
+
+// Potřebuje skutečnou databázi (DATABASE_URL), bez ní se testy přeskočí
+describe.skipIf(!process.env.DATABASE_URL)('Gift claims', () => {
+  let storage: typeof Storage
+  let topupService: typeof TopupServiceInstance
+  let transferService: typeof TransferServiceInstance
+
+  beforeAll(async () => {
+    ({ storage } = await import('../server/storage'))
+    ;({ topupService } = await import('../server/topup-service'))
+    ;({ transferService } = await import('../server/transfer-service'))
+  })
+
+  it('should credit a gift only through its claim link, to the addressed account', async () => {
+    const sender = await createTestCustomer('gift-sender')
+    const { payment } = await topupService.start({
+      userId: sender.id,
+      packageCode: 'MINI',
+      packageData: { pay: 39000, bonus: 0, total: 39000 },
+      idempotencyKey: randomUUID()
+    })
+    await topupService.completeFakeCheckout(sender.id, payment.id, 'succeed')
+
+    const recipientEmail = `gift-recipient-${randomUUID()}@example.com`
+    const claim = generateGiftClaimToken()
+    const sent = await storage.executeWalletTransfer({
+      senderId: sender.id,
+      recipientId: null,
+      recipientEmail,
+      amountCents: 5000,
+      message: null,
+      idempotencyKey: randomUUID(),
+      expiresAt: giftExpiresAt(new Date()),
+      claimTokenHash: claim.hash
+    })
+    expect(sent.status).toBe('ok')
+
+    // Registrace s adresou dárku sama nic nepřipíše
+    const recipient = await createTestCustomer('gift-recipient', recipientEmail.toUpperCase())
+    expect((await storage.getWalletByUserId(recipient.id))!.balanceCents).toBe(0)
+
+    const stranger = await createTestCustomer('gift-stranger')
+    await expect(transferService.claimGift(stranger, claim.token)).rejects.toMatchObject({ code: 'E_WRONG_RECIPIENT' })
+    await expect(transferService.claimGift(recipient, 'not-a-token')).rejects.toMatchObject({ code: 'E_NOT_FOUND' })
+
+    const { transfer } = await transferService.claimGift(recipient, claim.token)
+    expect(transfer.status).toBe('completed')
+    expect(transfer.recipientId).toBe(recipient.id)
+    expect((await storage.getWalletByUserId(recipient.id))!.balanceCents).toBe(5000)
+
+    await expect(transferService.claimGift(recipient, claim.token)).rejects.toMatchObject({ code: 'E_NOT_FOUND' })
+  }, 30_000)
+})
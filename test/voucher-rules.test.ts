@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { generateVoucherCode, normalizeVoucherCode, redemptionRejection, voucherBatchTermsError, voucherTopupBonus } from '../server/voucher-rules'
+
+const batch = {
+  type: 'fixed' as const,
+  isActive: true,
+  validFrom: new Date('2025-08-01T00:00:00Z'),
+  expiresAt: new Date('2025-09-01T00:00:00Z'),
+  maxRedemptionsPerCode: 1,
+  perCustomerLimit: 1
+}
+const unused = { codeRedemptions: 0, customerRedemptions: 0, hasPendingBonus: false }
+const now = new Date('2025-08-15T12:00:00Z')
+
+describe('Voucher rules', () => {
+  it('should generate codes with the prefix and without ambiguous characters', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateVoucherCode('fly-er')).toMatch(/^FLYER[A-HJ-NP-Z2-9]{8}$/)
+    }
+  })
+
+  it('should normalize codes typed by hand', () => {
+    expect(normalizeVoucherCode(' welcome-50 ')).toBe('WELCOME50')
+  })
+
+  it('should accept a code within its window and limits', () => {
+    expect(redemptionRejection(batch, unused, now)).toBeNull()
+  })
+
+  it('should reject codes outside the validity window', () => {
+    expect(redemptionRejection(batch, unused, new Date('2025-07-31T23:59:59Z'))).toBe('not_started')
+    // Konec platnosti je exkluzivní
+    expect(redemptionRejection(batch, unused, batch.expiresAt)).toBe('expired')
+    expect(redemptionRejection({ ...batch, isActive: false }, unused, now)).toBe('inactive')
+  })
+
+  it('should enforce per-code and per-customer limits', () => {
+    expect(redemptionRejection(batch, { ...unused, codeRedemptions: 1 }, now)).toBe('exhausted')
+    expect(redemptionRejection({ ...batch, maxRedemptionsPerCode: null }, { ...unused, codeRedemptions: 500 }, now)).toBeNull()
+    expect(redemptionRejection({ ...batch, maxRedemptionsPerCode: null }, { ...unused, customerRedemptions: 1 }, now)).toBe('customer_limit')
+  })
+
+  it('should not stack percentage bonuses', () => {
+    const percent = { ...batch, type: 'percent_bonus' as const }
+    expect(redemptionRejection(percent, { ...unused, hasPendingBonus: true }, now)).toBe('bonus_pending')
+    // Pevný bonus se připíše hned, čekající procentní bonus mu nevadí
+    expect(redemptionRejection(batch, { ...unused, hasPendingBonus: true }, now)).toBeNull()
+  })
+
+  it('should round the top-up bonus down to whole cents', () => {
+    expect(voucherTopupBonus(1000, 50000)).toBe(5000)
+    expect(voucherTopupBonus(333, 10001)).toBe(333)
+  })
+
+  it('should require the value matching the voucher type', () => {
+    const terms = { type: 'fixed' as const, valueCents: 5000, bonusBps: null, validFrom: null, expiresAt: null }
+    expect(voucherBatchTermsError(terms)).toBeNull()
+    expect(voucherBatchTermsError({ ...terms, valueCents: null })).toMatch(/valueCents/)
+    expect(voucherBatchTermsError({ ...terms, type: 'percent_bonus' })).toMatch(/bonusBps/)
+    expect(voucherBatchTermsError({ ...terms, validFrom: batch.expiresAt, expiresAt: batch.validFrom })).toMatch(/validFrom/)
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import {
+  signWebhook,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_KID_HEADER
+} from '../server/webhook-signing'
+import type { storage as Storage } from '../server/storage'
+import type { webhookService as WebhookServiceInstance } from '../server/webhook-service'
+import type { keyManager as KeyManagerInstance } from '../server/key-manager'
+import { createTestWebhookEndpoint } from './fixtures'
+
+describe('Webhook signatures', () => {
+  const body = JSON.stringify({ id: 'evt_1', type: 'charge.confirmed', data: { amountCents: 5000 } })
+  const sign = (timestamp?: number) => signWebhook({ kid: 'kid_1', secret: 'test-secret', body, event: 'charge.confirmed', deliveryId: 'd_1', timestamp })
+
+  it('should verify its own signature and carry the kid', () => {
+    const headers = sign()
+    expect(headers[WEBHOOK_KID_HEADER]).toBe('kid_1')
+    expect(verifyWebhookSignature('test-secret', body, headers[WEBHOOK_SIGNATURE_HEADER])).toBe(true)
+  })
+
+  it('should reject a tampered body or another secret', () => {
+    const headers = sign()
+    expect(verifyWebhookSignature('test-secret', body.replace('5000', '9000'), headers[WEBHOOK_SIGNATURE_HEADER])).toBe(false)
+    expect(verifyWebhookSignature('other-secret', body, headers[WEBHOOK_SIGNATURE_HEADER])).toBe(false)
+  })
+
+  it('should reject stale and malformed signatures', () => {
+    const stale = sign(Date.now() - 10 * 60 * 1000)
+    expect(verifyWebhookSignature('test-secret', body, stale[WEBHOOK_SIGNATURE_HEADER])).toBe(false)
+    expect(verifyWebhookSignature('test-secret', body, 'garbage')).toBe(false)
+  })
+})
+
+// Potřebuje skutečnou databázi (DATABASE_URL), bez ní se testy přeskočí
+describe.skipIf(!process.env.DATABASE_URL)('Webhook delivery', () => {
+  let storage: typeof Storage
+  let webhookService: typeof WebhookServiceInstance
+  let keyManager: typeof KeyManagerInstance
+  let server: Server
+  let url: string
+  let respondWith = 200
+  const received: { headers: Record<string, any>; body: string }[] = []
+
+  beforeAll(async () => {
+    ({ storage } = await import('../server/storage'))
+    ;({ webhookService } = await import('../server/webhook-service'))
+    ;({ keyManager } = await import('../server/key-manager'))
+    await keyManager.ensureActiveKey('webhook_hmac', 'HMAC')
+
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        received.push({ headers: req.headers, body })
+        res.statusCode = respondWith
+        res.end()
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server?.close(resolve))
+  })
+
+  it('should sign deliveries with the active webhook_hmac key and retry failures', async () => {
+    const endpoint = await createTestWebhookEndpoint(url, ['adjustment.created'])
+
+    try {
+      respondWith = 500
+      await webhookService.emit('adjustment.created', { userId: 'u_1', amountCents: 100 })
+
+      // Prvotní pokus běží na pozadí
+      await expect.poll(async () => (await storage.getWebhookDeliveries({ endpointId: endpoint.id, limit: 1 }))[0]?.attempts, { timeout: 10_000 }).toBe(1)
+      const [failed] = await storage.getWebhookDeliveries({ endpointId: endpoint.id, limit: 1 })
+      expect(failed.status).toBe('pending')
+      expect(failed.lastStatusCode).toBe(500)
+      expect(failed.nextAttemptAt.getTime()).toBeGreaterThan(Date.now())
+
+      const { kid, privateMaterial } = await keyManager.getActiveKey('webhook_hmac')
+      const request = received[received.length - 1]
+      expect(request.headers[WEBHOOK_KID_HEADER]).toBe(kid)
+      expect(verifyWebhookSignature(privateMaterial, request.body, request.headers[WEBHOOK_SIGNATURE_HEADER])).toBe(true)
+
+      respondWith = 200
+      const replayed = await webhookService.replay(failed.id)
+      expect(replayed!.status).toBe('succeeded')
+      expect(replayed!.replayOf).toBe(failed.id)
+      expect(replayed!.eventId).toBe(failed.eventId)
+    } finally {
+      await storage.deleteWebhookEndpoint(endpoint.id)
+    }
+  }, 30_000)
+})